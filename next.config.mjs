@@ -36,6 +36,11 @@ const nextConfig = {
     ],
   },
 
+  // Load the local embedding model's runtime from node_modules rather than bundling it
+  experimental: {
+    serverComponentsExternalPackages: ['@xenova/transformers', 'onnxruntime-node'],
+  },
+
   // Custom webpack configuration to handle external URLs and Node.js modules
   webpack: (config, { isServer }) => {
     // Comprehensive list of Node.js modules to polyfill or ignore in browser
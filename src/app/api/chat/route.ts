@@ -12,35 +12,55 @@
 
 // Updated for Next.js 15+
 import { NextResponse } from 'next/dist/server/web/spec-extension/response';
-import { ChatRequest, ChatResponse, ApiErrorResponse } from '@/types/api';
+import { ChatRequest, ChatResponse, ChatStreamEvent, ApiErrorResponse } from '@/types/api';
 import { isApiKeyConfigured, getEnvDiagnostics, env } from '@/config/env';
-import { getModelResponse, generateThinkingSteps, MODEL_INFO } from '@/services/openai';
+import { 
+  getModelResponse, 
+  generateThinkingSteps, 
+  createProgressReporter, 
+  ProgressReporter, 
+  getModelInfo, 
+  getPersona, 
+  getPersonaVersion, 
+  listPersonas, 
+  ModelResponse, 
+  ModelResponseOptions 
+} from '@/services/openai';
+import { ChatMessage } from '@/services/openai/types';
+import { ToolContext } from '@/services/tools';
+import { formatModelTarget, getModelChain, ModelTarget } from '@/services/llm';
+import { UsageContext } from '@/services/usage';
+import { redactForLog } from '@/services/redaction';
+import { retrieveSources } from '@/services/langchain/retrievalChain';
+import { SourceReference } from '@/services/langchain/types';
+import { encodeStreamEvent } from '@/lib/sse';
+import { getChatCommand, parseChatCommand, validateChatCommand } from '@/lib/commands';
+import { DEFAULT_LANGUAGE, detectLanguageWithConfidence, isLanguage, Language, LANGUAGES, translatePlural } from '@/lib/i18n';
+import { 
+  Conversation, 
+  ConversationMessage, 
+  createConversation, 
+  getConversation, 
+  getConversationMessage, 
+  getOrCreateConversation, 
+  getConversationHistory, 
+  appendMessage, 
+  setConversationPersona, 
+  setConversationLanguage, 
+  cleanupInactiveConversations 
+} from '@/services/conversations';
+import { appendThreadMessages, createThread, getThread, titleFromMessage, updateThread, updateThreadMessage } from '@/services/threads';
+import { getMemoryContext, updateConversationMemory } from '@/services/memory';
+import { FollowUpProfile, generateFollowUps } from '@/services/followups';
+import { getProfile } from '@/services/profile';
 import { toast } from 'sonner';
 
-// Memory usage management
-const activeSessions: Map<string, {
-  lastActive: number;
-  messagesCount: number;
-}> = new Map();
-
-// Clean up sessions older than 30 minutes
-const SESSION_TIMEOUT = 30 * 60 * 1000; // 30 minutes in milliseconds
-const MAX_MESSAGES_PER_SESSION = 100;
-
-// Memory cleanup function
+// Drop idle conversations every 5 minutes to keep memory bounded
 function cleanupInactiveSessions() {
-  const now = Date.now();
-  let cleanedCount = 0;
-  
-  for (const [sessionId, session] of activeSessions.entries()) {
-    if (now - session.lastActive > SESSION_TIMEOUT) {
-      activeSessions.delete(sessionId);
-      cleanedCount++;
-    }
-  }
+  const cleanedCount = cleanupInactiveConversations();
   
   if (cleanedCount > 0) {
-    console.log(`Cleaned up ${cleanedCount} inactive chat sessions`);
+    console.log(`Cleaned up ${cleanedCount} inactive conversations`);
   }
   
   // Schedule the next cleanup
@@ -50,11 +70,427 @@ function cleanupInactiveSessions() {
 // Start the cleanup process
 cleanupInactiveSessions();
 
+// Maximum time to wait for the model before giving up
+const REQUEST_TIMEOUT_MS = 60000; // 60 seconds
+
+// Number of knowledge base chunks injected into the prompt
+const DEFAULT_KNOWLEDGE_BASE_TOP_K = 4;
+const MAX_KNOWLEDGE_BASE_TOP_K = 10;
+
+/**
+ * Get a model response, rejecting if it takes longer than REQUEST_TIMEOUT_MS
+ */
+async function getModelResponseWithTimeout(
+  message: string,
+  pdfContent: string | null | undefined,
+  profileContext: string | null | undefined,
+  useWebSearch: boolean,
+  options: ModelResponseOptions = {}
+): Promise<ModelResponse> {
+  let timeoutId: NodeJS.Timeout | null = null;
+  const timeoutPromise = new Promise<ModelResponse>((_, reject) => {
+    timeoutId = setTimeout(() => {
+      reject(new Error("Request timed out after 60 seconds. Your query may be too complex."));
+    }, REQUEST_TIMEOUT_MS);
+  });
+  
+  // Create the actual model response promise
+  const responsePromise = getModelResponse(message, pdfContent, profileContext, useWebSearch, options);
+  
+  // Race the timeout against the actual request
+  return Promise.race([responsePromise, timeoutPromise])
+    .finally(() => {
+      if (timeoutId) clearTimeout(timeoutId);
+    });
+}
+
+/**
+ * Tools the counselor may use for a chat request
+ * Profile lookup is only granted when the request identifies the student
+ */
+function getChatToolContext(userId?: string, collectionName?: string): ToolContext {
+  return {
+    permissions: [
+      'web_search',
+      'knowledge_base',
+      'planning',
+      ...(userId ? ['profile' as const] : [])
+    ],
+    userId,
+    collectionName
+  };
+}
+
+/**
+ * Get the conversation a request continues
+ * A saved thread whose in-memory conversation has been cleaned up is resumed
+ * from its stored messages, so the model still sees the earlier turns. A
+ * conversation or thread of another student is never continued; the request
+ * starts a new conversation instead.
+ */
+async function resumeConversation(
+  conversationId: string | null | undefined,
+  userId: string | undefined
+): Promise<Conversation> {
+  if (conversationId && userId && !(await getConversation(conversationId))) {
+    const thread = await getThread(conversationId);
+    if (thread && thread.userId === userId) {
+      console.log(`Resuming thread ${thread.id} with ${thread.messages.length} saved messages`);
+      return createConversation({
+        id: thread.id,
+        userId,
+        persona: thread.persona,
+        language: thread.language,
+        activeMessageId: thread.activeMessageId,
+        summary: thread.summary,
+        messages: thread.messages.map(m => ({
+          id: m.id,
+          role: m.role,
+          content: m.content,
+          parentId: m.parentId ?? null,
+          createdAt: m.timestamp,
+          model: m.modelInfo?.id,
+          promptVersion: m.promptVersion
+        }))
+      });
+    }
+  }
+
+  return getOrCreateConversation(conversationId, { userId });
+}
+
+/**
+ * Get the profile follow-up suggestions are tailored to
+ * The student's saved profile, or else the one the chat sent as profile context.
+ */
+async function getFollowUpProfile(
+  userId: string | undefined,
+  profileContext: string | null | undefined
+): Promise<FollowUpProfile | null> {
+  const saved = userId ? await getProfile({ userId }) : null;
+  if (saved) {
+    return saved;
+  }
+
+  const json = profileContext?.match(/\{[\s\S]*\}/);
+  if (!json) {
+    return null;
+  }
+  try {
+    return JSON.parse(json[0]) as FollowUpProfile;
+  } catch (error) {
+    console.warn('Could not read the profile context for follow-up suggestions');
+    return null;
+  }
+}
+
+/**
+ * Suggest questions to ask after an answer, or none when suggestions are turned off
+ */
+async function suggestFollowUps(
+  question: string,
+  modelResponse: ModelResponse,
+  history: ChatMessage[],
+  profile: FollowUpProfile | null,
+  userId: string | undefined,
+  language: Language
+): Promise<string[] | undefined> {
+  if (!env.FOLLOW_UPS_ENABLED) {
+    return undefined;
+  }
+
+  return generateFollowUps({
+    question,
+    answer: modelResponse.content || '',
+    history,
+    profile,
+    provider: modelResponse.provider,
+    userId,
+    language
+  });
+}
+
+// Where a new turn goes in the conversation tree
+interface TurnPlacement {
+  // Message the question follows; the end of the active branch when omitted.
+  // When regenerating, the question that is answered again.
+  parentId?: string | null;
+  regenerate?: boolean;
+}
+
+/**
+ * Save an exchange to the student's thread, starting the thread on the first one
+ * The answer is stored with everything the chat shows for it, so reopening the
+ * thread looks the same as the original conversation.
+ */
+async function saveExchangeToThread(
+  conversation: Conversation,
+  question: ConversationMessage | null,
+  answer: ConversationMessage,
+  modelResponse: ModelResponse,
+  followUps?: string[]
+): Promise<void> {
+  const userId = conversation.userId!;
+  const existingThread = await getThread(conversation.id);
+  // A conversation the student started before being identified brings its earlier turns along
+  const earlierMessages = existingThread
+    ? []
+    : conversation.messages.filter(m => m.id !== question?.id && m.id !== answer.id);
+  const thread = existingThread || await createThread({
+    id: conversation.id,
+    userId,
+    title: titleFromMessage(earlierMessages.find(m => m.role === 'user')?.content || question?.content || ''),
+    persona: conversation.persona,
+    language: conversation.language
+  });
+
+  if (thread.userId !== userId) {
+    console.warn(`Thread ${thread.id} belongs to another student; not saving the exchange`);
+    return;
+  }
+
+  await appendThreadMessages(thread.id, [
+    ...earlierMessages.map(m => ({
+      id: m.id,
+      role: m.role,
+      content: m.content,
+      parentId: m.parentId,
+      timestamp: m.createdAt
+    })),
+    ...(question ? [{
+      id: question.id,
+      role: question.role,
+      content: question.content,
+      parentId: question.parentId,
+      timestamp: question.createdAt
+    }] : []),
+    {
+      id: answer.id,
+      role: answer.role,
+      content: answer.content,
+      parentId: answer.parentId,
+      modelInfo: getModelInfo(modelResponse.model || env.PRIMARY_MODEL, modelResponse.provider),
+      webSearchResults: modelResponse.webSearchResults?.length ? modelResponse.webSearchResults : undefined,
+      sources: modelResponse.sources?.length ? modelResponse.sources : undefined,
+      citations: modelResponse.citations,
+      invalidCitations: modelResponse.invalidCitations,
+      promptBudget: modelResponse.promptBudget,
+      promptVersion: modelResponse.promptVersion,
+      followUps,
+      language: conversation.language,
+      timestamp: answer.createdAt
+    }
+  ]);
+}
+
+/**
+ * Store a completed user/assistant exchange so later turns can build on it
+ * A regenerated answer is added next to the earlier answers to the same question.
+ * Returns the IDs the messages were stored under.
+ */
+async function recordExchange(
+  conversation: Conversation,
+  userMessage: string,
+  modelResponse: ModelResponse,
+  placement: TurnPlacement = {},
+  followUps?: string[]
+): Promise<{ userMessageId?: string; messageId: string }> {
+  const question = placement.regenerate
+    ? null
+    : await appendMessage(conversation.id, { role: 'user', content: userMessage }, placement.parentId);
+  const answer = await appendMessage(conversation.id, { 
+    role: 'assistant', 
+    content: modelResponse.content || '', 
+    model: modelResponse.model,
+    promptVersion: modelResponse.promptVersion
+  }, question ? question.id : placement.parentId);
+
+  // Conversations of identified students are kept as threads they can reopen
+  if (conversation.userId) {
+    try {
+      await saveExchangeToThread(conversation, question, answer, modelResponse, followUps);
+    } catch (error) {
+      console.error('Error saving the exchange to its thread:', error);
+    }
+  }
+
+  // Summarizing and remembering facts need model calls, so the answer does not wait for them
+  updateConversationMemory(conversation, question);
+
+  return { userMessageId: question?.id, messageId: answer.id };
+}
+
+/**
+ * Save follow-up suggestions made after an answer was stored with its thread
+ */
+async function saveFollowUps(conversation: Conversation, messageId: string, followUps: string[]): Promise<void> {
+  if (!conversation.userId) {
+    return;
+  }
+  try {
+    await updateThreadMessage(conversation.id, messageId, { followUps });
+  } catch (error) {
+    console.error('Error saving follow-up suggestions to the thread:', error);
+  }
+}
+
+/**
+ * Stream a chat response as Server-Sent Events
+ * 
+ * Emits progress events as the pipeline works (replaying any reported before the
+ * stream opened), content deltas as the model generates them, then any web
+ * search results, the model info and a `done` event. Follow-up suggestions
+ * take another model call, so they are sent after `done` and saved to the
+ * thread once they arrive. If the client
+ * disconnects, the answer is still finished and recorded; only sending stops.
+ */
+function streamChatResponse(
+  conversation: Conversation,
+  message: string,
+  pdfContent: string | null | undefined,
+  profileContext: string | null | undefined,
+  useWebSearch: boolean,
+  modelOptions: Pick<ModelResponseOptions, 'toolContext' | 'knowledgeSources' | 'usageContext' | 'persona' | 'model' | 'language'>,
+  progress: ProgressReporter,
+  placement: TurnPlacement,
+  historyLeafId: string | null | undefined,
+  followUpProfile: FollowUpProfile | null
+): Response {
+  const encoder = new TextEncoder();
+  const startTime = Date.now();
+  
+  // Set once the client has gone away or the stream has been closed
+  let closed = false;
+  
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(encodeStreamEvent(event)));
+        } catch (error) {
+          console.warn('Chat stream closed while sending:', error);
+          closed = true;
+        }
+      };
+      let unsubscribe: (() => void) | null = null;
+      
+      try {
+        send({ type: 'conversation', conversationId: conversation.id });
+        unsubscribe = progress.subscribe(event => send({ type: 'progress', event }));
+        
+        // Sources are known before the answer starts, so the UI can show them as it streams
+        if (modelOptions.knowledgeSources && modelOptions.knowledgeSources.length > 0) {
+          send({ type: 'sources', sources: modelOptions.knowledgeSources });
+        }
+        
+        const history = await getConversationHistory(conversation.id, undefined, historyLeafId);
+        const memoryContext = await getMemoryContext(conversation, historyLeafId);
+        let streamedContent = '';
+        const modelResponse = await getModelResponseWithTimeout(message, pdfContent, profileContext, useWebSearch, {
+          ...modelOptions,
+          history,
+          memoryContext,
+          onProgress: progress.report,
+          // Show which model is working on the answer, including fallbacks
+          onModelSelected: (target) => send({ type: 'model', model: getModelInfo(target.model, target.provider) }),
+          onDelta: (content) => {
+            streamedContent += content;
+            send({ type: 'delta', content });
+          }
+        });
+        
+        if (!modelResponse.success) {
+          console.error('Model response failed:', modelResponse.error);
+          send({
+            type: 'error',
+            error: modelResponse.isTimeout
+              ? 'Your query timed out. Please try a simpler question or disable web search for faster responses.'
+              : modelResponse.error || 'Failed to generate response',
+            isTimeout: modelResponse.isTimeout
+          });
+          return;
+        }
+        
+        const stored = await recordExchange(conversation, message, modelResponse, placement);
+        
+        if (useWebSearch && modelResponse.webSearchResults && modelResponse.webSearchResults.length > 0) {
+          send({ type: 'webSearchResults', results: modelResponse.webSearchResults });
+        }
+        
+        if (modelResponse.promptBudget) {
+          send({ type: 'promptBudget', report: modelResponse.promptBudget });
+        }
+        
+        if (modelResponse.citations || modelResponse.invalidCitations) {
+          send({
+            type: 'citations',
+            citations: modelResponse.citations || [],
+            invalidCitations: modelResponse.invalidCitations,
+            content: modelResponse.content !== streamedContent ? modelResponse.content : undefined
+          });
+        }
+        
+        if (modelResponse.model) {
+          send({ type: 'model', model: getModelInfo(modelResponse.model, modelResponse.provider) });
+        }
+        
+        send({ type: 'done', promptVersion: modelResponse.promptVersion, language: modelOptions.language, ...stored });
+        console.log(`Streamed request completed in ${Date.now() - startTime}ms`);
+        
+        // Suggested while the answer is on screen, and saved with it
+        const followUps = await suggestFollowUps(
+          message,
+          modelResponse,
+          history,
+          followUpProfile,
+          modelOptions.usageContext?.userId,
+          modelOptions.language || DEFAULT_LANGUAGE
+        );
+        if (followUps && followUps.length > 0) {
+          send({ type: 'followUps', followUps });
+          await saveFollowUps(conversation, stored.messageId, followUps);
+        }
+      } catch (error) {
+        console.error('Streaming API error:', error);
+        
+        const isTimeoutError = error instanceof Error && 
+          (error.name === 'AbortError' || error.message.includes('timeout') || error.message.includes('timed out'));
+        
+        send({
+          type: 'error',
+          error: isTimeoutError
+            ? 'Request timed out. Please try a simpler question or disable web search for faster responses.'
+            : `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}`,
+          isTimeout: isTimeoutError
+        });
+      } finally {
+        unsubscribe?.();
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      console.log(`Client disconnected from conversation ${conversation.id}; finishing the answer without streaming it`);
+      closed = true;
+    }
+  });
+  
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
+
 /**
  * POST handler for chat API
  */
-export async function POST(request: Request): Promise<NextResponse<ChatResponse | ApiErrorResponse>> {
-  const sessionId = Math.random().toString(36).substring(2, 15);
+export async function POST(request: Request): Promise<NextResponse<ChatResponse | ApiErrorResponse> | Response> {
   const startTime = Date.now();
   
   try {
@@ -62,12 +498,35 @@ export async function POST(request: Request): Promise<NextResponse<ChatResponse
     
     // Parse and validate the request body
     const body = await request.json() as ChatRequest;
-    console.log('Request body:', body);
+    const progress = createProgressReporter(startTime);
+    // Student details are redacted and the uploaded document is summarized to keep them out of the logs
+    console.log('Request body:', redactForLog({
+      ...body,
+      pdfContent: body.pdfContent ? `[${body.pdfContent.length} characters]` : body.pdfContent
+    }));
     
-    const { message, pdfContent, profileContext, isWebSearch } = body;
+    const { 
+      message, 
+      pdfContent, 
+      profileContext, 
+      isWebSearch, 
+      stream, 
+      conversationId, 
+      userId,
+      useKnowledgeBase,
+      collectionName,
+      topK,
+      persona,
+      personaVersion,
+      personaVariables,
+      parentId,
+      regenerate,
+      model,
+      language
+    } = body;
 
-    // Validate required fields
-    if (!message) {
+    // Validate required fields; a regenerated answer reuses the stored question
+    if (!message && regenerate !== true) {
       console.error('Error: Message is required');
       return NextResponse.json(
         { error: 'Message is required' },
@@ -75,6 +534,54 @@ export async function POST(request: Request): Promise<NextResponse<ChatResponse
       );
     }
 
+    // A persona choice applies to this and later turns, so reject unknown ones up front
+    if (persona !== undefined) {
+      const registeredPersona = typeof persona === 'string' ? getPersona(persona) : undefined;
+      if (!registeredPersona) {
+        return NextResponse.json(
+          { error: `Unknown persona "${persona}". Expected one of: ${listPersonas().map(p => p.id).join(', ')}` },
+          { status: 400 }
+        );
+      }
+      if (personaVersion !== undefined && !getPersonaVersion(registeredPersona, personaVersion)) {
+        return NextResponse.json(
+          { error: `Persona "${persona}" has no version ${personaVersion}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (language !== undefined && language !== 'auto' && !isLanguage(language)) {
+      return NextResponse.json(
+        { error: `Unknown language "${language}". Expected "auto" or one of: ${Object.keys(LANGUAGES).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Slash commands such as "/search <question>" apply to this answer only
+    const command = regenerate === true ? null : parseChatCommand(message);
+    if (command) {
+      const commandError = validateChatCommand(command)
+        || (getChatCommand(command.name)!.target !== 'chat' ? `/${command.name} is only available in the chat window` : null)
+        || (!command.question ? `/${command.name} needs a question. Usage: ${getChatCommand(command.name)!.usage}` : null);
+      if (commandError) {
+        return NextResponse.json({ error: commandError }, { status: 400 });
+      }
+    }
+
+    // A model picked for this answer must be one the deployment is configured to use
+    let preferredModel: ModelTarget | undefined;
+    if (model !== undefined) {
+      const models = getModelChain();
+      preferredModel = models.find(target => formatModelTarget(target) === model);
+      if (!preferredModel) {
+        return NextResponse.json(
+          { error: `Unknown model "${model}". Expected one of: ${models.map(formatModelTarget).join(', ')}` },
+          { status: 400 }
+        );
+      }
+    }
+
     // Check API key configuration - in development mode, we'll continue even without an API key
     if (!isApiKeyConfigured() && env.NODE_ENV !== 'development') {
       console.error('Error: OpenAI API key is not configured');
@@ -87,22 +594,98 @@ export async function POST(request: Request): Promise<NextResponse<ChatResponse
       );
     }
     
-    // Track this session
-    activeSessions.set(sessionId, {
-      lastActive: Date.now(),
-      messagesCount: 1
-    });
+    // Link this request to the student's ongoing conversation
+    const conversation = await resumeConversation(conversationId, userId);
+    if (persona) {
+      await setConversationPersona(conversation.id, {
+        personaId: persona,
+        version: personaVersion,
+        variables: personaVariables && typeof personaVariables === 'object' ? personaVariables : undefined
+      });
+      if (userId) {
+        await updateThread(conversation.id, { persona: conversation.persona });
+      }
+    }
 
-    // Generate thinking steps for the response
-    const thinkingSteps = generateThinkingSteps(message, pdfContent, profileContext);
+    // Place the turn in the conversation tree; the model sees the branch leading up to it
+    const placement: TurnPlacement = {};
+    let historyLeafId: string | null | undefined;
+    let question = command ? command.question! : message;
+    if (regenerate === true) {
+      const regenerated = typeof parentId === 'string' ? await getConversationMessage(conversation.id, parentId) : null;
+      if (!regenerated || regenerated.role !== 'user') {
+        return NextResponse.json(
+          { error: 'The question to regenerate an answer for was not found in this conversation' },
+          { status: 400 }
+        );
+      }
+      placement.parentId = regenerated.id;
+      placement.regenerate = true;
+      historyLeafId = regenerated.parentId;
+      question = regenerated.content;
+    } else if (parentId !== undefined) {
+      if (parentId === null || await getConversationMessage(conversation.id, parentId)) {
+        placement.parentId = parentId;
+        historyLeafId = parentId;
+      } else {
+        console.log(`Message ${parentId} not found in conversation ${conversation.id}; continuing its active branch`);
+      }
+    }
+
+    // Answer in the chosen language, else the one the question is written in, else the conversation's so far.
+    // A conversation already under way only changes language when the question clearly is in another one.
+    const detected = detectLanguageWithConfidence(question);
+    const answerLanguage: Language = (language !== 'auto' && language)
+      || (detected && (detected.confident || !conversation.language) ? detected.language : null)
+      || conversation.language
+      || DEFAULT_LANGUAGE;
+    if (answerLanguage !== conversation.language) {
+      await setConversationLanguage(conversation.id, answerLanguage);
+      if (userId) {
+        await updateThread(conversation.id, { language: answerLanguage });
+      }
+    }
+
+    const knowledgeBase = command?.name === 'kb' ? command.argument : collectionName;
+    const toolContext = getChatToolContext(userId, knowledgeBase);
+    const usageContext: UsageContext = { feature: 'chat', userId };
 
     // Get model response with web search if requested
-    const useWebSearch = isWebSearch === true;
+    const useWebSearch = isWebSearch === true || command?.name === 'search';
     console.log(`Processing request with web search: ${useWebSearch ? 'enabled' : 'disabled'}`);
     
+    // Ground the answer in the knowledge base when requested
+    let knowledgeSources: SourceReference[] | undefined;
+    if (useKnowledgeBase || command?.name === 'kb') {
+      const limit = Math.min(Math.max(topK || DEFAULT_KNOWLEDGE_BASE_TOP_K, 1), MAX_KNOWLEDGE_BASE_TOP_K);
+      const retrievalStart = Date.now();
+      knowledgeSources = await retrieveSources(question, knowledgeBase || 'default', limit);
+      console.log(`Retrieved ${knowledgeSources.length} knowledge base sources from "${knowledgeBase || 'default'}"`);
+      progress.report({
+        stage: 'retrieval',
+        label: translatePlural(answerLanguage, 'progress.retrieval', knowledgeSources.length, { collection: knowledgeBase || 'default' }),
+        durationMs: Date.now() - retrievalStart
+      });
+    }
+    
+    // Callers that opt in get the response as a Server-Sent Events stream
+    if (stream === true) {
+      return streamChatResponse(conversation, question, pdfContent, profileContext, useWebSearch, {
+        toolContext,
+        knowledgeSources,
+        usageContext,
+        persona: conversation.persona,
+        model: preferredModel,
+        language: answerLanguage
+      }, progress, placement, historyLeafId, await getFollowUpProfile(userId, profileContext));
+    }
+
+    // Keyword-based steps for clients that do not show the reported progress
+    const thinkingSteps = generateThinkingSteps(question, pdfContent, profileContext, answerLanguage);
+    
     // Define test query for web search verification
-    const isTestMode = message === "TEST_WEB_SEARCH";
-    let testQuery = null;
+    const isTestMode = question === "TEST_WEB_SEARCH";
+    let testQuery: string | null = null;
     
     if (isTestMode) {
       testQuery = "What are the current top universities for computer science in 2024?";
@@ -111,24 +694,22 @@ export async function POST(request: Request): Promise<NextResponse<ChatResponse
     }
     
     // Use test query if in test mode, otherwise use the user's message
-    const queryToUse = isTestMode ? testQuery : message;
-    
-    // Add timeout for the API request
-    let timeoutId: NodeJS.Timeout | null = null;
-    const timeoutPromise = new Promise<ModelResponse>((_, reject) => {
-      timeoutId = setTimeout(() => {
-        reject(new Error("Request timed out after 60 seconds. Your query may be too complex."));
-      }, 60000); // 60 second timeout
-    });
+    const queryToUse = isTestMode && testQuery ? testQuery : question;
     
-    // Create the actual model response promise
-    const responsePromise = getModelResponse(queryToUse, pdfContent, profileContext, useWebSearch);
-    
-    // Race the timeout against the actual request
-    const modelResponse = await Promise.race([responsePromise, timeoutPromise])
-      .finally(() => {
-        if (timeoutId) clearTimeout(timeoutId);
-      });
+    // Get the model response, giving up after the request timeout
+    const history = await getConversationHistory(conversation.id, undefined, historyLeafId);
+    const memoryContext = await getMemoryContext(conversation, historyLeafId);
+    const modelResponse = await getModelResponseWithTimeout(queryToUse, pdfContent, profileContext, useWebSearch, { 
+      history, 
+      memoryContext,
+      toolContext, 
+      knowledgeSources,
+      usageContext,
+      persona: conversation.persona,
+      model: preferredModel,
+      language: answerLanguage,
+      onProgress: progress.report
+    });
     
     // Log detailed response for test mode
     if (isTestMode) {
@@ -165,22 +746,18 @@ export async function POST(request: Request): Promise<NextResponse<ChatResponse
       );
     }
     
-    // Determine which model was used
-    // In a real implementation, this should come from the response
-    const modelId = env.PRIMARY_MODEL;
-    const modelInfo = MODEL_INFO[modelId];
+    // Report the model that actually answered, which may be a fallback
+    const modelInfo = getModelInfo(modelResponse.model || env.PRIMARY_MODEL, modelResponse.provider);
     
-    // Update the session's active status and message count
-    const session = activeSessions.get(sessionId);
-    if (session) {
-      session.lastActive = Date.now();
-      session.messagesCount++;
-      
-      // If this session has too many messages, log a warning
-      if (session.messagesCount > MAX_MESSAGES_PER_SESSION) {
-        console.warn(`Session ${sessionId} has exceeded ${MAX_MESSAGES_PER_SESSION} messages, consider cleanup`);
-      }
-    }
+    const followUps = await suggestFollowUps(
+      queryToUse,
+      modelResponse,
+      history,
+      await getFollowUpProfile(userId, profileContext),
+      userId,
+      answerLanguage
+    );
+    const stored = await recordExchange(conversation, queryToUse, modelResponse, placement, followUps);
     
     // Calculate response time
     const responseTime = Date.now() - startTime;
@@ -190,12 +767,19 @@ export async function POST(request: Request): Promise<NextResponse<ChatResponse
     // Prepare response object
     const response: ChatResponse = {
       message: modelResponse.content!,
-      model: {
-        ...modelInfo
-      },
-      thinking: thinkingSteps
+      conversationId: conversation.id,
+      model: modelInfo,
+      thinking: thinkingSteps,
+      progress: progress.events,
+      promptVersion: modelResponse.promptVersion,
+      language: answerLanguage,
+      ...stored
     };
     
+    if (modelResponse.attempts && modelResponse.attempts.length > 1) {
+      response.attempts = modelResponse.attempts;
+    }
+    
     // Add web search results if available
     if (useWebSearch) {
       response.webSearchAttempted = modelResponse.webSearchAttempted;
@@ -204,13 +788,30 @@ export async function POST(request: Request): Promise<NextResponse<ChatResponse
       }
     }
     
+    if (modelResponse.sources && modelResponse.sources.length > 0) {
+      response.sources = modelResponse.sources;
+    }
+    
+    if (modelResponse.citations) {
+      response.citations = modelResponse.citations;
+    }
+    
+    if (modelResponse.invalidCitations) {
+      response.invalidCitations = modelResponse.invalidCitations;
+    }
+    
+    if (modelResponse.promptBudget) {
+      response.promptBudget = modelResponse.promptBudget;
+    }
+    
+    if (followUps && followUps.length > 0) {
+      response.followUps = followUps;
+    }
+    
     return NextResponse.json(response);
   } catch (error) {
     console.error('API error:', error);
     
-    // Remove this session from tracking on error
-    activeSessions.delete(sessionId);
-    
     // Determine if it's a timeout error
     const isTimeoutError = error instanceof Error && 
       (error.name === 'AbortError' || error.message.includes('timeout'));
@@ -8,10 +8,12 @@
 // Updated for Next.js 15+
 import { NextResponse } from 'next/dist/server/web/spec-extension/response';
 import { isApiKeyConfigured, getEnvDiagnostics } from '@/config/env';
+import { getCircuitStatuses } from '@/services/llm';
 
 export async function GET() {
   return NextResponse.json({
     openaiApiKey: isApiKeyConfigured() ? 'set' : 'missing',
     ...getEnvDiagnostics(),
+    circuits: getCircuitStatuses(),
   });
 } 
\ No newline at end of file
@@ -0,0 +1,59 @@
+/**
+ * Export API Endpoint
+ *
+ * Renders a conversation as a downloadable Markdown, JSON or HTML file
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { EXPORT_FORMATS, ExportFormat, exportConversation } from '@/services/export';
+
+// POST /api/export - Render the posted conversation in the requested format
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const format: ExportFormat = body.format || 'markdown';
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Unknown format "${format}". Expected one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(body.messages) || body.messages.length === 0) {
+      return NextResponse.json({ error: 'There are no messages to export' }, { status: 400 });
+    }
+
+    const messages = body.messages.filter((message: any) =>
+      message && (message.role === 'user' || message.role === 'assistant') && typeof message.content === 'string'
+    );
+    if (messages.length !== body.messages.length) {
+      return NextResponse.json(
+        { error: 'Every message needs a role of "user" or "assistant" and text content' },
+        { status: 400 }
+      );
+    }
+
+    const file = exportConversation({
+      conversationId: body.conversationId,
+      title: typeof body.title === 'string' ? body.title : undefined,
+      profile: body.profile,
+      messages
+    }, format);
+
+    console.log(`Exported conversation ${body.conversationId || '(unsaved)'} as ${format}: ${messages.length} messages`);
+
+    return new NextResponse(file.content, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`
+      }
+    });
+  } catch (error) {
+    console.error('Error in export POST:', error);
+    return NextResponse.json(
+      { error: `An error occurred: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
@@ -10,6 +10,7 @@
 import { NextResponse } from 'next/dist/server/web/spec-extension/response';
 import { askQuestion } from '@/services/langchain/retrievalChain';
 import { env } from '@/config/env';
+import { redactForLog } from '@/services/redaction';
 
 export async function POST(request: Request) {
   try {
@@ -38,10 +39,10 @@ export async function POST(request: Request) {
       );
     }
     
-    console.log(`Processing question: "${question}" using collection: ${collection}, web search: ${web_search}`);
+    console.log(`Processing question: "${redactForLog(question)}" using collection: ${collection}, web search: ${web_search}`);
     
+    // The language model provider comes from the environment configuration
     const apiKeys = {
-      openaiApiKey: env.OPENAI_API_KEY,
       tavilyApiKey: tavily_api_key
     };
     
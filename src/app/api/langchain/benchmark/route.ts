@@ -0,0 +1,80 @@
+/**
+ * LangChain Vector Index Benchmark API
+ * 
+ * Compares the HNSW index with exact search: how many of the true nearest
+ * neighbours the index finds (recall@k) and how long each takes per query.
+ * Runs against a collection, or against synthetic vectors when size is given.
+ */
+
+import { NextResponse } from 'next/server';
+import { createVectorStore } from '@/services/langchain/vectorStore';
+import { benchmarkAnnIndex, createSyntheticVectors, HnswIndex } from '@/services/langchain/annIndex';
+import path from 'path';
+
+// Keep synthetic runs small enough to finish within a request
+const MAX_SYNTHETIC_SIZE = 10000;
+const MAX_DIMENSION = 1536;
+const MAX_QUERIES = 500;
+
+// GET /api/langchain/benchmark - Recall and latency of indexed versus exact search
+export async function GET(request: Request): Promise<NextResponse> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const collection = searchParams.get('collection') || 'default';
+    const queries = Math.min(parseInt(searchParams.get('queries') || '50', 10), MAX_QUERIES);
+    const k = parseInt(searchParams.get('k') || '5', 10);
+    const ef = searchParams.has('ef') ? parseInt(searchParams.get('ef')!, 10) : undefined;
+    const size = searchParams.has('size') ? parseInt(searchParams.get('size')!, 10) : undefined;
+    const dimension = parseInt(searchParams.get('dimension') || '384', 10);
+    
+    if (!(queries > 0) || !(k > 0) || (ef !== undefined && !(ef > 0))) {
+      return NextResponse.json(
+        { success: false, error: 'queries, k and ef must be positive numbers' },
+        { status: 400 }
+      );
+    }
+    
+    if (size !== undefined) {
+      if (!(size > 0) || size > MAX_SYNTHETIC_SIZE || !(dimension > 0) || dimension > MAX_DIMENSION) {
+        return NextResponse.json(
+          { success: false, error: `size must be between 1 and ${MAX_SYNTHETIC_SIZE} and dimension between 1 and ${MAX_DIMENSION}` },
+          { status: 400 }
+        );
+      }
+      
+      const vectors = createSyntheticVectors(size + queries, dimension);
+      const index = new HnswIndex();
+      const start = performance.now();
+      vectors.slice(0, size).forEach((vector, id) => index.add(id, vector));
+      const buildMs = Math.round(performance.now() - start);
+      
+      const report = benchmarkAnnIndex(index, vectors.slice(size), k, ef);
+      console.log(`Benchmarked synthetic index of ${size} vectors: recall ${report.recall}, speedup ${report.speedup}x`);
+      
+      return NextResponse.json({ success: true, source: 'synthetic', buildMs, report });
+    }
+    
+    const vectorStore = await createVectorStore({
+      collectionName: collection,
+      persistDirectory: path.join(process.cwd(), "data", "vectorstore")
+    });
+    
+    if (vectorStore.getDocumentCount() === 0) {
+      return NextResponse.json(
+        { success: false, error: `Collection ${collection} is empty; pass size to benchmark synthetic vectors instead` },
+        { status: 400 }
+      );
+    }
+    
+    const report = await vectorStore.benchmarkSearch(queries, k, ef);
+    console.log(`Benchmarked index of collection ${collection}: recall ${report.recall}, speedup ${report.speedup}x`);
+    
+    return NextResponse.json({ success: true, source: 'collection', collection, report });
+  } catch (error) {
+    console.error(`Error benchmarking vector index: ${error}`);
+    return NextResponse.json(
+      { success: false, error: `An error occurred: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
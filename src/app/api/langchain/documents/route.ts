@@ -0,0 +1,60 @@
+/**
+ * LangChain Documents API
+ * 
+ * Lists the documents uploaded to a collection, with their chunk counts,
+ * upload time, size and version, and deletes a single document's chunks.
+ * Replacing a document goes through /api/langchain/process-document with
+ * replaceDocumentId.
+ */
+
+import { NextResponse } from 'next/server';
+import { deleteCollectionDocument, listCollectionDocuments } from '@/services/langchain/documentLoaders';
+
+// GET /api/langchain/documents - The documents in ?collection=, newest first
+export async function GET(request: Request): Promise<NextResponse> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const collection = searchParams.get('collection') || 'default';
+    
+    const documents = await listCollectionDocuments(collection);
+    return NextResponse.json({ success: true, collection, documents });
+  } catch (error) {
+    console.error(`Error listing documents: ${error}`);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/langchain/documents - Delete the chunks of ?documentId= from ?collection=
+export async function DELETE(request: Request): Promise<NextResponse> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const collection = searchParams.get('collection') || 'default';
+    const documentId = searchParams.get('documentId');
+    
+    if (!documentId) {
+      return NextResponse.json(
+        { success: false, error: 'Document ID is required' },
+        { status: 400 }
+      );
+    }
+    
+    const removedChunks = await deleteCollectionDocument(collection, documentId);
+    if (removedChunks === 0) {
+      return NextResponse.json(
+        { success: false, error: `Document ${documentId} not found in collection ${collection}` },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true, documentId, removedChunks });
+  } catch (error) {
+    console.error(`Error deleting document: ${error}`);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -3,14 +3,22 @@
  * 
  * This endpoint handles document uploads and processes them with LangChain.
  * It uses multipart form data to receive files and adds them to the vector store.
+ *
+ * Uploading a file whose name is already in the collection returns 409 with the
+ * existing document, unless onDuplicate says to "replace" it (as its next
+ * version) or "keep" both. replaceDocumentId replaces a specific document.
  */
 
 import { NextResponse } from 'next/server';
-import { processDocument } from '@/services/langchain/documentLoaders';
+import { listCollectionDocuments, processDocument } from '@/services/langchain/documentLoaders';
+import { CollectionDocument } from '@/services/langchain/types';
 
 // Maximum file size (10MB)
 const MAX_FILE_SIZE = 10 * 1024 * 1024;
 
+// Form fields that steer the upload rather than being stored as chunk metadata
+const CONTROL_FIELDS = ['file', 'collection', 'onDuplicate', 'replaceDocumentId'];
+
 /**
  * Response type for the document processing API
  */
@@ -21,6 +29,10 @@ interface ProcessResponse {
   chunks?: number;
   error?: string;
   metadata?: Record<string, any>;
+  version?: number;
+  replacedDocumentId?: string;
+  // The document with the same filename, when the upload was held back as a duplicate
+  duplicate?: CollectionDocument;
 }
 
 /**
@@ -43,15 +55,24 @@ export async function POST(request: Request): Promise<NextResponse<ProcessRespon
     const formData = await request.formData();
     const file = formData.get('file') as File | null;
     const collectionName = formData.get('collection') as string || 'default';
+    const onDuplicate = formData.get('onDuplicate') as string || 'ask';
+    let replaceDocumentId = formData.get('replaceDocumentId') as string || undefined;
     
     // Get metadata from form data
     const metadata: Record<string, any> = {};
     for (const [key, value] of formData.entries()) {
-      if (key !== 'file' && key !== 'collection') {
+      if (!CONTROL_FIELDS.includes(key)) {
         metadata[key] = value;
       }
     }
     
+    if (!['ask', 'replace', 'keep'].includes(onDuplicate)) {
+      return NextResponse.json(
+        { success: false, error: 'onDuplicate must be one of: ask, replace, keep' },
+        { status: 400 }
+      );
+    }
+    
     // Validate file
     if (!file) {
       return NextResponse.json(
@@ -71,10 +92,34 @@ export async function POST(request: Request): Promise<NextResponse<ProcessRespon
       );
     }
     
-    console.log(`Processing document: ${file.name}, size: ${file.size} bytes, type: ${file.type}, collection: ${collectionName}`);
+    const existingDocuments = await listCollectionDocuments(collectionName);
+    if (replaceDocumentId && !existingDocuments.some(doc => doc.documentId === replaceDocumentId)) {
+      return NextResponse.json(
+        { success: false, error: `Document ${replaceDocumentId} not found in collection ${collectionName}` },
+        { status: 404 }
+      );
+    }
+    
+    // A file with the same name is replaced or kept alongside only when asked to
+    if (!replaceDocumentId && onDuplicate !== 'keep') {
+      const duplicate = existingDocuments.find(doc => doc.filename === file.name);
+      if (duplicate && onDuplicate === 'ask') {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `A document named ${file.name} is already in collection ${collectionName}`,
+            duplicate
+          },
+          { status: 409 }
+        );
+      }
+      replaceDocumentId = duplicate?.documentId;
+    }
+    
+    console.log(`Processing document: ${file.name}, size: ${file.size} bytes, type: ${file.type}, collection: ${collectionName}${replaceDocumentId ? `, replacing: ${replaceDocumentId}` : ''}`);
     
     // Process the document with LangChain
-    const result = await processDocument(file, collectionName, metadata);
+    const result = await processDocument(file, collectionName, metadata, { replaceDocumentId });
     
     if (!result.success) {
       return NextResponse.json(
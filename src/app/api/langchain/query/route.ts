@@ -3,11 +3,17 @@
  * 
  * This endpoint handles semantic search queries against the vector store.
  * It accepts a query parameter and returns semantically similar documents.
+ * Pass exact=true to bypass the index and compare against every document.
+ * The mode parameter chooses vector, lexical (BM25) or hybrid search, and
+ * filter narrows the search to chunks whose metadata matches (see
+ * src/lib/metadataFilter.ts); on GET it is passed as a JSON string.
  */
 
 import { NextResponse } from 'next/server';
 import { queryVectorStore } from '@/services/langchain/vectorStore';
-import { RetrievalResult } from '@/services/langchain/types';
+import { RetrievalResult, SEARCH_MODES, SearchMode } from '@/services/langchain/types';
+import { redactForLog } from '@/services/redaction';
+import { MetadataFilter, validateMetadataFilter } from '@/lib/metadataFilter';
 
 export async function GET(request: Request): Promise<NextResponse<RetrievalResult>> {
   try {
@@ -17,6 +23,9 @@ export async function GET(request: Request): Promise<NextResponse<RetrievalResul
     const limit = parseInt(searchParams.get('limit') || '5', 10);
     const threshold = parseFloat(searchParams.get('threshold') || '0.6');
     const page = parseInt(searchParams.get('page') || '1', 10);
+    const exact = searchParams.has('exact') ? searchParams.get('exact') === 'true' : undefined;
+    const mode = searchParams.get('mode') || undefined;
+    const filterParam = searchParams.get('filter');
     
     if (!query) {
       return NextResponse.json(
@@ -25,7 +34,34 @@ export async function GET(request: Request): Promise<NextResponse<RetrievalResul
       );
     }
     
-    console.log(`Processing vector store query: "${query}" in collection: ${collection}, page: ${page}, limit: ${limit}, threshold: ${threshold}`);
+    if (mode !== undefined && !SEARCH_MODES.includes(mode as SearchMode)) {
+      return NextResponse.json(
+        { success: false, error: `mode must be one of: ${SEARCH_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    let filter: MetadataFilter | undefined;
+    if (filterParam) {
+      try {
+        filter = JSON.parse(filterParam);
+      } catch {
+        return NextResponse.json(
+          { success: false, error: 'filter must be a JSON object' },
+          { status: 400 }
+        );
+      }
+    }
+    
+    const filterError = filter !== undefined ? validateMetadataFilter(filter) : null;
+    if (filterError) {
+      return NextResponse.json(
+        { success: false, error: filterError },
+        { status: 400 }
+      );
+    }
+    
+    console.log(`Processing vector store query: "${redactForLog(query)}" in collection: ${collection}, page: ${page}, limit: ${limit}, threshold: ${threshold}`);
     
     const results = await queryVectorStore(
       query,
@@ -33,7 +69,8 @@ export async function GET(request: Request): Promise<NextResponse<RetrievalResul
       undefined,
       limit,
       threshold,
-      page
+      page,
+      { mode: mode as SearchMode | undefined, exact, filter }
     );
     
     return NextResponse.json(results);
@@ -66,7 +103,10 @@ export async function POST(request: Request): Promise<NextResponse<RetrievalResu
       collection = 'default', 
       limit = 5,
       threshold = 0.6,
-      page = 1 
+      page = 1,
+      exact,
+      mode,
+      filter
     } = body;
     
     if (!query) {
@@ -76,7 +116,22 @@ export async function POST(request: Request): Promise<NextResponse<RetrievalResu
       );
     }
     
-    console.log(`Processing vector store query: "${query}" in collection: ${collection}, page: ${page}, limit: ${limit}, threshold: ${threshold}`);
+    if (mode !== undefined && !SEARCH_MODES.includes(mode as SearchMode)) {
+      return NextResponse.json(
+        { success: false, error: `mode must be one of: ${SEARCH_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    const filterError = filter !== undefined ? validateMetadataFilter(filter) : null;
+    if (filterError) {
+      return NextResponse.json(
+        { success: false, error: filterError },
+        { status: 400 }
+      );
+    }
+    
+    console.log(`Processing vector store query: "${redactForLog(query)}" in collection: ${collection}, page: ${page}, limit: ${limit}, threshold: ${threshold}`);
     
     const results = await queryVectorStore(
       query,
@@ -84,7 +139,8 @@ export async function POST(request: Request): Promise<NextResponse<RetrievalResu
       undefined,
       limit,
       threshold,
-      page
+      page,
+      { mode: mode as SearchMode | undefined, exact, filter }
     );
     
     return NextResponse.json(results);
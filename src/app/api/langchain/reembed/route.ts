@@ -0,0 +1,52 @@
+/**
+ * API route for re-embedding a vector store collection
+ * 
+ * Embeds every chunk of a collection again with the configured embedding model,
+ * so a collection built with another model can be queried after switching.
+ */
+
+import { NextResponse } from 'next/server';
+import { createVectorStore } from '@/services/langchain/vectorStore';
+import path from 'path';
+
+/**
+ * Re-embed a collection with the configured embedding model
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  try {
+    // Parse request
+    const data = await request.json();
+    const { collectionName } = data;
+    
+    if (!collectionName) {
+      return NextResponse.json(
+        { success: false, error: 'Collection name is required' },
+        { status: 400 }
+      );
+    }
+    
+    // Default vector store directory
+    const persistDirectory = path.join(process.cwd(), "data", "vectorstore");
+    
+    const vectorStore = await createVectorStore({ 
+      collectionName,
+      persistDirectory
+    });
+    
+    const previousModel = vectorStore.getEmbeddingModel();
+    const embeddedChunks = await vectorStore.reembed();
+    
+    return NextResponse.json({ 
+      success: true, 
+      previousModel,
+      embedding: vectorStore.getEmbeddingModel(),
+      embeddedChunks
+    });
+  } catch (error) {
+    console.error(`Error re-embedding collection: ${error}`);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Memory API Endpoint
+ *
+ * Lets a student see the facts the counselor remembers about them across
+ * conversations, and delete any of them.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { clearStudentFacts, deleteStudentFact, getStudentFacts } from '@/services/memory';
+
+// GET /api/memory - Facts remembered about the student given by ?userId=
+export async function GET(request: NextRequest) {
+  try {
+    const userId = request.nextUrl.searchParams.get('userId');
+
+    if (!userId) {
+      return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
+    }
+
+    const facts = await getStudentFacts(userId);
+    return NextResponse.json({ facts });
+  } catch (error) {
+    console.error('Error in memory GET:', error);
+    return NextResponse.json(
+      { error: `An error occurred: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/memory - Forget one fact via ?userId=&id=, or every fact when no ID is given
+export async function DELETE(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const userId = searchParams.get('userId');
+    const id = searchParams.get('id');
+
+    if (!userId) {
+      return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
+    }
+
+    if (!id) {
+      const deleted = await clearStudentFacts(userId);
+      return NextResponse.json({ success: true, deleted });
+    }
+
+    if (!(await deleteStudentFact(userId, id))) {
+      return NextResponse.json({ error: 'Fact not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, deleted: 1 });
+  } catch (error) {
+    console.error('Error in memory DELETE:', error);
+    return NextResponse.json(
+      { error: `An error occurred: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
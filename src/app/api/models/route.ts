@@ -0,0 +1,30 @@
+/**
+ * Models API Endpoint
+ *
+ * Lists the models a chat answer can be generated with, in the order the
+ * fallback chain tries them, so the chat can offer to regenerate an answer
+ * with a different one.
+ */
+
+import { NextResponse } from 'next/server';
+import { formatModelTarget, getModelChain } from '@/services/llm';
+import { getModelInfo } from '@/services/openai';
+
+// GET /api/models - Models of the configured chain
+export async function GET() {
+  try {
+    return NextResponse.json({
+      models: getModelChain().map(target => ({
+        id: formatModelTarget(target),
+        ...target,
+        name: getModelInfo(target.model, target.provider).name
+      }))
+    });
+  } catch (error) {
+    console.error('Error in models GET:', error);
+    return NextResponse.json(
+      { error: `An error occurred: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Personas API Endpoint
+ *
+ * Lists the counselor personas a conversation can use, with their versions and
+ * template variables. Templates are only included for a single persona.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDefaultPersonaId, getPersona, listPersonas } from '@/services/openai/personas';
+
+// GET /api/personas - All personas, or one persona with its templates via ?id=
+export async function GET(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+
+    if (id) {
+      const persona = getPersona(id);
+      if (!persona) {
+        return NextResponse.json({ error: `Persona "${id}" not found` }, { status: 404 });
+      }
+      return NextResponse.json(persona);
+    }
+
+    return NextResponse.json({
+      defaultPersona: getDefaultPersonaId(),
+      personas: listPersonas().map(({ versions, ...persona }) => ({
+        ...persona,
+        versions: versions.map(({ template, ...version }) => version)
+      }))
+    });
+  } catch (error) {
+    console.error('Error in personas GET:', error);
+    return NextResponse.json(
+      { error: `An error occurred: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Threads API Endpoint
+ *
+ * Lists, reopens, renames, pins, archives and deletes a student's saved
+ * conversations. Every request names the student, and threads of other
+ * students are reported as not found.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteThread, getThread, listThreads, ThreadUpdate, updateThread } from '@/services/threads';
+import { setConversationActiveMessage } from '@/services/conversations';
+
+async function getOwnThread(id: string, userId: string) {
+  const thread = await getThread(id);
+  return thread && thread.userId === userId ? thread : null;
+}
+
+// GET /api/threads - A student's threads, filtered with ?q= and ?archived=true, or one thread with its messages via ?id=
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const userId = searchParams.get('userId');
+    const id = searchParams.get('id');
+
+    if (!userId) {
+      return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
+    }
+
+    if (id) {
+      const thread = await getOwnThread(id, userId);
+      if (!thread) {
+        return NextResponse.json({ error: 'Thread not found' }, { status: 404 });
+      }
+      return NextResponse.json(thread);
+    }
+
+    const threads = await listThreads(userId, {
+      query: searchParams.get('q') || undefined,
+      includeArchived: searchParams.get('archived') === 'true'
+    });
+
+    return NextResponse.json({ threads });
+  } catch (error) {
+    console.error('Error in threads GET:', error);
+    return NextResponse.json(
+      { error: `An error occurred: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/threads - Rename, pin or archive a thread, or switch the branch it shows
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { id, userId, title, pinned, archived, activeMessageId } = body;
+
+    if (!id || !userId) {
+      return NextResponse.json({ error: 'Thread ID and user ID are required' }, { status: 400 });
+    }
+
+    const updates: ThreadUpdate = {};
+    if (title !== undefined) {
+      if (typeof title !== 'string' || !title.trim()) {
+        return NextResponse.json({ error: 'Title must be a non-empty string' }, { status: 400 });
+      }
+      updates.title = title;
+    }
+    if (pinned !== undefined) updates.pinned = pinned === true;
+    if (archived !== undefined) updates.archived = archived === true;
+    if (activeMessageId !== undefined) {
+      if (activeMessageId !== null && typeof activeMessageId !== 'string') {
+        return NextResponse.json({ error: 'Active message ID must be a string or null' }, { status: 400 });
+      }
+      updates.activeMessageId = activeMessageId;
+    }
+
+    if (!(await getOwnThread(id, userId))) {
+      return NextResponse.json({ error: 'Thread not found' }, { status: 404 });
+    }
+
+    const thread = await updateThread(id, updates);
+    // Later turns continue the branch the student is now looking at
+    if (updates.activeMessageId !== undefined) {
+      await setConversationActiveMessage(id, updates.activeMessageId);
+    }
+    const { messages, ...summary } = thread!;
+    return NextResponse.json({ ...summary, messageCount: messages.length });
+  } catch (error) {
+    console.error('Error in threads PATCH:', error);
+    return NextResponse.json(
+      { error: `An error occurred: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/threads - Delete a thread via ?id= and ?userId=
+export async function DELETE(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const id = searchParams.get('id');
+    const userId = searchParams.get('userId');
+
+    if (!id || !userId) {
+      return NextResponse.json({ error: 'Thread ID and user ID are required' }, { status: 400 });
+    }
+
+    if (!(await getOwnThread(id, userId))) {
+      return NextResponse.json({ error: 'Thread not found' }, { status: 404 });
+    }
+
+    await deleteThread(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in threads DELETE:', error);
+    return NextResponse.json(
+      { error: `An error occurred: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Usage API Endpoint
+ *
+ * Reports token usage and estimated spend per student, per day and per feature,
+ * and accepts usage from model calls made in the browser
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  findPricedModel,
+  getUsageSummary,
+  listUsage,
+  recordUsage,
+  UsageFeature,
+  USAGE_FEATURES
+} from '@/services/usage';
+import { LLMProviderName } from '@/services/llm/types';
+import { parseModelChain } from '@/services/llm/fallback';
+import { getContextWindow } from '@/services/openai/budget';
+import { env } from '@/config/env';
+
+const PROVIDERS: LLMProviderName[] = ['openai', 'local', 'fake'];
+
+// Only these features call the model from the browser; the rest record their usage on the server
+const BROWSER_FEATURES: UsageFeature[] = ['recommendations', 'project_details', 'competition_details'];
+
+const USER_ID_PATTERN = /^[\w-]{1,100}$/;
+
+/**
+ * Check that a client-reported model is one the app could have called
+ * Either a model with known pricing or one named in the model configuration.
+ */
+function isKnownModel(model: string): boolean {
+  const configured = parseModelChain(env.MODEL_CHAIN || `${env.PRIMARY_MODEL},${env.FALLBACK_MODEL}`, env.LLM_PROVIDER)
+    .map(target => target.model);
+
+  return Boolean(findPricedModel(model)) || [...configured, env.WEB_BROWSING_MODEL, env.LOCAL_LLM_MODEL].includes(model);
+}
+
+/**
+ * Validate a usage entry reported by the browser
+ * The endpoint is unauthenticated, so anything a real call could not have produced is rejected
+ * rather than letting it skew a student's spend.
+ * @returns An error message, or null when the entry is valid
+ */
+function validateReportedUsage(body: any): string | null {
+  const { feature, userId, provider, model, promptTokens, completionTokens, tokensEstimated } = body || {};
+
+  if (!BROWSER_FEATURES.includes(feature)) {
+    return `feature must be one of: ${BROWSER_FEATURES.join(', ')}`;
+  }
+  if (!PROVIDERS.includes(provider)) {
+    return `provider must be one of: ${PROVIDERS.join(', ')}`;
+  }
+  if (typeof model !== 'string' || !isKnownModel(model)) {
+    return 'model must be a known or configured model';
+  }
+  if (userId !== undefined && (typeof userId !== 'string' || !USER_ID_PATTERN.test(userId))) {
+    return 'userId must be up to 100 letters, digits, dashes or underscores';
+  }
+  if (tokensEstimated !== undefined && typeof tokensEstimated !== 'boolean') {
+    return 'tokensEstimated must be a boolean';
+  }
+
+  const isTokenCount = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+  if (!isTokenCount(promptTokens) || !isTokenCount(completionTokens)) {
+    return 'promptTokens and completionTokens must be non-negative integers';
+  }
+
+  // A single call cannot use more tokens than the model's context window holds
+  const contextWindow = provider === 'local' ? env.LOCAL_LLM_CONTEXT_WINDOW : getContextWindow(model);
+  if (promptTokens + completionTokens > contextWindow) {
+    return `promptTokens and completionTokens together cannot exceed the model's context window of ${contextWindow}`;
+  }
+
+  return null;
+}
+
+// GET /api/usage - Aggregated usage, optionally filtered by student, feature and date range
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const feature = searchParams.get('feature');
+
+    if (feature && !USAGE_FEATURES.includes(feature as UsageFeature)) {
+      return NextResponse.json(
+        { error: `Unknown feature "${feature}". Expected one of: ${USAGE_FEATURES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const filter = {
+      userId: searchParams.get('userId') || undefined,
+      feature: (feature as UsageFeature) || undefined,
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined
+    };
+
+    const summary = await getUsageSummary(filter);
+
+    // Recent calls are only included on request to keep the response small
+    const limit = parseInt(searchParams.get('entries') || '0', 10);
+    const entries = limit > 0 ? await listUsage(filter, Math.min(limit, 500)) : undefined;
+
+    return NextResponse.json({ ...summary, entries });
+  } catch (error) {
+    console.error('Error in usage GET:', error);
+    return NextResponse.json(
+      { error: `An error occurred: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/usage - Record a model call made in the browser
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const validationError = validateReportedUsage(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const { feature, userId, provider, model, promptTokens, completionTokens, tokensEstimated } = body;
+
+    const entry = await recordUsage({
+      feature,
+      userId,
+      provider,
+      model,
+      promptTokens,
+      completionTokens,
+      tokensEstimated: Boolean(tokensEstimated)
+    });
+
+    return NextResponse.json(entry, { status: 201 });
+  } catch (error) {
+    console.error('Error in usage POST:', error);
+    return NextResponse.json(
+      { error: `An error occurred: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import { ChatInput } from '@/components/ChatInput';
 import { ChatMessage } from '@/components/ChatMessage';
 import { Message, ModelInfo } from '@/types/chat';
@@ -12,28 +12,140 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { LangChainFileUpload } from '@/components/LangChainFileUpload';
 import { LangChainQuery } from '@/components/LangChainQuery';
 import { KnowledgeBaseManager } from '@/components/KnowledgeBaseManager';
+import { UsagePanel } from '@/components/UsagePanel';
+import { StudentMemoryPanel } from '@/components/StudentMemoryPanel';
+import { downloadConversationExport, ExportConversationMenu } from '@/components/ExportConversationMenu';
+import { ThreadSidebar } from '@/components/ThreadSidebar';
 import { StudentQuestionnaire, StudentProfile } from '@/components/StudentQuestionnaire';
-import { generateRecommendations } from '@/services/recommendations';
+import { generateMonthlyTimeline, generateRecommendations } from '@/services/recommendations';
 import { RecommendationResponse, EnhancedRecommendationResponse } from '@/services/recommendations/types';
 import { EnhancedRecommendations } from '@/components/EnhancedRecommendations';
 import { AlertCircle, AlertTriangle } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { TooltipProvider } from '@/components/ui/tooltip';
 import { Badge } from '@/components/ui/badge';
+import { readStreamEvents } from '@/lib/sse';
+import { getAlternatives, getBranch, getLatestLeaf, trimMessages } from '@/lib/messageTree';
+import type { ChatCommandInvocation } from '@/lib/commands';
+import { LANGUAGES, type Language } from '@/lib/i18n/languages';
+import type { Persona, ProgressEvent } from '@/services/openai/types';
+import type { Thread } from '@/services/threads';
+import type { ExportFormat } from '@/services/export';
 import { toast } from 'sonner';
+import { v4 as uuidv4 } from 'uuid';
+
+// Browser storage key for the ID that ties saved conversations to this student
+const USER_ID_STORAGE_KEY = 'projectclay-user-id';
+
+/**
+ * The student's profile as a chat message, for /profile
+ */
+function formatProfileMessage(profile: StudentProfile): string {
+  const fields: [string, string][] = [
+    ['Name', profile.name],
+    ['Grade', profile.gradeLevel],
+    ['Intended major', profile.intendedMajor],
+    ['Current activities', profile.currentActivities],
+    ['Activities of interest', profile.interestedActivities],
+    ['SAT score', profile.satScore],
+    ['Other information', profile.additionalInfo]
+  ];
+  const lines = fields
+    .filter(([, value]) => value?.trim())
+    .map(([label, value]) => `- **${label}:** ${value.trim()}`);
+
+  return `**Your profile**\n\n${lines.join('\n')}\n\nType \`/profile edit\` to change it.`;
+}
+
+/**
+ * A month-by-month plan for the student as a chat message, for /timeline
+ */
+function formatTimelineMessage(profile: StudentProfile): string {
+  const months = Object.entries(generateMonthlyTimeline(profile))
+    .filter(([, tasks]) => tasks.length > 0)
+    .map(([month, tasks]) => `**${month}**\n${tasks.map(task => `- ${task}`).join('\n')}`);
+
+  return `📅 **Your monthly timeline**${profile.gradeLevel ? ` for ${profile.gradeLevel}` : ''}\n\n${months.join('\n\n')}`;
+}
+
+// Every message of every branch, and the last message of the branch being shown
+interface MessageTree {
+  messages: Message[];
+  leafId: string | null;
+}
+
+// How a message being sent relates to the conversation so far
+interface SendOptions {
+  // The question being replaced by an edited version
+  editOf?: Message;
+  // The question whose answer is being regenerated
+  regenerateOf?: Message;
+  // "provider:model" to regenerate with
+  model?: string;
+}
 
 export default function Home() {
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messageTree, setMessageTree] = useState<MessageTree>({ messages: [], leafId: null });
+  const messages = useMemo(() => getBranch(messageTree.messages, messageTree.leafId), [messageTree]);
+  const [models, setModels] = useState<{ id: string; name: string }[]>([]);
   const [isThinking, setIsThinking] = useState(false);
   const [isSearchMode, setIsSearchMode] = useState(false);
+  const [isKnowledgeBaseMode, setIsKnowledgeBaseMode] = useState(false);
+  const [knowledgeBaseCollection, setKnowledgeBaseCollection] = useState('college-data');
+  // Counselor personas offered by the server; null keeps the conversation's current persona
+  const [personas, setPersonas] = useState<Pick<Persona, 'id' | 'name' | 'description'>[]>([]);
+  const [selectedPersona, setSelectedPersona] = useState<string | null>(null);
+  // Language the counselor answers in; 'auto' follows the language of each message
+  const [selectedLanguage, setSelectedLanguage] = useState<Language | 'auto'>('auto');
   const [thinkingSteps, setThinkingSteps] = useState<string[]>([]);
+  // Progress reported by the chat pipeline; the keyword-based steps are only a fallback
+  const [progressEvents, setProgressEvents] = useState<ProgressEvent[]>([]);
+  // Name of the model working on the current answer, once the server reports it
+  const [activeModel, setActiveModel] = useState<string | undefined>(undefined);
   const [error, setError] = useState<string | null>(null);
   const [timeoutOccurred, setTimeoutOccurred] = useState(false);
   const [profileContext, setProfileContext] = useState<string | null>(null);
   const [pdfContent, setPdfContent] = useState<string | null>(null);
   const [pdfUploaded, setPdfUploaded] = useState(false);
   const [knowledgeBaseDocuments, setKnowledgeBaseDocuments] = useState<any[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
+  // Bumped after each answer so the thread sidebar reloads
+  const [threadsVersion, setThreadsVersion] = useState(0);
+  // Messages of threads visited in this session, so switching back keeps local-only messages
+  const threadMessagesRef = useRef<Map<string, MessageTree>>(new Map());
+
+  /**
+   * Add a message to the end of the branch being shown, or after a given message
+   */
+  const appendMessage = (message: Message, parentId?: string | null) => {
+    setMessageTree(prev => ({
+      messages: [...prev.messages, { ...message, parentId: parentId === undefined ? prev.leafId : parentId }],
+      leafId: message.id
+    }));
+  };
+
+  const updateMessage = (messageId: string, update: (message: Message) => Message) => {
+    setMessageTree(prev => ({
+      ...prev,
+      messages: prev.messages.map(m => m.id === messageId ? update(m) : m)
+    }));
+  };
+
+  /**
+   * Switch to the IDs the server stored an exchange under, so later turns can branch from it
+   */
+  const markStored = (storedIds: Record<string, string | undefined>) => {
+    const rename = (id: string | null | undefined) => (id && storedIds[id]) || id;
+    setMessageTree(prev => ({
+      messages: prev.messages.map(m => storedIds[m.id]
+        ? { ...m, id: storedIds[m.id]!, parentId: rename(m.parentId), stored: true }
+        : { ...m, parentId: rename(m.parentId) }),
+      leafId: rename(prev.leafId) ?? null
+    }));
+  };
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // Student profile and recommendations states
@@ -50,9 +162,9 @@ export default function Home() {
       setPdfContent(null);
       setThinkingSteps([]);
       
-      // Only keep the most recent 20 messages in state
-      if (messages.length > 20) {
-        setMessages(prev => prev.slice(prev.length - 20));
+      // Only keep 20 messages in state, those of the branch on screen first
+      if (messageTree.messages.length > 20) {
+        setMessageTree(prev => ({ ...prev, messages: trimMessages(prev.messages, 20, [prev.leafId]) }));
       }
       
       console.log('Memory cleanup performed');
@@ -62,7 +174,7 @@ export default function Home() {
     return () => {
       cleanup();
     };
-  }, [messages.length]);
+  }, [messageTree.messages.length]);
   
   // Clean up on visibility change (tab switching)
   useEffect(() => {
@@ -71,9 +183,9 @@ export default function Home() {
         // Page is hidden, clean up memory
         console.log('Page hidden, performing memory cleanup');
         
-        // Only keep the most recent 20 messages in memory
-        if (messages.length > 20) {
-          setMessages(prev => prev.slice(prev.length - 20));
+        // Only keep 20 messages in memory, those of the branch on screen first
+        if (messageTree.messages.length > 20) {
+          setMessageTree(prev => ({ ...prev, messages: trimMessages(prev.messages, 20, [prev.leafId]) }));
         }
       }
     };
@@ -83,13 +195,14 @@ export default function Home() {
     return () => {
       document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
-  }, [messages.length]);
+  }, [messageTree.messages.length]);
 
   // Initial welcome message
   useEffect(() => {
-    if (messages.length === 0) {
-      setMessages([{
+    if (messageTree.messages.length === 0) {
+      setMessageTree({ leafId: 'welcome', messages: [{
         id: 'welcome',
+        parentId: null,
         role: 'assistant',
         content: "👋 **Welcome to ProjectClay's Academic Counselor!**\n\nI'm here to help you plan your extracurricular activities and prepare for college applications. I'm powered by GPT-4.1 Mini to provide you with accurate and helpful guidance.\n\nHere's how I can assist you:\n\n- **Recommend extracurricular activities** based on your interests\n- **Suggest competitions and programs** to enhance your profile\n- **Help develop skills** relevant to your intended major\n- **Create a personalized timeline** for your college preparation\n\nTo get started, complete the student profile questionnaire or ask me a question!",
         timestamp: new Date(),
@@ -101,15 +214,50 @@ export default function Home() {
           developer: 'OpenAI',
           parameters: '8 billion'
         }
-      }]);
+      }] });
     }
-  }, [messages.length]);
+  }, [messageTree.messages.length]);
 
   // Scroll to bottom when messages change
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
+  // Identify the student so their conversations can be saved and reopened
+  useEffect(() => {
+    let storedId = localStorage.getItem(USER_ID_STORAGE_KEY);
+    if (!storedId) {
+      storedId = `user_${uuidv4()}`;
+      localStorage.setItem(USER_ID_STORAGE_KEY, storedId);
+    }
+    setUserId(storedId);
+  }, []);
+
+  // Load the models an answer can be regenerated with
+  useEffect(() => {
+    fetch('/api/models')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (data?.models) {
+          setModels(data.models);
+        }
+      })
+      .catch(err => console.warn('Failed to load models:', err));
+  }, []);
+
+  // Load the personas the counselor can answer as
+  useEffect(() => {
+    fetch('/api/personas')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (data?.personas) {
+          setPersonas(data.personas);
+          setSelectedPersona(prev => prev || data.defaultPersona);
+        }
+      })
+      .catch(err => console.warn('Failed to load personas:', err));
+  }, []);
+
   // Show questionnaire for new users
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -129,7 +277,120 @@ export default function Home() {
     );
   };
 
-  const handleSendMessage = async (content: string, files?: File[]) => {
+  /**
+   * Render a streamed chat response, appending content to the assistant message as it arrives
+   * @param userMessageId Temporary ID of the question, replaced by the stored one when the answer is done
+   */
+  const consumeChatStream = async (body: ReadableStream<Uint8Array>, userMessageId?: string) => {
+    const botMessageId = (Date.now() + 1).toString();
+    const progress: ProgressEvent[] = [];
+    let botMessageAdded = false;
+    let modelInfo: ModelInfo | undefined;
+    let webSearchResults: Message['webSearchResults'];
+    let sources: Message['sources'];
+    let promptBudget: Message['promptBudget'];
+    let promptVersion: Message['promptVersion'];
+    let citations: Message['citations'];
+    let invalidCitations: Message['invalidCitations'];
+    let language: Message['language'];
+    // The answer's ID once it is stored, which is when `done` arrives
+    let storedMessageId: string | undefined;
+    let correctedContent: string | undefined;
+
+    const addBotMessage = (content: string, isStreaming: boolean) => {
+      botMessageAdded = true;
+      setIsThinking(false);
+      appendMessage({
+        id: botMessageId,
+        content,
+        role: 'assistant',
+        timestamp: new Date(),
+        isStreaming,
+        modelInfo,
+        webSearchResults,
+        sources
+      });
+    };
+
+    try {
+      await readStreamEvents(body, (event) => {
+        switch (event.type) {
+          case 'conversation':
+            setConversationId(event.conversationId);
+            break;
+          case 'progress':
+            progress.push(event.event);
+            setProgressEvents([...progress]);
+            break;
+          case 'delta':
+            if (!botMessageAdded) {
+              addBotMessage(event.content, true);
+            } else {
+              updateMessage(botMessageId, m => ({ ...m, content: m.content + event.content }));
+            }
+            break;
+          case 'webSearchResults':
+            webSearchResults = event.results;
+            break;
+          case 'sources':
+            sources = event.sources;
+            break;
+          case 'promptBudget':
+            promptBudget = event.report;
+            break;
+          case 'citations':
+            citations = event.citations;
+            invalidCitations = event.invalidCitations;
+            correctedContent = event.content;
+            break;
+          case 'model':
+            modelInfo = event.model;
+            setActiveModel(event.model.name);
+            break;
+          case 'followUps':
+            // Suggestions follow the finished answer
+            updateMessage(storedMessageId || botMessageId, m => ({ ...m, followUps: event.followUps }));
+            break;
+          case 'error':
+            if (event.isTimeout) {
+              setTimeoutOccurred(true);
+            }
+            throw new Error(event.error);
+          case 'done':
+            promptVersion = event.promptVersion;
+            language = event.language;
+            if (!botMessageAdded) {
+              addBotMessage('', false);
+            }
+            updateMessage(botMessageId, m => ({
+              ...m,
+              content: correctedContent ?? m.content,
+              isStreaming: false,
+              modelInfo,
+              webSearchResults,
+              sources,
+              citations,
+              invalidCitations,
+              promptBudget,
+              promptVersion,
+              language
+            }));
+            storedMessageId = event.messageId;
+            markStored({
+              [botMessageId]: event.messageId,
+              ...(userMessageId ? { [userMessageId]: event.userMessageId } : {})
+            });
+            break;
+        }
+      });
+    } finally {
+      // Make sure a stream that ended early does not leave the message marked as streaming
+      updateMessage(botMessageId, m => m.isStreaming ? { ...m, isStreaming: false } : m);
+      setIsThinking(false);
+    }
+  };
+
+  const handleSendMessage = async (content: string, files?: File[], options: SendOptions = {}) => {
     // Reset timeout error state
     setTimeoutOccurred(false);
     
@@ -137,16 +398,29 @@ export default function Home() {
     const messageToSend = content.trim() || (files && files.length > 0 ? 'See attached files.' : '');
     if (!messageToSend) return;
 
-    // Add user message
+    // The server only knows the messages it stored, so the new turn is placed
+    // after the last stored message before it
+    const { editOf, regenerateOf } = options;
+    const precedingMessages = editOf ? messages.slice(0, messages.indexOf(editOf)) : messages;
+    const parentId = regenerateOf ? regenerateOf.id : [...precedingMessages].reverse().find(m => m.stored)?.id ?? null;
+
+    // Add user message; an edited question becomes a new version next to the original,
+    // and a regenerated answer goes after the question it answers
     const userMessage: Message = {
       id: Date.now().toString(),
       content: messageToSend,
       role: 'user',
       timestamp: new Date()
     };
-    setMessages(prev => [...prev, userMessage]);
+    if (regenerateOf) {
+      setMessageTree(prev => ({ ...prev, leafId: regenerateOf.id }));
+    } else {
+      appendMessage(userMessage, editOf ? editOf.parentId ?? null : undefined);
+    }
     setIsThinking(true);
     setThinkingSteps([]);
+    setProgressEvents([]);
+    setActiveModel(undefined);
     setError(null);
 
     let extractedText = '';
@@ -172,12 +446,12 @@ export default function Home() {
         });
         const typeSummary = Object.entries(typeCounts).map(([type, count]) => `${count} ${type}${count > 1 ? 's' : ''}`).join(', ');
         fileConfirmationMsg = `✅ Uploaded: ${typeSummary}. These will be used for your next message.`;
-        setMessages(prev => [...prev, {
+        appendMessage({
           id: Date.now().toString(),
           content: fileConfirmationMsg,
           role: 'assistant',
           timestamp: new Date()
-        }]);
+        });
       } catch (err) {
         setError(err instanceof Error ? err.message : 'An error occurred processing files');
         setIsThinking(false);
@@ -199,7 +473,17 @@ export default function Home() {
         message: messageToSend,
         pdfContent: extractedText || profileContext || '',
         profileContext: profileCtx,
-        isWebSearch: isSearchMode
+        isWebSearch: isSearchMode,
+        stream: true,
+        conversationId,
+        userId: studentProfile?.userId || userId || undefined,
+        useKnowledgeBase: isKnowledgeBaseMode,
+        collectionName: isKnowledgeBaseMode ? knowledgeBaseCollection.trim() || 'default' : undefined,
+        persona: selectedPersona || undefined,
+        language: selectedLanguage,
+        parentId,
+        regenerate: regenerateOf ? true : undefined,
+        model: options.model
       };
       console.log('Request payload:', JSON.stringify(requestPayload).substring(0, 200) + '...');
       
@@ -232,6 +516,13 @@ export default function Home() {
         }
       }
       
+      // Streamed responses arrive as Server-Sent Events
+      if (response.body && response.headers.get('content-type')?.includes('text/event-stream')) {
+        await consumeChatStream(response.body, regenerateOf ? undefined : userMessage.id);
+        setThreadsVersion(v => v + 1);
+        return;
+      }
+      
       let data;
       try {
         // For successful responses, try to get response as JSON directly
@@ -279,6 +570,10 @@ export default function Home() {
         throw new Error('The API response is missing required fields');
       }
       
+      if (data.conversationId) {
+        setConversationId(data.conversationId);
+      }
+      
       let modelInfo: ModelInfo | undefined = undefined;
       if (data.model) {
         modelInfo = {
@@ -295,16 +590,31 @@ export default function Home() {
         content: data.message,
         role: 'assistant',
         timestamp: new Date(),
-        modelInfo
+        modelInfo,
+        sources: Array.isArray(data.sources) ? data.sources : undefined,
+        citations: Array.isArray(data.citations) ? data.citations : undefined,
+        invalidCitations: data.invalidCitations,
+        promptBudget: data.promptBudget,
+        promptVersion: data.promptVersion,
+        followUps: Array.isArray(data.followUps) ? data.followUps : undefined,
+        language: data.language
       };
-      if (data.thinking && Array.isArray(data.thinking)) {
+      const hasProgress = Array.isArray(data.progress) && data.progress.length > 0;
+      if (hasProgress) {
+        setProgressEvents(data.progress);
+      } else if (data.thinking && Array.isArray(data.thinking)) {
         setThinkingSteps(data.thinking);
       }
       setTimeout(() => {
-        setMessages(prev => [...prev, botMessage]);
+        appendMessage(botMessage);
+        markStored({
+          [botMessage.id]: data.messageId,
+          ...(regenerateOf ? {} : { [userMessage.id]: data.userMessageId })
+        });
         setIsThinking(false);
         
-      }, data.thinking && data.thinking.length > 0 ? 800 : 0);
+      }, hasProgress || (data.thinking && data.thinking.length > 0) ? 800 : 0);
+      setThreadsVersion(v => v + 1);
     } catch (err) {
       setIsThinking(false);
       const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred';
@@ -316,15 +626,92 @@ export default function Home() {
       });
       
       // Add an error message to the chat
-      setMessages(prev => [...prev, {
+      appendMessage({
         id: Date.now().toString(),
         content: `❌ Error: ${errorMessage}. Please try again later.`,
         role: 'assistant',
         timestamp: new Date()
-      }]);
+      });
+    }
+  };
+
+  /**
+   * Switch the chat to a saved thread, keeping the current one's messages for when the student comes back
+   */
+  const handleSelectThread = async (threadId: string) => {
+    if (threadId === conversationId || !userId) return;
+
+    if (conversationId) {
+      threadMessagesRef.current.set(conversationId, messageTree);
+    }
+    setError(null);
+    setThinkingSteps([]);
+    setProgressEvents([]);
+
+    const cached = threadMessagesRef.current.get(threadId);
+    if (cached) {
+      setMessageTree(cached);
+      setConversationId(threadId);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/threads?${new URLSearchParams({ id: threadId, userId })}`);
+      const thread = await response.json();
+      if (!response.ok) {
+        throw new Error(thread.error || 'Failed to load the conversation');
+      }
+
+      const { messages: threadMessages, activeMessageId, persona } = thread as Thread;
+      setMessageTree({
+        messages: threadMessages.map(m => ({ ...m, timestamp: new Date(m.timestamp), stored: true })),
+        leafId: activeMessageId ?? threadMessages[threadMessages.length - 1]?.id ?? null
+      });
+      setConversationId(threadId);
+      if (persona?.personaId) {
+        setSelectedPersona(persona.personaId);
+      }
+    } catch (err) {
+      console.error('Error loading thread:', err);
+      toast.error('Could not open the conversation', {
+        description: err instanceof Error ? err.message : String(err)
+      });
+    }
+  };
+
+  /**
+   * Show another version of a message, continued the way it was last seen
+   */
+  const handleSelectBranch = (message: Message, offset: number) => {
+    const alternatives = getAlternatives(messageTree.messages, message);
+    const target = alternatives[alternatives.indexOf(message) + offset];
+    if (!target) return;
+
+    const leafId = getLatestLeaf(messageTree.messages, target.id);
+    setMessageTree(prev => ({ ...prev, leafId }));
+
+    // Remember the branch in the saved thread so it reopens where the student left it
+    const leaf = messageTree.messages.find(m => m.id === leafId);
+    if (conversationId && userId && leaf?.stored) {
+      fetch('/api/threads', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: conversationId, userId, activeMessageId: leafId })
+      }).catch(err => console.warn('Failed to save the active branch:', err));
     }
   };
 
+  const handleNewThread = () => {
+    if (conversationId) {
+      threadMessagesRef.current.set(conversationId, messageTree);
+    }
+    setConversationId(null);
+    setMessageTree({ messages: [], leafId: null });
+    setError(null);
+    setThinkingSteps([]);
+    setProgressEvents([]);
+  };
+
   const handlePdfProcess = (pdfText: string) => {
     setPdfContent(pdfText);
     setPdfUploaded(true);
@@ -335,7 +722,7 @@ export default function Home() {
       role: 'assistant',
       timestamp: new Date()
     };
-    setMessages(prev => [...prev, systemMessage]);
+    appendMessage(systemMessage);
     toast.success('PDF uploaded successfully', {
       description: 'Document has been analyzed and is ready for reference'
     });
@@ -351,12 +738,12 @@ export default function Home() {
   const handleReplacePdf = () => {
     setPdfContent(null);
     setPdfUploaded(false);
-    setMessages(prev => [...prev, {
+    appendMessage({
       id: Date.now().toString(),
       content: '🔄 **You can now upload a new Common App PDF.**',
       role: 'assistant',
       timestamp: new Date()
-    }]);
+    });
     toast.info('Ready for new document', {
       description: 'You can now upload a different document'
     });
@@ -372,7 +759,7 @@ export default function Home() {
       role: 'assistant',
       timestamp: new Date()
     };
-    setMessages(prev => [...prev, systemMessage]);
+    appendMessage(systemMessage);
     toast.success('Document added to knowledge base', {
       description: `${result.metadata?.filename} processed with ${result.chunks} chunks`
     });
@@ -395,7 +782,9 @@ export default function Home() {
   };
 
   const handleProfileComplete = async (profile: StudentProfile) => {
-    setStudentProfile(profile);
+    // The student's id tags the recommendation calls in the usage ledger
+    const identifiedProfile = profile.userId || !userId ? profile : { ...profile, userId };
+    setStudentProfile(identifiedProfile);
     setShowQuestionnaire(false);
     
     // Generate welcome message based on the profile
@@ -413,12 +802,18 @@ export default function Home() {
         parameters: '8 billion'
       }
     };
-    setMessages(prev => [...prev, welcomeMessage]);
+    appendMessage(welcomeMessage);
     toast.success('Profile created successfully', {
       description: 'Generating your personalized recommendations'
     });
 
-    // Generate recommendations
+    await refreshRecommendations(identifiedProfile);
+  };
+
+  /**
+   * Generate recommendations for a profile and let the student know they are ready
+   */
+  const refreshRecommendations = async (profile: StudentProfile) => {
     setIsLoadingRecommendations(true);
     try {
       const recs = await generateRecommendations(profile);
@@ -431,7 +826,7 @@ export default function Home() {
         role: 'assistant',
         timestamp: new Date()
       };
-      setMessages(prev => [...prev, recsMessage]);
+      appendMessage(recsMessage);
       toast.success('Recommendations ready', {
         description: 'View them in the Recommendations tab'
       });
@@ -446,6 +841,58 @@ export default function Home() {
     }
   };
 
+  /**
+   * Carry out a slash command handled in the browser, or /kb without a question
+   */
+  const handleCommand = async (command: ChatCommandInvocation) => {
+    // Commands that answer in the chat show what was typed, like a question would
+    const reply = (content: string) => {
+      const typed = ['/' + command.name, command.argument, command.question].filter(Boolean).join(' ');
+      appendMessage({ id: Date.now().toString(), content: typed, role: 'user', timestamp: new Date() });
+      appendMessage({ id: (Date.now() + 1).toString(), content, role: 'assistant', timestamp: new Date() });
+    };
+
+    switch (command.name) {
+      case 'kb':
+        setIsKnowledgeBaseMode(true);
+        setKnowledgeBaseCollection(command.argument!);
+        toast.success(`Answering from the "${command.argument}" knowledge base`);
+        break;
+      case 'profile':
+        if (command.argument === 'edit' || !studentProfile) {
+          setShowQuestionnaire(true);
+        } else {
+          reply(formatProfileMessage(studentProfile));
+        }
+        break;
+      case 'timeline':
+        reply(studentProfile
+          ? formatTimelineMessage(studentProfile)
+          : 'Your timeline is based on your grade and intended major. Type `/profile edit` to fill in your profile first.');
+        break;
+      case 'recommend':
+        if (studentProfile) {
+          await refreshRecommendations(studentProfile);
+        } else {
+          setShowQuestionnaire(true);
+        }
+        break;
+      case 'export':
+        try {
+          await downloadConversationExport((command.argument || 'markdown') as ExportFormat, {
+            messages,
+            profile: studentProfile,
+            conversationId
+          });
+        } catch (err) {
+          toast.error('Could not export the conversation', {
+            description: err instanceof Error ? err.message : String(err)
+          });
+        }
+        break;
+    }
+  };
+
   const handleSkipQuestionnaire = () => {
     setShowQuestionnaire(false);
     const welcomeMessage: Message = {
@@ -454,7 +901,7 @@ export default function Home() {
       role: 'assistant',
       timestamp: new Date()
     };
-    setMessages(prev => [...prev, welcomeMessage]);
+    appendMessage(welcomeMessage);
   };
 
   return (
@@ -467,7 +914,8 @@ export default function Home() {
           <div className="w-full max-w-2xl">
             <StudentQuestionnaire 
               onComplete={handleProfileComplete} 
-              onSkip={handleSkipQuestionnaire} 
+              onSkip={studentProfile ? () => setShowQuestionnaire(false) : handleSkipQuestionnaire} 
+              initialProfile={studentProfile ? { ...studentProfile, progress: 0 } : undefined}
             />
           </div>
         </div>
@@ -482,37 +930,87 @@ export default function Home() {
             <TabsTrigger value="settings" className="rounded-lg data-[state=active]:bg-zinc-800 data-[state=active]:text-white">Settings</TabsTrigger>
           </TabsList>
           
-          <TabsContent value="chat" className="space-y-4 h-[calc(100vh-12rem)] flex flex-col">
-            {/* Chat UI */}
-            <div className="flex-1 overflow-y-auto space-y-4 px-2 pt-4 pb-0 hide-scrollbar">
-              {messages.map(message => (
-                <ChatMessage
-                  key={message.id}
-                  message={message}
-                />
-              ))}
-              {isThinking && (
-                <ThinkingIndicator steps={thinkingSteps} model="GPT-4.1 Mini" />
-              )}
-              {error && (
-                <Alert variant="destructive\" className="bg-red-950/30 border-red-800/30 text-red-300">
-                  <AlertTriangle className="h-5 w-5" />
-                  <AlertTitle className="text-red-300">Error</AlertTitle>
-                  <AlertDescription className="text-red-200">{error}</AlertDescription>
-                </Alert>
+          <TabsContent value="chat" className="h-[calc(100vh-12rem)] flex gap-4">
+            {/* Saved conversations */}
+            <aside className="hidden md:block w-64 shrink-0">
+              <ThreadSidebar
+                userId={userId}
+                activeThreadId={conversationId}
+                onSelectThread={handleSelectThread}
+                onNewThread={handleNewThread}
+                refreshKey={threadsVersion}
+                disabled={isThinking}
+              />
+            </aside>
+
+            <div className="flex-1 min-w-0 space-y-4 flex flex-col">
+              {messages.length > 0 && (
+                <div className="flex justify-end px-2">
+                  <ExportConversationMenu
+                    messages={messages}
+                    profile={studentProfile}
+                    conversationId={conversationId}
+                    disabled={isThinking}
+                  />
+                </div>
               )}
-              <div ref={messagesEndRef} />
-            </div>
+
+              {/* Chat UI */}
+              <div className="flex-1 overflow-y-auto space-y-4 px-2 pt-4 pb-0 hide-scrollbar">
+                {messages.map((message, index) => {
+                  const alternatives = getAlternatives(messageTree.messages, message);
+                  const question = message.role === 'assistant'
+                    ? messages.find(m => m.id === message.parentId)
+                    : undefined;
+                  return (
+                    <ChatMessage
+                      key={message.id}
+                      message={message}
+                      branch={alternatives.length > 1
+                        ? { index: alternatives.indexOf(message), count: alternatives.length }
+                        : undefined}
+                      onSelectBranch={(offset) => handleSelectBranch(message, offset)}
+                      onEdit={message.role === 'user'
+                        ? (content) => handleSendMessage(content, undefined, { editOf: message })
+                        : undefined}
+                      onRegenerate={question?.role === 'user' && question.stored
+                        ? (model) => handleSendMessage(question.content, undefined, { regenerateOf: question, model })
+                        : undefined}
+                      models={models}
+                      actionsDisabled={isThinking}
+                      // Only the latest answer offers follow-ups
+                      onFollowUp={index === messages.length - 1 && message.role === 'assistant'
+                        ? (followUp) => handleSendMessage(followUp)
+                        : undefined}
+                    />
+                  );
+                })}
+                {isThinking && (
+                  <ThinkingIndicator steps={thinkingSteps} events={progressEvents} model={activeModel} />
+                )}
+                {error && (
+                  <Alert variant="destructive\" className="bg-red-950/30 border-red-800/30 text-red-300">
+                    <AlertTriangle className="h-5 w-5" />
+                    <AlertTitle className="text-red-300">Error</AlertTitle>
+                    <AlertDescription className="text-red-200">{error}</AlertDescription>
+                  </Alert>
+                )}
+                <div ref={messagesEndRef} />
+              </div>
             
-            <div className="pt-2">
-              <ChatInput 
-                onSendMessage={handleSendMessage} 
-                disabled={isThinking} 
-                isSearchMode={isSearchMode}
-                onToggleSearchMode={toggleSearchMode}
-                placeholder="Ask about college planning, activities, or admissions..."
-                timeoutOccurred={timeoutOccurred}
-              />
+              <div className="pt-2">
+                <ChatInput 
+                  onSendMessage={handleSendMessage} 
+                  disabled={isThinking} 
+                  isSearchMode={isSearchMode}
+                  onToggleSearchMode={toggleSearchMode}
+                  isKnowledgeBaseMode={isKnowledgeBaseMode}
+                  onToggleKnowledgeBaseMode={() => setIsKnowledgeBaseMode(prev => !prev)}
+                  placeholder="Ask about college planning, activities, or admissions..."
+                  timeoutOccurred={timeoutOccurred}
+                  onCommand={handleCommand}
+                />
+              </div>
             </div>
           </TabsContent>
 
@@ -552,14 +1050,14 @@ export default function Home() {
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="flex justify-center py-8">
-                  <ThinkingIndicator steps={[]} model="GPT-4.1 Mini" />
+                  <ThinkingIndicator steps={[]} />
                 </CardContent>
               </Card>
             ) : recommendations ? (
               // Use the EnhancedRecommendations component instead of the card-based layout
               <EnhancedRecommendations 
                 recommendations={recommendations as EnhancedRecommendationResponse}
-                userId={studentProfile.userId}
+                userId={studentProfile.userId || userId || undefined}
               />
             ) : (
               <Card className="bg-zinc-900 border-zinc-800 shadow-lg">
@@ -624,6 +1122,84 @@ export default function Home() {
                   </Button>
                 </div>
                 
+                <div className="p-4 rounded-lg bg-zinc-800/50 border border-zinc-700/50">
+                  <h3 className="text-md font-medium mb-2 text-zinc-200">Knowledge Base</h3>
+                  <p className="text-sm text-zinc-400 mb-3">
+                    Ground answers in documents from your knowledge base. Answers cite the excerpts they use.
+                  </p>
+                  <div className="flex flex-wrap items-center gap-3">
+                    <Button
+                      onClick={() => setIsKnowledgeBaseMode(prev => !prev)}
+                      variant={isKnowledgeBaseMode ? "default" : "outline"}
+                      className={isKnowledgeBaseMode ? "bg-emerald-600 hover:bg-emerald-700" : ""}
+                    >
+                      {isKnowledgeBaseMode ? "Knowledge Base Enabled" : "Knowledge Base Disabled"}
+                    </Button>
+                    <Input
+                      value={knowledgeBaseCollection}
+                      onChange={(e) => setKnowledgeBaseCollection(e.target.value)}
+                      placeholder="Collection name"
+                      className="max-w-xs bg-zinc-800 border-zinc-700 text-zinc-200"
+                    />
+                  </div>
+                </div>
+                
+                <div className="p-4 rounded-lg bg-zinc-800/50 border border-zinc-700/50">
+                  <h3 className="text-md font-medium mb-2 text-zinc-200">Counselor Persona</h3>
+                  <p className="text-sm text-zinc-400 mb-3">
+                    Choose who the counselor answers as. The choice applies to the rest of the current conversation.
+                  </p>
+                  {personas.length === 0 ? (
+                    <p className="text-xs text-zinc-500">Loading personas...</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {personas.map(persona => (
+                        <Button
+                          key={persona.id}
+                          onClick={() => setSelectedPersona(persona.id)}
+                          variant={selectedPersona === persona.id ? "default" : "outline"}
+                          className={selectedPersona === persona.id ? "bg-purple-600 hover:bg-purple-700" : ""}
+                          title={persona.description}
+                        >
+                          {persona.name}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                
+                <div className="p-4 rounded-lg bg-zinc-800/50 border border-zinc-700/50">
+                  <h3 className="text-md font-medium mb-2 text-zinc-200">Reply Language</h3>
+                  <p className="text-sm text-zinc-400 mb-3">
+                    The counselor answers in the language you write in, including Hindi typed in English letters. Choose a language to always get answers in it.
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      onClick={() => setSelectedLanguage('auto')}
+                      variant={selectedLanguage === 'auto' ? "default" : "outline"}
+                      className={selectedLanguage === 'auto' ? "bg-purple-600 hover:bg-purple-700" : ""}
+                    >
+                      Automatic
+                    </Button>
+                    {Object.values(LANGUAGES).map(language => (
+                      <Button
+                        key={language.code}
+                        onClick={() => setSelectedLanguage(language.code)}
+                        variant={selectedLanguage === language.code ? "default" : "outline"}
+                        className={selectedLanguage === language.code ? "bg-purple-600 hover:bg-purple-700" : ""}
+                        title={language.name}
+                        lang={language.code}
+                      >
+                        {language.nativeName}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                
+                <StudentMemoryPanel userId={studentProfile?.userId || userId} />
+                
+                <UsagePanel />
+                
                 <div className="p-4 rounded-lg bg-zinc-800/50 border border-zinc-700/50">
                   <h3 className="text-md font-medium mb-2 text-zinc-200">Memory Management</h3>
                   <p className="text-sm text-zinc-400 mb-3">
@@ -632,8 +1208,12 @@ export default function Home() {
                   <Button
                     onClick={() => {
                       // Keep only the welcome message
-                      const welcomeMessage = messages.find(m => m.id === 'welcome');
-                      setMessages(welcomeMessage ? [welcomeMessage] : []);
+                      const welcomeMessage = messageTree.messages.find(m => m.id === 'welcome');
+                      setMessageTree(welcomeMessage
+                        ? { messages: [welcomeMessage], leafId: welcomeMessage.id }
+                        : { messages: [], leafId: null });
+                      // Start a fresh conversation so the counselor forgets the cleared turns
+                      setConversationId(null);
                       toast.success('Chat history cleared', {
                         description: 'Memory has been freed up'
                       });
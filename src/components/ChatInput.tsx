@@ -2,9 +2,16 @@
 
 import { useState, useRef, FormEvent, ChangeEvent, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
-import { Paperclip, Send, Loader2, Search, Sparkles, AlertTriangle } from 'lucide-react';
+import { Paperclip, Send, Loader2, Search, Sparkles, AlertTriangle, BookOpen, SquareSlash } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { toast } from 'sonner';
+import {
+  ChatCommandInvocation,
+  getChatCommand,
+  getCommandSuggestions,
+  parseChatCommand,
+  validateChatCommand
+} from '@/lib/commands';
 
 interface ChatInputProps {
   onSendMessage: (message: string, files?: File[]) => void;
@@ -12,24 +19,38 @@ interface ChatInputProps {
   placeholder?: string;
   isSearchMode?: boolean;
   onToggleSearchMode?: () => void;
+  isKnowledgeBaseMode?: boolean;
+  onToggleKnowledgeBaseMode?: () => void;
   timeoutOccurred?: boolean;
+  // Runs slash commands that are handled in the browser; commands for the counselor are sent as messages
+  onCommand?: (command: ChatCommandInvocation) => void;
 }
 
 export function ChatInput({ 
   onSendMessage, 
   disabled = false, 
-  placeholder = "Type your message...",
+  placeholder = "Type your message, or / for commands...",
   isSearchMode = false,
   onToggleSearchMode = () => {},
-  timeoutOccurred = false
+  isKnowledgeBaseMode = false,
+  onToggleKnowledgeBaseMode,
+  timeoutOccurred = false,
+  onCommand
 }: ChatInputProps) {
   const [message, setMessage] = useState('');
   const [files, setFiles] = useState<File[]>([]);
   const [fileNames, setFileNames] = useState<string[]>([]);
   const [messageLength, setMessageLength] = useState(0);
+  const [selectedSuggestion, setSelectedSuggestion] = useState(0);
+  const [suggestionsDismissed, setSuggestionsDismissed] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   
+  // Commands matching what is typed, offered until the command name is complete
+  const suggestions = suggestionsDismissed ? [] : getCommandSuggestions(message);
+  const typedCommand = parseChatCommand(message);
+  const typedCommandInfo = typedCommand ? getChatCommand(typedCommand.name) : undefined;
+  
   // Warn about overly long messages
   const MAX_RECOMMENDED_LENGTH = 4000;
 
@@ -37,6 +58,13 @@ export function ChatInput({
     setMessageLength(message.length);
   }, [message]);
 
+  useEffect(() => {
+    setSelectedSuggestion(0);
+    if (!message.startsWith('/')) {
+      setSuggestionsDismissed(false);
+    }
+  }, [message]);
+
   useEffect(() => {
     if (timeoutOccurred && isSearchMode) {
       toast.error('Your last web search timed out', {
@@ -59,6 +87,26 @@ export function ChatInput({
       });
     }
     
+    const command = parseChatCommand(message);
+    if (command) {
+      const error = validateChatCommand(command);
+      if (error) {
+        toast.error('Invalid command', { description: error });
+        return;
+      }
+
+      // Client commands, and /kb without a question, change the chat instead of asking the counselor
+      if (getChatCommand(command.name)!.target === 'client' || !command.question) {
+        if (onCommand) {
+          onCommand(command);
+        } else {
+          toast.error(`/${command.name} is not available here`);
+        }
+        setMessage('');
+        return;
+      }
+    }
+    
     if (message.trim() || files.length > 0) {
       onSendMessage(message, files.length > 0 ? files : undefined);
       setMessage('');
@@ -67,6 +115,12 @@ export function ChatInput({
     }
   };
 
+  const completeCommand = (name: string) => {
+    setMessage(`/${name} `);
+    setSuggestionsDismissed(true);
+    textareaRef.current?.focus();
+  };
+
   const handleFileSelect = (e: ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
       const selectedFiles = Array.from(e.target.files);
@@ -85,6 +139,26 @@ export function ChatInput({
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : suggestions.length - 1;
+        setSelectedSuggestion(index => (index + step) % suggestions.length);
+        return;
+      }
+      // Enter sends a command that is already typed in full
+      if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey && !getChatCommand(message.substring(1)))) {
+        e.preventDefault();
+        completeCommand(suggestions[Math.min(selectedSuggestion, suggestions.length - 1)].name);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setSuggestionsDismissed(true);
+        return;
+      }
+    }
+    
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSubmit(e);
@@ -121,6 +195,26 @@ export function ChatInput({
         </div>
       )}
       
+      {suggestions.length > 0 && (
+        <div className="absolute bottom-full left-0 right-0 mb-2 z-10 rounded-xl border border-zinc-700 bg-zinc-900 shadow-lg overflow-hidden">
+          {suggestions.map((command, index) => (
+            <button
+              key={command.name}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => completeCommand(command.name)}
+              onMouseEnter={() => setSelectedSuggestion(index)}
+              className={`w-full flex items-baseline gap-3 px-4 py-2 text-left text-sm ${
+                index === selectedSuggestion ? 'bg-zinc-800' : ''
+              }`}
+            >
+              <span className="font-mono text-zinc-100 shrink-0">{command.usage}</span>
+              <span className="text-zinc-400 truncate">{command.description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+      
       <div className={`flex flex-col border ${isSearchMode ? 'border-indigo-600/70' : 'border-zinc-700'} rounded-xl bg-zinc-900 overflow-hidden focus-within:ring-2 focus-within:ring-zinc-600 shadow-lg transition-all`}>
         <textarea
           ref={textareaRef}
@@ -159,6 +253,29 @@ export function ChatInput({
           
           <div className="flex-1"></div>
           
+          {onToggleKnowledgeBaseMode && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button 
+                  type="button"
+                  onClick={onToggleKnowledgeBaseMode}
+                  disabled={disabled}
+                  className={`mx-1 rounded-md ${
+                    isKnowledgeBaseMode 
+                      ? 'bg-emerald-600 hover:bg-emerald-700 text-white' 
+                      : 'bg-zinc-800 hover:bg-zinc-700 text-zinc-300'
+                  } transition-colors p-2`}
+                  size="icon"
+                >
+                  <BookOpen className="h-5 w-5" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent side="top">
+                {isKnowledgeBaseMode ? 'Stop using the knowledge base' : 'Answer from the knowledge base'}
+              </TooltipContent>
+            </Tooltip>
+          )}
+          
           <Tooltip>
             <TooltipTrigger asChild>
               <Button 
@@ -202,12 +319,27 @@ export function ChatInput({
         className="hidden"
       />
       
+      {typedCommandInfo && suggestions.length === 0 && (
+        <div className="mt-2 flex items-center text-xs text-zinc-400 px-2">
+          <SquareSlash className="w-3 h-3 mr-1.5" />
+          <span className="font-mono mr-2">{typedCommandInfo.usage}</span>
+          <span>{typedCommandInfo.description}</span>
+        </div>
+      )}
+      
       {isSearchMode && (
         <div className="mt-2 flex items-center text-xs text-indigo-400 px-2">
           <Sparkles className="w-3 h-3 mr-1.5 animate-pulse" />
           <span>Web search powered by GPT-4.1 Mini</span>
         </div>
       )}
+      
+      {isKnowledgeBaseMode && (
+        <div className="mt-2 flex items-center text-xs text-emerald-400 px-2">
+          <BookOpen className="w-3 h-3 mr-1.5" />
+          <span>Answers will cite your knowledge base documents</span>
+        </div>
+      )}
     </form>
   );
 }
\ No newline at end of file
@@ -4,17 +4,67 @@ import { useState } from 'react';
 import { Message } from '@/types/chat';
 import ReactMarkdown from 'react-markdown';
 import { useTheme } from 'next-themes';
-import { User, Bot, Clock, Info, Copy, Check, ExternalLink } from 'lucide-react';
+import { User, Bot, Clock, Info, Copy, Check, ExternalLink, FileText, Scissors, AlertTriangle, Pencil, RefreshCw, ChevronLeft, ChevronRight, MessageCircleQuestion } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
 import { formatDistanceToNow } from 'date-fns';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { describeCitationSource, describeSourceLocation } from '@/lib/sources';
+import { CitationHoverCard, CitationIcon } from '@/components/CitationHoverCard';
+import { DEFAULT_LANGUAGE, LANGUAGES } from '@/lib/i18n/languages';
 
 interface ChatMessageProps {
   message: Message;
+  // Which version of the message this is, when it was edited or regenerated
+  branch?: { index: number; count: number };
+  onSelectBranch?: (offset: number) => void;
+  // Ask an edited version of the question as a new branch
+  onEdit?: (content: string) => void;
+  // Answer the question again, with the given "provider:model" or the usual chain
+  onRegenerate?: (model?: string) => void;
+  // Models offered for regenerating, from /api/models
+  models?: { id: string; name: string }[];
+  // Set while another answer is being generated
+  actionsDisabled?: boolean;
+  // Ask one of the answer's suggested follow-up questions; no chips are shown without it
+  onFollowUp?: (question: string) => void;
 }
 
-export function ChatMessage({ message }: ChatMessageProps) {
+// Bracketed citation markers such as [W1], [S2] or [S1, P]
+const CITATION_MARKER_PATTERN = /\[((?:[WS]\d{1,3}|P)(?:\s*[,;]\s*(?:[WS]\d{1,3}|P))*)\]/g;
+const CITATION_HREF_PREFIX = '#cite-';
+
+/**
+ * Turn citation markers into links so the markdown renderer hands them to the citation renderer
+ */
+function linkCitations(content: string): string {
+  return content.replace(CITATION_MARKER_PATTERN, (_marker, inner: string) =>
+    inner.split(/\s*[,;]\s*/).map(id => `[${id}](${CITATION_HREF_PREFIX}${id})`).join('')
+  );
+}
+
+export function ChatMessage({
+  message,
+  branch,
+  onSelectBranch,
+  onEdit,
+  onRegenerate,
+  models = [],
+  actionsDisabled,
+  onFollowUp
+}: ChatMessageProps) {
   const [copied, setCopied] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
   const { theme } = useTheme();
   const isUser = message.role === "user";
 
@@ -24,6 +74,19 @@ export function ChatMessage({ message }: ChatMessageProps) {
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const startEditing = () => {
+    setDraft(message.content);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!draft.trim()) return;
+    setIsEditing(false);
+    if (draft.trim() !== message.content.trim()) {
+      onEdit?.(draft.trim());
+    }
+  };
+
   const formatTimestamp = (date: Date) => {
     try {
       return formatDistanceToNow(date, { addSuffix: true });
@@ -75,27 +138,190 @@ export function ChatMessage({ message }: ChatMessageProps) {
               </TooltipContent>
             </Tooltip>
           )}
+          
+          {!isUser && message.language && message.language !== DEFAULT_LANGUAGE && (
+            <Badge
+              variant="outline"
+              className="text-xs py-0 h-5 text-zinc-400 border-zinc-700"
+              title={`Answered in ${LANGUAGES[message.language].name}`}
+              lang={message.language}
+            >
+              {LANGUAGES[message.language].nativeName}
+            </Badge>
+          )}
+          
+          {branch && branch.count > 1 && (
+            <div className="flex items-center text-xs text-zinc-500">
+              <button
+                onClick={() => onSelectBranch?.(-1)}
+                disabled={actionsDisabled || branch.index === 0}
+                className="p-0.5 rounded hover:text-zinc-300 disabled:opacity-40"
+                aria-label="Previous version"
+              >
+                <ChevronLeft className="w-3 h-3" />
+              </button>
+              <span className="tabular-nums">{branch.index + 1}/{branch.count}</span>
+              <button
+                onClick={() => onSelectBranch?.(1)}
+                disabled={actionsDisabled || branch.index === branch.count - 1}
+                className="p-0.5 rounded hover:text-zinc-300 disabled:opacity-40"
+                aria-label="Next version"
+              >
+                <ChevronRight className="w-3 h-3" />
+              </button>
+            </div>
+          )}
         </div>
         
-        <div className="prose prose-invert max-w-none prose-p:leading-relaxed prose-p:mb-4 prose-headings:mt-6 prose-headings:mb-4 prose-h3:text-lg prose-h4:text-base prose-ul:my-4 prose-li:my-1 prose-pre:bg-zinc-800 prose-pre:border prose-pre:border-zinc-700 prose-pre:rounded-md prose-pre:p-4 prose-code:text-emerald-400 prose-strong:text-zinc-200">
-          <ReactMarkdown 
-            components={{
-              a: ({ node, ...props }) => (
-                <a
-                  {...props}
-                  className="text-blue-400 hover:text-blue-300 hover:underline flex items-center gap-1"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                >
-                  {props.children}
-                  <ExternalLink className="w-3 h-3 inline-block" />
-                </a>
-              )
-            }}
-          >
-            {message.content}
-          </ReactMarkdown>
-        </div>
+        {isEditing ? (
+          <div className="space-y-2">
+            <Textarea
+              autoFocus
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  submitEdit();
+                }
+                if (e.key === 'Escape') setIsEditing(false);
+              }}
+              className="bg-zinc-950 border-zinc-700 text-zinc-100 min-h-[80px]"
+            />
+            <div className="flex gap-2 justify-end">
+              <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)} className="text-zinc-400">
+                Cancel
+              </Button>
+              <Button size="sm" onClick={submitEdit} disabled={!draft.trim() || actionsDisabled} className="bg-blue-600 hover:bg-blue-500 text-white">
+                Save and ask again
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div lang={message.language} className="prose prose-invert max-w-none prose-p:leading-relaxed prose-p:mb-4 prose-headings:mt-6 prose-headings:mb-4 prose-h3:text-lg prose-h4:text-base prose-ul:my-4 prose-li:my-1 prose-pre:bg-zinc-800 prose-pre:border prose-pre:border-zinc-700 prose-pre:rounded-md prose-pre:p-4 prose-code:text-emerald-400 prose-strong:text-zinc-200">
+            <ReactMarkdown 
+              components={{
+                a: ({ node, ...props }) => {
+                  if (props.href?.startsWith(CITATION_HREF_PREFIX)) {
+                    const id = props.href.substring(CITATION_HREF_PREFIX.length);
+                    const citation = message.citations?.find(c => c.id === id);
+                    const marker = (
+                      <sup className={`mx-0.5 font-mono text-[0.7em] ${citation ? 'text-emerald-400 cursor-help' : 'text-zinc-500'}`}>
+                        [{id}]
+                      </sup>
+                    );
+                    return citation ? <CitationHoverCard citation={citation}>{marker}</CitationHoverCard> : marker;
+                  }
+                
+                  return (
+                    <a
+                      {...props}
+                      className="text-blue-400 hover:text-blue-300 hover:underline flex items-center gap-1"
+                      target="_blank"
+                      rel="noopener noreferrer"
+                    >
+                      {props.children}
+                      <ExternalLink className="w-3 h-3 inline-block" />
+                    </a>
+                  );
+                }
+              }}
+            >
+              {message.citations && message.citations.length > 0 ? linkCitations(message.content) : message.content}
+            </ReactMarkdown>
+            {message.isStreaming && (
+              <span 
+                className="inline-block w-2 h-4 ml-0.5 align-middle bg-emerald-400/80 animate-pulse"
+                aria-label="Generating response"
+              />
+            )}
+          </div>
+        )}
+        
+        {message.citations && message.citations.length > 0 ? (
+          <div className="mt-4 border-t border-zinc-800 pt-3">
+            <div className="text-xs font-medium text-zinc-400 mb-2">Sources</div>
+            <ul className="space-y-1">
+              {message.citations.map((citation) => (
+                <li key={citation.id}>
+                  <CitationHoverCard citation={citation}>
+                    <span className="inline-flex items-center gap-1.5 text-xs text-zinc-300 cursor-help">
+                      <CitationIcon citation={citation} className="w-3 h-3 text-emerald-400" />
+                      <span className="font-mono text-emerald-400">[{citation.id}]</span>
+                      <span>{describeCitationSource(citation)}</span>
+                    </span>
+                  </CitationHoverCard>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : message.sources && message.sources.length > 0 && (
+          <div className="mt-4 border-t border-zinc-800 pt-3">
+            <div className="text-xs font-medium text-zinc-400 mb-2">Sources</div>
+            <ul className="space-y-1">
+              {message.sources.map((source) => (
+                <li key={source.id}>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <span className="inline-flex items-center gap-1.5 text-xs text-zinc-300 cursor-help">
+                        <FileText className="w-3 h-3 text-emerald-400" />
+                        <span className="font-mono text-emerald-400">[{source.id}]</span>
+                        <span>{describeSourceLocation(source)}</span>
+                      </span>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p className="text-xs max-w-sm whitespace-pre-wrap">{source.excerpt}</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        
+        {message.invalidCitations && message.invalidCitations.length > 0 && (
+          <div className="mt-3 flex items-center gap-1.5 text-xs text-amber-400/80">
+            <AlertTriangle className="w-3 h-3" />
+            <span>
+              Removed {message.invalidCitations.length === 1 ? 'a citation' : `${message.invalidCitations.length} citations`} to
+              sources that do not exist ({message.invalidCitations.map(id => `[${id}]`).join(', ')})
+            </span>
+          </div>
+        )}
+        
+        {message.promptBudget && message.promptBudget.dropped.length > 0 && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <div className="mt-3 inline-flex items-center gap-1.5 text-xs text-amber-400/80 cursor-help">
+                <Scissors className="w-3 h-3" />
+                <span>Some context was trimmed to fit the model</span>
+              </div>
+            </TooltipTrigger>
+            <TooltipContent>
+              <ul className="text-xs max-w-xs space-y-1">
+                {message.promptBudget.dropped.map((note, index) => (
+                  <li key={index}>{note}</li>
+                ))}
+              </ul>
+            </TooltipContent>
+          </Tooltip>
+        )}
+        
+        {onFollowUp && !message.isStreaming && message.followUps && message.followUps.length > 0 && (
+          <div className="mt-4 flex flex-wrap gap-2" aria-label="Suggested follow-up questions">
+            {message.followUps.map((followUp) => (
+              <button
+                key={followUp}
+                onClick={() => onFollowUp(followUp)}
+                disabled={actionsDisabled}
+                className="inline-flex items-center gap-1.5 rounded-full border border-emerald-700/40 bg-emerald-950/20 px-3 py-1 text-xs text-emerald-300 hover:bg-emerald-900/30 hover:border-emerald-600/60 disabled:opacity-50 transition-colors"
+              >
+                <MessageCircleQuestion className="w-3 h-3" />
+                {followUp}
+              </button>
+            ))}
+          </div>
+        )}
         
         {message.modelInfo && message.modelInfo.features && message.modelInfo.features.length > 0 && (
           <div className="mt-3 flex flex-wrap gap-2">
@@ -112,13 +338,57 @@ export function ChatMessage({ message }: ChatMessageProps) {
         )}
       </div>
       
-      <button 
-        onClick={copyToClipboard}
-        className="opacity-0 group-hover:opacity-100 transition-opacity text-zinc-500 hover:text-zinc-300 focus:opacity-100 self-start mt-1 p-1 rounded-md hover:bg-zinc-800/50"
-        aria-label={copied ? "Copied" : "Copy message"}
-      >
-        {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
-      </button>
+      <div className="flex flex-col gap-1 self-start mt-1">
+        <button 
+          onClick={copyToClipboard}
+          disabled={message.isStreaming}
+          className="opacity-0 group-hover:opacity-100 transition-opacity text-zinc-500 hover:text-zinc-300 focus:opacity-100 p-1 rounded-md hover:bg-zinc-800/50"
+          aria-label={copied ? "Copied" : "Copy message"}
+        >
+          {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+        </button>
+        
+        {onEdit && !isEditing && (
+          <button
+            onClick={startEditing}
+            disabled={actionsDisabled}
+            className="opacity-0 group-hover:opacity-100 transition-opacity text-zinc-500 hover:text-zinc-300 focus:opacity-100 p-1 rounded-md hover:bg-zinc-800/50 disabled:hidden"
+            aria-label="Edit message"
+          >
+            <Pencil className="w-4 h-4" />
+          </button>
+        )}
+        
+        {onRegenerate && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button
+                disabled={actionsDisabled || message.isStreaming}
+                className="opacity-0 group-hover:opacity-100 transition-opacity text-zinc-500 hover:text-zinc-300 focus:opacity-100 p-1 rounded-md hover:bg-zinc-800/50 disabled:hidden"
+                aria-label="Regenerate answer"
+              >
+                <RefreshCw className="w-4 h-4" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => onRegenerate()}>
+                Regenerate
+              </DropdownMenuItem>
+              {models.length > 1 && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel className="text-xs text-zinc-500">Regenerate with</DropdownMenuLabel>
+                  {models.map(model => (
+                    <DropdownMenuItem key={model.id} onClick={() => onRegenerate(model.id)}>
+                      {model.name}
+                    </DropdownMenuItem>
+                  ))}
+                </>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,73 @@
+'use client';
+
+import { ReactNode } from 'react';
+import { ExternalLink, FileText, Globe, User } from 'lucide-react';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { describeCitationSource } from '@/lib/sources';
+import type { Citation } from '@/services/openai/types';
+
+interface CitationHoverCardProps {
+  citation: Citation;
+  children: ReactNode;
+}
+
+/**
+ * Icon for the kind of source a citation points to
+ */
+export function CitationIcon({ citation, className }: { citation: Citation; className?: string }) {
+  switch (citation.source.type) {
+    case 'web':
+      return <Globe className={className} />;
+    case 'knowledge_base':
+      return <FileText className={className} />;
+    case 'profile':
+      return <User className={className} />;
+  }
+}
+
+/**
+ * Shows the source behind a citation when its trigger is hovered
+ */
+export function CitationHoverCard({ citation, children }: CitationHoverCardProps) {
+  const { source } = citation;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>{children}</TooltipTrigger>
+      <TooltipContent className="max-w-sm">
+        <div className="space-y-1.5 text-xs">
+          <div className="flex items-center gap-1.5 font-medium">
+            <CitationIcon citation={citation} className="w-3 h-3 flex-shrink-0" />
+            <span className="font-mono">[{citation.id}]</span>
+            <span className="truncate">{describeCitationSource(citation)}</span>
+          </div>
+          
+          {source.type === 'web' && (
+            <>
+              {source.result.snippet && (
+                <p className="whitespace-pre-wrap line-clamp-6">{source.result.snippet}</p>
+              )}
+              <a
+                href={source.result.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-blue-400 hover:underline break-all"
+              >
+                {source.result.source || source.result.url}
+                <ExternalLink className="w-3 h-3 flex-shrink-0" />
+              </a>
+            </>
+          )}
+          
+          {source.type === 'knowledge_base' && (
+            <p className="whitespace-pre-wrap line-clamp-6">{source.source.excerpt}</p>
+          )}
+          
+          {source.type === 'profile' && (
+            <p>Based on the details in your student profile.</p>
+          )}
+        </div>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
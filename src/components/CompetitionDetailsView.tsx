@@ -23,9 +23,10 @@ interface CompetitionDetailsProps {
     benefits: string[];
     fee?: string;
   };
+  userId?: string;
 }
 
-export function CompetitionDetailsView({ competition }: CompetitionDetailsProps) {
+export function CompetitionDetailsView({ competition, userId }: CompetitionDetailsProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [aiDetails, setAiDetails] = useState<{
     applicationProcess: string;
@@ -75,7 +76,9 @@ export function CompetitionDetailsView({ competition }: CompetitionDetailsProps)
       `;
 
       // Call the AI service
-      const response = await getModelResponse(prompt, null, null, true);
+      const response = await getModelResponse(prompt, null, null, true, {
+        usageContext: { feature: 'competition_details', userId }
+      });
       
       if (!response.success) {
         throw new Error(response.error || "Failed to generate detailed guidance");
@@ -322,7 +322,7 @@ export function EnhancedRecommendations({
                         </DialogHeader>
                         
                         <div className="max-h-[70vh] overflow-y-auto pr-2">
-                          <ProjectDetailsView project={project} />
+                          <ProjectDetailsView project={project} userId={userId} />
                         </div>
                       </DialogContent>
                     </Dialog>
@@ -375,7 +375,7 @@ export function EnhancedRecommendations({
                           </DialogTitle>
                         </DialogHeader>
                         <div className="max-h-[70vh] overflow-y-auto pr-2">
-                          <ProjectDetailsView project={project} />
+                          <ProjectDetailsView project={project} userId={userId} />
                         </div>
                       </DialogContent>
                     </Dialog>
@@ -447,7 +447,7 @@ export function EnhancedRecommendations({
                         </DialogHeader>
                         
                         <div className="max-h-[70vh] overflow-y-auto pr-2">
-                          <CompetitionDetailsView competition={competition} />
+                          <CompetitionDetailsView competition={competition} userId={userId} />
                         </div>
                       </DialogContent>
                     </Dialog>
@@ -497,7 +497,7 @@ export function EnhancedRecommendations({
                           </DialogTitle>
                         </DialogHeader>
                         <div className="max-h-[70vh] overflow-y-auto pr-2">
-                          <CompetitionDetailsView competition={competition} />
+                          <CompetitionDetailsView competition={competition} userId={userId} />
                         </div>
                       </DialogContent>
                     </Dialog>
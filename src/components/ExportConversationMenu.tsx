@@ -0,0 +1,113 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, FileCode, FileJson, FileText } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import type { StudentProfile } from '@/components/StudentQuestionnaire';
+import type { ExportFormat } from '@/services/export';
+import { Message } from '@/types/chat';
+
+interface ExportConversationMenuProps {
+  messages: Message[];
+  profile?: StudentProfile | null;
+  conversationId?: string | null;
+  disabled?: boolean;
+}
+
+const FORMAT_OPTIONS: { format: ExportFormat; label: string; icon: React.ElementType }[] = [
+  { format: 'markdown', label: 'Markdown', icon: FileText },
+  { format: 'json', label: 'JSON', icon: FileJson },
+  { format: 'html', label: 'Printable report (HTML)', icon: FileCode }
+];
+
+function filenameFrom(response: Response, fallback: string): string {
+  const match = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/);
+  return match ? match[1] : fallback;
+}
+
+/**
+ * Have the server render a conversation in the given format and download the file
+ * Also used by the /export chat command.
+ */
+export async function downloadConversationExport(
+  format: ExportFormat,
+  { messages, profile, conversationId }: Pick<ExportConversationMenuProps, 'messages' | 'profile' | 'conversationId'>
+): Promise<void> {
+  const response = await fetch('/api/export', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      format,
+      conversationId,
+      profile,
+      messages: messages.filter(message => !message.isStreaming)
+    })
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Export failed with status ${response.status}`);
+  }
+
+  const blob = await response.blob();
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filenameFrom(response, `counseling-conversation.${format === 'markdown' ? 'md' : format}`);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Download the current conversation, with its citations and the student's profile
+ */
+export function ExportConversationMenu({ messages, profile, conversationId, disabled }: ExportConversationMenuProps) {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      await downloadConversationExport(format, { messages, profile, conversationId });
+    } catch (error) {
+      console.error('Error exporting conversation:', error);
+      toast.error('Could not export the conversation', {
+        description: error instanceof Error ? error.message : String(error)
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="border-zinc-700 text-zinc-300 hover:text-white"
+          disabled={disabled || isExporting || messages.length === 0}
+        >
+          <Download className="h-4 w-4 mr-1" />
+          {isExporting ? 'Exporting...' : 'Export'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {FORMAT_OPTIONS.map(({ format, label, icon: Icon }) => (
+          <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+            <Icon className="h-4 w-4 mr-2" />
+            {label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
 import { LangChainFileUpload } from '@/components/LangChainFileUpload';
@@ -8,15 +8,12 @@ import { LangChainQuery } from '@/components/LangChainQuery';
 import { Trash2, RefreshCw, Database, FileText, UploadCloud, Search, BarChart } from 'lucide-react';
 import { toast } from 'sonner';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { CollectionDocument } from '@/services/langchain/types';
 
-interface KnowledgeBaseDocument {
-  documentId: string;
-  metadata: {
-    filename: string;
-    filePath: string;
-    collectionName: string;
-  };
-  chunks: number;
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
 
 interface KnowledgeBaseManagerProps {
@@ -24,29 +21,65 @@ interface KnowledgeBaseManagerProps {
 }
 
 export function KnowledgeBaseManager({ defaultCollection = 'default' }: KnowledgeBaseManagerProps) {
-  const [documents, setDocuments] = useState<KnowledgeBaseDocument[]>([]);
+  const [documents, setDocuments] = useState<CollectionDocument[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [collection, setCollection] = useState(defaultCollection);
   const [error, setError] = useState<string | null>(null);
   const [queryText, setQueryText] = useState('');
-
-  const handleFileProcess = (result: any) => {
-    setDocuments(prev => {
-      // Check if document with same ID already exists
-      const exists = prev.some(doc => doc.documentId === result.documentId);
-      if (exists) {
-        return prev.map(doc => doc.documentId === result.documentId ? result : doc);
-      }
-      return [...prev, result];
-    });
-    toast.success(`Document processed: ${result.chunks} chunks created`);
-  };
+  const [deletingId, setDeletingId] = useState<string | null>(null);
 
   const handleError = (errorMessage: string) => {
     setError(errorMessage);
     toast.error(errorMessage);
   };
 
+  const loadDocuments = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/langchain/documents?collection=${encodeURIComponent(collection)}`);
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to load documents');
+      }
+      setDocuments(data.documents);
+    } catch (err) {
+      console.error('Error loading documents:', err);
+    }
+  }, [collection]);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [loadDocuments]);
+
+  // Uploads and replacements change the collection on the server, so reload its document list
+  const handleFileProcess = () => {
+    loadDocuments();
+  };
+
+  const deleteDocument = async (doc: CollectionDocument) => {
+    if (!confirm(`Delete "${doc.filename}" and its ${doc.chunks} chunks from the "${collection}" collection? This cannot be undone.`)) {
+      return;
+    }
+
+    setDeletingId(doc.documentId);
+
+    try {
+      const params = new URLSearchParams({ collection, documentId: doc.documentId });
+      const response = await fetch(`/api/langchain/documents?${params}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to delete document');
+      }
+
+      setDocuments(prev => prev.filter(d => d.documentId !== doc.documentId));
+      toast.success(`Deleted "${doc.filename}"`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'An error occurred';
+      handleError(`Error deleting document: ${message}`);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
   const clearCollection = async () => {
     if (!confirm(`Are you sure you want to clear the "${collection}" collection? This will delete all documents and cannot be undone.`)) {
       return;
@@ -187,12 +220,45 @@ export function KnowledgeBaseManager({ defaultCollection = 'default' }: Knowledg
                           <Database className="h-4 w-4 text-zinc-300" />
                         </div>
                         <div className="truncate">
-                          <div className="font-medium truncate">{doc.metadata.filename}</div>
-                          <div className="text-xs text-zinc-400">ID: {doc.documentId.substring(0, 8)}...</div>
+                          <div className="font-medium truncate">
+                            {doc.filename}
+                            {doc.version > 1 && (
+                              <span className="ml-2 text-xs font-normal text-zinc-400">v{doc.version}</span>
+                            )}
+                          </div>
+                          <div className="text-xs text-zinc-400">
+                            {[
+                              doc.size !== undefined ? formatFileSize(doc.size) : null,
+                              doc.uploadedAt ? `uploaded ${new Date(doc.uploadedAt).toLocaleString()}` : null,
+                              `ID: ${doc.documentId.substring(0, 8)}...`
+                            ].filter(Boolean).join(' · ')}
+                          </div>
                         </div>
                       </div>
-                      <div className="bg-zinc-700 px-2 py-1 rounded text-xs font-medium text-zinc-300 shrink-0">
-                        {doc.chunks} chunks
+                      <div className="flex items-center gap-2 shrink-0">
+                        <div className="bg-zinc-700 px-2 py-1 rounded text-xs font-medium text-zinc-300">
+                          {doc.chunks} chunks
+                        </div>
+                        <LangChainFileUpload
+                          isCompact
+                          onFileProcess={handleFileProcess}
+                          onError={handleError}
+                          collection={collection}
+                          replaceDocumentId={doc.documentId}
+                          disabled={deletingId === doc.documentId}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => deleteDocument(doc)}
+                          disabled={deletingId === doc.documentId}
+                          title="Delete document"
+                          aria-label={`Delete ${doc.filename}`}
+                        >
+                          {deletingId === doc.documentId
+                            ? <RefreshCw className="h-4 w-4 animate-spin" />
+                            : <Trash2 className="h-4 w-4" />}
+                        </Button>
                       </div>
                     </div>
                   ))}
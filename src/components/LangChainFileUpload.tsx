@@ -13,8 +13,12 @@ interface LangChainFileUploadProps {
   collection?: string;
   metadata?: Record<string, any>;
   acceptedFileTypes?: string;
+  // Upload the file as the next version of this document
+  replaceDocumentId?: string;
 }
 
+type DuplicateChoice = 'ask' | 'replace' | 'keep';
+
 export const LangChainFileUpload = ({ 
   onFileProcess, 
   onError, 
@@ -22,7 +26,8 @@ export const LangChainFileUpload = ({
   disabled = false,
   collection = 'default',
   metadata = {},
-  acceptedFileTypes = '.pdf,.csv,.docx,.txt'
+  acceptedFileTypes = '.pdf,.csv,.docx,.txt',
+  replaceDocumentId
 }: LangChainFileUploadProps) => {
   const [isUploading, setIsUploading] = useState(false);
   const [fileName, setFileName] = useState<string | null>(null);
@@ -44,23 +49,49 @@ export const LangChainFileUpload = ({
     setIsUploading(true);
     setUploadProgress(10); // Start progress
 
-    try {
+    const sendFile = (onDuplicate: DuplicateChoice) => {
       const formData = new FormData();
       formData.append('file', file);
       formData.append('collection', collection);
+      formData.append('onDuplicate', onDuplicate);
+      if (replaceDocumentId) {
+        formData.append('replaceDocumentId', replaceDocumentId);
+      }
       
       // Add any additional metadata
       Object.entries(metadata).forEach(([key, value]) => {
         formData.append(key, value);
       });
 
-      console.log(`Uploading file: ${file.name}, size: ${file.size} bytes, type: ${file.type}`);
-      setUploadProgress(30); // Update progress
-
-      const response = await fetch('/api/langchain/process-document', {
+      return fetch('/api/langchain/process-document', {
         method: 'POST',
         body: formData,
       });
+    };
+
+    try {
+      console.log(`Uploading file: ${file.name}, size: ${file.size} bytes, type: ${file.type}`);
+      setUploadProgress(30); // Update progress
+
+      let response = await sendFile('ask');
+
+      // A file of the same name is already in the collection: replace it, keep both, or stop
+      if (response.status === 409) {
+        const { duplicate } = await response.json();
+        let choice: DuplicateChoice | null = null;
+        if (confirm(`"${file.name}" is already in the "${collection}" collection (version ${duplicate.version}, ${duplicate.chunks} chunks). Replace it with this file as version ${duplicate.version + 1}?`)) {
+          choice = 'replace';
+        } else if (confirm(`Add "${file.name}" as a separate document instead? Its chunks will appear alongside the existing ones.`)) {
+          choice = 'keep';
+        }
+
+        if (!choice) {
+          setFileName(null);
+          toast.info('Upload cancelled');
+          return;
+        }
+        response = await sendFile(choice);
+      }
 
       setUploadProgress(70); // Update progress
 
@@ -96,7 +127,9 @@ export const LangChainFileUpload = ({
 
       console.log(`Document processed successfully. ID: ${data.documentId}, chunks: ${data.chunks}`);
       setUploadProgress(100); // Complete
-      toast.success(`Document processed: ${data.chunks} chunks created`);
+      toast.success(data.replacedDocumentId
+        ? `Document replaced: version ${data.version}, ${data.chunks} chunks`
+        : `Document processed: ${data.chunks} chunks created`);
       onFileProcess(data);
     } catch (err) {
       console.error('Document processing error:', err);
@@ -151,6 +184,7 @@ export const LangChainFileUpload = ({
         variant="outline"
         className={`${isCompact ? 'p-2' : ''} border-zinc-700 text-white hover:bg-zinc-700 hover:text-white`}
         type="button"
+        title={replaceDocumentId ? 'Upload a new version' : undefined}
       >
         {isUploading ? (
           <Loader2 className={`${isCompact ? 'w-5 h-5' : 'w-5 h-5 mr-2'} animate-spin`} />
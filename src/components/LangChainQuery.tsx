@@ -4,7 +4,8 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { QueryResult } from '@/services/langchain/types';
-import { Loader2 } from 'lucide-react';
+import { COMMON_FILTER_FIELDS, FieldCondition, MetadataFilter } from '@/lib/metadataFilter';
+import { Filter, Loader2, Plus, X } from 'lucide-react';
 import { toast } from 'sonner';
 
 interface LangChainQueryProps {
@@ -12,12 +13,59 @@ interface LangChainQueryProps {
   onError?: (error: string) => void;
 }
 
+// Operators offered by the filter builder; "exists" and "missing" take no value
+type FilterRowOperator = '$eq' | '$ne' | '$in' | '$gt' | '$gte' | '$lt' | '$lte' | 'exists' | 'missing';
+
+interface FilterRow {
+  id: number;
+  field: string;
+  operator: FilterRowOperator;
+  value: string;
+}
+
+const OPERATOR_OPTIONS: { value: FilterRowOperator; label: string }[] = [
+  { value: '$eq', label: 'is' },
+  { value: '$ne', label: 'is not' },
+  { value: '$in', label: 'is one of' },
+  { value: '$gte', label: '≥' },
+  { value: '$gt', label: '>' },
+  { value: '$lte', label: '≤' },
+  { value: '$lt', label: '<' },
+  { value: 'exists', label: 'is set' },
+  { value: 'missing', label: 'is not set' }
+];
+
+function toCondition(row: FilterRow): FieldCondition {
+  if (row.operator === 'exists' || row.operator === 'missing') {
+    return { $exists: row.operator === 'exists' };
+  }
+  if (row.operator === '$in') {
+    return { $in: row.value.split(',').map(value => value.trim()).filter(Boolean) };
+  }
+  return { [row.operator]: row.value.trim() };
+}
+
+/**
+ * Turn the builder's rows into a filter, skipping rows that are not filled in
+ * Rows are combined with $and, so one field can carry several conditions, e.g. a range.
+ */
+function buildFilter(rows: FilterRow[]): MetadataFilter | undefined {
+  const complete = rows.filter(row =>
+    row.field.trim() && (row.operator === 'exists' || row.operator === 'missing' || row.value.trim())
+  );
+  if (complete.length === 0) {
+    return undefined;
+  }
+  return { $and: complete.map(row => ({ [row.field.trim()]: toCondition(row) })) };
+}
+
 export const LangChainQuery = ({ collection = 'default', onError }: LangChainQueryProps) => {
   const [query, setQuery] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [results, setResults] = useState<QueryResult[] | null>(null);
   const [page, setPage] = useState(1);
   const [hasMoreResults, setHasMoreResults] = useState(false);
+  const [filterRows, setFilterRows] = useState<FilterRow[]>([]);
   
   // Configure the relevance threshold and page size
   const threshold = 0.6;
@@ -45,7 +93,8 @@ export const LangChainQuery = ({ collection = 'default', onError }: LangChainQue
           collection,
           limit: pageSize,
           threshold,
-          page: requestPage
+          page: requestPage,
+          filter: buildFilter(filterRows)
         }),
       });
       
@@ -107,6 +156,18 @@ export const LangChainQuery = ({ collection = 'default', onError }: LangChainQue
     }
   };
   
+  const addFilterRow = () => {
+    setFilterRows(rows => [...rows, { id: Date.now(), field: '', operator: '$eq', value: '' }]);
+  };
+  
+  const updateFilterRow = (id: number, changes: Partial<FilterRow>) => {
+    setFilterRows(rows => rows.map(row => (row.id === id ? { ...row, ...changes } : row)));
+  };
+  
+  const removeFilterRow = (id: number) => {
+    setFilterRows(rows => rows.filter(row => row.id !== id));
+  };
+  
   return (
     <div className="flex flex-col space-y-4">
       <div className="flex">
@@ -133,6 +194,71 @@ export const LangChainQuery = ({ collection = 'default', onError }: LangChainQue
         </Button>
       </div>
       
+      {/* Metadata filters, applied before results are scored */}
+      <div className="space-y-2">
+        {filterRows.map(row => (
+          <div key={row.id} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={row.field}
+              onChange={(e) => updateFilterRow(row.id, { field: e.target.value })}
+              onKeyDown={handleKeyDown}
+              placeholder="Field"
+              list="metadata-filter-fields"
+              className="w-36 p-1.5 text-sm border border-zinc-700 bg-zinc-900 rounded text-white"
+              aria-label="Metadata field"
+            />
+            <select
+              value={row.operator}
+              onChange={(e) => updateFilterRow(row.id, { operator: e.target.value as FilterRowOperator })}
+              className="p-1.5 text-sm border border-zinc-700 bg-zinc-900 rounded text-white"
+              aria-label="Condition"
+            >
+              {OPERATOR_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            {row.operator !== 'exists' && row.operator !== 'missing' && (
+              <input
+                type="text"
+                value={row.value}
+                onChange={(e) => updateFilterRow(row.id, { value: e.target.value })}
+                onKeyDown={handleKeyDown}
+                placeholder={row.operator === '$in' ? 'Values, separated by commas' : 'Value'}
+                className="flex-1 p-1.5 text-sm border border-zinc-700 bg-zinc-900 rounded text-white"
+                aria-label="Value"
+              />
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => removeFilterRow(row.id)}
+              className="h-8 w-8 ml-auto"
+              aria-label="Remove filter"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <datalist id="metadata-filter-fields">
+          {COMMON_FILTER_FIELDS.map(field => (
+            <option key={field} value={field} />
+          ))}
+        </datalist>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={addFilterRow}
+          className="border-zinc-700"
+        >
+          {filterRows.length === 0 ? (
+            <><Filter className="mr-2 h-4 w-4" />Filter by metadata</>
+          ) : (
+            <><Plus className="mr-2 h-4 w-4" />Add filter</>
+          )}
+        </Button>
+      </div>
+      
       {results && results.length > 0 ? (
         <div className="space-y-3">
           {results.map((result, index) => (
@@ -25,9 +25,10 @@ interface ProjectDetailsProps {
     }[];
     matchScore: number;
   };
+  userId?: string;
 }
 
-export function ProjectDetailsView({ project }: ProjectDetailsProps) {
+export function ProjectDetailsView({ project, userId }: ProjectDetailsProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [aiDetails, setAiDetails] = useState<{
     detailedPlan: string;
@@ -74,7 +75,9 @@ export function ProjectDetailsView({ project }: ProjectDetailsProps) {
       `;
 
       // Call the AI service
-      const response = await getModelResponse(prompt, null, null, true);
+      const response = await getModelResponse(prompt, null, null, true, {
+        usageContext: { feature: 'project_details', userId }
+      });
       
       if (!response.success) {
         throw new Error(response.error || "Failed to generate detailed guidance");
@@ -0,0 +1,115 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { Brain, RefreshCw, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { StudentFact } from '@/services/memory';
+
+interface StudentMemoryPanelProps {
+  userId: string | null;
+}
+
+/**
+ * Settings panel listing the facts the counselor remembers about the student, each of which can be deleted
+ */
+export function StudentMemoryPanel({ userId }: StudentMemoryPanelProps) {
+  const [facts, setFacts] = useState<StudentFact[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFacts = useCallback(async () => {
+    if (!userId) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/memory?${new URLSearchParams({ userId })}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load memory');
+      setFacts(data.facts);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load memory');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadFacts();
+  }, [loadFacts]);
+
+  const forget = async (factId?: string) => {
+    if (!userId) return;
+    if (!factId && !window.confirm('Forget everything the counselor remembers about you?')) return;
+
+    const params = new URLSearchParams({ userId });
+    if (factId) params.set('id', factId);
+
+    try {
+      const response = await fetch(`/api/memory?${params}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to delete');
+      setFacts(prev => factId ? prev.filter(fact => fact.id !== factId) : []);
+    } catch (err) {
+      toast.error('Could not delete from memory', {
+        description: err instanceof Error ? err.message : String(err)
+      });
+    }
+  };
+
+  return (
+    <div className="p-4 rounded-lg bg-zinc-800/50 border border-zinc-700/50">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-md font-medium text-zinc-200 flex items-center gap-2">
+          <Brain className="h-4 w-4 text-purple-400" />
+          What the Counselor Remembers
+        </h3>
+        <Button variant="outline" size="sm" onClick={loadFacts} disabled={isLoading || !userId}>
+          <RefreshCw className={`h-3 w-3 mr-1.5 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+      <p className="text-sm text-zinc-400 mb-3">
+        Facts you have mentioned in your conversations, such as your target countries or test scores. They are used in later conversations so you do not have to repeat them.
+      </p>
+
+      {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+
+      {facts.length === 0 ? (
+        <p className="text-xs text-zinc-500">Nothing remembered yet</p>
+      ) : (
+        <>
+          <ul className="space-y-1 mb-3">
+            {facts.map(fact => (
+              <li
+                key={fact.id}
+                className="group flex items-start justify-between gap-2 rounded px-2 py-1 text-sm text-zinc-300 hover:bg-zinc-800"
+              >
+                <span>{fact.text}</span>
+                <button
+                  onClick={() => forget(fact.id)}
+                  className="p-0.5 text-zinc-500 hover:text-red-400 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                  title="Forget this"
+                >
+                  <X className="h-4 w-4" />
+                  <span className="sr-only">Forget this</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => forget()}
+            className="border-red-700 text-red-400 hover:bg-red-950/30"
+          >
+            <Trash2 className="h-3 w-3 mr-1.5" />
+            Forget everything
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
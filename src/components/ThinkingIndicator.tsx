@@ -5,36 +5,49 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Brain } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import type { ProgressEvent } from '@/services/openai/types';
 
 interface ThinkingIndicatorProps {
+  // Guessed steps, revealed one by one; only shown when there are no events
   steps: string[];
+  // Progress reported by the chat pipeline as it happens
+  events?: ProgressEvent[];
+  // The model working on the answer; the badge is hidden until it is known
   model?: string;
 }
 
-export function ThinkingIndicator({ steps, model = "GPT-4.1 Mini" }: ThinkingIndicatorProps) {
-  const [visibleSteps, setVisibleSteps] = useState<string[]>([]);
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+export function ThinkingIndicator({ steps, events = [], model }: ThinkingIndicatorProps) {
+  const [visibleCount, setVisibleCount] = useState(0);
   
+  // Steps may arrive all at once or one by one while a response streams in,
+  // so reveal them in order without replaying the ones already shown
   useEffect(() => {
-    if (steps.length === 0) {
-      setVisibleSteps(["Processing your question..."]);
+    if (steps.length < visibleCount) {
+      setVisibleCount(0);
       return;
     }
     
-    // Show steps one by one with delays
-    const timers: NodeJS.Timeout[] = [];
+    if (visibleCount >= steps.length) {
+      return;
+    }
     
-    steps.forEach((step, index) => {
-      const timer = setTimeout(() => {
-        setVisibleSteps(prev => [...prev, step]);
-      }, index * 600);
-      
-      timers.push(timer);
-    });
+    // Show steps one by one with delays
+    const timer = setTimeout(() => {
+      setVisibleCount(count => count + 1);
+    }, visibleCount === 0 ? 0 : 600);
     
-    return () => {
-      timers.forEach(timer => clearTimeout(timer));
-    };
-  }, [steps]);
+    return () => clearTimeout(timer);
+  }, [steps.length, visibleCount]);
+  
+  const visibleSteps = steps.length === 0
+    ? ["Processing your question..."]
+    : steps.slice(0, visibleCount);
+  
+  const hasEvents = events.length > 0;
 
   return (
     <Card className="border-0 bg-zinc-900/40 border-zinc-800/50 rounded-xl shadow-lg overflow-hidden">
@@ -47,12 +60,45 @@ export function ThinkingIndicator({ steps, model = "GPT-4.1 Mini" }: ThinkingInd
             <span className="text-sm font-medium text-indigo-300">Thinking in progress</span>
           </div>
           
-          <Badge variant="outline" className="bg-zinc-800/80 text-xs border-zinc-700/50">
-            {model}
-          </Badge>
+          {model && (
+            <Badge variant="outline" className="bg-zinc-800/80 text-xs border-zinc-700/50">
+              {model}
+            </Badge>
+          )}
         </div>
         
-        {visibleSteps.map((step, index) => (
+        {hasEvents && events.map((event, index) => {
+          const isCurrent = index === events.length - 1;
+          return (
+            <div key={index} className="flex items-start gap-3 animate-fadeIn">
+              <div className="h-5 w-5 mt-0.5 relative flex items-center justify-center">
+                {isCurrent && (
+                  <div className="absolute inset-0 bg-indigo-500/30 rounded-full animate-ping" 
+                       style={{animationDuration: '1.5s'}} />
+                )}
+                <div className={`relative h-3 w-3 rounded-full ${isCurrent ? 'bg-indigo-500' : 'bg-indigo-500/50'}`} />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-baseline justify-between gap-3">
+                  <p className={`text-sm ${isCurrent ? 'text-zinc-300' : 'text-zinc-400'}`}>{event.label}</p>
+                  <span className="text-xs text-zinc-500 whitespace-nowrap">
+                    {event.durationMs !== undefined && `${formatDuration(event.durationMs)} · `}
+                    +{formatDuration(event.elapsedMs)}
+                  </span>
+                </div>
+                {isCurrent && (
+                  <div className="mt-2 space-y-1.5">
+                    <Skeleton className="h-2.5 w-[90%] bg-zinc-800/80" />
+                    <Skeleton className="h-2.5 w-[75%] bg-zinc-800/80" />
+                    <Skeleton className="h-2.5 w-[60%] bg-zinc-800/80" />
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+        
+        {!hasEvents && visibleSteps.map((step, index) => (
           <div 
             key={index}
             className="flex items-start gap-3 animate-fadeIn"
@@ -0,0 +1,230 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Archive, ArchiveRestore, MoreHorizontal, Pencil, Pin, PinOff, Plus, Search, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import type { ThreadSummary } from '@/services/threads';
+
+interface ThreadSidebarProps {
+  userId: string | null;
+  activeThreadId: string | null;
+  onSelectThread: (threadId: string) => void;
+  onNewThread: () => void;
+  // Changed by the page after each answer so the list picks up new and updated threads
+  refreshKey?: number;
+  disabled?: boolean;
+}
+
+// Wait for the student to stop typing before searching
+const SEARCH_DELAY_MS = 300;
+
+/**
+ * Sidebar listing the student's saved conversations
+ */
+export function ThreadSidebar({
+  userId,
+  activeThreadId,
+  onSelectThread,
+  onNewThread,
+  refreshKey,
+  disabled
+}: ThreadSidebarProps) {
+  const [threads, setThreads] = useState<ThreadSummary[]>([]);
+  const [query, setQuery] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const loadThreads = useCallback(async () => {
+    if (!userId) return;
+
+    const params = new URLSearchParams({ userId });
+    if (query.trim()) params.set('q', query.trim());
+    if (showArchived) params.set('archived', 'true');
+
+    try {
+      const response = await fetch(`/api/threads?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load conversations');
+      }
+      setThreads(data.threads);
+    } catch (err) {
+      console.warn('Failed to load threads:', err);
+    }
+  }, [userId, query, showArchived]);
+
+  useEffect(() => {
+    const timer = setTimeout(loadThreads, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [loadThreads, refreshKey]);
+
+  const updateThread = async (threadId: string, updates: { title?: string; pinned?: boolean; archived?: boolean }) => {
+    try {
+      const response = await fetch('/api/threads', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: threadId, userId, ...updates })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update the conversation');
+      }
+      await loadThreads();
+    } catch (err) {
+      toast.error('Could not update the conversation', {
+        description: err instanceof Error ? err.message : String(err)
+      });
+    }
+  };
+
+  const deleteThread = async (threadId: string) => {
+    if (!userId || !window.confirm('Delete this conversation? This cannot be undone.')) return;
+
+    try {
+      const response = await fetch(`/api/threads?${new URLSearchParams({ id: threadId, userId })}`, {
+        method: 'DELETE'
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete the conversation');
+      }
+      if (threadId === activeThreadId) {
+        onNewThread();
+      }
+      await loadThreads();
+    } catch (err) {
+      toast.error('Could not delete the conversation', {
+        description: err instanceof Error ? err.message : String(err)
+      });
+    }
+  };
+
+  const startRename = (thread: ThreadSummary) => {
+    setRenamingId(thread.id);
+    setRenameValue(thread.title);
+  };
+
+  const finishRename = async () => {
+    const threadId = renamingId;
+    setRenamingId(null);
+    if (threadId && renameValue.trim()) {
+      await updateThread(threadId, { title: renameValue.trim() });
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-zinc-900 rounded-xl border border-zinc-800 p-3 gap-3">
+      <Button
+        onClick={onNewThread}
+        disabled={disabled}
+        className="w-full bg-zinc-800 hover:bg-zinc-700 text-white"
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        New conversation
+      </Button>
+
+      <div className="relative">
+        <Search className="h-4 w-4 absolute left-2 top-1/2 -translate-y-1/2 text-zinc-500" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search conversations"
+          className="pl-8 bg-zinc-950 border-zinc-800 text-zinc-200 text-sm"
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-1 hide-scrollbar">
+        {threads.length === 0 ? (
+          <p className="text-xs text-zinc-500 px-1">
+            {query.trim() ? 'No conversations match your search' : 'Your saved conversations will appear here'}
+          </p>
+        ) : threads.map(thread => (
+          <div
+            key={thread.id}
+            className={`group flex items-start gap-1 rounded-lg px-2 py-2 cursor-pointer ${
+              thread.id === activeThreadId ? 'bg-zinc-800' : 'hover:bg-zinc-800/60'
+            } ${disabled ? 'opacity-60 pointer-events-none' : ''}`}
+            onClick={() => renamingId !== thread.id && onSelectThread(thread.id)}
+          >
+            <div className="flex-1 min-w-0">
+              {renamingId === thread.id ? (
+                <Input
+                  autoFocus
+                  value={renameValue}
+                  onChange={(e) => setRenameValue(e.target.value)}
+                  onBlur={finishRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') finishRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  onClick={(e) => e.stopPropagation()}
+                  className="h-7 bg-zinc-950 border-zinc-700 text-sm text-zinc-100"
+                />
+              ) : (
+                <div className="flex items-center gap-1 text-sm text-zinc-200">
+                  {thread.pinned && <Pin className="h-3 w-3 shrink-0 text-amber-400" />}
+                  {thread.archived && <Archive className="h-3 w-3 shrink-0 text-zinc-500" />}
+                  <span className="truncate">{thread.title}</span>
+                </div>
+              )}
+              {thread.preview && (
+                <p className="text-xs text-zinc-500 truncate mt-0.5">{thread.preview}</p>
+              )}
+            </div>
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button
+                  className="p-1 rounded text-zinc-500 hover:text-zinc-200 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <MoreHorizontal className="h-4 w-4" />
+                  <span className="sr-only">Conversation actions</span>
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                <DropdownMenuItem onClick={() => startRename(thread)}>
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Rename
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => updateThread(thread.id, { pinned: !thread.pinned })}>
+                  {thread.pinned ? <PinOff className="h-4 w-4 mr-2" /> : <Pin className="h-4 w-4 mr-2" />}
+                  {thread.pinned ? 'Unpin' : 'Pin'}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => updateThread(thread.id, { archived: !thread.archived })}>
+                  {thread.archived ? <ArchiveRestore className="h-4 w-4 mr-2" /> : <Archive className="h-4 w-4 mr-2" />}
+                  {thread.archived ? 'Unarchive' : 'Archive'}
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => deleteThread(thread.id)} className="text-red-400">
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer px-1">
+        <input
+          type="checkbox"
+          checked={showArchived}
+          onChange={(e) => setShowArchived(e.target.checked)}
+          className="accent-zinc-500"
+        />
+        Show archived
+      </label>
+    </div>
+  );
+}
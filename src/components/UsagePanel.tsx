@@ -0,0 +1,134 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { RefreshCw, Coins } from 'lucide-react';
+import type { UsageFeature, UsageSummary, UsageTotals } from '@/services/usage';
+
+const FEATURE_LABELS: Record<UsageFeature, string> = {
+  chat: 'Chat',
+  recommendations: 'Recommendations',
+  kb_answer: 'Knowledge base answers',
+  project_details: 'Project details',
+  competition_details: 'Competition details',
+  memory: 'Conversation memory',
+  followups: 'Follow-up suggestions'
+};
+
+function formatCost(cost: number): string {
+  if (cost === 0) return '$0.00';
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+function UsageTable({ title, rows }: { title: string; rows: { label: string; totals: UsageTotals }[] }) {
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-zinc-300 mb-2">{title}</h4>
+      {rows.length === 0 ? (
+        <p className="text-xs text-zinc-500">No usage recorded yet</p>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-zinc-500 text-left">
+              <th className="font-normal pb-1"></th>
+              <th className="font-normal pb-1 text-right">Calls</th>
+              <th className="font-normal pb-1 text-right">Tokens</th>
+              <th className="font-normal pb-1 text-right">Est. cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.label} className="border-t border-zinc-700/50 text-zinc-300">
+                <td className="py-1 pr-2 truncate max-w-[160px]">{row.label}</td>
+                <td className="py-1 text-right">{row.totals.calls}</td>
+                <td className="py-1 text-right">{row.totals.totalTokens.toLocaleString()}</td>
+                <td className="py-1 text-right">{formatCost(row.totals.estimatedCost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Settings panel showing token usage and estimated spend
+ */
+export function UsagePanel() {
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadUsage = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/usage');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load usage');
+      setSummary(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load usage');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  return (
+    <div className="p-4 rounded-lg bg-zinc-800/50 border border-zinc-700/50">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-md font-medium text-zinc-200 flex items-center gap-2">
+          <Coins className="h-4 w-4 text-amber-400" />
+          Usage &amp; Cost
+        </h3>
+        <Button variant="outline" size="sm" onClick={loadUsage} disabled={isLoading}>
+          <RefreshCw className={`h-3 w-3 mr-1.5 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+      <p className="text-sm text-zinc-400 mb-3">
+        Tokens used by every model call since the server started, with costs estimated from published model pricing.
+      </p>
+
+      {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+
+      {summary && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline" className="bg-zinc-800 border-zinc-700 text-zinc-300">
+              {summary.totals.calls} calls
+            </Badge>
+            <Badge variant="outline" className="bg-zinc-800 border-zinc-700 text-zinc-300">
+              {summary.totals.promptTokens.toLocaleString()} prompt / {summary.totals.completionTokens.toLocaleString()} completion tokens
+            </Badge>
+            <Badge variant="outline" className="bg-zinc-800 border-zinc-700 text-amber-300">
+              {formatCost(summary.totals.estimatedCost)} estimated
+            </Badge>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <UsageTable
+              title="By feature"
+              rows={summary.byFeature.map(({ feature, ...totals }) => ({ label: FEATURE_LABELS[feature] || feature, totals }))}
+            />
+            <UsageTable
+              title="By day"
+              rows={summary.byDay.map(({ day, ...totals }) => ({ label: day, totals }))}
+            />
+            <UsageTable
+              title="By student"
+              rows={summary.byUser.map(({ userId, ...totals }) => ({ label: userId === 'anonymous' ? 'Anonymous' : userId, totals }))}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -14,12 +14,51 @@ export interface EnvConfig {
   // API URLs
   OPENAI_API_URL: string;
   
+  // LLM provider selection
+  LLM_PROVIDER: 'openai' | 'local' | 'fake';
+  LOCAL_LLM_URL: string;
+  LOCAL_LLM_MODEL: string;
+  LOCAL_LLM_API_KEY?: string;
+  LOCAL_LLM_CONTEXT_WINDOW: number;
+  
+  // Web search
+  SEARCH_PROVIDER: 'tavily' | 'fixture';
+  TAVILY_API_KEY?: string;
+  SEARCH_ALLOWED_DOMAINS: string[];
+  SEARCH_BLOCKED_DOMAINS: string[];
+  SEARCH_CACHE_TTL_MS: number;
+  
   // Model configuration
   PRIMARY_MODEL: string;
   FALLBACK_MODEL: string;
+  MODEL_CHAIN: string;
+  CIRCUIT_BREAKER_THRESHOLD: number;
+  CIRCUIT_BREAKER_COOLDOWN_MS: number;
   WEB_SEARCH_ENABLED: boolean;
   WEB_BROWSING_MODEL: string;
   
+  // Counselor persona used when a conversation does not choose one
+  DEFAULT_PERSONA: string;
+  
+  // Privacy
+  PII_REDACTION_ENABLED: boolean;
+  
+  // Memory
+  MEMORY_ENABLED: boolean;
+  
+  // Follow-up suggestions
+  FOLLOW_UPS_ENABLED: boolean;
+  
+  // Knowledge base embeddings
+  EMBEDDING_PROVIDER: 'openai' | 'local' | 'hash';
+  OPENAI_EMBEDDING_MODEL: string;
+  LOCAL_EMBEDDING_MODEL: string;
+  
+  // Knowledge base search
+  VECTOR_INDEX_ENABLED: boolean;
+  VECTOR_INDEX_EF_SEARCH: number;
+  RETRIEVAL_MODE: 'vector' | 'lexical' | 'hybrid';
+  
   // Node environment
   NODE_ENV: 'development' | 'production' | 'test';
   
@@ -64,6 +103,27 @@ function getEnvVar(key: string, defaultValue: string = ''): string {
   }
 }
 
+/**
+ * Gets an optional environment variable without warning when it is missing
+ */
+function getOptionalEnvVar(key: string): string {
+  try {
+    return process.env[key]?.trim() || '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Parses a comma-separated list of domains from an optional environment variable
+ */
+function getDomainList(key: string): string[] {
+  return getOptionalEnvVar(key)
+    .split(',')
+    .map(domain => domain.trim().toLowerCase().replace(/^www\./, ''))
+    .filter(Boolean);
+}
+
 /**
  * Directly build the environment configuration object
  * This approach simplifies initialization and prevents circular dependencies
@@ -105,15 +165,75 @@ export const env: EnvConfig = {
   // API URLs
   OPENAI_API_URL: getEnvVar('OPENAI_API_URL', 'https://api.openai.com/v1/chat/completions'),
   
+  // LLM provider - 'openai' falls back to the fake provider when no API key is configured
+  LLM_PROVIDER: (() => {
+    const value = getEnvVar('LLM_PROVIDER', 'openai').toLowerCase();
+    if (value === 'local' || value === 'fake') return value;
+    return 'openai' as EnvConfig['LLM_PROVIDER'];
+  })(),
+  // Any OpenAI-compatible chat completions endpoint (Ollama, LM Studio, vLLM, ...)
+  LOCAL_LLM_URL: getEnvVar('LOCAL_LLM_URL', 'http://localhost:11434/v1/chat/completions'),
+  LOCAL_LLM_MODEL: getEnvVar('LOCAL_LLM_MODEL', 'llama3.1'),
+  LOCAL_LLM_API_KEY: getOptionalEnvVar('LOCAL_LLM_API_KEY'),
+  // Local servers often run models with a smaller window than the model supports
+  LOCAL_LLM_CONTEXT_WINDOW: parseInt(getOptionalEnvVar('LOCAL_LLM_CONTEXT_WINDOW') || '8192', 10),
+  
+  // Web search - uses Tavily when a key is configured, otherwise offline fixtures
+  SEARCH_PROVIDER: (() => {
+    const value = getOptionalEnvVar('SEARCH_PROVIDER').toLowerCase();
+    if (value === 'tavily' || value === 'fixture') return value;
+    return (getOptionalEnvVar('TAVILY_API_KEY') ? 'tavily' : 'fixture') as EnvConfig['SEARCH_PROVIDER'];
+  })(),
+  TAVILY_API_KEY: getOptionalEnvVar('TAVILY_API_KEY'),
+  SEARCH_ALLOWED_DOMAINS: getDomainList('SEARCH_ALLOWED_DOMAINS'),
+  SEARCH_BLOCKED_DOMAINS: getDomainList('SEARCH_BLOCKED_DOMAINS'),
+  SEARCH_CACHE_TTL_MS: parseInt(getOptionalEnvVar('SEARCH_CACHE_TTL_MS') || '900000', 10), // 15 minutes
+  
   // Model configuration with sensible defaults
   PRIMARY_MODEL: getEnvVar('PRIMARY_MODEL', 'gpt-4.1-mini'),
   FALLBACK_MODEL: getEnvVar('FALLBACK_MODEL', 'gpt-3.5-turbo'),
+  // Ordered "provider:model" list to try; defaults to PRIMARY_MODEL then FALLBACK_MODEL
+  MODEL_CHAIN: getOptionalEnvVar('MODEL_CHAIN'),
+  CIRCUIT_BREAKER_THRESHOLD: parseInt(getOptionalEnvVar('CIRCUIT_BREAKER_THRESHOLD') || '3', 10),
+  CIRCUIT_BREAKER_COOLDOWN_MS: parseInt(getOptionalEnvVar('CIRCUIT_BREAKER_COOLDOWN_MS') || '60000', 10), // 1 minute
   WEB_SEARCH_ENABLED: (() => {
     const value = getEnvVar('WEB_SEARCH_ENABLED', 'true');
     return value.toLowerCase() === 'true';
   })(),
   WEB_BROWSING_MODEL: getEnvVar('WEB_BROWSING_MODEL', 'gpt-4.1-mini'), // Updated to use GPT-4.1 Mini for browsing
   
+  DEFAULT_PERSONA: getOptionalEnvVar('DEFAULT_PERSONA'),
+  
+  // Names, contact details and ID numbers are replaced with placeholders before reaching the model
+  PII_REDACTION_ENABLED: getOptionalEnvVar('PII_REDACTION_ENABLED').toLowerCase() !== 'false',
+  
+  // Older turns are summarized and facts about the student remembered, at the cost of extra model calls
+  MEMORY_ENABLED: getOptionalEnvVar('MEMORY_ENABLED').toLowerCase() !== 'false',
+  
+  // Answers come with suggested follow-up questions, written by the model unless the mock provider answered
+  FOLLOW_UPS_ENABLED: getOptionalEnvVar('FOLLOW_UPS_ENABLED').toLowerCase() !== 'false',
+  
+  // Embeddings for the knowledge base - OpenAI when a key is configured, otherwise a sentence-transformer
+  // run on the CPU; 'hash' is a deterministic stand-in for offline tests, not for real search
+  EMBEDDING_PROVIDER: (() => {
+    const value = getOptionalEnvVar('EMBEDDING_PROVIDER').toLowerCase();
+    if (value === 'openai' || value === 'local' || value === 'hash') return value;
+    return (getOptionalEnvVar('OPENAI_API_KEY').startsWith('sk-') ? 'openai' : 'local') as EnvConfig['EMBEDDING_PROVIDER'];
+  })(),
+  OPENAI_EMBEDDING_MODEL: getOptionalEnvVar('OPENAI_EMBEDDING_MODEL') || 'text-embedding-ada-002',
+  // Any ONNX feature-extraction model from the Hugging Face hub, downloaded and cached on first use
+  LOCAL_EMBEDDING_MODEL: getOptionalEnvVar('LOCAL_EMBEDDING_MODEL') || 'Xenova/all-MiniLM-L6-v2',
+  
+  // Collections are searched through an HNSW index; when disabled every query compares against every chunk
+  VECTOR_INDEX_ENABLED: getOptionalEnvVar('VECTOR_INDEX_ENABLED').toLowerCase() !== 'false',
+  // Candidates the index keeps while searching; higher improves recall at the cost of latency
+  VECTOR_INDEX_EF_SEARCH: parseInt(getOptionalEnvVar('VECTOR_INDEX_EF_SEARCH') || '64', 10),
+  // How the knowledge base is searched when a caller does not choose; hybrid fuses BM25 and vector rankings
+  RETRIEVAL_MODE: (() => {
+    const value = getOptionalEnvVar('RETRIEVAL_MODE').toLowerCase();
+    return value === 'vector' || value === 'lexical' ? value : 'hybrid';
+  })(),
+  
   // Node environment - always use a valid value with safe fallback
   NODE_ENV: (() => {
     try {
@@ -167,7 +287,17 @@ export function getEnvDiagnostics(): Record<string, string | boolean> {
     environment: env.NODE_ENV,
     isVercel: env.IS_VERCEL,
     vercelEnv: env.VERCEL_ENV || 'not set',
+    llmProvider: env.LLM_PROVIDER,
+    modelChain: env.MODEL_CHAIN || `${env.PRIMARY_MODEL}, ${env.FALLBACK_MODEL}`,
     webSearchEnabled: env.WEB_SEARCH_ENABLED ? 'yes' : 'no',
-    webBrowsingModel: env.WEB_BROWSING_MODEL
+    searchProvider: env.SEARCH_PROVIDER,
+    webBrowsingModel: env.WEB_BROWSING_MODEL,
+    defaultPersona: env.DEFAULT_PERSONA || 'not set',
+    piiRedactionEnabled: env.PII_REDACTION_ENABLED ? 'yes' : 'no',
+    memoryEnabled: env.MEMORY_ENABLED ? 'yes' : 'no',
+    followUpsEnabled: env.FOLLOW_UPS_ENABLED ? 'yes' : 'no',
+    embeddingProvider: env.EMBEDDING_PROVIDER,
+    vectorIndexEnabled: env.VECTOR_INDEX_ENABLED ? 'yes' : 'no',
+    retrievalMode: env.RETRIEVAL_MODE
   };
 }
\ No newline at end of file
@@ -0,0 +1,170 @@
+/**
+ * Chat slash commands
+ *
+ * Commands typed into the chat input, such as "/search" or "/kb college-data".
+ * The registry is shared by the chat input, which offers them as the student
+ * types, and the chat API, which validates the commands sent with a question.
+ */
+
+export type ChatCommandName = 'search' | 'kb' | 'profile' | 'timeline' | 'recommend' | 'export';
+
+// Where a command is carried out:
+// - 'chat': sent to /api/chat with its question, and applied to that answer
+// - 'client': handled in the browser without asking the counselor
+export type ChatCommandTarget = 'chat' | 'client';
+
+export interface ChatCommandArgument {
+  name: string;
+  required: boolean;
+  // Accepted values, offered in the usage line
+  options?: string[];
+  pattern?: RegExp;
+}
+
+export interface ChatCommand {
+  name: ChatCommandName;
+  description: string;
+  // How the command is written, e.g. "/kb <collection> [question]"
+  usage: string;
+  target: ChatCommandTarget;
+  // A single word right after the command
+  argument?: ChatCommandArgument;
+  // Whether the rest of the text is a question for the counselor
+  question: 'required' | 'optional' | 'none';
+}
+
+// A command as typed by the student
+export interface ChatCommandInvocation {
+  name: string;
+  argument?: string;
+  question?: string;
+}
+
+export const CHAT_COMMANDS: ChatCommand[] = [
+  {
+    name: 'search',
+    description: 'Search the web before answering',
+    usage: '/search <question>',
+    target: 'chat',
+    question: 'required'
+  },
+  {
+    name: 'kb',
+    description: 'Answer from a knowledge base collection, or switch the chat to it',
+    usage: '/kb <collection> [question]',
+    target: 'chat',
+    argument: { name: 'collection', required: true, pattern: /^[\w-]{1,63}$/ },
+    question: 'optional'
+  },
+  {
+    name: 'profile',
+    description: 'Show your student profile, or edit it',
+    usage: '/profile [edit]',
+    target: 'client',
+    argument: { name: 'action', required: false, options: ['edit'] },
+    question: 'none'
+  },
+  {
+    name: 'timeline',
+    description: 'Show a month-by-month plan for your grade and major',
+    usage: '/timeline',
+    target: 'client',
+    question: 'none'
+  },
+  {
+    name: 'recommend',
+    description: 'Refresh your recommended projects, competitions and skills',
+    usage: '/recommend',
+    target: 'client',
+    question: 'none'
+  },
+  {
+    name: 'export',
+    description: 'Download this conversation',
+    usage: '/export [markdown|json|html]',
+    target: 'client',
+    argument: { name: 'format', required: false, options: ['markdown', 'json', 'html'] },
+    question: 'none'
+  }
+];
+
+/**
+ * Get a command by name
+ */
+export function getChatCommand(name: string): ChatCommand | undefined {
+  return CHAT_COMMANDS.find(command => command.name === name.toLowerCase());
+}
+
+/**
+ * Split chat input into a command, its argument and its question
+ * @returns The invocation, or null when the input is not a command
+ */
+export function parseChatCommand(input: string): ChatCommandInvocation | null {
+  const match = input.trim().match(/^\/([a-z]+)(?:\s+([\s\S]*))?$/i);
+  if (!match) {
+    return null;
+  }
+
+  const name = match[1].toLowerCase();
+  let rest = (match[2] || '').trim();
+  const argumentSpec = getChatCommand(name)?.argument;
+  let argument: string | undefined;
+
+  // An optional argument is only taken when it is one of its options
+  const firstWord = rest.split(/\s+/)[0];
+  if (argumentSpec && firstWord && (argumentSpec.required || argumentSpec.options?.includes(firstWord.toLowerCase()))) {
+    argument = argumentSpec.options ? firstWord.toLowerCase() : firstWord;
+    rest = rest.substring(firstWord.length).trim();
+  }
+
+  return { name, argument, question: rest || undefined };
+}
+
+/**
+ * Check a command against the registry
+ * @returns A message explaining what is wrong, or null when the command is valid
+ */
+export function validateChatCommand(invocation: ChatCommandInvocation): string | null {
+  const command = getChatCommand(invocation.name);
+  if (!command) {
+    return `Unknown command "/${invocation.name}". Available commands: ${CHAT_COMMANDS.map(c => `/${c.name}`).join(', ')}`;
+  }
+
+  const { argument: spec } = command;
+  if (spec?.required && !invocation.argument) {
+    return `/${command.name} needs a ${spec.name}. Usage: ${command.usage}`;
+  }
+  if (invocation.argument !== undefined) {
+    if (!spec) {
+      return `/${command.name} does not take a ${invocation.argument}. Usage: ${command.usage}`;
+    }
+    if (spec.options && !spec.options.includes(invocation.argument)) {
+      return `The ${spec.name} of /${command.name} must be one of ${spec.options.join(', ')}`;
+    }
+    if (spec.pattern && !spec.pattern.test(invocation.argument)) {
+      return `"${invocation.argument}" is not a valid ${spec.name}`;
+    }
+  }
+
+  if (command.question === 'required' && !invocation.question?.trim()) {
+    return `/${command.name} needs a question. Usage: ${command.usage}`;
+  }
+  if (command.question === 'none' && invocation.question?.trim()) {
+    return `/${command.name} does not take a question. Usage: ${command.usage}`;
+  }
+
+  return null;
+}
+
+/**
+ * Commands matching what the student has typed so far, while they are still typing the command name
+ */
+export function getCommandSuggestions(input: string): ChatCommand[] {
+  const match = input.match(/^\/([a-z]*)$/i);
+  if (!match) {
+    return [];
+  }
+
+  const prefix = match[1].toLowerCase();
+  return CHAT_COMMANDS.filter(command => command.name.startsWith(prefix));
+}
@@ -0,0 +1,592 @@
+/**
+ * English Messages
+ *
+ * The source catalog. Every message has an English text here, and the other
+ * catalogs translate some or all of them; a message missing from a catalog is
+ * shown in English. {name} placeholders are filled in when the message is
+ * translated, while {{name}} placeholders in the recommendation templates are
+ * left for the recommendation generator to fill.
+ */
+
+export const en = {
+  // Steps guessed from the question before the pipeline reports progress
+  'thinking.processing': 'Processing your question...',
+  'thinking.profile': 'Considering your student profile data',
+  'thinking.documents': 'Analyzing your application data',
+  'thinking.sports': 'Finding sports and athletic activities',
+  'thinking.teams': 'Identifying team-based opportunities',
+  'thinking.leadership': 'Identifying leadership opportunities',
+  'thinking.leadershipPathways': 'Exploring leadership pathways',
+  'thinking.communityService': 'Exploring community service options',
+  'thinking.contribute': 'Finding ways to contribute to communities',
+  'thinking.research': 'Exploring research opportunities',
+  'thinking.academic': 'Finding academic enrichment opportunities',
+  'thinking.arts': 'Finding artistic and creative activities',
+  'thinking.performingArts': 'Exploring performing arts opportunities',
+  'thinking.design': 'Finding design-related activities',
+  'thinking.internships': 'Researching internship opportunities',
+  'thinking.career': 'Exploring career preparation activities',
+  'thinking.professional': 'Finding professional development opportunities',
+  'thinking.collegeRequirements': 'Analyzing college requirements',
+  'thinking.admission': 'Reviewing admission strategies',
+  'thinking.application': 'Optimizing application strategy',
+  'thinking.essay': 'Finding experiences for compelling essays',
+  'thinking.default': 'Preparing personalized recommendations',
+  'thinking.generating': 'Generating your response',
+
+  // Progress the chat pipeline reports while an answer is prepared
+  'progress.retrieval.one': 'Found {count} excerpt in the "{collection}" knowledge base',
+  'progress.retrieval.other': 'Found {count} excerpts in the "{collection}" knowledge base',
+  'progress.context': 'Prepared the prompt',
+  'progress.contextWith': 'Prepared the prompt with {parts}',
+  'progress.context.profile': 'your profile',
+  'progress.context.memory': 'what was remembered from earlier',
+  'progress.context.documents': 'your documents',
+  'progress.context.history.one': '{count} earlier message',
+  'progress.context.history.other': '{count} earlier messages',
+  'progress.context.sources.one': '{count} knowledge base excerpt',
+  'progress.context.sources.other': '{count} knowledge base excerpts',
+  'progress.skipped': 'Skipped {model}, which is temporarily unavailable',
+  'progress.asking': 'Asking {model}',
+  'progress.failed': '{model} failed ({error})',
+  'progress.failedTryingNext': '{model} failed ({error}), trying the next model',
+  'progress.webSearchFailed': 'Web search failed, answering without it',
+  'progress.generated': 'Answer generated by {model}',
+  'progress.searchingFor': 'Searching the web for "{query}"',
+  'progress.searching': 'Searching the web',
+  'progress.runningTool': 'Running {tool}',
+  'progress.toolFailed': '{tool} failed',
+  'progress.toolReturned': '{tool} returned its results',
+  'progress.webResults.one': 'Received {count} web result',
+  'progress.webResults.other': 'Received {count} web results',
+
+  // What was cut to fit the student's context into the model's context window
+  'budget.messageShortened': 'Your message was too long for the model and was shortened',
+  'budget.profileShortened': 'The student profile was shortened',
+  'budget.profileOmitted': 'The student profile was left out',
+  'budget.memoryShortened': 'What the counselor remembers was shortened',
+  'budget.memoryOmitted': 'What the counselor remembers was left out',
+  'budget.documentShortened': 'The uploaded document was shortened to about {used} of {requested} tokens',
+  'budget.documentOmitted': 'The uploaded document was left out',
+  'budget.sourcesOmitted.one': '{count} of {total} knowledge base excerpts was left out',
+  'budget.sourcesOmitted.other': '{count} of {total} knowledge base excerpts were left out',
+  'budget.sourceShortened': 'A knowledge base excerpt was shortened',
+  'budget.historySummarized.one': '{count} earlier message was summarized to save space',
+  'budget.historySummarized.other': '{count} earlier messages were summarized to save space',
+
+  // Canned answers of the mock provider used without an API key
+  'mock.response.1': "**Excellent Question!**\n\nBased on your interest in college applications, here are some recommended extracurricular activities:\n\n- **Leadership Positions**: Seek roles in student government or club leadership\n- **Community Service**: Volunteer consistently with organizations aligned to your interests\n- **Academic Competitions**: Participate in subject-specific competitions relevant to your intended major\n- **Personal Projects**: Develop independent initiatives that showcase your passions\n\nRemember, colleges value depth over breadth. It's better to be deeply involved in a few activities than superficially involved in many.\n\nWhat specific field or major are you considering?",
+
+  'mock.response.2': "**Great to hear from you!**\n\nHere's my advice for planning your extracurricular activities:\n\n**Focus on Quality, Not Quantity**\n- Commit deeply to 2-4 activities that genuinely interest you\n- Seek leadership roles or increasing responsibility over time\n- Maintain consistent involvement throughout high school\n\n**Align Activities with Your Interests**\n- If you love science, join science clubs, competitions, or research opportunities\n- For humanities, consider debate, writing clubs, or community service\n- For arts, develop your portfolio through continuous practice and exhibition\n\nWould you like more specific recommendations based on your particular interests?",
+
+  'mock.response.3': "**Thanks for reaching out!**\n\nWhen planning extracurricular activities for college applications, consider these key strategies:\n\n1. **Demonstrate passion** through sustained commitment to activities related to your intended field of study\n2. **Show initiative** by creating new programs or expanding existing ones\n3. **Develop transferable skills** like leadership, teamwork, and problem-solving\n\n**Examples of Strong Activities:**\n- Starting a club related to your interests\n- Conducting an independent research project\n- Creating a community service initiative addressing a local need\n- Participating in selective summer programs in your field\n\nWhat grade are you in currently? This will help me provide more tailored advice.",
+
+  'mock.competitions': `Based on your interests, here are some academic competitions to consider:\n\n1. [International Science and Engineering Fair (ISEF)](https://www.societyforscience.org/isef/) - The world's largest pre-college science competition.\n\n2. [The Breakthrough Junior Challenge](https://breakthroughjuniorchallenge.org/) - A global competition for students to inspire creative thinking about science.\n\n3. [International Mathematical Olympiad (IMO)](https://www.imo-official.org/) - The world championship mathematics competition for high school students.\n\n4. [DECA International Career Development Conference](https://www.deca.org/) - Business-focused competition for emerging leaders and entrepreneurs.`,
+
+  // Follow-up questions built from templates when no model writes them
+  'followUps.gap.gradeLevel': 'What should I be focusing on in each year of high school?',
+  'followUps.gap.intendedMajor': 'How can I figure out which major fits my interests?',
+  'followUps.gap.currentActivities': 'Which activities should I start with if I am not involved in any yet?',
+  'followUps.gap.satScore': 'Should I take the SAT or ACT, and when?',
+  'followUps.gap.interestedActivities': 'What kinds of activities could I explore beyond school clubs?',
+  'followUps.competitions.forMajor': 'Which competitions are best for someone interested in {major}?',
+  'followUps.competitions.general': 'Which competitions would suit my interests?',
+  'followUps.competitions.prepare': 'How should I prepare for my first competition?',
+  'followUps.essay.aboutActivity': 'How could I write about {activity} in my essay?',
+  'followUps.essay.topic': 'How do I pick a topic for my personal statement?',
+  'followUps.essay.outline': 'Can you review an outline of my essay?',
+  'followUps.research.inMajor': 'What research project could I start in {major}?',
+  'followUps.research.general': 'What research project could I start?',
+  'followUps.research.mentor': 'How do I find a mentor for a research project?',
+  'followUps.summer.forGrade': 'Which summer programs should I apply to as a {grade} student?',
+  'followUps.summer.general': 'Which summer programs should I apply to?',
+  'followUps.summer.deadlines': 'When are the application deadlines for summer programs?',
+  'followUps.tests.score': 'Is my SAT score of {score} competitive for my target schools?',
+  'followUps.tests.target': 'What SAT score should I aim for?',
+  'followUps.tests.plan': 'How should I plan my test preparation?',
+  'followUps.leadership.inActivity': 'How can I take on a leadership role in {activity}?',
+  'followUps.leadership.general': 'How do I get a leadership role in a club?',
+  'followUps.leadership.ownClub': 'Is it worth starting my own club?',
+  'followUps.service.forMajor': 'What community service would fit a future {major} major?',
+  'followUps.service.general': 'What community service would fit my interests?',
+  'followUps.service.hours': 'How many volunteer hours do colleges expect?',
+  'followUps.aid.scholarships': 'Which scholarships could I apply for?',
+  'followUps.aid.financialAid': 'How does financial aid work for the schools I am considering?',
+  'followUps.timeline.forGrade': 'Can you give me a month-by-month plan for {grade}?',
+  'followUps.timeline.general': 'Can you give me a month-by-month plan?',
+  'followUps.timeline.first': 'What should I do first this month?',
+  'followUps.profile.connect': 'How can I connect {activity} to {major}?',
+  'followUps.profile.start': 'How do I get started with {activity}?',
+  'followUps.profile.grade': 'What should a {grade} student focus on this year?',
+  'followUps.general.example': 'Can you give me a concrete example?',
+  'followUps.general.first': 'What should I do first?',
+  'followUps.general.colleges': 'How would colleges see this on my application?',
+
+  // Recommendation templates; the {{name}} placeholders are filled with personalized advice
+  'template.timeline-freshman.name': 'Freshman Year Timeline',
+  'template.timeline-freshman.description': 'Standard timeline for 9th grade students',
+  'template.timeline-freshman.body': `**Freshman Year (9th Grade) Timeline**
+
+**September**
+   - {{adjustToHighSchool}}
+   - Establish strong study habits from the beginning
+   - Learn to navigate your new school environment
+   - Start documenting your high school activities for future college applications
+   - {{studySkillsStrategy}}
+
+**October**
+   - Explore and join 2-3 clubs/activities that interest you
+   - Attend homecoming events to build school spirit
+   - {{freshmanFallEvents}}
+   - Begin thinking about how to develop your interests through extracurriculars
+   - Meet with your school counselor to introduce yourself and discuss goals
+
+**November**
+   - Prepare for first major exams
+   - Connect with teachers during office hours
+   - Begin volunteer work (10+ hours recommended) 
+   - {{academicSupport}}
+   - Research what career paths align with your favorite subjects
+
+**December**
+   - Review first semester performance
+   - {{midYearReflection}}
+   - Participate in winter extracurricular activities
+   - Create a portfolio or journal to track your high school achievements
+   - {{holidaySkillDevelopment}}
+
+**January**
+   - Set academic goals for spring semester
+   - Check in with counselor about course progress
+   - {{freshmanWinterGoals}}
+   - Begin researching early college preparation resources
+   - Start exploring career options based on your interests and strengths
+
+**February**
+   - {{freshmanSpringActivities}}
+   - Start thinking about sophomore year course selection
+   - Attend school events to explore new interests
+   - Look into academic competitions related to your interests
+   - Begin reading about college requirements for potential career paths
+
+**March**
+   - Meet with your counselor to create a four-year high school plan
+   - Research honors/advanced courses for next year
+   - Begin looking at extracurricular leadership opportunities
+   - {{courseSelectionStrategy}}
+   - Start building relationships with teachers in your areas of interest
+
+**April**
+   - Research summer opportunities: {{summerOpportunities}}
+   - Register for sophomore year courses
+   - {{springAcademicFocus}}
+   - Consider academic summer programs to explore potential majors
+   - Research skill-building workshops or classes to take over summer
+
+**May**
+   - Prepare for final exams
+   - Finalize summer plans
+   - Set learning goals for summer break
+   - {{examPreparationTips}}
+   - Create a reading list of books related to potential careers or majors
+
+**June**
+   - {{summerDevelopment}}
+   - Begin summer reading assignments
+   - Start volunteer or community service work
+   - Begin a passion project related to a potential college major
+   - {{personalGrowthGoals}}
+
+**July**
+   - Continue summer activities or part-time job
+   - Begin exploring potential career interests
+   - {{summerSkillBuilding}}
+   - Visit a local college campus to get familiar with college environments
+   - Start developing computer literacy and research skills
+
+**August**
+   - Prepare for sophomore year
+   - Reflect on freshman year accomplishments
+   - {{prepForSophomore}}
+   - Organize your achievements and activities from freshman year
+   - Set specific academic and extracurricular goals for sophomore year`,
+
+  'template.timeline-sophomore.name': 'Sophomore Year Timeline',
+  'template.timeline-sophomore.description': 'Standard timeline for 10th grade students',
+  'template.timeline-sophomore.body': `**Sophomore Year (10th Grade) Timeline**
+
+**September**
+   - {{deepenInvolvement}}
+   - Take on more active roles in your clubs and activities
+   - Establish relationships with teachers in your field of interest
+   - Begin building a targeted extracurricular profile based on your interests
+   - {{academicStrengthening}}
+
+**October**
+   - Prepare for and take the PSAT for practice
+   - {{fallAcademicFocus}}
+   - Start building your academic resume
+   - Research the GPA and test score requirements for colleges you're interested in
+   - Attend a career day or exploration event at your school
+
+**November**
+   - Research potential AP/IB/honors courses for junior year
+   - Continue strong academic performance
+   - {{sophomoreCollegeAwareness}}
+   - Begin keeping track of achievements and activities for college applications
+   - {{earlyCollegeResearch}}
+
+**December**
+   - Review semester performance
+   - Set goals for improvement in specific subjects
+   - Begin thinking about college requirements
+   - Research college costs and create a financial planning timeline
+   - {{winterBreakEnrichment}}
+
+**January**
+   - Meet with counselor to discuss junior year course selection
+   - {{midYearCourseAdjustments}}
+   - Review PSAT results
+   - Create a target list of safety, match, and reach colleges
+   - Begin researching scholarship opportunities for your specific interests
+
+**February**
+   - Begin researching college majors related to your interests
+   - Consider taking SAT Subject Tests in courses you excel in
+   - Attend college fairs or information sessions
+   - {{careerExploration}}
+   - Start developing specific talents in your areas of interest
+
+**March**
+   - Plan challenging junior year schedule
+   - {{springCollegePrep}}
+   - Research summer programs related to your interests
+   - Explore dual enrollment or community college courses for the summer
+   - Research volunteer opportunities aligned with your career interests
+
+**April**
+   - Register for SAT/ACT prep courses or materials
+   - Consider job shadowing opportunities
+   - {{springTestPreparation}}
+   - Develop a standardized test preparation strategy and timeline
+   - Research summer internships or research programs in your field
+
+**May**
+   - Prepare for final exams and AP tests if applicable
+   - Finalize summer plans
+   - Focus on building specific skills related to your interests
+   - {{apExamStrategies}}
+   - Begin drafting a resume with all your activities and achievements
+
+**June**
+   - {{summerPrograms}}
+   - Begin SAT/ACT preparation
+   - Start meaningful summer activities (internship, volunteer work, etc.)
+   - Visit college campuses to get a feel for different environments
+   - {{summerCollegeExploration}}
+
+**July**
+   - Continue SAT/ACT preparation
+   - {{leadershipOpportunities}}
+   - Research colleges that match your interests and goals
+   - Develop leadership skills through summer activities
+   - Create a reading list of books related to your intended major
+
+**August**
+   - Prepare for increased rigor of junior year
+   - Organize your college research
+   - {{prepForJunior}}
+   - Create a junior year action plan with specific college prep goals
+   - Schedule fall meetings with your guidance counselor`,
+
+  'template.timeline-junior.name': 'Junior Year Timeline',
+  'template.timeline-junior.description': 'Standard timeline for 11th grade students',
+  'template.timeline-junior.body': `**Junior Year (11th Grade) Timeline**
+
+**September**
+   - {{academicRigor}}
+   - Focus on achieving your best GPA this year
+   - Continue deepening commitment to key extracurriculars
+
+**October**
+   - Take the PSAT/NMSQT (potential scholarship qualification)
+   - {{extracurricularLeadership}}
+   - Begin serious college research
+
+**November**
+   - Meet with your counselor to discuss college planning
+   - Start preparing for SAT/ACT
+   - {{juniorCollegeList}}
+
+**December**
+   - Review semester performance
+   - Create study schedule for standardized tests
+   - Begin researching scholarship opportunities
+
+**January**
+   - Register for spring SAT/ACT dates
+   - {{midYearCollegePrep}}
+   - Consider taking SAT Subject Tests if needed by your target schools
+
+**February**
+   - Intensify SAT/ACT preparation
+   - Research potential college majors
+   - {{collegeResearch}}
+
+**March**
+   - Take SAT/ACT (first attempt)
+   - Visit college campuses during spring break
+   - {{apAdvancedCourses}}
+
+**April**
+   - Continue college visits if possible
+   - Prepare for AP/IB exams
+   - Request recommendation letters from teachers
+
+**May**
+   - Take AP/IB exams
+   - Consider retaking SAT/ACT if needed
+   - {{springStandardizedTests}}
+
+**June**
+   - {{summerBeforeSenior}}
+   - Begin drafting college essays
+   - Plan meaningful summer activities
+
+**July**
+   - Work on college application essays
+   - {{specificSummerActivities}}
+   - Visit additional colleges if possible
+
+**August**
+   - Finalize college list (6-10 schools)
+   - Complete first drafts of college essays
+   - {{prepForSeniorApplications}}`,
+
+  'template.timeline-senior.name': 'Senior Year Timeline',
+  'template.timeline-senior.description': 'Standard timeline for 12th grade students',
+  'template.timeline-senior.body': `**Senior Year (12th Grade) Timeline**
+
+**September**
+   - Finalize your college list with safety, match, and reach schools
+   - {{applicationStrategy}}
+   - Complete your Common Application profile
+   - Work on college essays
+
+**October**
+   - Submit Early Decision/Early Action applications (deadlines typically Nov 1-15)
+   - Complete FAFSA (opens October 1)
+   - Retake SAT/ACT if needed (last chance for most early applications)
+   - {{earlyApplications}}
+
+**November**
+   - Submit remaining early applications
+   - Begin working on regular decision applications
+   - {{fallSeniorAdvice}}
+   - Continue scholarship search and applications
+
+**December**
+   - Receive early application results
+   - Complete and submit regular decision applications
+   - Maintain strong grades for mid-year reports
+   - {{regularApplications}}
+
+**January**
+   - Submit remaining applications (most regular deadlines are January 1-15)
+   - Request mid-year reports be sent to colleges
+   - {{midYearSeniorAdvice}}
+   - Continue scholarship applications
+
+**February**
+   - Follow up with colleges to confirm all materials were received
+   - Focus on maintaining grades
+   - Complete additional scholarship applications
+   - {{waitingPeriodAdvice}}
+
+**March**
+   - Receive admission decisions from regular decision schools
+   - Compare financial aid offers
+   - Visit or revisit top choice schools
+   - {{financialAidAdvice}}
+
+**April**
+   - Make your final college decision (most deposits due May 1)
+   - Accept financial aid package
+   - Send deposit to chosen college
+   - {{finalDecisionAdvice}}
+
+**May**
+   - Complete AP/IB exams
+   - Send final transcripts to your chosen college
+   - {{seniorYearCompletion}}
+   - Thank teachers and counselors who wrote recommendations
+
+**June**
+   - Attend graduation and celebrate your achievements
+   - Prepare for college orientation
+   - {{summerBeforeCollege}}
+
+**July**
+   - Complete required summer tasks from your college
+   - {{preparationForCollege}}
+   - Connect with future roommates
+
+**August**
+   - Finalize packing and travel arrangements
+   - Attend college orientation
+   - {{collegeTransition}}`,
+
+  'template.skills-stem.name': 'STEM Skills Development',
+  'template.skills-stem.description': 'Core skills for science, technology, engineering, and mathematics',
+  'template.skills-stem.body': `**Core Science, Technology, Engineering and Math Skills to Develop**
+
+1. **Technical Skills**
+   - {{technicalSkills}}
+   - Learn a programming language (Python recommended for beginners)
+   - Develop quantitative analysis capabilities
+
+2. **Research & Analysis**
+   - {{researchMethods}}
+   - Practice the scientific method
+   - Develop skills in data visualization
+
+3. **Communication & Collaboration**
+   - {{stemCommunication}}
+   - Learn to explain complex concepts in simple terms
+   - Practice documenting your work thoroughly`,
+
+  'template.skills-humanities.name': 'Humanities & Social Sciences Skills',
+  'template.skills-humanities.description': 'Core skills for humanities and social sciences',
+  'template.skills-humanities.body': `**Core Humanities & Social Sciences Skills**
+
+1. **Critical Analysis**
+   - {{criticalThinking}}
+   - Develop strong argumentative writing
+   - Learn to evaluate sources and evidence
+
+2. **Research & Writing**
+   - {{humanitiesResearch}}
+   - Practice various writing styles
+   - Develop interviewing techniques
+
+3. **Communication & Presentation**
+   - {{presentationSkills}}
+   - Practice public speaking and debate
+   - Learn to receive and incorporate feedback`,
+
+  'template.skills-business.name': 'Business & Entrepreneurship Skills',
+  'template.skills-business.description': 'Core skills for business, finance, and entrepreneurship',
+  'template.skills-business.body': `**Core Business & Entrepreneurship Skills**
+
+1. **Financial Literacy**
+   - {{financialSkills}}
+   - Understand basic accounting principles
+   - Learn investment and budgeting basics
+
+2. **Leadership & Management**
+   - {{leadershipSkills}}
+   - Develop project management capabilities
+   - Learn effective teamwork and delegation
+
+3. **Marketing & Communication**
+   - {{businessCommunication}}
+   - Practice professional presentation skills
+   - Develop networking abilities`,
+
+  'template.skills-arts.name': 'Arts & Creative Skills',
+  'template.skills-arts.description': 'Core skills for visual, performing, and creative arts',
+  'template.skills-arts.body': `**Core Arts & Creative Skills**
+
+1. **Technical Proficiency**
+   - {{technicalArtSkills}}
+   - Develop consistent practice routines
+   - Learn to take constructive criticism
+
+2. **Portfolio Development**
+   - {{portfolioAdvice}}
+   - Document your creative process
+   - Learn curation and presentation
+
+3. **Business of Arts**
+   - {{artsBusiness}}
+   - Develop self-promotion skills
+   - Learn about intellectual property rights`,
+
+  'template.project-research.name': 'Independent Research Project',
+  'template.project-research.description': 'Template for developing independent research',
+  'template.project-research.body': `**Independent Research Project Framework**
+
+1. **Project Development**
+   - {{researchTopic}}
+   - Identify a mentor (teacher, professor, professional)
+   - Develop a clear research question and methodology
+
+2. **Implementation**
+   - {{researchImplementation}}
+   - Set a realistic timeline with milestones
+   - Document your process meticulously
+
+3. **Presentation & Publication**
+   - {{researchPresentation}}
+   - Prepare for science fairs or competitions
+   - Consider submitting to student journals`,
+
+  'template.project-community.name': 'Community Service Project',
+  'template.project-community.description': 'Template for developing community service initiatives',
+  'template.project-community.body': `**Community Service Project Framework**
+
+1. **Needs Assessment**
+   - {{communityNeed}}
+   - Research existing initiatives in your community
+   - Identify key stakeholders and potential partners
+
+2. **Project Planning**
+   - {{serviceProjectPlan}}
+   - Create measurable goals and impact metrics
+   - Develop a resource and volunteer management plan
+
+3. **Implementation & Sustainability**
+   - {{serviceImplementation}}
+   - Document your impact (photos, testimonials, data)
+   - Create a transition plan for project continuity`,
+
+  'template.project-entrepreneurship.name': 'Entrepreneurial Venture',
+  'template.project-entrepreneurship.description': 'Template for developing small business or social enterprise',
+  'template.project-entrepreneurship.body': `**Entrepreneurial Project Framework**
+
+1. **Concept Development**
+   - {{businessConcept}}
+   - Research market needs and competition
+   - Develop a unique value proposition
+
+2. **Business Planning**
+   - {{businessPlan}}
+   - Create a basic business model
+   - Plan for minimal viable product (MVP)
+
+3. **Launch & Learning**
+   - {{businessLaunch}}
+   - Document challenges and pivots
+   - Measure results and gather feedback`,
+
+  'template.project-creative.name': 'Creative Portfolio Project',
+  'template.project-creative.description': 'Template for developing artistic or creative works',
+  'template.project-creative.body': `**Creative Portfolio Project Framework**
+
+1. **Concept Development**
+   - {{creativeConceptIdeas}}
+   - Research artists/creators in your field
+   - Develop a theme or central question
+
+2. **Production Process**
+   - {{creativeProcess}}
+   - Set milestones and deadlines
+   - Seek regular feedback from mentors
+
+3. **Exhibition & Sharing**
+   - {{creativeExhibition}}
+   - Document and present your work professionally
+   - Develop an artist statement or project narrative`
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,589 @@
+/**
+ * Hindi Messages
+ *
+ * Translations of the English catalog. Names of exams, programs and
+ * competitions (SAT, AP, ISEF) are kept as they are usually written.
+ */
+
+import type { MessageKey } from './en';
+
+export const hi: Partial<Record<MessageKey, string>> = {
+  // Steps guessed from the question before the pipeline reports progress
+  'thinking.processing': 'आपका सवाल समझा जा रहा है...',
+  'thinking.profile': 'आपकी स्टूडेंट प्रोफ़ाइल को ध्यान में रखा जा रहा है',
+  'thinking.documents': 'आपके आवेदन से जुड़े दस्तावेज़ देखे जा रहे हैं',
+  'thinking.sports': 'खेल और एथलेटिक गतिविधियाँ खोजी जा रही हैं',
+  'thinking.teams': 'टीम में काम करने के अवसर पहचाने जा रहे हैं',
+  'thinking.leadership': 'नेतृत्व के अवसर पहचाने जा रहे हैं',
+  'thinking.leadershipPathways': 'नेतृत्व के रास्ते तलाशे जा रहे हैं',
+  'thinking.communityService': 'सामुदायिक सेवा के विकल्प तलाशे जा रहे हैं',
+  'thinking.contribute': 'समाज में योगदान देने के तरीके खोजे जा रहे हैं',
+  'thinking.research': 'रिसर्च के अवसर तलाशे जा रहे हैं',
+  'thinking.academic': 'पढ़ाई को आगे बढ़ाने के अवसर खोजे जा रहे हैं',
+  'thinking.arts': 'कला और रचनात्मक गतिविधियाँ खोजी जा रही हैं',
+  'thinking.performingArts': 'प्रदर्शन कला के अवसर तलाशे जा रहे हैं',
+  'thinking.design': 'डिज़ाइन से जुड़ी गतिविधियाँ खोजी जा रही हैं',
+  'thinking.internships': 'इंटर्नशिप के अवसर खोजे जा रहे हैं',
+  'thinking.career': 'करियर की तैयारी से जुड़ी गतिविधियाँ तलाशी जा रही हैं',
+  'thinking.professional': 'पेशेवर विकास के अवसर खोजे जा रहे हैं',
+  'thinking.collegeRequirements': 'कॉलेज की ज़रूरतों का विश्लेषण किया जा रहा है',
+  'thinking.admission': 'एडमिशन की रणनीतियाँ देखी जा रही हैं',
+  'thinking.application': 'आवेदन की रणनीति बेहतर बनाई जा रही है',
+  'thinking.essay': 'दमदार निबंधों के लिए अनुभव खोजे जा रहे हैं',
+  'thinking.default': 'आपके लिए सुझाव तैयार किए जा रहे हैं',
+  'thinking.generating': 'आपका जवाब तैयार किया जा रहा है',
+
+  // Progress the chat pipeline reports while an answer is prepared
+  'progress.retrieval.one': '"{collection}" नॉलेज बेस में {count} अंश मिला',
+  'progress.retrieval.other': '"{collection}" नॉलेज बेस में {count} अंश मिले',
+  'progress.context': 'प्रॉम्प्ट तैयार किया गया',
+  'progress.contextWith': 'प्रॉम्प्ट तैयार किया गया: {parts}',
+  'progress.context.profile': 'आपकी प्रोफ़ाइल',
+  'progress.context.memory': 'पहले की बातचीत से याद रखी गई बातें',
+  'progress.context.documents': 'आपके दस्तावेज़',
+  'progress.context.history.one': '{count} पिछला संदेश',
+  'progress.context.history.other': '{count} पिछले संदेश',
+  'progress.context.sources.one': 'नॉलेज बेस का {count} अंश',
+  'progress.context.sources.other': 'नॉलेज बेस के {count} अंश',
+  'progress.skipped': '{model} अभी उपलब्ध नहीं है, इसलिए छोड़ा गया',
+  'progress.asking': '{model} से पूछा जा रहा है',
+  'progress.failed': '{model} विफल रहा ({error})',
+  'progress.failedTryingNext': '{model} विफल रहा ({error}), अगला मॉडल आज़माया जा रहा है',
+  'progress.webSearchFailed': 'वेब सर्च विफल रहा, उसके बिना जवाब दिया जा रहा है',
+  'progress.generated': 'जवाब {model} ने तैयार किया',
+  'progress.searchingFor': 'वेब पर "{query}" खोजा जा रहा है',
+  'progress.searching': 'वेब पर खोजा जा रहा है',
+  'progress.runningTool': '{tool} चलाया जा रहा है',
+  'progress.toolFailed': '{tool} विफल रहा',
+  'progress.toolReturned': '{tool} के नतीजे मिल गए',
+  'progress.webResults.one': 'वेब से {count} नतीजा मिला',
+  'progress.webResults.other': 'वेब से {count} नतीजे मिले',
+
+  // What was cut to fit the student's context into the model's context window
+  'budget.messageShortened': 'आपका संदेश मॉडल के लिए बहुत लंबा था, इसलिए उसे छोटा किया गया',
+  'budget.profileShortened': 'छात्र की प्रोफ़ाइल को छोटा किया गया',
+  'budget.profileOmitted': 'छात्र की प्रोफ़ाइल शामिल नहीं की गई',
+  'budget.memoryShortened': 'काउंसलर को याद रही बातों को छोटा किया गया',
+  'budget.memoryOmitted': 'काउंसलर को याद रही बातें शामिल नहीं की गईं',
+  'budget.documentShortened': 'अपलोड किए गए दस्तावेज़ को {requested} में से लगभग {used} टोकन तक छोटा किया गया',
+  'budget.documentOmitted': 'अपलोड किया गया दस्तावेज़ शामिल नहीं किया गया',
+  'budget.sourcesOmitted.one': 'नॉलेज बेस के {total} में से {count} अंश को शामिल नहीं किया गया',
+  'budget.sourcesOmitted.other': 'नॉलेज बेस के {total} में से {count} अंशों को शामिल नहीं किया गया',
+  'budget.sourceShortened': 'नॉलेज बेस के एक अंश को छोटा किया गया',
+  'budget.historySummarized.one': 'जगह बचाने के लिए {count} पिछले संदेश का सारांश बनाया गया',
+  'budget.historySummarized.other': 'जगह बचाने के लिए {count} पिछले संदेशों का सारांश बनाया गया',
+
+  // Canned answers of the mock provider used without an API key
+  'mock.response.1': "**बहुत अच्छा सवाल!**\n\nकॉलेज आवेदन में आपकी रुचि को देखते हुए, ये कुछ एक्स्ट्राकरिकुलर गतिविधियाँ हैं जिनकी मैं सलाह दूँगा:\n\n- **नेतृत्व की भूमिकाएँ**: स्टूडेंट काउंसिल या किसी क्लब में नेतृत्व की ज़िम्मेदारी लें\n- **सामुदायिक सेवा**: अपनी रुचि से जुड़ी संस्थाओं के साथ लगातार वॉलंटियर करें\n- **अकादमिक प्रतियोगिताएँ**: अपने चुने हुए विषय से जुड़ी प्रतियोगिताओं में भाग लें\n- **निजी प्रोजेक्ट**: ऐसी पहल शुरू करें जो आपके जुनून को दिखाए\n\nयाद रखें, कॉलेज गिनती से ज़्यादा गहराई को महत्व देते हैं। कई गतिविधियों में थोड़ा-थोड़ा जुड़ने से बेहतर है कुछ गतिविधियों में पूरी लगन से जुड़ना।\n\nआप किस क्षेत्र या मेजर के बारे में सोच रहे हैं?",
+
+  'mock.response.2': "**आपसे बात करके अच्छा लगा!**\n\nएक्स्ट्राकरिकुलर गतिविधियों की योजना बनाने के लिए मेरी सलाह:\n\n**संख्या नहीं, गुणवत्ता पर ध्यान दें**\n- 2-4 ऐसी गतिविधियाँ चुनें जिनमें आपकी सच्ची रुचि हो, और उनमें पूरी तरह जुड़ें\n- समय के साथ नेतृत्व या बढ़ती ज़िम्मेदारी की भूमिकाएँ लें\n- पूरे हाई स्कूल के दौरान लगातार जुड़े रहें\n\n**गतिविधियों को अपनी रुचियों से जोड़ें**\n- अगर आपको विज्ञान पसंद है, तो साइंस क्लब, प्रतियोगिताओं या रिसर्च के अवसरों से जुड़ें\n- मानविकी के लिए डिबेट, लेखन क्लब या सामुदायिक सेवा पर विचार करें\n- कला के लिए लगातार अभ्यास और प्रदर्शनियों से अपना पोर्टफ़ोलियो बनाएँ\n\nक्या आप अपनी रुचियों के आधार पर और खास सुझाव चाहेंगे?",
+
+  'mock.response.3': "**संपर्क करने के लिए धन्यवाद!**\n\nकॉलेज आवेदन के लिए एक्स्ट्राकरिकुलर गतिविधियों की योजना बनाते समय इन मुख्य रणनीतियों पर ध्यान दें:\n\n1. **जुनून दिखाएँ** — अपने चुने हुए विषय से जुड़ी गतिविधियों में लंबे समय तक लगे रहकर\n2. **पहल करें** — नए कार्यक्रम शुरू करके या मौजूदा कार्यक्रमों को आगे बढ़ाकर\n3. **काम आने वाले कौशल विकसित करें** — जैसे नेतृत्व, टीमवर्क और समस्या सुलझाना\n\n**मज़बूत गतिविधियों के उदाहरण:**\n- अपनी रुचि से जुड़ा कोई क्लब शुरू करना\n- कोई स्वतंत्र रिसर्च प्रोजेक्ट करना\n- किसी स्थानीय ज़रूरत को पूरा करने के लिए सामुदायिक सेवा की पहल करना\n- अपने क्षेत्र के चुनिंदा समर प्रोग्राम में भाग लेना\n\nआप अभी किस कक्षा में हैं? इससे मैं आपको और सटीक सलाह दे पाऊँगा।",
+
+  'mock.competitions': `आपकी रुचियों के आधार पर, इन अकादमिक प्रतियोगिताओं पर विचार करें:\n\n1. [International Science and Engineering Fair (ISEF)](https://www.societyforscience.org/isef/) - स्कूली छात्रों के लिए दुनिया की सबसे बड़ी विज्ञान प्रतियोगिता।\n\n2. [The Breakthrough Junior Challenge](https://breakthroughjuniorchallenge.org/) - विज्ञान के बारे में रचनात्मक सोच को बढ़ावा देने वाली वैश्विक प्रतियोगिता।\n\n3. [International Mathematical Olympiad (IMO)](https://www.imo-official.org/) - हाई स्कूल छात्रों के लिए गणित की विश्व चैंपियनशिप।\n\n4. [DECA International Career Development Conference](https://www.deca.org/) - उभरते लीडर्स और उद्यमियों के लिए बिज़नेस पर केंद्रित प्रतियोगिता।`,
+
+  // Follow-up questions built from templates when no model writes them
+  'followUps.gap.gradeLevel': 'हाई स्कूल के हर साल में मुझे किस पर ध्यान देना चाहिए?',
+  'followUps.gap.intendedMajor': 'मैं कैसे पता करूँ कि कौन-सा मेजर मेरी रुचियों के हिसाब से सही है?',
+  'followUps.gap.currentActivities': 'अगर मैं अभी किसी गतिविधि से नहीं जुड़ा हूँ, तो किससे शुरुआत करूँ?',
+  'followUps.gap.satScore': 'क्या मुझे SAT या ACT देना चाहिए, और कब?',
+  'followUps.gap.interestedActivities': 'स्कूल क्लबों के अलावा मैं किस तरह की गतिविधियाँ आज़मा सकता हूँ?',
+  'followUps.competitions.forMajor': '{major} में रुचि रखने वाले छात्र के लिए कौन-सी प्रतियोगिताएँ सबसे अच्छी हैं?',
+  'followUps.competitions.general': 'मेरी रुचियों के हिसाब से कौन-सी प्रतियोगिताएँ ठीक रहेंगी?',
+  'followUps.competitions.prepare': 'अपनी पहली प्रतियोगिता की तैयारी कैसे करूँ?',
+  'followUps.essay.aboutActivity': 'मैं अपने निबंध में {activity} के बारे में कैसे लिख सकता हूँ?',
+  'followUps.essay.topic': 'पर्सनल स्टेटमेंट का विषय कैसे चुनूँ?',
+  'followUps.essay.outline': 'क्या आप मेरे निबंध की रूपरेखा देख सकते हैं?',
+  'followUps.research.inMajor': '{major} में मैं कौन-सा रिसर्च प्रोजेक्ट शुरू कर सकता हूँ?',
+  'followUps.research.general': 'मैं कौन-सा रिसर्च प्रोजेक्ट शुरू कर सकता हूँ?',
+  'followUps.research.mentor': 'रिसर्च प्रोजेक्ट के लिए मेंटर कैसे ढूँढूँ?',
+  'followUps.summer.forGrade': '{grade} के छात्र के तौर पर मुझे किन समर प्रोग्राम में आवेदन करना चाहिए?',
+  'followUps.summer.general': 'मुझे किन समर प्रोग्राम में आवेदन करना चाहिए?',
+  'followUps.summer.deadlines': 'समर प्रोग्राम के आवेदन की आख़िरी तारीखें कब होती हैं?',
+  'followUps.tests.score': 'क्या मेरा {score} का SAT स्कोर मेरे लक्षित कॉलेजों के लिए काफ़ी है?',
+  'followUps.tests.target': 'मुझे SAT में कितने स्कोर का लक्ष्य रखना चाहिए?',
+  'followUps.tests.plan': 'टेस्ट की तैयारी की योजना कैसे बनाऊँ?',
+  'followUps.leadership.inActivity': '{activity} में नेतृत्व की भूमिका कैसे ले सकता हूँ?',
+  'followUps.leadership.general': 'किसी क्लब में नेतृत्व की भूमिका कैसे मिलती है?',
+  'followUps.leadership.ownClub': 'क्या अपना खुद का क्लब शुरू करना फ़ायदेमंद है?',
+  'followUps.service.forMajor': 'भविष्य के {major} छात्र के लिए कौन-सी सामुदायिक सेवा ठीक रहेगी?',
+  'followUps.service.general': 'मेरी रुचियों के हिसाब से कौन-सी सामुदायिक सेवा ठीक रहेगी?',
+  'followUps.service.hours': 'कॉलेज कितने घंटों की वॉलंटियर सेवा की उम्मीद करते हैं?',
+  'followUps.aid.scholarships': 'मैं किन स्कॉलरशिप के लिए आवेदन कर सकता हूँ?',
+  'followUps.aid.financialAid': 'जिन कॉलेजों के बारे में मैं सोच रहा हूँ, वहाँ फ़ाइनेंशियल एड कैसे मिलती है?',
+  'followUps.timeline.forGrade': 'क्या आप {grade} के लिए महीने-दर-महीने की योजना बना सकते हैं?',
+  'followUps.timeline.general': 'क्या आप महीने-दर-महीने की योजना बना सकते हैं?',
+  'followUps.timeline.first': 'इस महीने मुझे सबसे पहले क्या करना चाहिए?',
+  'followUps.profile.connect': '{activity} को {major} से कैसे जोड़ सकता हूँ?',
+  'followUps.profile.start': '{activity} की शुरुआत कैसे करूँ?',
+  'followUps.profile.grade': '{grade} के छात्र को इस साल किस पर ध्यान देना चाहिए?',
+  'followUps.general.example': 'क्या आप कोई ठोस उदाहरण दे सकते हैं?',
+  'followUps.general.first': 'मुझे सबसे पहले क्या करना चाहिए?',
+  'followUps.general.colleges': 'कॉलेज मेरे आवेदन में इसे कैसे देखेंगे?',
+
+  // Recommendation templates; the {{name}} placeholders are filled with personalized advice
+  'template.timeline-freshman.name': 'फ़्रेशमैन वर्ष (कक्षा 9) की समय-सारणी',
+  'template.timeline-freshman.description': 'कक्षा 9 के छात्रों के लिए मानक समय-सारणी',
+  'template.timeline-freshman.body': `**फ़्रेशमैन वर्ष (कक्षा 9) की समय-सारणी**
+
+**सितंबर**
+   - {{adjustToHighSchool}}
+   - शुरुआत से ही पढ़ाई की अच्छी आदतें बनाएँ
+   - अपने नए स्कूल के माहौल से परिचित हों
+   - भविष्य के कॉलेज आवेदनों के लिए अपनी हाई स्कूल गतिविधियों का रिकॉर्ड रखना शुरू करें
+   - {{studySkillsStrategy}}
+
+**अक्टूबर**
+   - अपनी रुचि के 2-3 क्लब या गतिविधियाँ खोजें और उनसे जुड़ें
+   - स्कूल के कार्यक्रमों में भाग लेकर स्कूल से जुड़ाव बढ़ाएँ
+   - {{freshmanFallEvents}}
+   - सोचना शुरू करें कि एक्स्ट्राकरिकुलर गतिविधियों से अपनी रुचियाँ कैसे आगे बढ़ाएँ
+   - स्कूल काउंसलर से मिलकर अपना परिचय दें और अपने लक्ष्यों पर बात करें
+
+**नवंबर**
+   - पहली बड़ी परीक्षाओं की तैयारी करें
+   - ऑफ़िस आवर्स में शिक्षकों से मिलें
+   - वॉलंटियर काम शुरू करें (कम से कम 10 घंटे की सलाह दी जाती है)
+   - {{academicSupport}}
+   - पता करें कि कौन-से करियर आपके पसंदीदा विषयों से मेल खाते हैं
+
+**दिसंबर**
+   - पहले सेमेस्टर के प्रदर्शन की समीक्षा करें
+   - {{midYearReflection}}
+   - सर्दियों की एक्स्ट्राकरिकुलर गतिविधियों में भाग लें
+   - हाई स्कूल की उपलब्धियों को दर्ज करने के लिए पोर्टफ़ोलियो या डायरी बनाएँ
+   - {{holidaySkillDevelopment}}
+
+**जनवरी**
+   - वसंत सेमेस्टर के लिए पढ़ाई के लक्ष्य तय करें
+   - कोर्स की प्रगति पर काउंसलर से बात करें
+   - {{freshmanWinterGoals}}
+   - कॉलेज की शुरुआती तैयारी के संसाधनों के बारे में जानना शुरू करें
+   - अपनी रुचियों और खूबियों के आधार पर करियर के विकल्प तलाशना शुरू करें
+
+**फ़रवरी**
+   - {{freshmanSpringActivities}}
+   - कक्षा 10 के विषयों के चुनाव के बारे में सोचना शुरू करें
+   - नई रुचियाँ खोजने के लिए स्कूल के कार्यक्रमों में जाएँ
+   - अपनी रुचि से जुड़ी अकादमिक प्रतियोगिताओं के बारे में पता करें
+   - संभावित करियर के लिए कॉलेज की ज़रूरतों के बारे में पढ़ना शुरू करें
+
+**मार्च**
+   - काउंसलर के साथ हाई स्कूल के चार साल की योजना बनाएँ
+   - अगले साल के ऑनर्स या एडवांस्ड कोर्स के बारे में पता करें
+   - एक्स्ट्राकरिकुलर गतिविधियों में नेतृत्व के अवसर देखना शुरू करें
+   - {{courseSelectionStrategy}}
+   - अपनी रुचि के विषयों के शिक्षकों से संबंध बनाना शुरू करें
+
+**अप्रैल**
+   - गर्मियों के अवसरों के बारे में पता करें: {{summerOpportunities}}
+   - कक्षा 10 के विषयों के लिए पंजीकरण करें
+   - {{springAcademicFocus}}
+   - संभावित मेजर को परखने के लिए अकादमिक समर प्रोग्राम पर विचार करें
+   - गर्मियों में करने लायक कौशल विकास वर्कशॉप या क्लास खोजें
+
+**मई**
+   - फ़ाइनल परीक्षाओं की तैयारी करें
+   - गर्मियों की योजना पक्की करें
+   - गर्मी की छुट्टियों के लिए सीखने के लक्ष्य तय करें
+   - {{examPreparationTips}}
+   - संभावित करियर या मेजर से जुड़ी किताबों की सूची बनाएँ
+
+**जून**
+   - {{summerDevelopment}}
+   - गर्मियों में पढ़ने का काम शुरू करें
+   - वॉलंटियर या सामुदायिक सेवा का काम शुरू करें
+   - किसी संभावित कॉलेज मेजर से जुड़ा अपनी पसंद का प्रोजेक्ट शुरू करें
+   - {{personalGrowthGoals}}
+
+**जुलाई**
+   - गर्मियों की गतिविधियाँ या पार्ट-टाइम काम जारी रखें
+   - संभावित करियर रुचियों को तलाशना शुरू करें
+   - {{summerSkillBuilding}}
+   - कॉलेज के माहौल से परिचित होने के लिए किसी स्थानीय कॉलेज कैंपस जाएँ
+   - कंप्यूटर और रिसर्च के कौशल विकसित करना शुरू करें
+
+**अगस्त**
+   - कक्षा 10 की तैयारी करें
+   - कक्षा 9 की उपलब्धियों पर विचार करें
+   - {{prepForSophomore}}
+   - कक्षा 9 की उपलब्धियों और गतिविधियों को व्यवस्थित करें
+   - कक्षा 10 के लिए पढ़ाई और एक्स्ट्राकरिकुलर के खास लक्ष्य तय करें`,
+
+  'template.timeline-sophomore.name': 'सोफ़ोमोर वर्ष (कक्षा 10) की समय-सारणी',
+  'template.timeline-sophomore.description': 'कक्षा 10 के छात्रों के लिए मानक समय-सारणी',
+  'template.timeline-sophomore.body': `**सोफ़ोमोर वर्ष (कक्षा 10) की समय-सारणी**
+
+**सितंबर**
+   - {{deepenInvolvement}}
+   - अपने क्लबों और गतिविधियों में ज़्यादा सक्रिय भूमिकाएँ लें
+   - अपनी रुचि के क्षेत्र के शिक्षकों से संबंध बनाएँ
+   - अपनी रुचियों के आधार पर एक्स्ट्राकरिकुलर प्रोफ़ाइल बनाना शुरू करें
+   - {{academicStrengthening}}
+
+**अक्टूबर**
+   - अभ्यास के लिए PSAT की तैयारी करें और उसे दें
+   - {{fallAcademicFocus}}
+   - अपना अकादमिक रिज़्यूमे बनाना शुरू करें
+   - अपनी पसंद के कॉलेजों के लिए ज़रूरी GPA और टेस्ट स्कोर पता करें
+   - स्कूल के करियर डे या करियर से जुड़े कार्यक्रम में भाग लें
+
+**नवंबर**
+   - कक्षा 11 के AP/IB/ऑनर्स कोर्स के बारे में पता करें
+   - पढ़ाई में अच्छा प्रदर्शन जारी रखें
+   - {{sophomoreCollegeAwareness}}
+   - कॉलेज आवेदनों के लिए उपलब्धियों और गतिविधियों का रिकॉर्ड रखना शुरू करें
+   - {{earlyCollegeResearch}}
+
+**दिसंबर**
+   - सेमेस्टर के प्रदर्शन की समीक्षा करें
+   - खास विषयों में सुधार के लक्ष्य तय करें
+   - कॉलेज की ज़रूरतों के बारे में सोचना शुरू करें
+   - कॉलेज के खर्च के बारे में पता करें और आर्थिक योजना की समय-सारणी बनाएँ
+   - {{winterBreakEnrichment}}
+
+**जनवरी**
+   - कक्षा 11 के विषयों के चुनाव पर काउंसलर से बात करें
+   - {{midYearCourseAdjustments}}
+   - PSAT के नतीजों की समीक्षा करें
+   - सेफ़्टी, मैच और रीच कॉलेजों की सूची बनाएँ
+   - अपनी रुचियों से जुड़ी स्कॉलरशिप के बारे में पता करना शुरू करें
+
+**फ़रवरी**
+   - अपनी रुचियों से जुड़े कॉलेज मेजर के बारे में पता करना शुरू करें
+   - जिन विषयों में आप अच्छे हैं, उनके SAT Subject Tests देने पर विचार करें
+   - कॉलेज मेलों या सूचना सत्रों में जाएँ
+   - {{careerExploration}}
+   - अपनी रुचि के क्षेत्रों में खास प्रतिभाएँ विकसित करना शुरू करें
+
+**मार्च**
+   - कक्षा 11 के लिए चुनौतीपूर्ण विषयों की योजना बनाएँ
+   - {{springCollegePrep}}
+   - अपनी रुचियों से जुड़े समर प्रोग्राम के बारे में पता करें
+   - गर्मियों के लिए ड्यूल एनरोलमेंट या कम्युनिटी कॉलेज कोर्स देखें
+   - अपनी करियर रुचियों से जुड़े वॉलंटियर अवसर खोजें
+
+**अप्रैल**
+   - SAT/ACT की तैयारी के कोर्स या सामग्री के लिए पंजीकरण करें
+   - जॉब शैडोइंग के अवसरों पर विचार करें
+   - {{springTestPreparation}}
+   - स्टैंडर्डाइज़्ड टेस्ट की तैयारी की रणनीति और समय-सारणी बनाएँ
+   - अपने क्षेत्र की समर इंटर्नशिप या रिसर्च प्रोग्राम के बारे में पता करें
+
+**मई**
+   - फ़ाइनल परीक्षाओं और (अगर लागू हो) AP परीक्षाओं की तैयारी करें
+   - गर्मियों की योजना पक्की करें
+   - अपनी रुचियों से जुड़े खास कौशल बनाने पर ध्यान दें
+   - {{apExamStrategies}}
+   - अपनी सभी गतिविधियों और उपलब्धियों के साथ रिज़्यूमे का मसौदा बनाना शुरू करें
+
+**जून**
+   - {{summerPrograms}}
+   - SAT/ACT की तैयारी शुरू करें
+   - गर्मियों की सार्थक गतिविधियाँ शुरू करें (इंटर्नशिप, वॉलंटियर काम आदि)
+   - अलग-अलग माहौल समझने के लिए कॉलेज कैंपस जाएँ
+   - {{summerCollegeExploration}}
+
+**जुलाई**
+   - SAT/ACT की तैयारी जारी रखें
+   - {{leadershipOpportunities}}
+   - अपनी रुचियों और लक्ष्यों से मेल खाने वाले कॉलेजों के बारे में पता करें
+   - गर्मियों की गतिविधियों से नेतृत्व कौशल विकसित करें
+   - अपने चुने हुए मेजर से जुड़ी किताबों की सूची बनाएँ
+
+**अगस्त**
+   - कक्षा 11 की बढ़ी हुई पढ़ाई के लिए तैयार हों
+   - कॉलेजों के बारे में अपनी जानकारी व्यवस्थित करें
+   - {{prepForJunior}}
+   - कॉलेज की तैयारी के खास लक्ष्यों के साथ कक्षा 11 की कार्य-योजना बनाएँ
+   - अपने गाइडेंस काउंसलर के साथ सितंबर-अक्टूबर की मुलाकातें तय करें`,
+
+  'template.timeline-junior.name': 'जूनियर वर्ष (कक्षा 11) की समय-सारणी',
+  'template.timeline-junior.description': 'कक्षा 11 के छात्रों के लिए मानक समय-सारणी',
+  'template.timeline-junior.body': `**जूनियर वर्ष (कक्षा 11) की समय-सारणी**
+
+**सितंबर**
+   - {{academicRigor}}
+   - इस साल अपना सबसे अच्छा GPA लाने पर ध्यान दें
+   - मुख्य एक्स्ट्राकरिकुलर गतिविधियों में अपनी प्रतिबद्धता और गहरी करें
+
+**अक्टूबर**
+   - PSAT/NMSQT दें (इससे स्कॉलरशिप मिल सकती है)
+   - {{extracurricularLeadership}}
+   - कॉलेजों के बारे में गंभीरता से पता करना शुरू करें
+
+**नवंबर**
+   - कॉलेज की योजना पर अपने काउंसलर से मिलें
+   - SAT/ACT की तैयारी शुरू करें
+   - {{juniorCollegeList}}
+
+**दिसंबर**
+   - सेमेस्टर के प्रदर्शन की समीक्षा करें
+   - स्टैंडर्डाइज़्ड टेस्ट के लिए पढ़ाई की समय-सारणी बनाएँ
+   - स्कॉलरशिप के अवसरों के बारे में पता करना शुरू करें
+
+**जनवरी**
+   - वसंत की SAT/ACT तारीखों के लिए पंजीकरण करें
+   - {{midYearCollegePrep}}
+   - अगर आपके लक्षित कॉलेज माँगते हैं, तो SAT Subject Tests देने पर विचार करें
+
+**फ़रवरी**
+   - SAT/ACT की तैयारी तेज़ करें
+   - संभावित कॉलेज मेजर के बारे में पता करें
+   - {{collegeResearch}}
+
+**मार्च**
+   - SAT/ACT दें (पहला प्रयास)
+   - वसंत की छुट्टियों में कॉलेज कैंपस जाएँ
+   - {{apAdvancedCourses}}
+
+**अप्रैल**
+   - हो सके तो कॉलेजों का दौरा जारी रखें
+   - AP/IB परीक्षाओं की तैयारी करें
+   - शिक्षकों से सिफ़ारिश पत्र (recommendation letters) माँगें
+
+**मई**
+   - AP/IB परीक्षाएँ दें
+   - ज़रूरत हो तो SAT/ACT दोबारा देने पर विचार करें
+   - {{springStandardizedTests}}
+
+**जून**
+   - {{summerBeforeSenior}}
+   - कॉलेज निबंधों का मसौदा बनाना शुरू करें
+   - गर्मियों की सार्थक गतिविधियों की योजना बनाएँ
+
+**जुलाई**
+   - कॉलेज आवेदन के निबंधों पर काम करें
+   - {{specificSummerActivities}}
+   - हो सके तो और कॉलेजों का दौरा करें
+
+**अगस्त**
+   - कॉलेजों की अंतिम सूची तय करें (6-10 कॉलेज)
+   - कॉलेज निबंधों के पहले मसौदे पूरे करें
+   - {{prepForSeniorApplications}}`,
+
+  'template.timeline-senior.name': 'सीनियर वर्ष (कक्षा 12) की समय-सारणी',
+  'template.timeline-senior.description': 'कक्षा 12 के छात्रों के लिए मानक समय-सारणी',
+  'template.timeline-senior.body': `**सीनियर वर्ष (कक्षा 12) की समय-सारणी**
+
+**सितंबर**
+   - सेफ़्टी, मैच और रीच कॉलेजों के साथ अपनी कॉलेज सूची पक्की करें
+   - {{applicationStrategy}}
+   - अपनी Common Application प्रोफ़ाइल पूरी करें
+   - कॉलेज निबंधों पर काम करें
+
+**अक्टूबर**
+   - Early Decision/Early Action आवेदन जमा करें (आख़िरी तारीख आमतौर पर 1-15 नवंबर)
+   - FAFSA भरें (1 अक्टूबर से खुलता है)
+   - ज़रूरत हो तो SAT/ACT दोबारा दें (ज़्यादातर अर्ली आवेदनों के लिए आख़िरी मौका)
+   - {{earlyApplications}}
+
+**नवंबर**
+   - बाकी अर्ली आवेदन जमा करें
+   - रेगुलर डिसीज़न आवेदनों पर काम शुरू करें
+   - {{fallSeniorAdvice}}
+   - स्कॉलरशिप की खोज और आवेदन जारी रखें
+
+**दिसंबर**
+   - अर्ली आवेदनों के नतीजे पाएँ
+   - रेगुलर डिसीज़न आवेदन पूरे करके जमा करें
+   - मिड-ईयर रिपोर्ट के लिए अच्छे अंक बनाए रखें
+   - {{regularApplications}}
+
+**जनवरी**
+   - बाकी आवेदन जमा करें (ज़्यादातर रेगुलर आवेदनों की आख़िरी तारीख 1-15 जनवरी होती है)
+   - मिड-ईयर रिपोर्ट कॉलेजों को भेजने का अनुरोध करें
+   - {{midYearSeniorAdvice}}
+   - स्कॉलरशिप के आवेदन जारी रखें
+
+**फ़रवरी**
+   - कॉलेजों से पुष्टि करें कि आपकी सारी सामग्री उन्हें मिल गई है
+   - अंक बनाए रखने पर ध्यान दें
+   - स्कॉलरशिप के और आवेदन पूरे करें
+   - {{waitingPeriodAdvice}}
+
+**मार्च**
+   - रेगुलर डिसीज़न कॉलेजों से एडमिशन के फ़ैसले पाएँ
+   - फ़ाइनेंशियल एड के प्रस्तावों की तुलना करें
+   - अपनी पहली पसंद के कॉलेजों का दौरा करें या दोबारा जाएँ
+   - {{financialAidAdvice}}
+
+**अप्रैल**
+   - कॉलेज का अंतिम फ़ैसला करें (ज़्यादातर डिपॉज़िट 1 मई तक जमा करने होते हैं)
+   - फ़ाइनेंशियल एड पैकेज स्वीकार करें
+   - चुने हुए कॉलेज में डिपॉज़िट जमा करें
+   - {{finalDecisionAdvice}}
+
+**मई**
+   - AP/IB परीक्षाएँ पूरी करें
+   - चुने हुए कॉलेज को अपनी अंतिम मार्कशीट भेजें
+   - {{seniorYearCompletion}}
+   - सिफ़ारिश पत्र लिखने वाले शिक्षकों और काउंसलरों को धन्यवाद दें
+
+**जून**
+   - ग्रेजुएशन में भाग लें और अपनी उपलब्धियों का जश्न मनाएँ
+   - कॉलेज ओरिएंटेशन की तैयारी करें
+   - {{summerBeforeCollege}}
+
+**जुलाई**
+   - कॉलेज के बताए गर्मियों के काम पूरे करें
+   - {{preparationForCollege}}
+   - अपने भावी रूममेट्स से संपर्क करें
+
+**अगस्त**
+   - सामान पैक करने और यात्रा की व्यवस्था पूरी करें
+   - कॉलेज ओरिएंटेशन में भाग लें
+   - {{collegeTransition}}`,
+
+  'template.skills-stem.name': 'STEM कौशल विकास',
+  'template.skills-stem.description': 'विज्ञान, टेक्नोलॉजी, इंजीनियरिंग और गणित के मुख्य कौशल',
+  'template.skills-stem.body': `**विज्ञान, टेक्नोलॉजी, इंजीनियरिंग और गणित के मुख्य कौशल**
+
+1. **तकनीकी कौशल**
+   - {{technicalSkills}}
+   - कोई प्रोग्रामिंग भाषा सीखें (शुरुआत के लिए Python सबसे अच्छी है)
+   - आँकड़ों के विश्लेषण की क्षमता विकसित करें
+
+2. **रिसर्च और विश्लेषण**
+   - {{researchMethods}}
+   - वैज्ञानिक पद्धति का अभ्यास करें
+   - डेटा विज़ुअलाइज़ेशन के कौशल विकसित करें
+
+3. **संवाद और सहयोग**
+   - {{stemCommunication}}
+   - जटिल बातों को आसान शब्दों में समझाना सीखें
+   - अपने काम का पूरा दस्तावेज़ीकरण करने का अभ्यास करें`,
+
+  'template.skills-humanities.name': 'मानविकी और सामाजिक विज्ञान के कौशल',
+  'template.skills-humanities.description': 'मानविकी और सामाजिक विज्ञान के मुख्य कौशल',
+  'template.skills-humanities.body': `**मानविकी और सामाजिक विज्ञान के मुख्य कौशल**
+
+1. **आलोचनात्मक विश्लेषण**
+   - {{criticalThinking}}
+   - तर्क के साथ लिखने की मज़बूत क्षमता विकसित करें
+   - स्रोतों और सबूतों को परखना सीखें
+
+2. **रिसर्च और लेखन**
+   - {{humanitiesResearch}}
+   - लेखन की अलग-अलग शैलियों का अभ्यास करें
+   - इंटरव्यू लेने की तकनीकें सीखें
+
+3. **संवाद और प्रस्तुति**
+   - {{presentationSkills}}
+   - सार्वजनिक भाषण और डिबेट का अभ्यास करें
+   - फ़ीडबैक लेना और उस पर अमल करना सीखें`,
+
+  'template.skills-business.name': 'बिज़नेस और उद्यमिता के कौशल',
+  'template.skills-business.description': 'बिज़नेस, फ़ाइनेंस और उद्यमिता के मुख्य कौशल',
+  'template.skills-business.body': `**बिज़नेस और उद्यमिता के मुख्य कौशल**
+
+1. **वित्तीय समझ**
+   - {{financialSkills}}
+   - अकाउंटिंग के बुनियादी सिद्धांत समझें
+   - निवेश और बजट बनाने की बुनियादी बातें सीखें
+
+2. **नेतृत्व और प्रबंधन**
+   - {{leadershipSkills}}
+   - प्रोजेक्ट मैनेजमेंट की क्षमता विकसित करें
+   - प्रभावी टीमवर्क और काम बाँटना सीखें
+
+3. **मार्केटिंग और संवाद**
+   - {{businessCommunication}}
+   - पेशेवर प्रस्तुति कौशल का अभ्यास करें
+   - नेटवर्किंग की क्षमता विकसित करें`,
+
+  'template.skills-arts.name': 'कला और रचनात्मक कौशल',
+  'template.skills-arts.description': 'दृश्य, प्रदर्शन और रचनात्मक कलाओं के मुख्य कौशल',
+  'template.skills-arts.body': `**कला और रचनात्मकता के मुख्य कौशल**
+
+1. **तकनीकी दक्षता**
+   - {{technicalArtSkills}}
+   - नियमित अभ्यास की दिनचर्या बनाएँ
+   - रचनात्मक आलोचना को स्वीकार करना सीखें
+
+2. **पोर्टफ़ोलियो विकास**
+   - {{portfolioAdvice}}
+   - अपनी रचनात्मक प्रक्रिया को दर्ज करें
+   - अपने काम को चुनना और प्रस्तुत करना सीखें
+
+3. **कला का व्यावसायिक पक्ष**
+   - {{artsBusiness}}
+   - अपने काम का प्रचार करने का कौशल विकसित करें
+   - बौद्धिक संपदा अधिकारों के बारे में जानें`,
+
+  'template.project-research.name': 'स्वतंत्र रिसर्च प्रोजेक्ट',
+  'template.project-research.description': 'स्वतंत्र रिसर्च विकसित करने का ढाँचा',
+  'template.project-research.body': `**स्वतंत्र रिसर्च प्रोजेक्ट का ढाँचा**
+
+1. **प्रोजेक्ट की तैयारी**
+   - {{researchTopic}}
+   - कोई मेंटर खोजें (शिक्षक, प्रोफ़ेसर या विशेषज्ञ)
+   - रिसर्च का स्पष्ट सवाल और तरीका तय करें
+
+2. **अमल**
+   - {{researchImplementation}}
+   - पड़ावों के साथ व्यावहारिक समय-सारणी बनाएँ
+   - अपनी प्रक्रिया को बारीकी से दर्ज करें
+
+3. **प्रस्तुति और प्रकाशन**
+   - {{researchPresentation}}
+   - साइंस फ़ेयर या प्रतियोगिताओं की तैयारी करें
+   - छात्र पत्रिकाओं में भेजने पर विचार करें`,
+
+  'template.project-community.name': 'सामुदायिक सेवा प्रोजेक्ट',
+  'template.project-community.description': 'सामुदायिक सेवा की पहल विकसित करने का ढाँचा',
+  'template.project-community.body': `**सामुदायिक सेवा प्रोजेक्ट का ढाँचा**
+
+1. **ज़रूरत का आकलन**
+   - {{communityNeed}}
+   - अपने समुदाय में पहले से चल रही पहलों के बारे में पता करें
+   - मुख्य हितधारकों और संभावित साझेदारों की पहचान करें
+
+2. **प्रोजेक्ट की योजना**
+   - {{serviceProjectPlan}}
+   - मापने लायक लक्ष्य और असर के पैमाने तय करें
+   - संसाधनों और वॉलंटियर्स के प्रबंधन की योजना बनाएँ
+
+3. **अमल और निरंतरता**
+   - {{serviceImplementation}}
+   - अपने काम का असर दर्ज करें (फ़ोटो, अनुभव, आँकड़े)
+   - प्रोजेक्ट जारी रखने के लिए ज़िम्मेदारी सौंपने की योजना बनाएँ`,
+
+  'template.project-entrepreneurship.name': 'उद्यमशील पहल',
+  'template.project-entrepreneurship.description': 'छोटा व्यवसाय या सामाजिक उद्यम विकसित करने का ढाँचा',
+  'template.project-entrepreneurship.body': `**उद्यमशील प्रोजेक्ट का ढाँचा**
+
+1. **आइडिया का विकास**
+   - {{businessConcept}}
+   - बाज़ार की ज़रूरतों और प्रतिस्पर्धा के बारे में पता करें
+   - अपनी अनोखी पेशकश (value proposition) तय करें
+
+2. **व्यवसाय की योजना**
+   - {{businessPlan}}
+   - एक बुनियादी बिज़नेस मॉडल बनाएँ
+   - न्यूनतम व्यावहारिक उत्पाद (MVP) की योजना बनाएँ
+
+3. **शुरुआत और सीख**
+   - {{businessLaunch}}
+   - चुनौतियों और बदलावों को दर्ज करें
+   - नतीजों को मापें और फ़ीडबैक इकट्ठा करें`,
+
+  'template.project-creative.name': 'रचनात्मक पोर्टफ़ोलियो प्रोजेक्ट',
+  'template.project-creative.description': 'कलात्मक या रचनात्मक काम विकसित करने का ढाँचा',
+  'template.project-creative.body': `**रचनात्मक पोर्टफ़ोलियो प्रोजेक्ट का ढाँचा**
+
+1. **आइडिया का विकास**
+   - {{creativeConceptIdeas}}
+   - अपने क्षेत्र के कलाकारों और रचनाकारों के बारे में जानें
+   - कोई विषय या केंद्रीय सवाल तय करें
+
+2. **निर्माण की प्रक्रिया**
+   - {{creativeProcess}}
+   - पड़ाव और समय-सीमाएँ तय करें
+   - मेंटर्स से नियमित फ़ीडबैक लें
+
+3. **प्रदर्शन और साझा करना**
+   - {{creativeExhibition}}
+   - अपने काम को पेशेवर ढंग से दर्ज और प्रस्तुत करें
+   - कलाकार का वक्तव्य या प्रोजेक्ट का विवरण लिखें`
+};
@@ -0,0 +1,57 @@
+/**
+ * Message Catalogs
+ *
+ * Translated text for the parts of the counselor that are not written by the
+ * model: thinking steps, progress labels, notes on trimmed context, mock answers,
+ * follow-up templates and recommendation templates. A key missing from a catalog falls back to English.
+ */
+
+import { en, type MessageKey } from './en';
+import { hi } from './hi';
+import type { Language } from './languages';
+
+export * from './languages';
+export type { MessageKey };
+
+// Values substituted into "{name}" placeholders; "{{name}}" template variables are left alone
+export type MessageValues = Record<string, string | number>;
+
+const CATALOGS: Partial<Record<Language, Partial<Record<MessageKey, string>>>> = {
+  en,
+  hi
+};
+
+/**
+ * Languages that have their own catalog, rather than falling back to English
+ */
+export function hasCatalog(language: Language): boolean {
+  return language === 'en' || Boolean(CATALOGS[language]);
+}
+
+/**
+ * Look up a message in the student's language and fill in its placeholders
+ */
+export function translate(language: Language, key: MessageKey, values?: MessageValues): string {
+  const message = CATALOGS[language]?.[key] ?? en[key];
+  if (!values) {
+    return message;
+  }
+
+  return message.replace(/\{\{?(\w+)\}\}?/g, (placeholder, name: string) =>
+    !placeholder.startsWith('{{') && name in values ? String(values[name]) : placeholder
+  );
+}
+
+/**
+ * Look up a message that has ".one" and ".other" forms, choosing by count
+ * The count is available to the message as "{count}".
+ */
+export function translatePlural(
+  language: Language,
+  key: string,
+  count: number,
+  values: MessageValues = {}
+): string {
+  const form = new Intl.PluralRules(language).select(count) === 'one' ? 'one' : 'other';
+  return translate(language, `${key}.${form}` as MessageKey, { count, ...values });
+}
@@ -0,0 +1,140 @@
+/**
+ * Languages
+ *
+ * The languages the counselor can answer in and detection of the language a
+ * message is written in. Kept apart from the message catalogs so the chat UI
+ * can list the languages without loading every translation.
+ */
+
+export type Language = 'en' | 'hi' | 'mr' | 'bn' | 'ta' | 'te' | 'gu' | 'kn' | 'ml' | 'pa';
+
+export interface LanguageInfo {
+  code: Language;
+  // English name, used in prompts
+  name: string;
+  // Name in the language itself, shown to students
+  nativeName: string;
+}
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export const LANGUAGES: Record<Language, LanguageInfo> = {
+  en: { code: 'en', name: 'English', nativeName: 'English' },
+  hi: { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी' },
+  mr: { code: 'mr', name: 'Marathi', nativeName: 'मराठी' },
+  bn: { code: 'bn', name: 'Bengali', nativeName: 'বাংলা' },
+  ta: { code: 'ta', name: 'Tamil', nativeName: 'தமிழ்' },
+  te: { code: 'te', name: 'Telugu', nativeName: 'తెలుగు' },
+  gu: { code: 'gu', name: 'Gujarati', nativeName: 'ગુજરાતી' },
+  kn: { code: 'kn', name: 'Kannada', nativeName: 'ಕನ್ನಡ' },
+  ml: { code: 'ml', name: 'Malayalam', nativeName: 'മലയാളം' },
+  pa: { code: 'pa', name: 'Punjabi', nativeName: 'ਪੰਜਾਬੀ' }
+};
+
+// Unicode blocks of the Indian scripts; Devanagari is shared by Hindi and Marathi
+const SCRIPT_RANGES: { language: Language; start: number; end: number }[] = [
+  { language: 'hi', start: 0x0900, end: 0x097f },
+  { language: 'bn', start: 0x0980, end: 0x09ff },
+  { language: 'pa', start: 0x0a00, end: 0x0a7f },
+  { language: 'gu', start: 0x0a80, end: 0x0aff },
+  { language: 'ta', start: 0x0b80, end: 0x0bff },
+  { language: 'te', start: 0x0c00, end: 0x0c7f },
+  { language: 'kn', start: 0x0c80, end: 0x0cff },
+  { language: 'ml', start: 0x0d00, end: 0x0d7f }
+];
+
+// Common Marathi words that tell Marathi apart from Hindi in Devanagari text
+const MARATHI_WORDS = ['आहे', 'आहेत', 'मला', 'माझा', 'माझी', 'माझे', 'तुम्ही', 'काय', 'आणि', 'कसे', 'नाही'];
+
+// Common words of Hindi written in the Latin alphabet ("mujhe kya karna chahiye")
+// Words that are also English, such as "main", "hum" and "mere", are left out
+const ROMANIZED_HINDI_WORDS = new Set([
+  'kya', 'hai', 'hain', 'mujhe', 'mera', 'meri', 'kaise', 'kaun', 'kahan', 'nahi', 'nahin',
+  'karna', 'karni', 'karu', 'karun', 'chahiye', 'aur', 'liye', 'bhi', 'kuch', 'batao', 'bataiye',
+  'hoga', 'hogi', 'sakta', 'sakti', 'mein', 'aap', 'kyun', 'accha', 'theek', 'padhai'
+]);
+
+// Texts shorter than this are too short to tell ("ok", "thanks")
+const MIN_DETECTION_LETTERS = 8;
+
+// Share of the letters a script needs before the text counts as written in it
+const MIN_SCRIPT_SHARE = 0.3;
+
+// Latin text with fewer words than this could be either language ("ok thanks")
+const MIN_ENGLISH_WORDS = 4;
+
+// Romanized Hindi words needed, in number and as a share of the words
+const MIN_ROMANIZED_HINDI_WORDS = 2;
+const MIN_ROMANIZED_HINDI_SHARE = 0.2;
+
+// Latin text counts as clearly Hindi with this many romanized Hindi words, and
+// as clearly English with this many words and none of them Hindi
+const CONFIDENT_ROMANIZED_HINDI_WORDS = 3;
+const CONFIDENT_ENGLISH_WORDS = 6;
+
+export interface LanguageDetection {
+  language: Language;
+  // Whether the text leaves little doubt, e.g. it is written in an Indian script
+  confident: boolean;
+}
+
+/**
+ * Check that a value is one of the supported language codes
+ */
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LANGUAGES, value);
+}
+
+/**
+ * Detect the language a message is written in, and how sure the detection is
+ * Indian scripts are recognized by their Unicode block, and Hindi written in
+ * the Latin alphabet by its common words; other Latin text is English.
+ * @returns The detection, or null when the text is too short to tell
+ */
+export function detectLanguageWithConfidence(text: string): LanguageDetection | null {
+  const counts = new Map<Language, number>();
+  let latin = 0;
+
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if ((code >= 0x41 && code <= 0x5a) || (code >= 0x61 && code <= 0x7a)) {
+      latin++;
+      continue;
+    }
+    const script = SCRIPT_RANGES.find(range => code >= range.start && code <= range.end);
+    if (script) {
+      counts.set(script.language, (counts.get(script.language) || 0) + 1);
+    }
+  }
+
+  const letters = latin + Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+  if (letters < MIN_DETECTION_LETTERS) {
+    return null;
+  }
+
+  const [script, count] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0] || [null, 0];
+  if (script && count / letters >= MIN_SCRIPT_SHARE) {
+    if (script === 'hi' && MARATHI_WORDS.some(word => text.includes(word))) {
+      return { language: 'mr', confident: true };
+    }
+    return { language: script, confident: true };
+  }
+
+  const words = text.toLowerCase().match(/[a-z]+/g) || [];
+  const hindiWords = words.filter(word => ROMANIZED_HINDI_WORDS.has(word)).length;
+  if (hindiWords >= MIN_ROMANIZED_HINDI_WORDS && hindiWords / words.length >= MIN_ROMANIZED_HINDI_SHARE) {
+    return { language: 'hi', confident: hindiWords >= CONFIDENT_ROMANIZED_HINDI_WORDS };
+  }
+
+  return words.length >= MIN_ENGLISH_WORDS
+    ? { language: 'en', confident: hindiWords === 0 && words.length >= CONFIDENT_ENGLISH_WORDS }
+    : null;
+}
+
+/**
+ * Detect the language a message is written in
+ * @returns The language, or null when the text is too short to tell
+ */
+export function detectLanguage(text: string): Language | null {
+  return detectLanguageWithConfidence(text)?.language || null;
+}
@@ -0,0 +1,125 @@
+/**
+ * Message tree helpers
+ *
+ * Conversations are stored as trees: each message points to the message it
+ * follows, so editing a question or regenerating an answer adds a branch next
+ * to the original instead of replacing it. What is shown, and sent to the
+ * model, is the branch from the first message down to one leaf.
+ * Shared by the conversation store and the chat UI.
+ */
+
+export interface TreeMessage {
+  id: string;
+  role: string;
+  // The message this one follows; null or missing for the first message
+  parentId?: string | null;
+}
+
+/**
+ * The messages from the root down to a message, oldest first
+ * Stops early if an ancestor is no longer stored.
+ */
+export function getBranch<T extends TreeMessage>(messages: T[], leafId: string | null | undefined): T[] {
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const branch: T[] = [];
+  const visited = new Set<string>();
+
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    branch.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return branch;
+}
+
+/**
+ * The messages that directly follow a message, oldest first
+ */
+export function getChildren<T extends TreeMessage>(messages: T[], parentId: string | null | undefined): T[] {
+  return messages.filter(m => (m.parentId ?? null) === (parentId ?? null));
+}
+
+/**
+ * The versions of a message: messages by the same speaker that follow the
+ * same parent, including the message itself, oldest first
+ */
+export function getAlternatives<T extends TreeMessage>(messages: T[], message: T): T[] {
+  return getChildren(messages, message.parentId).filter(m => m.role === message.role);
+}
+
+/**
+ * The leaf reached by following the newest reply from a message
+ * Used to show a branch as it was last continued when switching to it.
+ */
+export function getLatestLeaf<T extends TreeMessage>(messages: T[], messageId: string): string {
+  let leafId = messageId;
+  const visited = new Set<string>([leafId]);
+
+  for (;;) {
+    const children = getChildren(messages, leafId);
+    const newest = children[children.length - 1];
+    if (!newest || visited.has(newest.id)) {
+      return leafId;
+    }
+    visited.add(newest.id);
+    leafId = newest.id;
+  }
+}
+
+/**
+ * Drop messages until no more than maxMessages are left, sparing the branches
+ * that lead to the given messages
+ * Branches that lead to none of them are dropped first, whole and oldest first.
+ * Only when the spared branches alone are too many are their oldest messages
+ * dropped too, but never the given messages themselves.
+ */
+export function trimMessages<T extends TreeMessage>(
+  messages: T[],
+  maxMessages: number,
+  keepIds: (string | null | undefined)[]
+): T[] {
+  if (messages.length <= maxMessages) {
+    return messages;
+  }
+
+  const spared = new Set<string>();
+  for (const id of keepIds) {
+    getBranch(messages, id).forEach(m => spared.add(m.id));
+  }
+
+  const removed = new Set<string>();
+  for (const message of messages) {
+    if (messages.length - removed.size <= maxMessages) break;
+    if (spared.has(message.id) || removed.has(message.id)) continue;
+
+    // Nothing that follows a message off the spared branches is on them either
+    const subtree = [message.id];
+    for (let i = 0; i < subtree.length; i++) {
+      removed.add(subtree[i]);
+      getChildren(messages, subtree[i]).forEach(child => subtree.push(child.id));
+    }
+  }
+
+  for (const message of messages) {
+    if (messages.length - removed.size <= maxMessages) break;
+    if (!removed.has(message.id) && !keepIds.includes(message.id)) {
+      removed.add(message.id);
+    }
+  }
+
+  return messages.filter(m => !removed.has(m.id));
+}
+
+/**
+ * Link messages saved before conversations were stored as trees, each to the
+ * one before it
+ */
+export function linkUnparentedMessages<T extends TreeMessage>(messages: T[]): T[] {
+  return messages.map((message, index) =>
+    message.parentId === undefined
+      ? { ...message, parentId: index > 0 ? messages[index - 1].id : null }
+      : message
+  );
+}
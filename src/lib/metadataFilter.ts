@@ -0,0 +1,199 @@
+/**
+ * Metadata Filters
+ *
+ * A small filter language over knowledge base chunk metadata, written as JSON
+ * in the style of MongoDB queries:
+ *
+ *   { "filetype": "pdf", "grade": { "$gte": 9, "$lte": 12 }, "country": { "$in": ["India", "Singapore"] } }
+ *
+ * Each field names a metadata key (dotted paths reach nested values, e.g.
+ * "loc.pageNumber") and is matched against a value or a condition; all fields
+ * must match. "$and" and "$or" combine lists of filters.
+ *
+ * Upload form fields are stored as strings, so comparisons are lenient: numbers
+ * and numeric strings compare as numbers, other strings compare without regard
+ * to case, and a metadata array matches when any of its items does.
+ */
+
+export type FilterValue = string | number | boolean;
+
+export interface FieldCondition {
+  $eq?: FilterValue;
+  $ne?: FilterValue;
+  $in?: FilterValue[];
+  $nin?: FilterValue[];
+  $gt?: string | number;
+  $gte?: string | number;
+  $lt?: string | number;
+  $lte?: string | number;
+  // Whether the key is present with a non-empty value
+  $exists?: boolean;
+}
+
+export interface MetadataFilter {
+  $and?: MetadataFilter[];
+  $or?: MetadataFilter[];
+  [field: string]: FilterValue | FieldCondition | MetadataFilter[] | undefined;
+}
+
+export type FilterOperator = keyof FieldCondition;
+
+export const FILTER_OPERATORS: FilterOperator[] = ['$eq', '$ne', '$in', '$nin', '$gt', '$gte', '$lt', '$lte', '$exists'];
+
+// Metadata keys worth suggesting when building a filter
+export const COMMON_FILTER_FIELDS = ['filetype', 'filename', 'documentId', 'uploadedBy', 'country', 'grade', 'source'];
+
+const RANGE_OPERATORS: FilterOperator[] = ['$gt', '$gte', '$lt', '$lte'];
+
+function isFilterValue(value: unknown): value is FilterValue {
+  return typeof value === 'string' || typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check that a value is a well-formed filter
+ * @returns A message explaining what is wrong, or null when the filter is valid
+ */
+export function validateMetadataFilter(filter: unknown, path = 'filter'): string | null {
+  if (!isPlainObject(filter)) {
+    return `${path} must be an object`;
+  }
+
+  for (const [key, value] of Object.entries(filter)) {
+    if (key === '$and' || key === '$or') {
+      if (!Array.isArray(value) || value.length === 0) {
+        return `${path}.${key} must be a non-empty list of filters`;
+      }
+      for (let i = 0; i < value.length; i++) {
+        const error = validateMetadataFilter(value[i], `${path}.${key}[${i}]`);
+        if (error) return error;
+      }
+      continue;
+    }
+
+    if (key.startsWith('$')) {
+      return `Unknown filter operator "${key}" in ${path}; use $and or $or to combine filters`;
+    }
+    if (isFilterValue(value)) {
+      continue;
+    }
+    if (!isPlainObject(value) || Object.keys(value).length === 0) {
+      return `${path}.${key} must be a value or a condition such as { "$in": [...] }`;
+    }
+
+    for (const [operator, operand] of Object.entries(value)) {
+      if (!FILTER_OPERATORS.includes(operator as FilterOperator)) {
+        return `Unknown operator "${operator}" for ${key}; use one of ${FILTER_OPERATORS.join(', ')}`;
+      }
+      if (operator === '$in' || operator === '$nin') {
+        if (!Array.isArray(operand) || !operand.every(isFilterValue)) {
+          return `${operator} of ${key} must be a list of values`;
+        }
+      } else if (operator === '$exists') {
+        if (typeof operand !== 'boolean') {
+          return `$exists of ${key} must be true or false`;
+        }
+      } else if (RANGE_OPERATORS.includes(operator as FilterOperator)) {
+        if (typeof operand !== 'string' && !(typeof operand === 'number' && Number.isFinite(operand))) {
+          return `${operator} of ${key} must be a number or a string`;
+        }
+      } else if (!isFilterValue(operand)) {
+        return `${operator} of ${key} must be a string, number or boolean`;
+      }
+    }
+  }
+
+  return null;
+}
+
+// Value at a dotted path, e.g. "loc.pageNumber"
+function getField(metadata: Record<string, any>, field: string): unknown {
+  return field.split('.').reduce<unknown>(
+    (value, key) => (isPlainObject(value) ? value[key] : undefined),
+    metadata
+  );
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  return null;
+}
+
+/**
+ * Order two values, as numbers when both are numeric and otherwise as case-insensitive strings
+ */
+function compareValues(a: unknown, b: unknown): number {
+  const numberA = toNumber(a);
+  const numberB = toNumber(b);
+  if (numberA !== null && numberB !== null) {
+    return numberA - numberB;
+  }
+  const stringA = String(a).toLowerCase();
+  const stringB = String(b).toLowerCase();
+  return stringA < stringB ? -1 : stringA > stringB ? 1 : 0;
+}
+
+function isPresent(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== '';
+}
+
+// Whether one metadata value (not an array) satisfies an operator
+function matchesOperator(value: unknown, operator: FilterOperator, operand: unknown): boolean {
+  if (!isPresent(value)) {
+    return operator === '$ne' || operator === '$nin';
+  }
+  switch (operator) {
+    case '$eq': return compareValues(value, operand) === 0;
+    case '$ne': return compareValues(value, operand) !== 0;
+    case '$in': return (operand as FilterValue[]).some(item => compareValues(value, item) === 0);
+    case '$nin': return !(operand as FilterValue[]).some(item => compareValues(value, item) === 0);
+    case '$gt': return compareValues(value, operand) > 0;
+    case '$gte': return compareValues(value, operand) >= 0;
+    case '$lt': return compareValues(value, operand) < 0;
+    case '$lte': return compareValues(value, operand) <= 0;
+    default: return false;
+  }
+}
+
+function matchesCondition(value: unknown, operator: FilterOperator, operand: unknown): boolean {
+  if (operator === '$exists') {
+    const exists = Array.isArray(value) ? value.some(isPresent) : isPresent(value);
+    return exists === operand;
+  }
+  if (Array.isArray(value)) {
+    // Negative operators must hold for every item, the others for any item
+    return operator === '$ne' || operator === '$nin'
+      ? value.every(item => matchesOperator(item, operator, operand))
+      : value.some(item => matchesOperator(item, operator, operand));
+  }
+  return matchesOperator(value, operator, operand);
+}
+
+/**
+ * Whether a chunk's metadata satisfies a filter
+ * The filter is expected to have passed validateMetadataFilter.
+ */
+export function matchesMetadataFilter(metadata: Record<string, any> | undefined, filter: MetadataFilter): boolean {
+  const data = metadata || {};
+
+  return Object.entries(filter).every(([key, expected]) => {
+    if (key === '$and') {
+      return (expected as MetadataFilter[]).every(part => matchesMetadataFilter(data, part));
+    }
+    if (key === '$or') {
+      return (expected as MetadataFilter[]).some(part => matchesMetadataFilter(data, part));
+    }
+
+    const value = getField(data, key);
+    if (isFilterValue(expected)) {
+      return matchesCondition(value, '$eq', expected);
+    }
+    return Object.entries(expected as FieldCondition).every(([operator, operand]) =>
+      matchesCondition(value, operator as FilterOperator, operand)
+    );
+  });
+}
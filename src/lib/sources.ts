@@ -0,0 +1,36 @@
+/**
+ * Source helpers
+ *
+ * Shared by the prompt builder and the chat UI so a source is described the
+ * same way to the model and to the student.
+ */
+
+import type { SourceReference } from '@/services/langchain/types';
+import type { Citation } from '@/services/openai/types';
+
+/**
+ * Describe where a source came from, e.g. "brochure.pdf, page 3"
+ */
+export function describeSourceLocation(source: SourceReference): string {
+  if (source.page !== undefined) {
+    return `${source.filename}, page ${source.page}`;
+  }
+  if (source.line !== undefined) {
+    return `${source.filename}, row ${source.line}`;
+  }
+  return source.filename;
+}
+
+/**
+ * Describe what a citation points to in a few words
+ */
+export function describeCitationSource(citation: Citation): string {
+  switch (citation.source.type) {
+    case 'web':
+      return citation.source.result.title || citation.source.result.source || citation.source.result.url;
+    case 'knowledge_base':
+      return describeSourceLocation(citation.source.source);
+    case 'profile':
+      return 'Your student profile';
+  }
+}
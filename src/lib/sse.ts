@@ -0,0 +1,61 @@
+/**
+ * Server-Sent Events helpers
+ *
+ * Shared by the chat API route (encoding) and the chat UI (decoding) so both
+ * sides agree on the wire format of streamed chat responses.
+ */
+
+import type { ChatStreamEvent } from '@/types/api';
+
+/**
+ * Encode a chat stream event as a single SSE frame
+ */
+export function encodeStreamEvent(event: ChatStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Read SSE frames from a response body and hand each decoded event to the callback
+ */
+export async function readStreamEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ChatStreamEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Frames are separated by a blank line
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const frame = buffer.substring(0, boundary);
+      buffer = buffer.substring(boundary + 2);
+
+      const data = frame
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.substring(5).trimStart())
+        .join('\n');
+
+      if (data) {
+        let event: ChatStreamEvent | null = null;
+        try {
+          event = JSON.parse(data) as ChatStreamEvent;
+        } catch (e) {
+          console.warn('Skipping malformed stream event:', data.substring(0, 100));
+        }
+        if (event) {
+          onEvent(event);
+        }
+      }
+
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+}
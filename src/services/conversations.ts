@@ -0,0 +1,347 @@
+import { ChatMessage, PersonaSelection } from '@/services/openai/types';
+import { getBranch, trimMessages } from '@/lib/messageTree';
+import type { Language } from '@/lib/i18n/languages';
+
+// A single stored turn in a conversation
+export interface ConversationMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  // The message this one follows; null for the first message
+  parentId: string | null;
+  createdAt: string;
+  model?: string;
+  // Persona prompt version the answer was generated with
+  promptVersion?: string;
+}
+
+// Running summary of the turns that are no longer sent to the model as they are
+export interface ConversationSummary {
+  content: string;
+  // Last message the summary covers; the messages after it are sent in full
+  throughMessageId: string;
+  updatedAt: string;
+}
+
+// A conversation between a student and the counselor
+// Messages form a tree; edits and regenerated answers are branches of it
+export interface Conversation {
+  id: string;
+  userId?: string;
+  // Counselor persona chosen for this conversation; the default persona when unset
+  persona?: PersonaSelection;
+  // Language the counselor last answered in, kept for messages too short to detect one
+  language?: Language;
+  createdAt: string;
+  updatedAt: string;
+  // Every message of every branch, oldest first
+  messages: ConversationMessage[];
+  // Last message of the branch later turns continue by default
+  activeMessageId: string | null;
+  // Summary of the older turns of the branch it was written for
+  summary?: ConversationSummary;
+}
+
+// Conversations idle for longer than this are dropped by the cleanup
+export const CONVERSATION_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
+
+// Messages are discarded once a conversation grows past this, those off the
+// active and summarized branches first; see trimMessages
+const MAX_STORED_MESSAGES = 100;
+
+// Number of prior messages sent to the model by default
+const DEFAULT_HISTORY_MESSAGES = 20;
+
+// This will be replaced with an actual database implementation
+// For now we'll use a mock implementation, kept on globalThis like the usage
+// ledger so every API route that loads this module shares it
+const conversationStore = globalThis as typeof globalThis & { __conversations?: Map<string, Conversation> };
+const conversationsDB: Map<string, Conversation> = conversationStore.__conversations
+  || (conversationStore.__conversations = new Map());
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`;
+}
+
+/**
+ * Create a new conversation
+ * An ID and earlier messages can be given to resume a saved thread after the
+ * in-memory conversation has been cleaned up.
+ */
+export async function createConversation(
+  options: {
+    userId?: string;
+    id?: string;
+    persona?: PersonaSelection;
+    language?: Language;
+    messages?: ConversationMessage[];
+    activeMessageId?: string | null;
+    summary?: ConversationSummary;
+  } = {}
+): Promise<Conversation> {
+  const timestamp = new Date().toISOString();
+  const activeMessageId = options.activeMessageId ?? options.messages?.[options.messages.length - 1]?.id ?? null;
+  const messages = trimMessages(options.messages || [], MAX_STORED_MESSAGES, [
+    activeMessageId,
+    options.summary?.throughMessageId
+  ]);
+
+  const conversation: Conversation = {
+    id: options.id || generateId('conv'),
+    userId: options.userId,
+    persona: options.persona,
+    language: options.language,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    messages,
+    activeMessageId,
+    summary: options.summary
+  };
+
+  conversationsDB.set(conversation.id, conversation);
+  console.log('Conversation created:', conversation.id);
+  return conversation;
+}
+
+/**
+ * Get a conversation by ID
+ */
+export async function getConversation(conversationId: string): Promise<Conversation | null> {
+  return conversationsDB.get(conversationId) || null;
+}
+
+/**
+ * Whether a conversation may be continued by a request from the given student
+ * Conversations of identified students are only open to those students.
+ */
+export function isConversationOwner(conversation: Conversation, userId?: string): boolean {
+  return !conversation.userId || conversation.userId === userId;
+}
+
+/**
+ * Get an existing conversation, or start a new one if the ID is missing, unknown
+ * or belongs to another student
+ * An anonymous conversation continued by an identified student becomes theirs,
+ * so it is saved as their thread and feeds their memory from then on.
+ */
+export async function getOrCreateConversation(
+  conversationId?: string | null,
+  options: { userId?: string } = {}
+): Promise<Conversation> {
+  if (conversationId) {
+    const existing = await getConversation(conversationId);
+    if (existing && isConversationOwner(existing, options.userId)) {
+      if (!existing.userId && options.userId) {
+        existing.userId = options.userId;
+        console.log(`Conversation ${conversationId} claimed by its student`);
+      }
+      return existing;
+    }
+    console.log(existing
+      ? `Conversation ${conversationId} belongs to another student, starting a new one`
+      : `Conversation ${conversationId} not found, starting a new one`);
+  }
+
+  return createConversation(options);
+}
+
+/**
+ * Get a single message of a conversation, on any branch
+ */
+export async function getConversationMessage(
+  conversationId: string,
+  messageId: string
+): Promise<ConversationMessage | null> {
+  return conversationsDB.get(conversationId)?.messages.find(m => m.id === messageId) || null;
+}
+
+/**
+ * Add a message after another one and make its branch the active one
+ * @param parentId Message to follow; the end of the active branch when omitted
+ */
+export async function appendMessage(
+  conversationId: string,
+  message: Omit<ConversationMessage, 'id' | 'createdAt' | 'parentId'>,
+  parentId?: string | null
+): Promise<ConversationMessage> {
+  const conversation = conversationsDB.get(conversationId);
+
+  if (!conversation) {
+    throw new Error(`Conversation ${conversationId} not found`);
+  }
+
+  const timestamp = new Date().toISOString();
+  const storedMessage: ConversationMessage = {
+    ...message,
+    id: generateId('msg'),
+    parentId: parentId === undefined ? conversation.activeMessageId : parentId,
+    createdAt: timestamp
+  };
+
+  conversation.messages.push(storedMessage);
+  conversation.activeMessageId = storedMessage.id;
+  conversation.updatedAt = timestamp;
+
+  // Keep memory bounded for very long conversations
+  conversation.messages = trimMessages(conversation.messages, MAX_STORED_MESSAGES, [
+    conversation.activeMessageId,
+    conversation.summary?.throughMessageId
+  ]);
+
+  return storedMessage;
+}
+
+/**
+ * Get the messages of a branch, oldest first
+ * @param leafId Last message of the branch; the active branch when omitted, none when null
+ */
+export function getConversationBranch(conversation: Conversation, leafId?: string | null): ConversationMessage[] {
+  return getBranch(conversation.messages, leafId === undefined ? conversation.activeMessageId : leafId);
+}
+
+// Position of the last summarized message in a branch, or -1 when the summary was written for another branch
+function getSummarizedIndex(conversation: Conversation, branch: ConversationMessage[]): number {
+  return conversation.summary
+    ? branch.findIndex(m => m.id === conversation.summary!.throughMessageId)
+    : -1;
+}
+
+/**
+ * Get the most recent turns of a branch in the format sent to the model
+ * Turns covered by the conversation's summary are left out; see getConversationSummary.
+ * @param leafId Last message of the branch; the active branch when omitted, none when null
+ */
+export async function getConversationHistory(
+  conversationId: string,
+  maxMessages = DEFAULT_HISTORY_MESSAGES,
+  leafId?: string | null
+): Promise<ChatMessage[]> {
+  const conversation = conversationsDB.get(conversationId);
+
+  if (!conversation) {
+    return [];
+  }
+
+  const branch = getConversationBranch(conversation, leafId);
+  return branch
+    .slice(getSummarizedIndex(conversation, branch) + 1)
+    .slice(-maxMessages)
+    .map(m => ({ role: m.role, content: m.content }));
+}
+
+/**
+ * Get the summary of the older turns of a branch, if the conversation has one for it
+ * @param leafId Last message of the branch; the active branch when omitted, none when null
+ */
+export async function getConversationSummary(
+  conversationId: string,
+  leafId?: string | null
+): Promise<string | null> {
+  const conversation = conversationsDB.get(conversationId);
+
+  if (!conversation?.summary) {
+    return null;
+  }
+
+  const branch = getConversationBranch(conversation, leafId);
+  return getSummarizedIndex(conversation, branch) >= 0 ? conversation.summary.content : null;
+}
+
+/**
+ * Replace the running summary of a conversation
+ */
+export async function setConversationSummary(
+  conversationId: string,
+  summary: ConversationSummary
+): Promise<Conversation> {
+  const conversation = conversationsDB.get(conversationId);
+
+  if (!conversation) {
+    throw new Error(`Conversation ${conversationId} not found`);
+  }
+
+  conversation.summary = summary;
+  return conversation;
+}
+
+/**
+ * Choose the counselor persona for the rest of a conversation
+ */
+export async function setConversationPersona(
+  conversationId: string,
+  persona: PersonaSelection
+): Promise<Conversation> {
+  const conversation = conversationsDB.get(conversationId);
+
+  if (!conversation) {
+    throw new Error(`Conversation ${conversationId} not found`);
+  }
+
+  conversation.persona = persona;
+  conversation.updatedAt = new Date().toISOString();
+  return conversation;
+}
+
+/**
+ * Switch the branch later turns of a conversation continue by default
+ * Conversations no longer in memory are left alone; they resume from their
+ * thread, which records the branch itself.
+ * @returns The conversation, or null when it is not in memory or the message is not part of it
+ */
+export async function setConversationActiveMessage(
+  conversationId: string,
+  messageId: string | null
+): Promise<Conversation | null> {
+  const conversation = conversationsDB.get(conversationId);
+
+  if (!conversation || (messageId !== null && !conversation.messages.some(m => m.id === messageId))) {
+    return null;
+  }
+
+  conversation.activeMessageId = messageId;
+  conversation.updatedAt = new Date().toISOString();
+  return conversation;
+}
+
+/**
+ * Record the language the counselor answers a conversation in
+ */
+export async function setConversationLanguage(
+  conversationId: string,
+  language: Language
+): Promise<Conversation> {
+  const conversation = conversationsDB.get(conversationId);
+
+  if (!conversation) {
+    throw new Error(`Conversation ${conversationId} not found`);
+  }
+
+  conversation.language = language;
+  conversation.updatedAt = new Date().toISOString();
+  return conversation;
+}
+
+/**
+ * Delete a conversation
+ */
+export async function deleteConversation(conversationId: string): Promise<boolean> {
+  return conversationsDB.delete(conversationId);
+}
+
+/**
+ * Drop conversations that have been idle longer than the timeout
+ * Returns the number of conversations removed
+ */
+export function cleanupInactiveConversations(timeoutMs = CONVERSATION_TIMEOUT_MS): number {
+  const now = Date.now();
+  let cleanedCount = 0;
+
+  for (const [conversationId, conversation] of conversationsDB.entries()) {
+    if (now - new Date(conversation.updatedAt).getTime() > timeoutMs) {
+      conversationsDB.delete(conversationId);
+      cleanedCount++;
+    }
+  }
+
+  return cleanedCount;
+}
@@ -0,0 +1,357 @@
+/**
+ * Conversation Export
+ *
+ * Renders a counseling conversation as Markdown, as JSON in the shape of the
+ * chat UI's Message type, or as a self-contained HTML report that prints
+ * cleanly, so students and parents can keep a copy of the chat.
+ */
+
+import type { StudentProfile } from '@/components/StudentQuestionnaire';
+import type { Message } from '@/types/chat';
+import type { Citation } from '@/services/openai/types';
+import { describeCitationSource, describeSourceLocation } from '@/lib/sources';
+
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'json', 'html'];
+
+// Messages as they arrive from the browser, where timestamps are serialized
+export type ExportedMessage = Omit<Message, 'timestamp' | 'isStreaming'> & {
+  timestamp?: string | Date;
+};
+
+export interface ConversationExport {
+  conversationId?: string | null;
+  title?: string;
+  // The profile the student had filled in when the conversation was exported
+  profile?: StudentProfile | null;
+  messages: ExportedMessage[];
+  exportedAt?: string;
+}
+
+export interface ExportedFile {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+const DEFAULT_TITLE = 'College Counseling Conversation';
+
+// Profile fields in the order they are shown, with their labels
+const PROFILE_FIELDS: [keyof StudentProfile, string][] = [
+  ['name', 'Name'],
+  ['gradeLevel', 'Grade level'],
+  ['intendedMajor', 'Intended major'],
+  ['currentActivities', 'Current activities'],
+  ['interestedActivities', 'Interested in'],
+  ['satScore', 'SAT score'],
+  ['additionalInfo', 'Additional information']
+];
+
+const FILE_TYPES: Record<ExportFormat, { extension: string; contentType: string }> = {
+  markdown: { extension: 'md', contentType: 'text/markdown; charset=utf-8' },
+  json: { extension: 'json', contentType: 'application/json; charset=utf-8' },
+  html: { extension: 'html', contentType: 'text/html; charset=utf-8' }
+};
+
+function formatTimestamp(timestamp: string | Date | undefined): string | undefined {
+  if (!timestamp) return undefined;
+  const date = new Date(timestamp);
+  return isNaN(date.getTime()) ? undefined : date.toISOString().replace('T', ' ').substring(0, 16) + ' UTC';
+}
+
+function profileEntries(profile: StudentProfile | null | undefined): [string, string][] {
+  if (!profile) return [];
+  return PROFILE_FIELDS
+    .filter(([field]) => typeof profile[field] === 'string' && (profile[field] as string).trim())
+    .map(([field, label]) => [label, (profile[field] as string).trim()]);
+}
+
+function citationLink(citation: Citation): string | undefined {
+  return citation.source.type === 'web' ? citation.source.result.url : undefined;
+}
+
+/**
+ * The sources listed under a message: its citations, or the knowledge base
+ * excerpts it was given when it cited none
+ */
+function messageSources(message: ExportedMessage): { label: string; description: string; url?: string }[] {
+  if (message.citations && message.citations.length > 0) {
+    return message.citations.map(citation => ({
+      label: citation.id,
+      description: describeCitationSource(citation),
+      url: citationLink(citation)
+    }));
+  }
+
+  return (message.sources || []).map(source => ({
+    label: source.id,
+    description: describeSourceLocation(source)
+  }));
+}
+
+function speaker(message: ExportedMessage): string {
+  return message.role === 'user' ? 'Student' : 'Counselor';
+}
+
+/**
+ * Render the conversation as a Markdown document
+ */
+export function renderConversationMarkdown(conversation: ConversationExport): string {
+  const exportedAt = formatTimestamp(conversation.exportedAt || new Date().toISOString());
+  const lines: string[] = [`# ${conversation.title || DEFAULT_TITLE}`, '', `Exported ${exportedAt}`];
+
+  if (conversation.conversationId) {
+    lines.push(`Conversation ID: ${conversation.conversationId}`);
+  }
+
+  const profile = profileEntries(conversation.profile);
+  if (profile.length > 0) {
+    lines.push('', '## Student Profile', '');
+    profile.forEach(([label, value]) => lines.push(`- **${label}:** ${value.replace(/\s*\n\s*/g, ' ')}`));
+  }
+
+  lines.push('', '## Conversation');
+
+  for (const message of conversation.messages) {
+    const timestamp = formatTimestamp(message.timestamp);
+    lines.push('', `### ${speaker(message)}${timestamp ? ` (${timestamp})` : ''}`, '', message.content.trim());
+
+    const details = [
+      message.modelInfo?.name && `Model: ${message.modelInfo.name}`,
+      message.promptVersion && `Persona: ${message.promptVersion}`
+    ].filter(Boolean);
+    if (details.length > 0) {
+      lines.push('', `_${details.join(' · ')}_`);
+    }
+
+    const sources = messageSources(message);
+    if (sources.length > 0) {
+      lines.push('', '**Sources**', '');
+      sources.forEach(source => lines.push(
+        `- [${source.label}] ${source.url ? `[${source.description}](${source.url})` : source.description}`
+      ));
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Render the conversation as JSON; messages keep the fields of the Message type
+ */
+export function renderConversationJson(conversation: ConversationExport): string {
+  return JSON.stringify({
+    conversationId: conversation.conversationId || null,
+    title: conversation.title || DEFAULT_TITLE,
+    exportedAt: conversation.exportedAt || new Date().toISOString(),
+    profile: conversation.profile || null,
+    messages: conversation.messages.map(({ timestamp, ...message }) => ({
+      ...message,
+      ...(timestamp ? { timestamp: new Date(timestamp).toISOString() } : {})
+    }))
+  }, null, 2);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Only web links are kept in the report, so a message cannot inject javascript: URLs
+function safeUrl(url: string): string | null {
+  return /^https?:\/\//i.test(url) ? url : null;
+}
+
+/**
+ * Inline Markdown (code, bold, italics, links and citation markers) on text
+ * that has already been escaped
+ */
+function renderInlineMarkdown(text: string): string {
+  return text
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^*])\*([^*\s][^*]*)\*/g, '$1<em>$2</em>')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (match, label: string, url: string) => {
+      const href = safeUrl(url.replace(/&amp;/g, '&'));
+      return href ? `<a href="${escapeHtml(href)}">${label}</a>` : label;
+    })
+    .replace(/\[((?:[WS]\d{1,3}|P)(?:,\s*(?:[WS]\d{1,3}|P))*)\]/g, '<sup class="cite">[$1]</sup>');
+}
+
+/**
+ * Convert the Markdown the counselor answers in to HTML
+ * Covers what the model actually produces - headings, lists, code blocks,
+ * emphasis and links - rather than the full Markdown syntax.
+ */
+function renderMarkdownToHtml(markdown: string): string {
+  const html: string[] = [];
+  const paragraph: string[] = [];
+  let list: { tag: 'ul' | 'ol'; items: string[] } | null = null;
+  let codeBlock: string[] | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      html.push(`<p>${paragraph.map(renderInlineMarkdown).join('<br>')}</p>`);
+      paragraph.length = 0;
+    }
+  };
+  const flushList = () => {
+    if (list) {
+      html.push(`<${list.tag}>${list.items.map(item => `<li>${renderInlineMarkdown(item)}</li>`).join('')}</${list.tag}>`);
+      list = null;
+    }
+  };
+
+  for (const line of escapeHtml(markdown).split('\n')) {
+    if (codeBlock) {
+      if (line.trim().startsWith('```')) {
+        html.push(`<pre><code>${codeBlock.join('\n')}</code></pre>`);
+        codeBlock = null;
+      } else {
+        codeBlock.push(line);
+      }
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const bullet = line.match(/^\s*[-*+]\s+(.*)$/);
+    const numbered = line.match(/^\s*\d+[.)]\s+(.*)$/);
+
+    if (line.trim().startsWith('```')) {
+      flushParagraph();
+      flushList();
+      codeBlock = [];
+    } else if (heading) {
+      flushParagraph();
+      flushList();
+      // Message headings sit below the report's own h1-h3
+      const level = Math.min(heading[1].length + 3, 6);
+      html.push(`<h${level}>${renderInlineMarkdown(heading[2])}</h${level}>`);
+    } else if (bullet || numbered) {
+      flushParagraph();
+      const tag = bullet ? 'ul' : 'ol';
+      if (list && list.tag !== tag) flushList();
+      if (!list) list = { tag, items: [] };
+      list.items.push((bullet || numbered)![1]);
+    } else if (!line.trim()) {
+      flushParagraph();
+      flushList();
+    } else {
+      flushList();
+      paragraph.push(line.trim());
+    }
+  }
+
+  if (codeBlock) {
+    html.push(`<pre><code>${codeBlock.join('\n')}</code></pre>`);
+  }
+  flushParagraph();
+  flushList();
+
+  return html.join('\n');
+}
+
+const REPORT_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #18181b; max-width: 800px; margin: 2rem auto; padding: 0 1.5rem; line-height: 1.55; }
+  header { border-bottom: 2px solid #18181b; margin-bottom: 1.5rem; padding-bottom: 0.75rem; }
+  h1 { font-size: 1.6rem; margin: 0 0 0.25rem; }
+  h2 { font-size: 1.2rem; margin: 1.75rem 0 0.75rem; }
+  .meta { color: #52525b; font-size: 0.85rem; margin: 0.15rem 0; }
+  .profile { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+  .profile th { text-align: left; width: 30%; padding: 0.35rem 0.75rem 0.35rem 0; vertical-align: top; color: #3f3f46; }
+  .profile td { padding: 0.35rem 0; white-space: pre-wrap; }
+  .message { border: 1px solid #e4e4e7; border-radius: 8px; padding: 0.75rem 1rem; margin-bottom: 1rem; page-break-inside: avoid; }
+  .message.user { background: #f4f4f5; }
+  .speaker { font-weight: 600; margin-bottom: 0.35rem; }
+  .speaker .meta { font-weight: normal; margin-left: 0.5rem; }
+  .content p { margin: 0.5rem 0; }
+  .content pre { background: #f4f4f5; padding: 0.75rem; overflow-x: auto; font-size: 0.85rem; }
+  .cite { color: #2563eb; font-size: 0.7rem; }
+  .sources { border-top: 1px dashed #d4d4d8; margin-top: 0.75rem; padding-top: 0.5rem; font-size: 0.85rem; }
+  .sources ul { margin: 0.25rem 0; padding-left: 1.25rem; }
+  a { color: #2563eb; }
+  .print { position: fixed; top: 1rem; right: 1rem; padding: 0.4rem 0.9rem; cursor: pointer; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    .print { display: none; }
+    a { color: inherit; }
+    a[href]::after { content: " (" attr(href) ")"; font-size: 0.75rem; color: #52525b; word-break: break-all; }
+  }
+`;
+
+/**
+ * Render the conversation as a standalone HTML page with print styles
+ */
+export function renderConversationHtml(conversation: ConversationExport): string {
+  const title = escapeHtml(conversation.title || DEFAULT_TITLE);
+  const exportedAt = formatTimestamp(conversation.exportedAt || new Date().toISOString());
+  const profile = profileEntries(conversation.profile);
+
+  const messages = conversation.messages.map(message => {
+    const timestamp = formatTimestamp(message.timestamp);
+    const details = [
+      message.modelInfo?.name && `Model: ${escapeHtml(message.modelInfo.name)}`,
+      message.promptVersion && `Persona: ${escapeHtml(message.promptVersion)}`
+    ].filter(Boolean);
+    const sources = messageSources(message);
+
+    return `<section class="message ${message.role}">
+  <div class="speaker">${speaker(message)}${timestamp ? `<span class="meta">${timestamp}</span>` : ''}</div>
+  <div class="content">${renderMarkdownToHtml(message.content.trim())}</div>
+  ${details.length > 0 ? `<p class="meta">${details.join(' · ')}</p>` : ''}
+  ${sources.length > 0 ? `<div class="sources"><strong>Sources</strong><ul>${sources.map(source => {
+    const href = source.url && safeUrl(source.url);
+    const description = escapeHtml(source.description);
+    return `<li>[${escapeHtml(source.label)}] ${href ? `<a href="${escapeHtml(href)}">${description}</a>` : description}</li>`;
+  }).join('')}</ul></div>` : ''}
+</section>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<button class="print" onclick="window.print()">Print</button>
+<header>
+  <h1>${title}</h1>
+  <p class="meta">Exported ${exportedAt}</p>
+  ${conversation.conversationId ? `<p class="meta">Conversation ID: ${escapeHtml(conversation.conversationId)}</p>` : ''}
+</header>
+${profile.length > 0 ? `<h2>Student Profile</h2>
+<table class="profile">${profile.map(([label, value]) => `<tr><th>${label}</th><td>${escapeHtml(value)}</td></tr>`).join('')}</table>` : ''}
+<h2>Conversation</h2>
+${messages}
+</body>
+</html>
+`;
+}
+
+/**
+ * Render a conversation in the requested format, with a filename to download it as
+ */
+export function exportConversation(conversation: ConversationExport, format: ExportFormat): ExportedFile {
+  const withDate = { ...conversation, exportedAt: conversation.exportedAt || new Date().toISOString() };
+  const { extension, contentType } = FILE_TYPES[format];
+
+  const content = format === 'json'
+    ? renderConversationJson(withDate)
+    : format === 'html'
+      ? renderConversationHtml(withDate)
+      : renderConversationMarkdown(withDate);
+
+  return {
+    filename: `counseling-conversation-${withDate.exportedAt.substring(0, 10)}.${extension}`,
+    contentType,
+    content
+  };
+}
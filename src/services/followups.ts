@@ -0,0 +1,291 @@
+/**
+ * Follow-up Suggestions
+ *
+ * Suggests two to four questions the student could ask after an answer,
+ * shown as chips under it. They are written by the model from the
+ * conversation, the student profile and the parts of the profile that are
+ * still empty; when answers come from the mock provider, or the model's
+ * suggestions cannot be used, they are built from templates instead.
+ */
+
+import type { StudentProfile } from '@/components/StudentQuestionnaire';
+import type { LLMProviderName } from '@/services/llm/types';
+import { completeSideRequest } from '@/services/llm';
+import type { ChatMessage } from '@/services/openai/types';
+import { FOLLOW_UP_PROMPT } from '@/services/openai/system-prompt';
+import { truncateToTokens } from '@/services/openai/budget';
+import { DEFAULT_LANGUAGE, LANGUAGES, translate, type Language, type MessageKey, type MessageValues } from '@/lib/i18n';
+
+// The profile fields suggestions are tailored to
+export type FollowUpProfile = Partial<Pick<
+  StudentProfile,
+  'gradeLevel' | 'intendedMajor' | 'currentActivities' | 'interestedActivities' | 'satScore'
+>>;
+
+export interface FollowUpOptions {
+  question: string;
+  answer: string;
+  // Earlier turns of the branch, oldest first
+  history?: ChatMessage[];
+  profile?: FollowUpProfile | null;
+  // Provider that wrote the answer; the templates are used for the mock provider
+  provider?: LLMProviderName;
+  userId?: string;
+  // Language to write the questions in; English when omitted
+  language?: Language;
+}
+
+type ProfileField = keyof FollowUpProfile;
+
+const MIN_FOLLOW_UPS = 2;
+const MAX_FOLLOW_UPS = 4;
+const MAX_FOLLOW_UP_LENGTH = 120;
+
+// Recent turns shown to the model, and how much of each
+const RECENT_TURNS = 4;
+const MAX_TURN_TOKENS = 300;
+const MAX_ANSWER_TOKENS = 800;
+const FOLLOW_UPS_MAX_TOKENS = 200;
+
+// Questions that help fill in an empty profile field, in order of importance
+const PROFILE_GAP_QUESTIONS: { field: ProfileField; label: string; question: MessageKey }[] = [
+  { field: 'gradeLevel', label: 'grade', question: 'followUps.gap.gradeLevel' },
+  { field: 'intendedMajor', label: 'intended major', question: 'followUps.gap.intendedMajor' },
+  { field: 'currentActivities', label: 'current activities', question: 'followUps.gap.currentActivities' },
+  { field: 'satScore', label: 'SAT score', question: 'followUps.gap.satScore' },
+  { field: 'interestedActivities', label: 'activities to explore', question: 'followUps.gap.interestedActivities' }
+];
+
+// Looks up a follow-up in the student's language
+type Translator = (key: MessageKey, values?: MessageValues) => string;
+
+// Topics an exchange can be about, with questions that go deeper into each
+const TOPIC_QUESTIONS: { pattern: RegExp; questions: (profile: FollowUpProfile, t: Translator) => string[] }[] = [
+  {
+    pattern: /competition|olympiad|contest|hackathon|प्रतियोगिता/i,
+    questions: (p, t) => [
+      p.intendedMajor
+        ? t('followUps.competitions.forMajor', { major: p.intendedMajor })
+        : t('followUps.competitions.general'),
+      t('followUps.competitions.prepare')
+    ]
+  },
+  {
+    pattern: /essay|personal statement|common app|supplement|निबंध/i,
+    questions: (p, t) => [
+      p.currentActivities
+        ? t('followUps.essay.aboutActivity', { activity: firstItem(p.currentActivities) })
+        : t('followUps.essay.topic'),
+      t('followUps.essay.outline')
+    ]
+  },
+  {
+    pattern: /research|independent project|personal project|रिसर्च|शोध/i,
+    questions: (p, t) => [
+      p.intendedMajor ? t('followUps.research.inMajor', { major: p.intendedMajor }) : t('followUps.research.general'),
+      t('followUps.research.mentor')
+    ]
+  },
+  {
+    pattern: /summer program|internship|summer|इंटर्नशिप|समर/i,
+    questions: (p, t) => [
+      p.gradeLevel ? t('followUps.summer.forGrade', { grade: p.gradeLevel }) : t('followUps.summer.general'),
+      t('followUps.summer.deadlines')
+    ]
+  },
+  {
+    pattern: /\bSAT\b|\bACT\b|IELTS|TOEFL|test score/i,
+    questions: (p, t) => [
+      p.satScore ? t('followUps.tests.score', { score: p.satScore }) : t('followUps.tests.target'),
+      t('followUps.tests.plan')
+    ]
+  },
+  {
+    pattern: /leadership|club|student government|captain|नेतृत्व|क्लब/i,
+    questions: (p, t) => [
+      p.currentActivities
+        ? t('followUps.leadership.inActivity', { activity: firstItem(p.currentActivities) })
+        : t('followUps.leadership.general'),
+      t('followUps.leadership.ownClub')
+    ]
+  },
+  {
+    pattern: /volunteer|community service|nonprofit|सेवा/i,
+    questions: (p, t) => [
+      p.intendedMajor ? t('followUps.service.forMajor', { major: p.intendedMajor }) : t('followUps.service.general'),
+      t('followUps.service.hours')
+    ]
+  },
+  {
+    pattern: /scholarship|financial aid|tuition|budget|स्कॉलरशिप|छात्रवृत्ति/i,
+    questions: (p, t) => [
+      t('followUps.aid.scholarships'),
+      t('followUps.aid.financialAid')
+    ]
+  },
+  {
+    pattern: /timeline|deadline|month|schedule|plan|समय-सारणी|योजना/i,
+    questions: (p, t) => [
+      p.gradeLevel ? t('followUps.timeline.forGrade', { grade: p.gradeLevel }) : t('followUps.timeline.general'),
+      t('followUps.timeline.first')
+    ]
+  }
+];
+
+// Used when nothing more specific applies
+const GENERAL_QUESTIONS: MessageKey[] = [
+  'followUps.general.example',
+  'followUps.general.first',
+  'followUps.general.colleges'
+];
+
+function firstItem(list: string): string {
+  return list.split(/[,;\n]| and /)[0].trim();
+}
+
+// Compares questions by their letters and digits in any script, ignoring case and punctuation
+function normalizeQuestion(question: string): string {
+  return question.toLowerCase().replace(/[\s!-/:-@[-`{-~\u0964\u0965\u2018-\u201f]+/g, ' ').trim();
+}
+
+/**
+ * Profile fields the student has left empty
+ * @returns Their labels, e.g. "intended major", most important first
+ */
+export function getProfileGaps(profile: FollowUpProfile | null | undefined): string[] {
+  return PROFILE_GAP_QUESTIONS
+    .filter(gap => !profile?.[gap.field]?.trim())
+    .map(gap => gap.label);
+}
+
+/**
+ * Keep usable suggestions: non-empty, short, new to the conversation and not repeated
+ */
+function selectFollowUps(candidates: string[], history: ChatMessage[], question: string): string[] {
+  const asked = new Set([question, ...history.filter(m => m.role === 'user').map(m => m.content || '')].map(normalizeQuestion));
+  const selected: string[] = [];
+
+  for (const candidate of candidates) {
+    const cleaned = candidate.replace(/\s+/g, ' ').trim();
+    const key = normalizeQuestion(cleaned);
+    if (!key || cleaned.length > MAX_FOLLOW_UP_LENGTH || asked.has(key)) continue;
+
+    asked.add(key);
+    selected.push(cleaned);
+    if (selected.length === MAX_FOLLOW_UPS) break;
+  }
+
+  return selected;
+}
+
+/**
+ * Build follow-ups from templates, without a model
+ * The same exchange and profile always give the same suggestions: questions on
+ * the topics of the exchange, one tailored to the profile, and one that helps
+ * fill in a missing part of it.
+ */
+export function suggestFollowUpsFromProfile(options: FollowUpOptions): string[] {
+  const { question, answer, history = [], language = DEFAULT_LANGUAGE } = options;
+  const profile = options.profile || {};
+  const t: Translator = (key, values) => translate(language, key, values);
+
+  // Topics of the question come before those only mentioned in the answer
+  const topics = [
+    ...TOPIC_QUESTIONS.filter(topic => topic.pattern.test(question)),
+    ...TOPIC_QUESTIONS.filter(topic => !topic.pattern.test(question) && topic.pattern.test(answer))
+  ];
+  // The first question of the two main topics, or both questions of a single topic
+  const topicQuestions = topics.length === 1
+    ? topics[0].questions(profile, t)
+    : topics.slice(0, 2).map(topic => topic.questions(profile, t)[0]);
+
+  const profileQuestions: string[] = [];
+  if (profile.intendedMajor && profile.currentActivities) {
+    profileQuestions.push(t('followUps.profile.connect', {
+      activity: firstItem(profile.currentActivities),
+      major: profile.intendedMajor
+    }));
+  } else if (profile.interestedActivities) {
+    profileQuestions.push(t('followUps.profile.start', { activity: firstItem(profile.interestedActivities) }));
+  } else if (profile.gradeLevel) {
+    profileQuestions.push(t('followUps.profile.grade', { grade: profile.gradeLevel }));
+  }
+
+  const gap = PROFILE_GAP_QUESTIONS.find(g => !profile[g.field]?.trim());
+
+  return selectFollowUps([
+    ...topicQuestions,
+    ...profileQuestions,
+    ...(gap ? [t(gap.question)] : []),
+    ...GENERAL_QUESTIONS.map(key => t(key))
+  ], history, question);
+}
+
+/**
+ * Read the questions out of the model's JSON reply, tolerating text around it
+ */
+function parseFollowUps(reply: string): string[] {
+  const json = reply.match(/\{[\s\S]*\}/);
+  if (!json) {
+    return [];
+  }
+
+  try {
+    const { questions } = JSON.parse(json[0]);
+    return Array.isArray(questions) ? questions.filter((q): q is string => typeof q === 'string') : [];
+  } catch (error) {
+    console.warn('Could not parse the follow-ups returned by the model:', reply.substring(0, 200));
+    return [];
+  }
+}
+
+function describeProfile(profile: FollowUpProfile | null | undefined): string {
+  const fields = PROFILE_GAP_QUESTIONS
+    .filter(gap => profile?.[gap.field]?.trim())
+    .map(gap => `- ${gap.label}: ${profile![gap.field]!.trim()}`);
+  return fields.length > 0 ? fields.join('\n') : '(no profile)';
+}
+
+/**
+ * Suggest questions the student could ask after an answer
+ * Falls back to the templates when the model is unavailable or its reply has
+ * too few usable questions, so an answer always gets suggestions.
+ * @returns Two to four questions
+ */
+export async function generateFollowUps(options: FollowUpOptions): Promise<string[]> {
+  if (options.provider === 'fake') {
+    return suggestFollowUpsFromProfile(options);
+  }
+
+  const { question, answer, history = [], profile, userId, language = DEFAULT_LANGUAGE } = options;
+  const gaps = getProfileGaps(profile);
+  const transcript = history.filter(m => (m.role === 'user' || m.role === 'assistant') && m.content).slice(-RECENT_TURNS)
+    .map(m => `${m.role === 'user' ? 'Student' : 'Counselor'}: ${truncateToTokens(m.content!, MAX_TURN_TOKENS)}`)
+    .join('\n\n');
+
+  try {
+    const reply = await completeSideRequest(
+      FOLLOW_UP_PROMPT,
+      [
+        `Profile:\n${describeProfile(profile)}`,
+        `Missing from the profile: ${gaps.length > 0 ? gaps.join(', ') : '(nothing)'}`,
+        `Recent conversation:\n${transcript || '(none)'}`,
+        `Student: ${question}`,
+        `Counselor: ${truncateToTokens(answer, MAX_ANSWER_TOKENS)}`,
+        `Write the questions in ${LANGUAGES[language].name}.`
+      ].join('\n\n'),
+      FOLLOW_UPS_MAX_TOKENS,
+      { feature: 'followups', userId }
+    );
+
+    const followUps = selectFollowUps(parseFollowUps(reply), history, question);
+    if (followUps.length >= MIN_FOLLOW_UPS) {
+      return followUps;
+    }
+    console.warn(`The model suggested ${followUps.length} usable follow-ups; using the templates`);
+  } catch (error) {
+    console.error('Error generating follow-up suggestions:', error);
+  }
+
+  return suggestFollowUpsFromProfile(options);
+}
@@ -0,0 +1,514 @@
+/**
+ * Approximate Nearest-Neighbour Index
+ *
+ * An in-process HNSW (Hierarchical Navigable Small World) graph over embedding
+ * vectors, searched by cosine similarity. Vectors are inserted one at a time,
+ * so the index grows with the collection instead of being rebuilt. Only the
+ * graph is serialized; the vectors stay in the collection file and are handed
+ * back when the index is loaded.
+ */
+
+// Bump when the serialized layout changes so old index files are rebuilt
+const INDEX_VERSION = 1;
+
+// Links per node on the upper layers; the bottom layer keeps twice as many
+export const DEFAULT_M = 16;
+
+// Candidates considered while linking a new node, and while answering a query
+export const DEFAULT_EF_CONSTRUCTION = 100;
+export const DEFAULT_EF_SEARCH = 64;
+
+export interface HnswOptions {
+  m?: number;
+  efConstruction?: number;
+  efSearch?: number;
+  // Seed of the level generator, so the same inserts always build the same graph
+  seed?: number;
+}
+
+export interface AnnSearchResult {
+  id: number;
+  // Cosine similarity to the query
+  score: number;
+}
+
+// The graph as written to disk, without the vectors
+export interface SerializedHnswIndex {
+  version: number;
+  dimension: number;
+  m: number;
+  efConstruction: number;
+  seed: number;
+  entryPoint: number | null;
+  maxLevel: number;
+  // Neighbours of each node, per layer from the bottom up
+  nodes: [id: number, neighbors: number[][]][];
+}
+
+export interface AnnBenchmarkReport {
+  vectors: number;
+  dimension: number;
+  queries: number;
+  k: number;
+  efSearch: number;
+  // Share of the exact top-k results the index also returned, averaged over the queries
+  recall: number;
+  exact: { meanMs: number; p95Ms: number };
+  approximate: { meanMs: number; p95Ms: number };
+  // How many times faster the index answered than brute force
+  speedup: number;
+}
+
+interface Candidate {
+  id: number;
+  distance: number;
+}
+
+/**
+ * Binary heap ordered by a comparison function; the smallest item is on top
+ */
+class Heap<T> {
+  private items: T[] = [];
+
+  constructor(private compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(items[i], items[parent]) >= 0) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+      let i = 0;
+      while (true) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && this.compare(items[left], items[smallest]) < 0) smallest = left;
+        if (right < items.length && this.compare(items[right], items[smallest]) < 0) smallest = right;
+        if (smallest === i) break;
+        [items[i], items[smallest]] = [items[smallest], items[i]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+}
+
+/**
+ * Scale a vector to unit length so cosine similarity is a dot product
+ * @returns The normalized vector, or null for an empty or all-zero vector
+ */
+export function normalizeVector(vector: number[]): Float32Array | null {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) {
+    norm += vector[i] * vector[i];
+  }
+  if (norm === 0 || !Number.isFinite(norm)) {
+    return null;
+  }
+
+  const length = Math.sqrt(norm);
+  const normalized = new Float32Array(vector.length);
+  for (let i = 0; i < vector.length; i++) {
+    normalized[i] = vector[i] / length;
+  }
+  return normalized;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+// Small deterministic generator (mulberry32) for node levels and benchmark data
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * HNSW index searched by cosine similarity
+ * IDs are chosen by the caller, e.g. the position of a document in its collection.
+ */
+export class HnswIndex {
+  private readonly m: number;
+  private readonly maxNeighborsBottom: number;
+  private readonly efConstruction: number;
+  private readonly levelMultiplier: number;
+  private readonly seed: number;
+  private random: () => number;
+  private vectors = new Map<number, Float32Array>();
+  // Neighbours of each node, per layer from the bottom up
+  private links = new Map<number, number[][]>();
+  private entryPoint: number | null = null;
+  private maxLevel = -1;
+  private dimension = 0;
+  efSearch: number;
+
+  constructor(options: HnswOptions = {}) {
+    this.m = options.m || DEFAULT_M;
+    this.maxNeighborsBottom = this.m * 2;
+    this.efConstruction = options.efConstruction || DEFAULT_EF_CONSTRUCTION;
+    this.efSearch = options.efSearch || DEFAULT_EF_SEARCH;
+    this.levelMultiplier = 1 / Math.log(this.m);
+    this.seed = options.seed ?? 42;
+    this.random = createRandom(this.seed);
+  }
+
+  get size(): number {
+    return this.vectors.size;
+  }
+
+  has(id: number): boolean {
+    return this.vectors.has(id);
+  }
+
+  /**
+   * Insert a vector, linking it to its nearest neighbours on each of its layers
+   * Vectors of another dimension than the first one, and all-zero vectors, are skipped.
+   * @returns Whether the vector was added
+   */
+  add(id: number, vector: number[]): boolean {
+    if (this.vectors.has(id)) {
+      return false;
+    }
+    const normalized = normalizeVector(vector);
+    if (!normalized || (this.dimension > 0 && normalized.length !== this.dimension)) {
+      return false;
+    }
+
+    this.dimension = normalized.length;
+    this.vectors.set(id, normalized);
+    const level = Math.floor(-Math.log(1 - this.random()) * this.levelMultiplier);
+    this.links.set(id, Array.from({ length: level + 1 }, () => []));
+
+    if (this.entryPoint === null) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+      return true;
+    }
+
+    // Descend greedily through the layers above the new node's top layer
+    let entry = this.entryPoint;
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entry = this.greedyClosest(normalized, entry, layer);
+    }
+
+    let entryPoints = [entry];
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(normalized, entryPoints, this.efConstruction, layer);
+      const neighbors = this.selectNeighbors(candidates, this.m);
+      this.links.get(id)![layer] = neighbors;
+
+      const maxNeighbors = layer === 0 ? this.maxNeighborsBottom : this.m;
+      for (const neighbor of neighbors) {
+        const neighborLinks = this.links.get(neighbor)![layer];
+        neighborLinks.push(id);
+        if (neighborLinks.length > maxNeighbors) {
+          this.links.get(neighbor)![layer] = this.shrinkNeighbors(neighbor, neighborLinks, maxNeighbors);
+        }
+      }
+
+      entryPoints = candidates.map(candidate => candidate.id);
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+    }
+    return true;
+  }
+
+  /**
+   * Find the k vectors most similar to a query
+   * @param ef Candidates kept while searching; higher finds more of the true neighbours, more slowly
+   * @param filter Only nodes it accepts are returned; the others are still walked through
+   * @returns The matches, most similar first
+   */
+  search(query: number[], k: number, ef = this.efSearch, filter?: (id: number) => boolean): AnnSearchResult[] {
+    const normalized = normalizeVector(query);
+    if (this.entryPoint === null || !normalized || normalized.length !== this.dimension || k <= 0) {
+      return [];
+    }
+
+    let entry = this.entryPoint;
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entry = this.greedyClosest(normalized, entry, layer);
+    }
+
+    return this.searchLayer(normalized, [entry], Math.max(ef, k), 0, filter)
+      .slice(0, k)
+      .map(candidate => ({ id: candidate.id, score: 1 - candidate.distance }));
+  }
+
+  /**
+   * Compare a query with every vector, for verifying the index
+   * @returns The exact k most similar vectors, most similar first
+   */
+  exactSearch(query: number[], k: number): AnnSearchResult[] {
+    const normalized = normalizeVector(query);
+    if (!normalized || normalized.length !== this.dimension || k <= 0) {
+      return [];
+    }
+
+    const results: AnnSearchResult[] = [];
+    this.vectors.forEach((vector, id) => {
+      results.push({ id, score: dot(normalized, vector) });
+    });
+    return results.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+
+  toJSON(): SerializedHnswIndex {
+    return {
+      version: INDEX_VERSION,
+      dimension: this.dimension,
+      m: this.m,
+      efConstruction: this.efConstruction,
+      seed: this.seed,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      nodes: Array.from(this.links.entries())
+    };
+  }
+
+  /**
+   * Restore a serialized graph, looking up each node's vector
+   * @returns The index, or null when the data is from another version or does not match the vectors
+   */
+  static fromJSON(
+    data: SerializedHnswIndex,
+    getVector: (id: number) => number[] | undefined,
+    options: Pick<HnswOptions, 'efSearch'> = {}
+  ): HnswIndex | null {
+    if (!data || data.version !== INDEX_VERSION || !Array.isArray(data.nodes)) {
+      return null;
+    }
+
+    const index = new HnswIndex({ m: data.m, efConstruction: data.efConstruction, seed: data.seed, ...options });
+    for (const [id, neighbors] of data.nodes) {
+      const vector = getVector(id);
+      const normalized = vector && normalizeVector(vector);
+      if (!normalized || normalized.length !== data.dimension) {
+        return null;
+      }
+      index.vectors.set(id, normalized);
+      index.links.set(id, neighbors);
+    }
+
+    if (data.entryPoint !== null && !index.vectors.has(data.entryPoint)) {
+      return null;
+    }
+    index.entryPoint = data.entryPoint;
+    index.maxLevel = data.maxLevel;
+    index.dimension = data.dimension;
+    // Continue the level sequence instead of repeating the levels of the first nodes
+    for (let i = 0; i < index.size; i++) {
+      index.random();
+    }
+    return index;
+  }
+
+  private distance(a: Float32Array, id: number): number {
+    return 1 - dot(a, this.vectors.get(id)!);
+  }
+
+  // Walk to the neighbour closest to the query until none is closer
+  private greedyClosest(query: Float32Array, entry: number, layer: number): number {
+    let current = entry;
+    let currentDistance = this.distance(query, current);
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (const neighbor of this.links.get(current)![layer] || []) {
+        const distance = this.distance(query, neighbor);
+        if (distance < currentDistance) {
+          current = neighbor;
+          currentDistance = distance;
+          improved = true;
+        }
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Best-first search of one layer
+   * @returns Up to ef nodes accepted by the filter, closest first
+   */
+  private searchLayer(
+    query: Float32Array,
+    entryPoints: number[],
+    ef: number,
+    layer: number,
+    filter?: (id: number) => boolean
+  ): Candidate[] {
+    const visited = new Set<number>(entryPoints);
+    // Closest unexpanded candidate on top
+    const candidates = new Heap<Candidate>((a, b) => a.distance - b.distance);
+    // Furthest of the best results on top, so it can be replaced
+    const results = new Heap<Candidate>((a, b) => b.distance - a.distance);
+
+    const accept = (candidate: Candidate) => {
+      if (filter && !filter(candidate.id)) return;
+      results.push(candidate);
+      if (results.size > ef) results.pop();
+    };
+
+    for (const id of entryPoints) {
+      const candidate = { id, distance: this.distance(query, id) };
+      candidates.push(candidate);
+      accept(candidate);
+    }
+
+    while (candidates.size > 0) {
+      const closest = candidates.pop()!;
+      if (results.size >= ef && closest.distance > results.peek()!.distance) {
+        break;
+      }
+
+      for (const neighbor of this.links.get(closest.id)![layer] || []) {
+        if (visited.has(neighbor)) continue;
+        visited.add(neighbor);
+
+        const distance = this.distance(query, neighbor);
+        if (results.size < ef || distance < results.peek()!.distance) {
+          const candidate = { id: neighbor, distance };
+          candidates.push(candidate);
+          accept(candidate);
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Choose neighbours that are closer to the node than to each other, so links
+   * point in different directions; the closest remaining candidates fill any gap
+   */
+  private selectNeighbors(candidates: Candidate[], count: number): number[] {
+    const selected: Candidate[] = [];
+    const skipped: Candidate[] = [];
+
+    for (const candidate of candidates) {
+      if (selected.length >= count) break;
+      const vector = this.vectors.get(candidate.id)!;
+      if (selected.every(other => this.distance(vector, other.id) > candidate.distance)) {
+        selected.push(candidate);
+      } else {
+        skipped.push(candidate);
+      }
+    }
+
+    for (const candidate of skipped) {
+      if (selected.length >= count) break;
+      selected.push(candidate);
+    }
+
+    return selected.map(candidate => candidate.id);
+  }
+
+  // Drop the furthest links of a node that has gained too many
+  private shrinkNeighbors(id: number, neighbors: number[], count: number): number[] {
+    const vector = this.vectors.get(id)!;
+    return neighbors
+      .map(neighbor => ({ id: neighbor, distance: this.distance(vector, neighbor) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, count)
+      .map(candidate => candidate.id);
+  }
+}
+
+function summarizeLatencies(latencies: number[]): { meanMs: number; p95Ms: number } {
+  const sorted = [...latencies].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / (sorted.length || 1);
+  const p95 = sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))] || 0;
+  return { meanMs: Math.round(mean * 1000) / 1000, p95Ms: Math.round(p95 * 1000) / 1000 };
+}
+
+/**
+ * Compare an index against brute-force search on the same queries
+ * Latencies cover the search only, not embedding the queries.
+ */
+export function benchmarkAnnIndex(index: HnswIndex, queries: number[][], k: number, ef = index.efSearch): AnnBenchmarkReport {
+  const exactLatencies: number[] = [];
+  const approximateLatencies: number[] = [];
+  let recallSum = 0;
+
+  for (const query of queries) {
+    let start = performance.now();
+    const exact = index.exactSearch(query, k);
+    exactLatencies.push(performance.now() - start);
+
+    start = performance.now();
+    const approximate = index.search(query, k, ef);
+    approximateLatencies.push(performance.now() - start);
+
+    const found = new Set(approximate.map(result => result.id));
+    recallSum += exact.length > 0 ? exact.filter(result => found.has(result.id)).length / exact.length : 1;
+  }
+
+  const exactStats = summarizeLatencies(exactLatencies);
+  const approximateStats = summarizeLatencies(approximateLatencies);
+  return {
+    vectors: index.size,
+    dimension: queries[0]?.length || 0,
+    queries: queries.length,
+    k,
+    efSearch: ef,
+    recall: Math.round(recallSum / (queries.length || 1) * 1000) / 1000,
+    exact: exactStats,
+    approximate: approximateStats,
+    speedup: approximateStats.meanMs > 0 ? Math.round(exactStats.meanMs / approximateStats.meanMs * 10) / 10 : 0
+  };
+}
+
+/**
+ * Random vectors gathered around a few centres, loosely like the embeddings of
+ * chunks from a handful of documents
+ */
+export function createSyntheticVectors(count: number, dimension: number, seed = 1): number[][] {
+  const random = createRandom(seed);
+  const gaussian = () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+  const centres = Array.from({ length: Math.max(1, Math.ceil(Math.sqrt(count) / 2)) }, () =>
+    Array.from({ length: dimension }, gaussian)
+  );
+
+  return Array.from({ length: count }, () => {
+    const centre = centres[Math.floor(random() * centres.length)];
+    return centre.map(value => value + gaussian() * 0.5);
+  });
+}
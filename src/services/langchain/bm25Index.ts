@@ -0,0 +1,105 @@
+/**
+ * BM25 Lexical Index
+ *
+ * An in-memory inverted index scoring chunks by BM25, for queries that hinge on
+ * exact terms such as "NTSE deadline" or "ISEF eligibility", which embedding
+ * search can rank below chunks that are merely on the same topic.
+ */
+
+// Term frequency saturation and document length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+// Common English words that match nearly every chunk
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'in',
+  'is', 'it', 'me', 'my', 'of', 'on', 'or', 'should', 'that', 'the', 'their', 'this', 'to', 'was', 'what',
+  'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your'
+]);
+
+export interface LexicalSearchResult {
+  id: number;
+  score: number;
+}
+
+/**
+ * Split text into lowercase terms, keeping Latin letters, digits and Indian scripts
+ * A trailing plural "s" is dropped so "deadlines" matches "deadline".
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9\u0900-\u0d7f]+/)
+    .filter(term => term && !STOP_WORDS.has(term) && (term.length > 1 || /\d/.test(term)))
+    .map(term => term.length > 3 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term);
+}
+
+/**
+ * Inverted index over chunk text, ranked with Okapi BM25
+ * IDs are chosen by the caller, e.g. the position of a document in its collection.
+ */
+export class Bm25Index {
+  // Term -> document ID -> occurrences of the term in that document
+  private postings = new Map<string, Map<number, number>>();
+  private lengths = new Map<number, number>();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.lengths.size;
+  }
+
+  /**
+   * Index a document's text; a document already in the index is left unchanged
+   */
+  add(id: number, text: string): void {
+    if (this.lengths.has(id)) {
+      return;
+    }
+
+    const terms = tokenize(text);
+    this.lengths.set(id, terms.length);
+    this.totalLength += terms.length;
+
+    for (const term of terms) {
+      let documents = this.postings.get(term);
+      if (!documents) {
+        documents = new Map();
+        this.postings.set(term, documents);
+      }
+      documents.set(id, (documents.get(id) || 0) + 1);
+    }
+  }
+
+  /**
+   * Find the k documents that best match the query's terms
+   * @param filter Only documents it accepts are scored
+   * @returns The matches, best first; documents sharing no term with the query are left out
+   */
+  search(query: string, k: number, filter?: (id: number) => boolean): LexicalSearchResult[] {
+    if (this.size === 0 || k <= 0) {
+      return [];
+    }
+
+    const averageLength = this.totalLength / this.size || 1;
+    const scores = new Map<number, number>();
+
+    for (const term of new Set(tokenize(query))) {
+      const documents = this.postings.get(term);
+      if (!documents) continue;
+
+      // Rare terms count for more than ones found in most chunks
+      const idf = Math.log(1 + (this.size - documents.size + 0.5) / (documents.size + 0.5));
+      documents.forEach((frequency, id) => {
+        if (filter && !filter(id)) return;
+        const length = this.lengths.get(id) || 0;
+        const termScore = idf * frequency * (K1 + 1) / (frequency + K1 * (1 - B + B * length / averageLength));
+        scores.set(id, (scores.get(id) || 0) + termScore);
+      });
+    }
+
+    return Array.from(scores.entries())
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+}
@@ -7,7 +7,7 @@
 
 // Use built-in Node.js modules and Document class directly instead of specific loaders
 import { Document } from "@langchain/core/documents";
-import { DocumentType, DocumentProcessResult } from "./types";
+import { DocumentType, DocumentProcessResult, CollectionDocument } from "./types";
 import { createVectorStore } from "./vectorStore";
 import { getEmbeddings } from "./embeddings";
 import path from "path";
@@ -438,19 +438,79 @@ export function getProcessingProgress(documentId: string): ProcessingProgress {
   };
 }
 
+/**
+ * Options for processing an uploaded document
+ */
+export interface ProcessDocumentOptions {
+  // Document whose chunks the new file replaces, as its next version
+  replaceDocumentId?: string;
+}
+
+/**
+ * List the uploaded documents in a collection, newest first
+ */
+export async function listCollectionDocuments(collectionName: string): Promise<CollectionDocument[]> {
+  const vectorStore = await createVectorStore({
+    collectionName,
+    persistDirectory: VECTORSTORE_DIR,
+  });
+  
+  return vectorStore.listDocuments()
+    .sort((a, b) => (b.uploadedAt || '').localeCompare(a.uploadedAt || ''));
+}
+
+/**
+ * Delete an uploaded document's chunks from a collection, and its stored file
+ * @returns The number of chunks removed; 0 when the collection has no such document
+ */
+export async function deleteCollectionDocument(collectionName: string, documentId: string): Promise<number> {
+  const vectorStore = await createVectorStore({
+    collectionName,
+    persistDirectory: VECTORSTORE_DIR,
+  });
+  
+  const removed = await vectorStore.deleteDocument(documentId);
+  
+  // Stored files are named after the document ID
+  if (removed > 0 && fs.existsSync(DOCS_DIR)) {
+    for (const storedFile of fs.readdirSync(DOCS_DIR)) {
+      if (storedFile.startsWith(`${documentId}.`)) {
+        fs.unlinkSync(path.join(DOCS_DIR, storedFile));
+      }
+    }
+  }
+  
+  return removed;
+}
+
 /**
  * Process a document file and add it to the vector store
  */
 export async function processDocument(
   file: File, 
   collectionName = "default",
-  metadata: Record<string, any> = {}
+  metadata: Record<string, any> = {},
+  options: ProcessDocumentOptions = {}
 ): Promise<DocumentProcessResult> {
+  // Generate a unique ID for the document
+  const documentId = uuidv4();
+  
   try {
     ensureDirectoriesExist();
     
-    // Generate a unique ID for the document
-    const documentId = uuidv4();
+    // A replacement continues the version numbering of the document it replaces
+    let version = 1;
+    if (options.replaceDocumentId) {
+      const documents = await listCollectionDocuments(collectionName);
+      const previous = documents.find(doc => doc.documentId === options.replaceDocumentId);
+      if (!previous) {
+        return {
+          success: false,
+          error: `Document ${options.replaceDocumentId} not found in collection ${collectionName}`
+        };
+      }
+      version = previous.version + 1;
+    }
     
     // Initialize progress tracking
     processingProgress[documentId] = {
@@ -489,6 +549,8 @@ export async function processDocument(
           ...metadata,
           documentId,
           filename: originalName,
+          fileSize: file.size,
+          version,
           createdAt: new Date().toISOString(),
         }
       });
@@ -531,6 +593,12 @@ export async function processDocument(
       console.log(`Processed ${processedChunks}/${splitDocs.length} chunks`);
     }
     
+    // Remove the old version only once the new one is in place
+    if (options.replaceDocumentId) {
+      const removed = await deleteCollectionDocument(collectionName, options.replaceDocumentId);
+      console.log(`Replaced document ${options.replaceDocumentId} (${removed} chunks) with version ${version}`);
+    }
+    
     // Mark processing as complete
     processingProgress[documentId].status = 'complete';
     
@@ -542,6 +610,8 @@ export async function processDocument(
       documentId,
       text: fullText,
       chunks: splitDocs.length,
+      version,
+      replacedDocumentId: options.replaceDocumentId,
       metadata: {
         filename: originalName,
         filePath: storedFilename,
@@ -1,104 +1,179 @@
 /**
  * LangChain Embeddings Service
- * 
+ *
  * This module provides functions for generating embeddings using OpenAI models,
- * with fallbacks to local embeddings if no API keys are available.
+ * or a sentence-transformer run locally on the CPU when no API key is available.
+ * Vectors from different models cannot be compared, so each collection records
+ * the model that embedded it.
  */
 
 import { OpenAIEmbeddings } from "@langchain/openai";
 import { Embeddings } from "@langchain/core/embeddings";
 import { env } from "@/config/env";
 
-// Cache the embeddings instance to prevent creating multiple instances
-let cachedEmbeddings: Embeddings | null = null;
+// The model behind a collection's vectors, as recorded with the collection
+export interface EmbeddingModelInfo {
+  // Provider and model, e.g. "local:Xenova/all-MiniLM-L6-v2"
+  id: string;
+  dimension: number;
+}
+
+// Dimension of the hash embeddings
+const HASH_DIMENSION = 384;
+
+// Texts embedded per call to the local model
+const LOCAL_BATCH_SIZE = 32;
+
+// Cache the embeddings instances to prevent loading a model more than once
+const embeddingsCache = new Map<string, Embeddings>();
+
+/**
+ * Deterministic embeddings that sum character codes into buckets
+ * They carry almost no meaning; they exist so tests and offline development
+ * can build collections without a model.
+ */
+class HashEmbeddings extends Embeddings {
+  constructor(private dimension = HASH_DIMENSION) {
+    super({});
+  }
+
+  // Simple function to generate a deterministic embedding based on text content
+  private simpleHash(text: string): number[] {
+    const embedding = new Array(this.dimension).fill(0);
+
+    // Ensure text is a string to avoid type issues
+    const safeText = text ? String(text) : "";
+
+    for (let i = 0; i < safeText.length; i++) {
+      const charCode = safeText.charCodeAt(i);
+      embedding[i % this.dimension] += charCode / 255;
+    }
+
+    // Normalize the embedding
+    const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
+    return embedding.map(val => magnitude > 0 ? val / magnitude : 0);
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    // Defensive check for null/undefined documents
+    if (!documents || !Array.isArray(documents)) {
+      console.warn('Invalid documents array provided to embedDocuments');
+      return [];
+    }
+
+    return documents
+      .filter(doc => doc !== null && doc !== undefined)
+      .map(doc => this.simpleHash(String(doc)));
+  }
+
+  async embedQuery(query: string): Promise<number[]> {
+    return this.simpleHash(query ? String(query) : "");
+  }
+}
+
+/**
+ * Sentence-transformer embeddings computed on the CPU with an ONNX model
+ * The runtime is loaded on first use, so the other providers never need its
+ * native dependencies, and the model is downloaded from Hugging Face then.
+ */
+class LocalEmbeddings extends Embeddings {
+  private extractor: Promise<any> | null = null;
+
+  constructor(private modelName: string) {
+    super({});
+  }
+
+  private getExtractor(): Promise<any> {
+    if (!this.extractor) {
+      this.extractor = import("@xenova/transformers")
+        .then(({ pipeline }) => pipeline("feature-extraction", this.modelName));
+      // Let a later call retry after a failed download
+      this.extractor.catch(() => {
+        this.extractor = null;
+      });
+    }
+    return this.extractor;
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    const extractor = await this.getExtractor();
+    const embeddings: number[][] = [];
+
+    for (let i = 0; i < documents.length; i += LOCAL_BATCH_SIZE) {
+      const batch = documents.slice(i, i + LOCAL_BATCH_SIZE).map(doc => String(doc ?? "").replace(/\n/g, " "));
+      // Mean pooling with normalization, as the sentence-transformers models were trained
+      const output = await this.caller.call(() => extractor(batch, { pooling: "mean", normalize: true }));
+      embeddings.push(...output.tolist());
+    }
+
+    return embeddings;
+  }
+
+  async embedQuery(query: string): Promise<number[]> {
+    const [embedding] = await this.embedDocuments([query ? String(query) : ""]);
+    return embedding;
+  }
+}
+
+/**
+ * Identify the embedding model the configured provider uses
+ * @param modelName Model of the configured provider to use instead of its default
+ */
+export function getEmbeddingModelId(modelName?: string): string {
+  switch (env.EMBEDDING_PROVIDER) {
+    case 'openai':
+      return `openai:${modelName || env.OPENAI_EMBEDDING_MODEL}`;
+    case 'local':
+      return `local:${modelName || env.LOCAL_EMBEDDING_MODEL}`;
+    default:
+      return 'hash';
+  }
+}
+
+/**
+ * Guess the model behind a collection saved before models were recorded, from
+ * its vectors' dimension; until then collections were embedded either with
+ * text-embedding-ada-002 or with the hash fallback
+ */
+export function inferLegacyEmbeddingModel(dimension: number): EmbeddingModelInfo {
+  return {
+    id: dimension === 1536 ? 'openai:text-embedding-ada-002' : 'hash',
+    dimension
+  };
+}
 
 /**
  * Get an embeddings instance for vector embeddings
- * Using OpenAI embeddings with fallback to local embeddings
+ * @param modelName Model of the configured provider to use instead of its default
  */
 export function getEmbeddings(modelName?: string): Embeddings {
-  if (cachedEmbeddings) {
-    return cachedEmbeddings;
+  const modelId = getEmbeddingModelId(modelName);
+  const cached = embeddingsCache.get(modelId);
+  if (cached) {
+    return cached;
   }
 
   try {
-    // Attempt to use OpenAI embeddings if API key is available
-    if (env.OPENAI_API_KEY) {
-      try {
-        console.log('Creating embeddings using OpenAI');
-        
-        cachedEmbeddings = new OpenAIEmbeddings({
-          openAIApiKey: env.OPENAI_API_KEY,
-          modelName: "text-embedding-ada-002" // OpenAI embedding model
-        });
-        
-        console.log('Successfully created OpenAI embeddings');
-        return cachedEmbeddings;
-      } catch (openAiError) {
-        console.warn(`Error with OpenAI embeddings: ${openAiError}`);
-        // Continue to local fallback
-      }
+    let embeddings: Embeddings;
+
+    if (env.EMBEDDING_PROVIDER === 'openai') {
+      console.log(`Creating embeddings using ${modelId}`);
+      embeddings = new OpenAIEmbeddings({
+        openAIApiKey: env.OPENAI_API_KEY,
+        modelName: modelName || env.OPENAI_EMBEDDING_MODEL
+      });
+    } else if (env.EMBEDDING_PROVIDER === 'local') {
+      console.log(`Creating local CPU embeddings using ${modelId}`);
+      embeddings = new LocalEmbeddings(modelName || env.LOCAL_EMBEDDING_MODEL);
     } else {
-      console.warn('No OpenAI API key provided. Using local embeddings fallback.');
+      console.warn('Using hash embeddings; semantic search results will be close to random');
+      embeddings = new HashEmbeddings();
     }
-    
-    // Final fallback - use simple local embeddings implementation
-    console.log('Using simple local embeddings fallback');
-    
-    // Create a simple embeddings implementation using the OpenAIEmbeddings
-    // but with a dummy embedding function for local use
-    cachedEmbeddings = new class extends OpenAIEmbeddings {
-      private dimension: number;
-
-      constructor() {
-        super({ openAIApiKey: "dummy-key" });
-        this.dimension = 384;
-      }
-
-      // Simple function to generate a deterministic embedding based on text content
-      private simpleHash(text: string): number[] {
-        const embedding = new Array(this.dimension).fill(0);
-        
-        // Ensure text is a string to avoid type issues
-        const safeText = text ? String(text) : "";
-        
-        // Create a simple hash-based embedding (not for production use)
-        for (let i = 0; i < safeText.length; i++) {
-          const charCode = safeText.charCodeAt(i);
-          embedding[i % this.dimension] += charCode / 255;
-        }
-        
-        // Normalize the embedding
-        const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
-        return embedding.map(val => magnitude > 0 ? val / magnitude : 0);
-      }
-
-      override async embedDocuments(documents: string[]): Promise<number[][]> {
-        // Defensive check for null/undefined documents
-        if (!documents || !Array.isArray(documents)) {
-          console.warn('Invalid documents array provided to embedDocuments');
-          return [];
-        }
-        
-        // Filter out null/undefined values and ensure strings
-        const safeDocuments = documents
-          .filter(doc => doc !== null && doc !== undefined)
-          .map(doc => String(doc));
-        
-        return safeDocuments.map(doc => this.simpleHash(doc));
-      }
-
-      override async embedQuery(query: string): Promise<number[]> {
-        // Ensure query is a string
-        const safeQuery = query ? String(query) : "";
-        return this.simpleHash(safeQuery);
-      }
-    }();
-    
-    console.log('Created simple local embeddings fallback');
-    return cachedEmbeddings;
+
+    embeddingsCache.set(modelId, embeddings);
+    return embeddings;
   } catch (error) {
-    console.error(`Critical error initializing any embeddings: ${error}`);
-    throw new Error(`Failed to initialize any embeddings: ${error}`);
+    console.error(`Critical error initializing embeddings: ${error}`);
+    throw new Error(`Failed to initialize embeddings ${modelId}: ${error}`);
   }
-}
\ No newline at end of file
+}
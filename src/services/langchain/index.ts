@@ -13,10 +13,14 @@ export * from './retrievalChain';
 export { DocumentType } from './types';
 export type {
   DocumentProcessResult,
+  CollectionDocument,
   VectorStoreConfig,
+  SearchMode,
+  SearchOptions,
   QueryResult,
   RetrievalResult,
   WebSearchResult,
+  SourceReference,
   QuestionAnswerResult,
   ApiKeys
 } from './types';
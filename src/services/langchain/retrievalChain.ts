@@ -9,6 +9,14 @@
 import { env } from "../../config/env";
 import { queryVectorStore } from "./vectorStore";
 import { getModelResponse } from "../openai/service";
+import { getLLMProvider, LLMProvider, OpenAIProvider } from "../llm";
+import { estimateTokens } from "../openai/budget";
+import { recordUsage } from "../usage";
+import { PIIRedactor, redactForLog } from "../redaction";
+import { SourceReference } from "./types";
+
+/** Longest excerpt kept from a chunk when it is used as a chat source */
+const MAX_SOURCE_EXCERPT_LENGTH = 1200;
 
 /**
  * API keys for different services
@@ -18,6 +26,8 @@ export interface ApiKeys {
   openaiApiKey?: string;
   /** OpenRouter API key */
   openrouterApiKey?: string;
+  /** Tavily API key */
+  tavilyApiKey?: string;
 }
 
 /**
@@ -69,6 +79,45 @@ export interface QuestionAnswerResult {
   /** Web search results */
   webSearchResults?: WebSearchResult[] | undefined;
 }
+/**
+ * Retrieve the chunks most relevant to a chat message as citable sources
+ * @param query The student's message
+ * @param collectionName The vector store collection to search
+ * @param topK Maximum number of chunks to return
+ * @returns Sources labelled S1, S2, ... in order of relevance; empty if retrieval fails
+ */
+export async function retrieveSources(
+  query: string,
+  collectionName: string = "default",
+  topK: number = 4
+): Promise<SourceReference[]> {
+  const retrievalResult = await queryVectorStore(query, collectionName, undefined, topK);
+
+  if (!retrievalResult.success || !retrievalResult.results) {
+    console.warn(`Knowledge base retrieval failed for collection "${collectionName}": ${retrievalResult.error}`);
+    return [];
+  }
+
+  return retrievalResult.results.map((result, index) => {
+    const metadata = result.metadata || {};
+    const excerpt = result.text.trim();
+
+    return {
+      id: `S${index + 1}`,
+      documentId: metadata.documentId,
+      filename: metadata.filename || metadata.source || "Unknown document",
+      collection: collectionName,
+      filetype: metadata.filetype,
+      page: typeof metadata.page === "number" ? metadata.page : undefined,
+      line: typeof metadata.line === "number" ? metadata.line : undefined,
+      excerpt: excerpt.length > MAX_SOURCE_EXCERPT_LENGTH
+        ? excerpt.substring(0, MAX_SOURCE_EXCERPT_LENGTH) + "..."
+        : excerpt,
+      score: result.score
+    };
+  });
+}
+
 /**
  * Ask a question using direct API call to generate an answer
  * @param question The question to ask
@@ -86,12 +135,12 @@ export async function askQuestion(
   enableWebSearch: boolean = true
 ): Promise<QuestionAnswerResult> {
   try {
-    // Set API key preference (passed in apiKeys object > env var)
-    const openAiApiKey = 
-      apiKeys?.openaiApiKey || 
-      env.OPENAI_API_KEY;
+    // An explicitly passed OpenAI key takes precedence over the configured provider
+    const provider: LLMProvider = apiKeys?.openaiApiKey
+      ? new OpenAIProvider({ apiUrl: env.OPENAI_API_URL, apiKey: apiKeys.openaiApiKey })
+      : getLLMProvider();
     
-    if (!openAiApiKey) {
+    if (!provider.isConfigured()) {
       throw new Error("OpenAI API key is required for question answering");
     }
     
@@ -138,10 +187,12 @@ ANSWER:`;
     }
     
     if (useWebSearch) {
-      console.log(`Using enhanced web search capability for question: "${question}"`);
+      console.log(`Using enhanced web search capability for question: "${redactForLog(question)}"`);
       
       // Use our enhanced OpenAI service with web search capability
-      const modelResponse = await getModelResponse(prompt, null, null, true);
+      const modelResponse = await getModelResponse(prompt, null, null, true, {
+        usageContext: { feature: 'kb_answer' }
+      });
       
       if (!modelResponse.success) {
         throw new Error(modelResponse.error || "Failed to generate answer with web search");
@@ -156,32 +207,35 @@ ANSWER:`;
       
       console.log(`Web search completed: ${webSearchResults && webSearchResults.length ? webSearchResults.length : 0} results found`);
     } else {
-      // Use traditional OpenAI API without web search
-      console.log(`Using standard OpenAI API for question answering`);
+      // Use the language model directly without web search
+      console.log(`Using ${provider.name} provider for question answering`);
+      
+      // getModelResponse redacts on its own; this direct call has to do it here
+      const redactor = env.PII_REDACTION_ENABLED ? new PIIRedactor() : null;
       
-      const response = await fetch(env.OPENAI_API_URL, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${openAiApiKey}`
-        },
-        body: JSON.stringify({
-          model: modelName,
-          messages: [
-            { role: "user", content: prompt }
-          ],
-          max_tokens: 400,
-          temperature: 0.2
-        })
+      const result = await provider.complete({
+        model: modelName,
+        messages: [
+          { role: "user", content: redactor ? redactor.redact(prompt) : prompt }
+        ],
+        maxTokens: 400,
+        temperature: 0.2
       });
       
-      const result = await response.json();
+      await recordUsage({
+        feature: 'kb_answer',
+        provider: provider.name,
+        model: result.model,
+        promptTokens: result.usage?.promptTokens ?? estimateTokens(prompt),
+        completionTokens: result.usage?.completionTokens ?? estimateTokens(result.content),
+        tokensEstimated: !result.usage
+      });
       
-      if (!response.ok || !result.choices || result.choices.length === 0) {
-        throw new Error(result.error?.message || "Failed to generate answer");
+      if (!result.content) {
+        throw new Error("Failed to generate answer");
       }
       
-      answer = result.choices[0].message.content;
+      answer = redactor ? redactor.restore(result.content) : result.content;
     }
     
     // Format the response with proper typing
@@ -2,6 +2,8 @@
  * LangChain Service Types
  */
 
+import type { MetadataFilter } from '@/lib/metadataFilter';
+
 export enum DocumentType {
   PDF = 'application/pdf',
   CSV = 'text/csv',
@@ -16,12 +18,42 @@ export interface DocumentProcessResult {
   chunks?: number;
   error?: string;
   metadata?: Record<string, any>;
+  // Starts at 1 and goes up each time a file replaces an earlier version
+  version?: number;
+  // The document whose chunks this upload replaced
+  replacedDocumentId?: string;
+}
+
+// An uploaded document in a collection, summarized from its chunks
+export interface CollectionDocument {
+  documentId: string;
+  filename: string;
+  filetype?: string;
+  chunks: number;
+  // Size of the uploaded file in bytes; not recorded for documents uploaded before versioning
+  size?: number;
+  uploadedAt?: string;
+  version: number;
 }
 
 export interface VectorStoreConfig {
   collectionName: string;
   persistDirectory: string;
-  embeddingModelName?: string; // Defaults to "all-MPNet-base-v2"
+  embeddingModelName?: string; // Model of EMBEDDING_PROVIDER, e.g. "Xenova/all-mpnet-base-v2"; defaults to its configured model
+}
+
+// How a collection is searched: by embedding similarity, by BM25 term matching, or both fused
+export type SearchMode = 'vector' | 'lexical' | 'hybrid';
+
+export const SEARCH_MODES: SearchMode[] = ['vector', 'lexical', 'hybrid'];
+
+export interface SearchOptions {
+  // Defaults to RETRIEVAL_MODE
+  mode?: SearchMode;
+  // Compare against every chunk instead of using the HNSW index
+  exact?: boolean;
+  // Only chunks whose metadata matches are searched
+  filter?: MetadataFilter;
 }
 
 export interface QueryResult {
@@ -45,10 +77,29 @@ export interface RetrievalResult {
   };
 }
 
+// A knowledge base chunk used to ground a chat answer
+export interface SourceReference {
+  // Label the model cites the source with, e.g. "S1"
+  id: string;
+  documentId?: string;
+  filename: string;
+  collection: string;
+  filetype?: string;
+  // PDF page number
+  page?: number;
+  // CSV line number
+  line?: number;
+  excerpt: string;
+  score: number;
+}
+
 export interface WebSearchResult {
   url: string;
   title: string;
   snippet: string;
+  // Domain of the result, without the www. prefix
+  source?: string;
+  publishedDate?: string;
 }
 
 export interface QuestionAnswerResult {
@@ -2,10 +2,21 @@
  * Simple Vector Store Service
  * 
  * This module provides a simple file-persistent vector store implementation.
+ * Queries go through an HNSW index kept next to each collection; exact search
+ * over every chunk remains available to verify the index against. A BM25 index
+ * over the same chunks serves lexical search, alone or fused with vector search.
+ * Metadata filters narrow the chunks considered before any are scored.
+ * Each collection records the embedding model that built it, and is not
+ * searched or extended with vectors from another model.
  */
 
-import { VectorStoreConfig, RetrievalResult, QueryResult } from "./types";
-import { getEmbeddings } from "./embeddings";
+import { VectorStoreConfig, RetrievalResult, QueryResult, SearchOptions, CollectionDocument } from "./types";
+import { EmbeddingModelInfo, getEmbeddingModelId, getEmbeddings, inferLegacyEmbeddingModel } from "./embeddings";
+import { Bm25Index } from "./bm25Index";
+import { AnnBenchmarkReport, benchmarkAnnIndex, createRandom, HnswIndex, SerializedHnswIndex } from "./annIndex";
+import { env } from "@/config/env";
+import { matchesMetadataFilter, MetadataFilter } from "@/lib/metadataFilter";
+import { redactForLog } from "../redaction";
 import { Document } from "@langchain/core/documents";
 import path from "path";
 import fs from "fs";
@@ -19,6 +30,15 @@ const DEFAULT_RELEVANCE_THRESHOLD = 0.6;
 // Default pagination parameters
 const DEFAULT_PAGE_SIZE = 10;
 
+// Matches taken from each ranking before fusing them in hybrid search
+const HYBRID_CANDIDATES = 50;
+
+// Reciprocal rank fusion constant; larger values flatten the gap between top and lower ranks
+const RRF_K = 60;
+
+// Filters matching at most this many chunks are searched by comparing with each of them instead of the index
+const FILTERED_SCAN_LIMIT = 1000;
+
 // Ensure the vectorstore directory exists
 const ensureVectorStoreDir = (dir: string) => {
   if (!fs.existsSync(dir)) {
@@ -26,18 +46,47 @@ const ensureVectorStoreDir = (dir: string) => {
   }
 };
 
+/**
+ * Combine rankings with reciprocal rank fusion, each document scoring 1 / (RRF_K + rank) per ranking
+ * Scores are scaled so a document ranked first everywhere scores 1.
+ * @returns Document positions with their fused score, best first
+ */
+function fuseRankings(rankings: number[][]): [number, number][] {
+  const scores = new Map<number, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((position, rank) => {
+      scores.set(position, (scores.get(position) || 0) + 1 / (RRF_K + rank + 1));
+    });
+  }
+  
+  const maxScore = rankings.length / (RRF_K + 1);
+  return Array.from(scores.entries())
+    .map(([position, score]): [number, number] => [position, score / maxScore])
+    .sort((a, b) => b[1] - a[1]);
+}
+
 /**
  * Simple file-persistent vector store implementation
  */
 class SimpleVectorStore {
   private documents: Document[] = [];
   private embeddings: any;
+  // Model the embeddings above come from, and the model the stored vectors came from
+  private embeddingModelId: string;
+  private embeddingModel: EmbeddingModelInfo | null = null;
   private collectionName: string;
   private persistDirectory: string;
   private embedCache: Map<string, number[]> = new Map();
+  // Nodes are document positions in this.documents
+  private index: HnswIndex = new HnswIndex({ efSearch: env.VECTOR_INDEX_EF_SEARCH });
+  // Rebuilt from the documents on load, as it is quick to build
+  private lexicalIndex = new Bm25Index();
+  // Modification time and size of the collection file when last loaded or saved
+  private storeVersion: string | null = null;
   
-  constructor(embeddings: any, collectionName: string, persistDirectory: string) {
+  constructor(embeddings: any, embeddingModelId: string, collectionName: string, persistDirectory: string) {
     this.embeddings = embeddings;
+    this.embeddingModelId = embeddingModelId;
     this.collectionName = collectionName;
     this.persistDirectory = persistDirectory;
     
@@ -48,32 +97,141 @@ class SimpleVectorStore {
     this.loadFromDisk();
   }
   
+  private getStorePath(): string {
+    return path.join(this.persistDirectory, `${this.collectionName}.json`);
+  }
+  
+  // Identifies what is on disk, so a file written by another instance can be noticed
+  private readStoreVersion(): string | null {
+    const storePath = this.getStorePath();
+    if (!fs.existsSync(storePath)) {
+      return null;
+    }
+    const stats = fs.statSync(storePath);
+    return `${stats.mtimeMs}:${stats.size}`;
+  }
+  
   /**
    * Save vector store data to disk
    */
   private saveToDisk(): void {
     try {
-      const storePath = path.join(this.persistDirectory, `${this.collectionName}.json`);
+      const storePath = this.getStorePath();
+      
+      this.recordEmbeddingModel();
       
       // Prepare data for storage - extract embeddings from cache
       const dataToSave = {
+        embedding: this.embeddingModel,
         documents: this.documents,
         embeddings: Array.from(this.embedCache.entries())
       };
       
       fs.writeFileSync(storePath, JSON.stringify(dataToSave, null, 2));
+      this.storeVersion = this.readStoreVersion();
       console.log(`Saved vector store data to ${storePath}`);
+      
+      this.saveIndex();
     } catch (error) {
       console.error(`Error saving vector store data: ${error}`);
     }
   }
   
+  /**
+   * Path of the index file kept next to the collection file
+   */
+  private getIndexPath(): string {
+    return path.join(this.persistDirectory, `${this.collectionName}.index.json`);
+  }
+  
+  /**
+   * Save the index graph to disk; the vectors are already in the collection file
+   */
+  private saveIndex(): void {
+    try {
+      fs.writeFileSync(this.getIndexPath(), JSON.stringify(this.index.toJSON()));
+    } catch (error) {
+      console.error(`Error saving vector index: ${error}`);
+    }
+  }
+  
+  /**
+   * Load the index saved with the collection, rebuilding it when it is missing or out of date
+   */
+  private loadIndex(): void {
+    const indexPath = this.getIndexPath();
+    let index: HnswIndex | null = null;
+    
+    try {
+      if (fs.existsSync(indexPath)) {
+        const data: SerializedHnswIndex = JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+        index = HnswIndex.fromJSON(
+          data,
+          id => this.documents[id]?.pageContent ? this.embedCache.get(this.documents[id].pageContent) : undefined,
+          { efSearch: env.VECTOR_INDEX_EF_SEARCH }
+        );
+      }
+    } catch (error) {
+      console.error(`Error loading vector index: ${error}`);
+    }
+    
+    // An index written before the latest documents were saved is missing some of them
+    if (index && index.size === this.countIndexableDocuments()) {
+      this.index = index;
+      console.log(`Loaded vector index with ${index.size} entries from ${indexPath}`);
+      return;
+    }
+    
+    this.rebuildIndex();
+    if (this.index.size > 0) {
+      this.saveIndex();
+    }
+  }
+  
+  /**
+   * Build the index from scratch out of the cached embeddings
+   */
+  private rebuildIndex(): void {
+    const start = Date.now();
+    this.index = new HnswIndex({ efSearch: env.VECTOR_INDEX_EF_SEARCH });
+    this.indexDocuments(0);
+    console.log(`Rebuilt vector index for ${this.collectionName} with ${this.index.size} entries in ${Date.now() - start}ms`);
+  }
+  
+  /**
+   * Insert documents with a cached embedding into the index, from a position onwards
+   */
+  private indexDocuments(fromPosition: number): void {
+    for (let i = fromPosition; i < this.documents.length; i++) {
+      const embedding = this.documents[i].pageContent ? this.embedCache.get(this.documents[i].pageContent) : undefined;
+      if (embedding && !this.index.has(i)) {
+        this.index.add(i, embedding);
+      }
+    }
+  }
+  
+  /**
+   * Add documents to the lexical index, from a position onwards
+   */
+  private indexText(fromPosition: number): void {
+    for (let i = fromPosition; i < this.documents.length; i++) {
+      if (this.documents[i].pageContent) {
+        this.lexicalIndex.add(i, this.documents[i].pageContent);
+      }
+    }
+  }
+  
+  private countIndexableDocuments(): number {
+    return this.documents.filter(doc => doc.pageContent && this.embedCache.has(doc.pageContent)).length;
+  }
+  
   /**
    * Load vector store data from disk
    */
   private loadFromDisk(): void {
     try {
-      const storePath = path.join(this.persistDirectory, `${this.collectionName}.json`);
+      const storePath = this.getStorePath();
+      this.storeVersion = this.readStoreVersion();
       
       if (fs.existsSync(storePath)) {
         const rawData = fs.readFileSync(storePath, 'utf-8');
@@ -87,7 +245,14 @@ class SimpleVectorStore {
           this.embedCache = new Map(data.embeddings);
         }
         
+        // Collections saved before the model was recorded are recognized by their vectors' dimension
+        const firstVector = this.embedCache.values().next().value;
+        this.embeddingModel = data.embedding || (firstVector ? inferLegacyEmbeddingModel(firstVector.length) : null);
+        
         console.log(`Loaded ${this.documents.length} documents from ${storePath}`);
+        
+        this.loadIndex();
+        this.indexText(0);
       }
     } catch (error) {
       console.error(`Error loading vector store data: ${error}`);
@@ -134,6 +299,54 @@ class SimpleVectorStore {
     console.log(`Completed processing ${processedCount} new documents`);
   }
   
+  /**
+   * The model the collection's vectors came from, or null while it has none
+   */
+  getEmbeddingModel(): EmbeddingModelInfo | null {
+    return this.embeddingModel;
+  }
+  
+  /**
+   * Refuse to mix vectors of the configured model with those of another model
+   */
+  private assertSameEmbeddingModel(): void {
+    if (this.embeddingModel && this.embeddingModel.id !== this.embeddingModelId) {
+      throw new Error(
+        `Collection ${this.collectionName} was embedded with ${this.embeddingModel.id} (${this.embeddingModel.dimension} dimensions) ` +
+        `but the configured embedding model is ${this.embeddingModelId}; re-embed it through /api/langchain/reembed or switch back to its model`
+      );
+    }
+  }
+  
+  /**
+   * Record the model of the first vectors added to the collection
+   */
+  private recordEmbeddingModel(): void {
+    const firstVector = this.embedCache.values().next().value;
+    if (!this.embeddingModel && firstVector) {
+      this.embeddingModel = { id: this.embeddingModelId, dimension: firstVector.length };
+    }
+  }
+  
+  /**
+   * Load the collection again if its file has changed since this instance last
+   * read or wrote it, e.g. a document was deleted or replaced by another server
+   * process; saving without this would write the removed chunks back
+   */
+  reloadIfChanged(): void {
+    if (this.readStoreVersion() === this.storeVersion) {
+      return;
+    }
+    
+    console.log(`Collection ${this.collectionName} changed on disk; reloading it`);
+    this.documents = [];
+    this.embedCache = new Map();
+    this.embeddingModel = null;
+    this.index = new HnswIndex({ efSearch: env.VECTOR_INDEX_EF_SEARCH });
+    this.lexicalIndex = new Bm25Index();
+    this.loadFromDisk();
+  }
+  
   /**
    * Add documents to the vector store
    */
@@ -142,9 +355,16 @@ class SimpleVectorStore {
       return;
     }
     
+    this.assertSameEmbeddingModel();
+    
     // Process documents in batches
+    const firstPosition = this.documents.length;
     await this.processBatchedDocuments(documents);
     
+    // Link the new chunks into the indexes rather than rebuilding them
+    this.indexDocuments(firstPosition);
+    this.indexText(firstPosition);
+    
     // Save to disk after adding documents
     this.saveToDisk();
     
@@ -172,14 +392,62 @@ class SimpleVectorStore {
     return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
   }
   
+  /**
+   * Search the collection in the given mode, with pagination
+   */
+  async search(
+    query: string,
+    k = 5,
+    threshold = DEFAULT_RELEVANCE_THRESHOLD,
+    page = 1,
+    { mode = env.RETRIEVAL_MODE, exact = !env.VECTOR_INDEX_ENABLED, filter }: SearchOptions = {}
+  ): Promise<[Document, number][]> {
+    // Query vectors from another model would rank the chunks meaninglessly
+    if (mode !== 'lexical') {
+      this.assertSameEmbeddingModel();
+    }
+    
+    if (mode === 'lexical') {
+      return this.lexicalSearchWithScore(query, k, page, filter);
+    }
+    if (mode === 'hybrid') {
+      return this.hybridSearchWithScore(query, k, threshold, page, exact, filter);
+    }
+    return this.similaritySearchWithScore(query, k, threshold, page, exact, filter);
+  }
+  
+  /**
+   * Positions of the documents whose metadata matches a filter
+   * @returns The positions, or null when there is no filter
+   */
+  private getMatchingPositions(filter?: MetadataFilter): Set<number> | null {
+    if (!filter || Object.keys(filter).length === 0) {
+      return null;
+    }
+    
+    const positions = new Set<number>();
+    this.documents.forEach((doc, position) => {
+      if (matchesMetadataFilter(doc.metadata, filter)) {
+        positions.add(position);
+      }
+    });
+    
+    console.log(`Metadata filter matched ${positions.size} of ${this.documents.length} documents`);
+    return positions;
+  }
+  
   /**
    * Search for similar documents based on a query with pagination
+   * @param exact Compare against every document instead of using the index, e.g. to verify its results
+   * @param filter Only documents whose metadata matches are scored
    */
   async similaritySearchWithScore(
     query: string, 
     k = 5,
     threshold = DEFAULT_RELEVANCE_THRESHOLD,
-    page = 1
+    page = 1,
+    exact = !env.VECTOR_INDEX_ENABLED,
+    filter?: MetadataFilter
   ): Promise<[Document, number][]> {
     if (this.documents.length === 0) {
       return [];
@@ -189,66 +457,295 @@ class SimpleVectorStore {
     const skip = (page - 1) * pageSize;
     
     try {
-      console.log(`Running similarity search with threshold: ${threshold}, page: ${page}, pageSize: ${pageSize}`);
+      console.log(`Running ${exact ? 'exact' : 'indexed'} similarity search with threshold: ${threshold}, page: ${page}, pageSize: ${pageSize}`);
       
       // Embed the query
       const queryEmbedding = await this.embeddings.embedQuery(query);
       
-      // Calculate similarities using cached embeddings where possible
-      const similarities: [Document, number][] = [];
-      
-      for (const doc of this.documents) {
-        if (!doc.pageContent) continue;
-        
-        let docEmbedding: number[];
-        
-        // Use cached embedding if available
-        if (this.embedCache.has(doc.pageContent)) {
-          docEmbedding = this.embedCache.get(doc.pageContent)!;
-        } else {
-          // Compute embedding if not cached
-          try {
-            docEmbedding = await this.embeddings.embedQuery(doc.pageContent);
-            this.embedCache.set(doc.pageContent, docEmbedding);
-          } catch (error) {
-            console.error(`Error embedding document: ${error}`);
-            continue; // Skip this document on error
-          }
-        }
-        
-        const similarity = this.cosineSimilarity(queryEmbedding, docEmbedding);
-        
-        // Only add documents that meet the threshold
-        if (similarity >= threshold) {
-          similarities.push([doc, similarity]);
-        }
-      }
-      
-      // Sort by similarity (highest first)
-      const sortedResults = similarities.sort((a, b) => b[1] - a[1]);
+      const ranking = await this.rankByVector(queryEmbedding, skip + pageSize, threshold, exact, this.getMatchingPositions(filter));
       
       // Apply pagination
-      const paginatedResults = sortedResults.slice(skip, skip + pageSize);
+      const paginatedResults = ranking.slice(skip, skip + pageSize);
       
-      console.log(`Found ${sortedResults.length} results above threshold ${threshold}, returning ${paginatedResults.length} results for page ${page}`);
+      console.log(`Returning ${paginatedResults.length} results for page ${page}`);
       
-      return paginatedResults;
+      return paginatedResults.map(([position, score]) => [this.documents[position], score]);
     } catch (error) {
       console.error(`Error in similaritySearchWithScore: ${error}`);
       return [];
     }
   }
   
+  /**
+   * Search by BM25 term matching with pagination
+   * Scores are relative to the best match of the query, which scores 1.
+   */
+  async lexicalSearchWithScore(query: string, k = 5, page = 1, filter?: MetadataFilter): Promise<[Document, number][]> {
+    const pageSize = k > 0 ? k : DEFAULT_PAGE_SIZE;
+    const skip = (page - 1) * pageSize;
+    
+    console.log(`Running lexical search, page: ${page}, pageSize: ${pageSize}`);
+    
+    const allowed = this.getMatchingPositions(filter);
+    const matches = this.lexicalIndex.search(query, skip + pageSize, allowed ? id => allowed.has(id) : undefined);
+    const bestScore = matches[0]?.score || 1;
+    const paginatedResults = matches.slice(skip, skip + pageSize);
+    
+    console.log(`Lexical index matched ${matches.length} documents, returning ${paginatedResults.length} results for page ${page}`);
+    
+    return paginatedResults.map(match => [this.documents[match.id], match.score / bestScore]);
+  }
+  
+  /**
+   * Search by both embedding similarity and BM25, fusing the two rankings with
+   * reciprocal rank fusion
+   * The threshold applies to the vector ranking only, so exact term matches the
+   * embeddings miss still come through.
+   */
+  async hybridSearchWithScore(
+    query: string,
+    k = 5,
+    threshold = DEFAULT_RELEVANCE_THRESHOLD,
+    page = 1,
+    exact = !env.VECTOR_INDEX_ENABLED,
+    filter?: MetadataFilter
+  ): Promise<[Document, number][]> {
+    if (this.documents.length === 0) {
+      return [];
+    }
+    
+    const pageSize = k > 0 ? k : DEFAULT_PAGE_SIZE;
+    const skip = (page - 1) * pageSize;
+    const depth = Math.max(skip + pageSize, HYBRID_CANDIDATES);
+    
+    try {
+      console.log(`Running hybrid search with threshold: ${threshold}, page: ${page}, pageSize: ${pageSize}`);
+      
+      const queryEmbedding = await this.embeddings.embedQuery(query);
+      const allowed = this.getMatchingPositions(filter);
+      const vectorRanking = await this.rankByVector(queryEmbedding, depth, threshold, exact, allowed);
+      const lexicalRanking = this.lexicalIndex.search(query, depth, allowed ? id => allowed.has(id) : undefined);
+      
+      const fused = fuseRankings([
+        vectorRanking.map(([position]) => position),
+        lexicalRanking.map(match => match.id)
+      ]);
+      const paginatedResults = fused.slice(skip, skip + pageSize);
+      
+      console.log(`Fused ${vectorRanking.length} vector and ${lexicalRanking.length} lexical matches, returning ${paginatedResults.length} results for page ${page}`);
+      
+      return paginatedResults.map(([position, score]) => [this.documents[position], score]);
+    } catch (error) {
+      console.error(`Error in hybridSearchWithScore: ${error}`);
+      return [];
+    }
+  }
+  
+  /**
+   * Rank documents by embedding similarity to the query
+   * @param allowed Positions of the documents to consider, or null for all of them
+   * @returns Up to count document positions with their similarity, most similar first
+   */
+  private async rankByVector(
+    queryEmbedding: number[],
+    count: number,
+    threshold: number,
+    exact: boolean,
+    allowed: Set<number> | null = null
+  ): Promise<[number, number][]> {
+    // A narrow filter leaves few enough documents to compare with each one
+    if (!exact && !(allowed && allowed.size <= FILTERED_SCAN_LIMIT)) {
+      await this.embedMissingDocuments();
+      
+      const ranking: [number, number][] = this.index
+        .search(queryEmbedding, count, Math.max(this.index.efSearch, count), allowed ? id => allowed.has(id) : undefined)
+        .filter(neighbor => neighbor.score >= threshold)
+        .map(neighbor => [neighbor.id, neighbor.score]);
+      
+      console.log(`Index returned ${ranking.length} results above threshold ${threshold}`);
+      return ranking;
+    }
+    
+    // Calculate similarities using cached embeddings where possible
+    const similarities: [number, number][] = [];
+    
+    for (let position = 0; position < this.documents.length; position++) {
+      const doc = this.documents[position];
+      if (!doc.pageContent || (allowed && !allowed.has(position))) continue;
+      
+      let docEmbedding: number[];
+      
+      // Use cached embedding if available
+      if (this.embedCache.has(doc.pageContent)) {
+        docEmbedding = this.embedCache.get(doc.pageContent)!;
+      } else {
+        // Compute embedding if not cached
+        try {
+          docEmbedding = await this.embeddings.embedQuery(doc.pageContent);
+          this.embedCache.set(doc.pageContent, docEmbedding);
+        } catch (error) {
+          console.error(`Error embedding document: ${error}`);
+          continue; // Skip this document on error
+        }
+      }
+      
+      const similarity = this.cosineSimilarity(queryEmbedding, docEmbedding);
+      
+      // Only add documents that meet the threshold
+      if (similarity >= threshold) {
+        similarities.push([position, similarity]);
+      }
+    }
+    
+    console.log(`Found ${similarities.length} results above threshold ${threshold}`);
+    
+    // Sort by similarity (highest first)
+    return similarities.sort((a, b) => b[1] - a[1]).slice(0, count);
+  }
+  
+  /**
+   * Embed and index documents whose embedding failed when they were added
+   */
+  private async embedMissingDocuments(): Promise<void> {
+    let embedded = 0;
+    for (const doc of this.documents) {
+      if (doc.pageContent && !this.embedCache.has(doc.pageContent)) {
+        try {
+          this.embedCache.set(doc.pageContent, await this.embeddings.embedQuery(doc.pageContent));
+          embedded++;
+        } catch (error) {
+          console.error(`Error embedding document: ${error}`);
+        }
+      }
+    }
+    
+    if (embedded > 0) {
+      this.indexDocuments(0);
+      this.saveToDisk();
+    }
+  }
+  
+  /**
+   * Embed every chunk again with the configured model, e.g. after switching models
+   * The collection is left as it was if any chunk cannot be embedded.
+   * @returns The number of distinct chunks embedded
+   */
+  async reembed(): Promise<number> {
+    const embedCache = new Map<string, number[]>();
+    for (const doc of this.documents) {
+      if (doc.pageContent && !embedCache.has(doc.pageContent)) {
+        embedCache.set(doc.pageContent, await this.embeddings.embedQuery(doc.pageContent));
+      }
+    }
+    
+    const previousModel = this.embeddingModel?.id || 'none';
+    this.embedCache = embedCache;
+    this.embeddingModel = null;
+    this.rebuildIndex();
+    this.saveToDisk();
+    
+    console.log(`Re-embedded ${embedCache.size} chunks of collection ${this.collectionName} from ${previousModel} to ${this.embeddingModelId}`);
+    return embedCache.size;
+  }
+  
+  /**
+   * Compare the index with exact search on queries made from the collection's own chunks
+   * Each query is a stored embedding with a little noise added, so its true neighbours are known to exist.
+   */
+  async benchmarkSearch(queryCount = 50, k = 5, ef = this.index.efSearch): Promise<AnnBenchmarkReport> {
+    await this.embedMissingDocuments();
+    
+    const vectors = Array.from(this.embedCache.values());
+    const random = createRandom(7);
+    const queries: number[][] = [];
+    for (let i = 0; i < queryCount && vectors.length > 0; i++) {
+      const vector = vectors[Math.floor(random() * vectors.length)];
+      queries.push(vector.map(value => value + (random() - 0.5) * 0.05));
+    }
+    
+    return benchmarkAnnIndex(this.index, queries, k, ef);
+  }
+  
   /**
    * Clear the vector store collection
    */
   async clearCollection(): Promise<void> {
     this.documents = [];
     this.embedCache.clear();
+    this.embeddingModel = null;
+    this.index = new HnswIndex({ efSearch: env.VECTOR_INDEX_EF_SEARCH });
+    this.lexicalIndex = new Bm25Index();
     this.saveToDisk();
     console.log(`Cleared collection ${this.collectionName}`);
   }
   
+  /**
+   * Summarize the uploaded documents in the collection, from their chunks' metadata
+   * Chunks added without a documentId are left out.
+   */
+  listDocuments(): CollectionDocument[] {
+    const documents = new Map<string, CollectionDocument>();
+    
+    for (const doc of this.documents) {
+      const metadata = doc.metadata || {};
+      if (!metadata.documentId) continue;
+      
+      const existing = documents.get(metadata.documentId);
+      if (existing) {
+        existing.chunks++;
+        continue;
+      }
+      
+      documents.set(metadata.documentId, {
+        documentId: metadata.documentId,
+        filename: metadata.filename || 'Document',
+        filetype: metadata.filetype,
+        chunks: 1,
+        size: typeof metadata.fileSize === 'number' ? metadata.fileSize : undefined,
+        uploadedAt: metadata.createdAt,
+        version: Number(metadata.version) || 1
+      });
+    }
+    
+    return Array.from(documents.values());
+  }
+  
+  /**
+   * Remove every chunk of an uploaded document
+   * Chunk positions shift, so both indexes are rebuilt.
+   * @returns The number of chunks removed
+   */
+  async deleteDocument(documentId: string): Promise<number> {
+    const remaining = this.documents.filter(doc => doc.metadata?.documentId !== documentId);
+    const removed = this.documents.length - remaining.length;
+    if (removed === 0) {
+      return 0;
+    }
+    
+    this.documents = remaining;
+    
+    // Drop embeddings no remaining chunk uses
+    const contentInUse = new Set(remaining.map(doc => doc.pageContent));
+    for (const content of Array.from(this.embedCache.keys())) {
+      if (!contentInUse.has(content)) {
+        this.embedCache.delete(content);
+      }
+    }
+    
+    // An emptied collection can be refilled with any model
+    if (this.embedCache.size === 0) {
+      this.embeddingModel = null;
+    }
+    
+    this.rebuildIndex();
+    this.lexicalIndex = new Bm25Index();
+    this.indexText(0);
+    this.saveToDisk();
+    
+    console.log(`Deleted ${removed} chunks of document ${documentId} from collection ${this.collectionName}`);
+    return removed;
+  }
+  
   /**
    * Get the number of documents in the collection
    */
@@ -262,7 +759,7 @@ class SimpleVectorStore {
   getMemoryStats(): { documentsCount: number; cacheSize: number; estimatedMemoryUsageMB: number } {
     // Estimate memory usage (very rough approximation)
     const cacheSize = this.embedCache.size;
-    const avgEmbeddingSize = 384 * 4; // 384 dimensions * 4 bytes per float
+    const avgEmbeddingSize = (this.embeddingModel?.dimension || 384) * 4; // dimensions * 4 bytes per float
     const estimatedMemoryBytes = 
       (this.documents.reduce((sum, doc) => sum + (doc.pageContent?.length || 0), 0) * 2) + // Text content (2 bytes per char)
       (cacheSize * avgEmbeddingSize) + // Embeddings cache
@@ -276,8 +773,13 @@ class SimpleVectorStore {
   }
 }
 
-// Cache vector stores by collection name to prevent duplicate instances
-const vectorStoreCache = new Map<string, SimpleVectorStore>();
+// Cache vector stores by collection name to prevent duplicate instances. The
+// cache lives on globalThis so every API route uses the same instance of a
+// collection, rather than one that misses another route's re-embedding and
+// writes its stale vectors back on its next save.
+const vectorStoreState = globalThis as typeof globalThis & { __vectorStores?: Map<string, SimpleVectorStore> };
+const vectorStoreCache: Map<string, SimpleVectorStore> = vectorStoreState.__vectorStores
+  || (vectorStoreState.__vectorStores = new Map());
 
 /**
  * Create or get a vector store for a specific collection
@@ -289,8 +791,10 @@ export async function createVectorStore({
 }: VectorStoreConfig): Promise<SimpleVectorStore> {
   // Check if we have this store cached
   const cacheKey = `${collectionName}:${persistDirectory}`;
-  if (vectorStoreCache.has(cacheKey)) {
-    return vectorStoreCache.get(cacheKey)!;
+  const cached = vectorStoreCache.get(cacheKey);
+  if (cached) {
+    cached.reloadIfChanged();
+    return cached;
   }
   
   // Use provided directory or default
@@ -301,7 +805,7 @@ export async function createVectorStore({
 
   // Create a new simple vector store with persistence
   console.log(`Creating SimpleVectorStore for collection: ${collectionName}`);
-  const vectorStore = new SimpleVectorStore(embeddings, collectionName, dirPath);
+  const vectorStore = new SimpleVectorStore(embeddings, getEmbeddingModelId(embeddingModelName), collectionName, dirPath);
   vectorStoreCache.set(cacheKey, vectorStore);
   return vectorStore;
 }
@@ -315,7 +819,8 @@ export async function queryVectorStore(
   persistDirectory?: string,
   limit = 5,
   threshold = DEFAULT_RELEVANCE_THRESHOLD,
-  page = 1
+  page = 1,
+  options: SearchOptions = {}
 ): Promise<RetrievalResult> {
   try {
     const dirPath = persistDirectory || path.join(process.cwd(), "data", "vectorstore");
@@ -338,10 +843,10 @@ export async function queryVectorStore(
       };
     }
     
-    console.log(`Querying vector store with: "${query}", limit: ${limit}, threshold: ${threshold}, page: ${page}`);
+    console.log(`Querying vector store with: "${redactForLog(query)}", limit: ${limit}, threshold: ${threshold}, page: ${page}, mode: ${options.mode || env.RETRIEVAL_MODE}`);
     
-    // Perform similarity search with threshold and pagination
-    const results = await vectorStore.similaritySearchWithScore(query, limit, threshold, page);
+    // Perform the search with threshold and pagination
+    const results = await vectorStore.search(query, limit, threshold, page, options);
     
     // Format results
     const formattedResults: QueryResult[] = results.map(([doc, score]) => ({
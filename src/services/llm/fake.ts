@@ -0,0 +1,257 @@
+/**
+ * Fake LLM Provider
+ *
+ * A deterministic, in-process provider used in development when no API key is
+ * configured and in tests. The same conversation always produces the same
+ * answer, tool calls and token counts.
+ */
+
+import { ChatMessage } from '../openai/types';
+import { CONVERSATION_SUMMARY_PROMPT, STUDENT_FACTS_PROMPT, WEB_SEARCH_INSTRUCTION } from '../openai/system-prompt';
+import { DEFAULT_LANGUAGE, detectLanguage, Language, LANGUAGES, MessageKey, translate } from '@/lib/i18n';
+import {
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  LLMProvider,
+  LLMProviderName,
+  LLMUsage
+} from './types';
+
+// Catalog keys of the canned answers, picked by a hash of the message
+const MOCK_RESPONSE_KEYS: MessageKey[] = ['mock.response.1', 'mock.response.2', 'mock.response.3'];
+
+// Sentences in which the student says something about themselves
+const FIRST_PERSON_PATTERN = /\b(I|I'm|I've|my)\b/i;
+
+function isCompetitionQuestion(message: string): boolean {
+  const lower = message.toLowerCase();
+  return lower.includes('competition') || lower.includes('olympiad') || lower.includes('contest') ||
+    lower.includes('प्रतियोगिता') || lower.includes('ओलंपियाड');
+}
+
+// The language the system prompt asks for, named in its language instruction as "Reply in Hindi (हिन्दी)"
+function getRequestedLanguage(systemPrompt: string): Language {
+  const name = systemPrompt.match(/\*\*IMPORTANT - LANGUAGE:\*\*\s+Reply in ([A-Za-z]+) \(/)?.[1];
+  return Object.values(LANGUAGES).find(info => info.name === name)?.code || DEFAULT_LANGUAGE;
+}
+
+/**
+ * Mock response used in development when no model is available
+ * @param userMessage The student's message, without any search instructions
+ * @param language Language to answer in; detected from the message when omitted
+ * @returns The canned answer for the message
+ */
+export function getMockResponse(
+  userMessage: string,
+  language: Language = detectLanguage(userMessage) || DEFAULT_LANGUAGE
+): string {
+  console.log('Using mock response for development');
+
+  // Check if request is for project or competition details in JSON format
+  if (userMessage.toLowerCase().includes('project') &&
+      userMessage.toLowerCase().includes('json')) {
+
+    console.log('Returning mock JSON project details');
+
+    // Create a properly formatted JSON string for project details
+    const mockProjectDetails = {
+      title: "Environmental Monitoring System",
+      description: "A comprehensive IoT-based system for monitoring environmental factors such as air quality, temperature, and humidity in urban areas.",
+      difficultyLevel: "Intermediate",
+      timeCommitment: "3-4 months",
+      skillsRequired: ["Arduino programming", "Sensor integration", "Data analysis", "Cloud computing"],
+      materialsCost: "$150-200",
+      impactAreas: ["Environmental science", "Public health", "Urban planning"],
+      learningOutcomes: ["Hardware-software integration", "Environmental data analysis", "IoT system design"],
+      implementationSteps: [
+        "Research and select appropriate environmental sensors",
+        "Design and build the sensor housing and circuit",
+        "Program the microcontroller for data collection",
+        "Develop a web dashboard for data visualization",
+        "Deploy multiple units across different locations"
+      ],
+      additionalResources: [
+        {
+          title: "Arduino Environmental Monitoring Guide",
+          url: "https://example.com/arduino-guide"
+        },
+        {
+          title: "IoT Cloud Platforms Comparison",
+          url: "https://example.com/iot-cloud-comparison"
+        }
+      ]
+    };
+
+    return JSON.stringify(mockProjectDetails);
+  }
+
+  // Check if request is for competition details in JSON format
+  if (userMessage.toLowerCase().includes('competition') &&
+      userMessage.toLowerCase().includes('json')) {
+
+    console.log('Returning mock JSON competition details');
+
+    // Create a properly formatted JSON string for competition details
+    const mockCompetitionDetails = {
+      name: "International Science and Engineering Fair (ISEF)",
+      organizer: "Society for Science",
+      website: "https://www.societyforscience.org/isef/",
+      description: "The world's largest pre-college science competition that provides a platform for high school students to showcase their independent research.",
+      eligibility: "High school students grades 9-12",
+      deadline: "Varies by region, typically January-February for local fairs",
+      prizes: ["Grand Award: $75,000", "Category Awards: $5,000-$50,000", "Special Awards from various organizations"],
+      categories: ["Animal Sciences", "Behavioral Sciences", "Biochemistry", "Biomedical Engineering", "Cellular & Molecular Biology", "Chemistry", "Computational Biology", "Computer Science", "Earth & Environmental Sciences", "Engineering", "Materials Science", "Mathematics", "Microbiology", "Physics", "Plant Sciences", "Robotics"],
+      applicationProcess: [
+        "Participate in a local or regional science fair",
+        "Win nomination to attend ISEF from your regional fair",
+        "Complete the ISEF application forms",
+        "Prepare your research paper and presentation materials"
+      ],
+      tips: [
+        "Start your project early, ideally 6-12 months before the fair",
+        "Find a mentor in your research area",
+        "Document your process thoroughly in a research notebook",
+        "Practice your presentation skills extensively"
+      ]
+    };
+
+    return JSON.stringify(mockCompetitionDetails);
+  }
+
+  if (isCompetitionQuestion(userMessage)) {
+    return translate(language, 'mock.competitions');
+  }
+
+  // Use the message content to pseudo-randomly select a response
+  const messageHash = userMessage.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
+  return translate(language, MOCK_RESPONSE_KEYS[messageHash % MOCK_RESPONSE_KEYS.length]);
+}
+
+/**
+ * Mock reply to the memory service's summary and fact requests
+ * @returns The reply, or null for any other request
+ */
+function getMockMemoryReply(systemPrompt: string, content: string): string | null {
+  if (systemPrompt === STUDENT_FACTS_PROMPT) {
+    const message = content.split('Latest message:\n')[1] || '';
+    // Statements about the student, not questions
+    const facts = message.replace(/([.!?])\s+/g, '$1\n').split('\n')
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence && !sentence.endsWith('?') && FIRST_PERSON_PATTERN.test(sentence))
+      .slice(0, 3);
+    return JSON.stringify({ facts });
+  }
+
+  if (systemPrompt === CONVERSATION_SUMMARY_PROMPT) {
+    const [currentSummary, newTurns = ''] = content.replace(/^Current summary:\n/, '').split('\n\nNew turns:\n');
+    const questions = newTurns.split('\n\n')
+      .filter(turn => turn.startsWith('Student: '))
+      .map(turn => `- The student asked: ${turn.substring('Student: '.length).replace(/\s+/g, ' ').substring(0, 100)}`);
+    return [currentSummary === '(none)' ? '' : currentSummary, ...questions].filter(Boolean).join('\n');
+  }
+
+  return null;
+}
+
+// Rough token count so usage figures stay plausible and deterministic
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Provider that answers from canned responses without any network access
+ */
+export class FakeProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'fake';
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  resolveModel(model: string): string {
+    return model;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    const model = this.resolveModel(request.model);
+    const lastUserIndex = request.messages.map(m => m.role).lastIndexOf('user');
+    const userMessage = this.stripInstructions(request.messages[lastUserIndex]?.content || '');
+    const hasToolResults = request.messages.slice(lastUserIndex + 1).some(m => m.role === 'tool');
+
+    const memoryReply = getMockMemoryReply(request.messages[0]?.content || '', userMessage);
+    if (memoryReply !== null) {
+      return {
+        content: memoryReply,
+        model,
+        usage: this.usage(request.messages, memoryReply),
+        finishReason: 'stop'
+      };
+    }
+
+    // Exercise the tool-calling path the way a real model would for questions that need tools
+    const toolName = request.toolChoice !== 'none' && !hasToolResults
+      ? this.pickTool(userMessage, request)
+      : null;
+    if (toolName) {
+      return {
+        content: '',
+        model,
+        toolCalls: [{
+          id: `call_fake_${lastUserIndex}`,
+          type: 'function',
+          function: {
+            name: toolName,
+            arguments: JSON.stringify(toolName === 'web_search' ? { query: userMessage.substring(0, 200) } : {})
+          }
+        }],
+        usage: this.usage(request.messages, ''),
+        finishReason: 'tool_calls'
+      };
+    }
+
+    const content = getMockResponse(userMessage, getRequestedLanguage(request.messages[0]?.content || ''));
+
+    if (request.onDelta) {
+      // Replay word by word so streaming callers behave the same as with a real model
+      (content.match(/\S+\s*|\s+/g) || []).forEach(part => request.onDelta!(part));
+    }
+
+    return {
+      content,
+      model,
+      usage: this.usage(request.messages, content),
+      finishReason: 'stop'
+    };
+  }
+
+  // The first offered tool that suits the message, preferring fresh web results
+  private pickTool(userMessage: string, request: LLMCompletionRequest): string | null {
+    const offered = new Set((request.tools || []).map(tool => tool.function?.name));
+    const lower = userMessage.toLowerCase();
+
+    if (isCompetitionQuestion(userMessage) && !lower.includes('json')) {
+      if (offered.has('web_search')) return 'web_search';
+      if (offered.has('find_competitions')) return 'find_competitions';
+    }
+    if (lower.includes('timeline') && offered.has('generate_timeline')) {
+      return 'generate_timeline';
+    }
+    return null;
+  }
+
+  private stripInstructions(message: string): string {
+    return message.startsWith(WEB_SEARCH_INSTRUCTION)
+      ? message.substring(WEB_SEARCH_INSTRUCTION.length).trim()
+      : message;
+  }
+
+  private usage(messages: ChatMessage[], completion: string): LLMUsage {
+    const promptTokens = messages.reduce((sum, m) => sum + estimateTokens(m.content || ''), 0);
+    const completionTokens = estimateTokens(completion);
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens
+    };
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Model Fallback Chain
+ *
+ * An ordered list of models (optionally on different providers) tried in turn,
+ * with a circuit breaker per target so a model that keeps failing is skipped
+ * until it has had time to recover.
+ */
+
+import { LLMErrorKind, LLMProviderError, LLMProviderName, ModelTarget } from './types';
+
+const PROVIDER_NAMES: LLMProviderName[] = ['openai', 'local', 'fake'];
+
+// Failures that say something about the target's health rather than the request
+const CIRCUIT_FAILURE_KINDS: LLMErrorKind[] = ['rate_limit', 'timeout', 'server', 'network'];
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long an open circuit rejects requests before letting one through
+  cooldownMs: number;
+}
+
+export interface CircuitStatus {
+  target: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastErrorKind?: LLMErrorKind;
+  // When an open circuit will let the next request through
+  retryAt?: string;
+}
+
+/**
+ * Classify a provider error so the chain knows whether the target is unhealthy
+ */
+export function classifyLLMError(error: unknown): LLMErrorKind {
+  if (error instanceof LLMProviderError) {
+    if (error.isTimeout) return 'timeout';
+    if (error.status === 429) return 'rate_limit';
+    if (error.status === 401 || error.status === 403) return 'auth';
+    if (error.status !== undefined && error.status >= 500) return 'server';
+    if (error.status !== undefined && error.status >= 400) return 'bad_request';
+    // No status means the request never got a usable HTTP response
+    return 'network';
+  }
+
+  if (error instanceof Error && (error.name === 'AbortError' || error.message.includes('timed out'))) {
+    return 'timeout';
+  }
+
+  return 'unknown';
+}
+
+/**
+ * Tracks the health of one target
+ *
+ * Closed: requests flow. Open: requests are rejected until the cooldown passes.
+ * Half-open: one trial request is let through; success closes the circuit and
+ * failure opens it again.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private lastErrorKind?: LLMErrorKind;
+
+  constructor(
+    readonly target: string,
+    private options: CircuitBreakerOptions
+  ) {}
+
+  /**
+   * Whether a request may be sent to the target now
+   */
+  allowRequest(now = Date.now()): boolean {
+    if (this.state === 'open' && now - this.openedAt >= this.options.cooldownMs) {
+      console.log(`Circuit for ${this.target} is half-open, allowing a trial request`);
+      this.state = 'half-open';
+      return true;
+    }
+    return this.state !== 'open';
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      console.log(`Circuit for ${this.target} closed`);
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.lastErrorKind = undefined;
+  }
+
+  recordFailure(kind: LLMErrorKind, now = Date.now()): void {
+    this.lastErrorKind = kind;
+
+    // Rejected requests (bad input, unexpected errors) do not mean the target is down
+    if (kind !== 'auth' && !CIRCUIT_FAILURE_KINDS.includes(kind)) {
+      return;
+    }
+
+    this.consecutiveFailures++;
+
+    // Bad credentials will not fix themselves, so open straight away
+    if (kind === 'auth' || this.state === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      if (this.state !== 'open') {
+        console.warn(`Circuit for ${this.target} opened after ${this.consecutiveFailures} failures (last: ${kind})`);
+      }
+      this.state = 'open';
+      this.openedAt = now;
+    }
+  }
+
+  getStatus(): CircuitStatus {
+    return {
+      target: this.target,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      lastErrorKind: this.lastErrorKind,
+      retryAt: this.state === 'open'
+        ? new Date(this.openedAt + this.options.cooldownMs).toISOString()
+        : undefined
+    };
+  }
+}
+
+/**
+ * Format a target as "provider:model"
+ */
+export function formatModelTarget(target: ModelTarget): string {
+  return `${target.provider}:${target.model}`;
+}
+
+/**
+ * Parse a chain such as "openai:gpt-4.1-mini, openai:gpt-4o-mini, local:llama3.1"
+ * Entries without a provider prefix use the default provider
+ */
+export function parseModelChain(spec: string, defaultProvider: LLMProviderName): ModelTarget[] {
+  return spec
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.indexOf(':');
+      const prefix = separator > 0 ? entry.substring(0, separator).toLowerCase() : '';
+
+      if (PROVIDER_NAMES.includes(prefix as LLMProviderName)) {
+        return { provider: prefix as LLMProviderName, model: entry.substring(separator + 1).trim() };
+      }
+      return { provider: defaultProvider, model: entry };
+    })
+    .filter(target => target.model.length > 0);
+}
+
+// One breaker per target, shared across requests and, through globalThis, with
+// /api/check-env, which reports their state
+const breakerStore = globalThis as typeof globalThis & { __circuitBreakers?: Map<string, CircuitBreaker> };
+const circuitBreakers: Map<string, CircuitBreaker> = breakerStore.__circuitBreakers
+  || (breakerStore.__circuitBreakers = new Map());
+
+/**
+ * Get the circuit breaker for a target, creating it on first use
+ */
+export function getCircuitBreaker(target: ModelTarget, options: CircuitBreakerOptions): CircuitBreaker {
+  const key = formatModelTarget(target);
+  let breaker = circuitBreakers.get(key);
+  if (!breaker) {
+    breaker = new CircuitBreaker(key, options);
+    circuitBreakers.set(key, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Get the state of every circuit that has seen a request
+ */
+export function getCircuitStatuses(): CircuitStatus[] {
+  return Array.from(circuitBreakers.values()).map(breaker => breaker.getStatus());
+}
+
+/**
+ * Forget all circuit state
+ */
+export function resetCircuitBreakers(): void {
+  circuitBreakers.clear();
+}
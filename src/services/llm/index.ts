@@ -0,0 +1,184 @@
+/**
+ * LLM Provider Service
+ *
+ * This is the main entry point for the LLM provider abstraction.
+ * It selects the chat completion backend from the environment configuration.
+ */
+
+import { env } from '@/config/env';
+import { PIIRedactor } from '@/services/redaction';
+import { recordUsage, UsageContext } from '@/services/usage';
+import { estimateMessageTokens, estimateTokens } from '../openai/budget';
+import { ChatMessage } from '../openai/types';
+import { LLMCompletionResult, LLMProvider, LLMProviderName, ModelTarget } from './types';
+import { OpenAICompatibleProvider, OpenAIProvider } from './openai';
+import { FakeProvider } from './fake';
+import { CircuitBreaker, classifyLLMError, formatModelTarget, getCircuitBreaker, parseModelChain } from './fallback';
+
+export * from './types';
+export * from './fallback';
+export { OpenAIProvider, OpenAICompatibleProvider } from './openai';
+export { FakeProvider, getMockResponse } from './fake';
+
+// Providers are stateless, so one instance of each is shared
+const providerCache: Map<LLMProviderName, LLMProvider> = new Map();
+
+/**
+ * Create a provider instance from the environment configuration
+ */
+export function createLLMProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAIProvider({
+        apiUrl: env.OPENAI_API_URL,
+        apiKey: env.OPENAI_API_KEY
+      });
+    case 'local':
+      return new OpenAICompatibleProvider({
+        apiUrl: env.LOCAL_LLM_URL,
+        apiKey: env.LOCAL_LLM_API_KEY,
+        model: env.LOCAL_LLM_MODEL
+      });
+    case 'fake':
+      return new FakeProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+}
+
+function getCachedProvider(name: LLMProviderName): LLMProvider {
+  let provider = providerCache.get(name);
+  if (!provider) {
+    provider = createLLMProvider(name);
+    providerCache.set(name, provider);
+  }
+  return provider;
+}
+
+/**
+ * Get the provider to use for chat completions
+ * @param name Provider to use instead of the configured LLM_PROVIDER
+ * @returns The provider, or the fake provider if the requested one is not configured
+ */
+export function getLLMProvider(name: LLMProviderName = env.LLM_PROVIDER): LLMProvider {
+  const provider = getCachedProvider(name);
+
+  if (!provider.isConfigured()) {
+    console.log(`LLM provider "${name}" is not configured - using mock responses for development`);
+    return getLLMProvider('fake');
+  }
+
+  return provider;
+}
+
+/**
+ * Get the ordered list of models to try for a chat request
+ *
+ * Comes from MODEL_CHAIN, or PRIMARY_MODEL then FALLBACK_MODEL on the configured
+ * provider. With web search on, WEB_BROWSING_MODEL goes first. Targets on
+ * providers that are not configured are left out; if none remain, the fake
+ * provider serves the first model.
+ * @param options.provider Restrict the chain to this provider's models
+ * @param options.preferred A model the student picked; tried first, with the chain as its fallbacks
+ */
+export function getModelChain(
+  options: { provider?: LLMProviderName; webSearch?: boolean; preferred?: ModelTarget } = {}
+): ModelTarget[] {
+  const defaultProvider = options.provider || env.LLM_PROVIDER;
+  let chain = parseModelChain(env.MODEL_CHAIN || `${env.PRIMARY_MODEL},${env.FALLBACK_MODEL}`, defaultProvider);
+
+  if (options.provider) {
+    chain = chain.map(target => ({ ...target, provider: options.provider! }));
+  }
+  if (options.webSearch && env.WEB_BROWSING_MODEL) {
+    chain = [{ provider: defaultProvider, model: env.WEB_BROWSING_MODEL }, ...chain];
+  }
+  if (options.preferred) {
+    chain = [options.preferred, ...chain];
+  }
+
+  // Providers that pin a model (local) would otherwise show up once per entry
+  const seen = new Set<string>();
+  const configured = chain.filter(target => {
+    const provider = getCachedProvider(target.provider);
+    const key = formatModelTarget({ provider: target.provider, model: provider.resolveModel(target.model) });
+    if (!provider.isConfigured() || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+
+  if (configured.length === 0) {
+    console.log('No configured LLM provider in the model chain - using mock responses for development');
+    return [{ provider: 'fake', model: chain[0]?.model || env.PRIMARY_MODEL }];
+  }
+
+  return configured;
+}
+
+/**
+ * Get the circuit breaker guarding a target, using the configured thresholds
+ */
+export function getTargetCircuitBreaker(target: ModelTarget): CircuitBreaker {
+  return getCircuitBreaker(target, {
+    failureThreshold: env.CIRCUIT_BREAKER_THRESHOLD,
+    cooldownMs: env.CIRCUIT_BREAKER_COOLDOWN_MS
+  });
+}
+
+/**
+ * Send a short request made alongside a chat answer, such as a summary, to the first healthy model of the chain
+ * Student details are redacted the same way as for answers, the outcome counts towards the
+ * target's circuit breaker, and the call is recorded in the usage ledger.
+ * @returns The reply, trimmed
+ */
+export async function completeSideRequest(
+  systemPrompt: string,
+  content: string,
+  maxTokens: number,
+  usageContext: UsageContext
+): Promise<string> {
+  const target = getModelChain().find(t => getTargetCircuitBreaker(t).allowRequest());
+  if (!target) {
+    throw new Error('No model is available');
+  }
+  const breaker = getTargetCircuitBreaker(target);
+
+  const redactor = env.PII_REDACTION_ENABLED ? new PIIRedactor() : null;
+  redactor?.learnNames(content);
+
+  const provider = getLLMProvider(target.provider);
+  const model = provider.resolveModel(target.model);
+  const messages: ChatMessage[] = [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: redactor ? redactor.redact(content)! : content }
+  ];
+
+  let completion: LLMCompletionResult;
+  try {
+    completion = await provider.complete({
+      model,
+      messages,
+      temperature: 0.2,
+      maxTokens,
+      maxRetries: 1
+    });
+  } catch (error) {
+    breaker.recordFailure(classifyLLMError(error));
+    throw error;
+  }
+  breaker.recordSuccess();
+
+  // Some local runtimes do not report usage, so count it ourselves
+  await recordUsage({
+    ...usageContext,
+    provider: provider.name,
+    model: completion.model || model,
+    promptTokens: completion.usage?.promptTokens ?? estimateMessageTokens(messages),
+    completionTokens: completion.usage?.completionTokens ?? estimateTokens(completion.content),
+    tokensEstimated: !completion.usage
+  });
+
+  return (redactor ? redactor.restore(completion.content) : completion.content)?.trim() || '';
+}
@@ -0,0 +1,327 @@
+/**
+ * OpenAI Chat Completions Providers
+ *
+ * Speaks the OpenAI chat completions wire format. The same format is served by
+ * most local runtimes (Ollama, LM Studio, vLLM, llama.cpp), so the local
+ * provider shares this implementation with a different URL and model.
+ */
+
+import fetch from 'node-fetch';
+import { ChatCompletionResponse, ToolCall } from '../openai/types';
+import {
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  LLMProvider,
+  LLMProviderError,
+  LLMProviderName,
+  LLMUsage
+} from './types';
+
+// Configuration for timeout and retry
+const FETCH_TIMEOUT_MS = 60000; // 60 seconds timeout
+const MAX_RETRIES = 3;
+const INITIAL_RETRY_DELAY = 1000; // 1 second
+const MAX_RETRY_DELAY = 10000; // 10 seconds
+
+// Placeholder key set by the env module when no real key is configured
+const PLACEHOLDER_API_KEY = 'invalid-key-use-mock-responses';
+
+export interface OpenAICompatibleConfig {
+  apiUrl: string;
+  apiKey?: string;
+  // When set, every request is sent to this model regardless of what was asked for
+  model?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Fetch with timeout and retry logic
+ * @param url The URL to fetch
+ * @param options Fetch options
+ * @param timeoutMs Timeout in milliseconds
+ * @param maxRetries Retries allowed before giving up
+ * @param retryCount Current retry count
+ * @returns The fetch response
+ */
+async function fetchWithRetry(
+  url: string,
+  options: any,
+  timeoutMs = FETCH_TIMEOUT_MS,
+  maxRetries = MAX_RETRIES,
+  retryCount = 0
+): Promise<any> {
+  // Create an AbortController to handle timeout
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    // Add the signal to the options
+    const fetchOptions = {
+      ...options,
+      signal: controller.signal
+    };
+
+    const response = await fetch(url, fetchOptions);
+    clearTimeout(timeoutId);
+
+    // If we get a rate limit or server error, retry with exponential backoff
+    if (
+      (response.status === 429 || response.status >= 500) &&
+      retryCount < maxRetries
+    ) {
+      const delay = Math.min(
+        INITIAL_RETRY_DELAY * Math.pow(2, retryCount),
+        MAX_RETRY_DELAY
+      );
+
+      console.log(`Request failed with status ${response.status}. Retrying in ${delay}ms (attempt ${retryCount + 1}/${maxRetries})...`);
+
+      await new Promise(resolve => setTimeout(resolve, delay));
+      return fetchWithRetry(url, options, timeoutMs, maxRetries, retryCount + 1);
+    }
+
+    return response;
+  } catch (error) {
+    clearTimeout(timeoutId);
+
+    // If we got an abort error due to timeout
+    if (error.name === 'AbortError') {
+      if (retryCount < maxRetries) {
+        const delay = Math.min(
+          INITIAL_RETRY_DELAY * Math.pow(2, retryCount),
+          MAX_RETRY_DELAY
+        );
+
+        console.log(`Request timed out after ${timeoutMs}ms. Retrying in ${delay}ms (attempt ${retryCount + 1}/${maxRetries})...`);
+
+        await new Promise(resolve => setTimeout(resolve, delay));
+        return fetchWithRetry(url, options, timeoutMs, maxRetries, retryCount + 1);
+      } else {
+        throw new Error(`Request timed out after ${retryCount + 1} attempts`);
+      }
+    }
+
+    // For other errors
+    throw error;
+  }
+}
+
+/**
+ * Reads a streamed chat completion (SSE) and forwards content deltas as they arrive
+ * @param response The streaming fetch response
+ * @param onDelta Callback for each content delta
+ * @returns The accumulated content, tool calls and usage
+ */
+async function readCompletionStream(
+  response: any,
+  onDelta: (content: string) => void
+): Promise<{ content: string; model?: string; toolCalls: ToolCall[]; usage?: LLMUsage; finishReason?: string }> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let content = '';
+  let model: string | undefined;
+  let usage: LLMUsage | undefined;
+  let finishReason: string | undefined;
+  const toolCalls: ToolCall[] = [];
+
+  for await (const chunk of response.body) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+
+      const data = trimmed.substring(5).trim();
+      if (data === '[DONE]') continue;
+
+      try {
+        const parsed = JSON.parse(data);
+        model = parsed.model || model;
+        usage = toUsage(parsed.usage) || usage;
+
+        const choice = parsed.choices?.[0];
+        finishReason = choice?.finish_reason || finishReason;
+
+        const delta = choice?.delta?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+
+        // Tool calls arrive in fragments keyed by their index
+        for (const fragment of choice?.delta?.tool_calls || []) {
+          const index = fragment.index ?? toolCalls.length;
+          if (!toolCalls[index]) {
+            toolCalls[index] = { id: '', type: 'function', function: { name: '', arguments: '' } };
+          }
+          const call = toolCalls[index];
+          call.id = fragment.id || call.id;
+          call.type = fragment.type || call.type;
+          call.function.name += fragment.function?.name || '';
+          call.function.arguments += fragment.function?.arguments || '';
+        }
+      } catch (e) {
+        console.warn('Skipping malformed completion stream chunk:', data.substring(0, 100));
+      }
+    }
+  }
+
+  return { content: content.trim(), model, toolCalls: toolCalls.filter(Boolean), usage, finishReason };
+}
+
+function toUsage(usage: any): LLMUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.prompt_tokens || 0,
+    completionTokens: usage.completion_tokens || 0,
+    totalTokens: usage.total_tokens || 0
+  };
+}
+
+/**
+ * Extracts a readable error message from a failed response
+ */
+async function readErrorText(response: any): Promise<string> {
+  try {
+    const errorResponse = await response.text();
+    try {
+      const errorData = JSON.parse(errorResponse);
+      return errorData.error?.message || `Error ${response.status}: ${response.statusText}`;
+    } catch (jsonError) {
+      console.error('Non-JSON error response:',
+        errorResponse.substring(0, 200) + (errorResponse.length > 200 ? '...' : ''));
+      return errorResponse;
+    }
+  } catch (textError) {
+    return `Error ${response.status}: ${response.statusText}`;
+  }
+}
+
+/**
+ * Provider for any endpoint that implements the OpenAI chat completions API
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'local';
+  protected config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.config = config;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.config.apiUrl);
+  }
+
+  resolveModel(model: string): string {
+    return this.config.model || model;
+  }
+
+  protected buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+    return headers;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    const model = this.resolveModel(request.model);
+    const stream = Boolean(request.onDelta);
+
+    const body: Record<string, any> = {
+      model,
+      messages: request.messages,
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens ?? 1000
+    };
+
+    if (request.tools && request.tools.length > 0) {
+      body.tools = request.tools;
+      body.tool_choice = request.toolChoice || 'auto';
+    }
+
+    if (stream) {
+      body.stream = true;
+      body.stream_options = { include_usage: true };
+    }
+
+    console.log(`[${this.name}] Sending chat completion request to ${this.config.apiUrl} using ${model}${stream ? ' (streaming)' : ''}`);
+
+    let response: any;
+    try {
+      response = await fetchWithRetry(this.config.apiUrl, {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: JSON.stringify(body),
+      }, this.config.timeoutMs, request.maxRetries);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new LLMProviderError(message, this.name, {
+        isTimeout: error.name === 'AbortError' || message.includes('timed out')
+      });
+    }
+
+    if (!response.ok) {
+      const errorText = await readErrorText(response);
+      console.error(`[${this.name}] API error (${response.status}):`, errorText.substring(0, 500));
+      throw new LLMProviderError(
+        `${errorText.substring(0, 200)}${errorText.length > 200 ? '...' : ''}`,
+        this.name,
+        { status: response.status }
+      );
+    }
+
+    if (stream) {
+      const streamed = await readCompletionStream(response, request.onDelta!);
+      return {
+        content: streamed.content,
+        model: streamed.model || model,
+        toolCalls: streamed.toolCalls.length > 0 ? streamed.toolCalls : undefined,
+        usage: streamed.usage,
+        finishReason: streamed.finishReason
+      };
+    }
+
+    const data = await response.json() as ChatCompletionResponse;
+
+    if (!data.choices || data.choices.length === 0 || !data.choices[0].message) {
+      console.error(`[${this.name}] Invalid response structure:`, data);
+      throw new LLMProviderError('The API response format was invalid or empty.', this.name);
+    }
+
+    const choice = data.choices[0];
+    return {
+      content: choice.message.content?.trim() || '',
+      model: data.model || model,
+      toolCalls: choice.message.tool_calls && choice.message.tool_calls.length > 0
+        ? choice.message.tool_calls
+        : undefined,
+      usage: toUsage(data.usage),
+      finishReason: choice.finish_reason
+    };
+  }
+}
+
+/**
+ * Provider for the hosted OpenAI API
+ */
+export class OpenAIProvider extends OpenAICompatibleProvider {
+  readonly name: LLMProviderName = 'openai';
+
+  isConfigured(): boolean {
+    const apiKey = this.config.apiKey;
+    return Boolean(apiKey && apiKey.startsWith('sk-') && apiKey !== PLACEHOLDER_API_KEY);
+  }
+
+  protected buildHeaders(): Record<string, string> {
+    return {
+      ...super.buildHeaders(),
+      'OpenAI-Beta': 'assistants=v1'  // Add this header for all requests to ensure latest API features
+    };
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * LLM Provider Type Definitions
+ */
+import { ChatMessage, Tool, ToolCall } from '../openai/types';
+
+// Providers that can be selected with LLM_PROVIDER
+export type LLMProviderName = 'openai' | 'local' | 'fake';
+
+// A single chat completion request, independent of any vendor's wire format
+export interface LLMCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Function tools the model may call
+  tools?: Tool[];
+  toolChoice?: 'auto' | 'none';
+  // When set, the provider streams and forwards content deltas as they arrive
+  onDelta?: (content: string) => void;
+  // Retries of the same endpoint on rate limits, server errors and timeouts
+  maxRetries?: number;
+}
+
+// Token counts reported by the provider
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// The result of a completion request
+export interface LLMCompletionResult {
+  content: string;
+  // The model that actually produced the completion
+  model: string;
+  toolCalls?: ToolCall[];
+  usage?: LLMUsage;
+  finishReason?: string;
+}
+
+// A backend that can generate chat completions
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  // Whether the provider has what it needs (keys, URLs) to serve requests
+  isConfigured(): boolean;
+  // Map a requested model name onto one this provider can serve
+  resolveModel(model: string): string;
+  // Generate a completion; throws LLMProviderError on failure
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResult>;
+}
+
+// A model on a provider, one link of the fallback chain
+export interface ModelTarget {
+  provider: LLMProviderName;
+  model: string;
+}
+
+// Why a request failed, used to decide whether a target is unhealthy
+export type LLMErrorKind =
+  | 'rate_limit'
+  | 'timeout'
+  | 'server'
+  | 'auth'
+  | 'bad_request'
+  | 'network'
+  | 'unknown';
+
+// One try of a target while walking the fallback chain
+export interface ModelAttempt extends ModelTarget {
+  outcome: 'success' | 'failed' | 'skipped';
+  errorKind?: LLMErrorKind;
+  error?: string;
+}
+
+// Error raised by providers, carrying the HTTP status when there was one
+export class LLMProviderError extends Error {
+  provider: LLMProviderName;
+  status?: number;
+  isTimeout: boolean;
+
+  constructor(
+    message: string,
+    provider: LLMProviderName,
+    options: { status?: number; isTimeout?: boolean } = {}
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+    this.provider = provider;
+    this.status = options.status;
+    this.isTimeout = options.isTimeout || false;
+  }
+}
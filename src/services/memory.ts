@@ -0,0 +1,322 @@
+/**
+ * Conversation Memory
+ *
+ * Gives the counselor continuity across long sessions and across visits.
+ * Older turns of a conversation are folded into a running summary, so the
+ * model still knows what was discussed after they stop being sent in full,
+ * and lasting facts the student mentions ("took IELTS, scored 7.5") are kept
+ * per student under data/memory, where later conversations pick them up.
+ * Students can list and delete the facts kept about them.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { env } from '@/config/env';
+import {
+  Conversation,
+  ConversationMessage,
+  ConversationSummary,
+  getConversationBranch,
+  getConversationSummary,
+  setConversationSummary
+} from '@/services/conversations';
+import { completeSideRequest } from '@/services/llm';
+import { CONVERSATION_SUMMARY_PROMPT, STUDENT_FACTS_PROMPT } from '@/services/openai/system-prompt';
+import { truncateToTokens } from '@/services/openai/budget';
+import { getThread, updateThread } from '@/services/threads';
+
+// Something lasting the student said about themselves
+export interface StudentFact {
+  id: string;
+  text: string;
+  // Conversation the student mentioned it in
+  conversationId?: string;
+  createdAt: string;
+}
+
+interface StudentMemory {
+  userId: string;
+  facts: StudentFact[];
+  updatedAt: string;
+}
+
+// Oldest facts are forgotten once a student has more than this
+const MAX_FACTS = 50;
+const MAX_FACT_LENGTH = 200;
+
+// Messages a branch may have beyond its summary before the older ones are summarized
+const SUMMARIZE_AFTER_MESSAGES = 16;
+
+// Most recent messages that are never summarized
+const KEEP_RECENT_MESSAGES = 8;
+
+// Longest excerpt of a single message given to the summarizer
+const MAX_SUMMARIZED_MESSAGE_TOKENS = 500;
+
+const SUMMARY_MAX_TOKENS = 400;
+const FACTS_MAX_TOKENS = 300;
+
+// User IDs become file names, so only plain IDs are accepted
+const USER_ID_PATTERN = /^[\w-]{1,100}$/;
+
+// Conversations whose summary is being updated, so overlapping exchanges do not summarize twice.
+// Shared through globalThis, as the conversations themselves are.
+const memoryState = globalThis as typeof globalThis & { __summarizing?: Set<string> };
+const summarizing: Set<string> = memoryState.__summarizing || (memoryState.__summarizing = new Set());
+
+const getMemoryDir = () => path.join(process.cwd(), 'data', 'memory');
+
+function getMemoryPath(userId: string): string | null {
+  return USER_ID_PATTERN.test(userId) ? path.join(getMemoryDir(), `${userId}.json`) : null;
+}
+
+function readMemory(userId: string): StudentMemory {
+  const filePath = getMemoryPath(userId);
+  if (filePath && fs.existsSync(filePath)) {
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as StudentMemory;
+    } catch (error) {
+      console.error(`Error reading memory of ${userId}:`, error);
+    }
+  }
+  return { userId, facts: [], updatedAt: new Date().toISOString() };
+}
+
+function writeMemory(memory: StudentMemory): void {
+  const filePath = getMemoryPath(memory.userId);
+  if (!filePath) {
+    throw new Error(`Invalid user ID "${memory.userId}"`);
+  }
+
+  const dir = getMemoryDir();
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  memory.updatedAt = new Date().toISOString();
+  fs.writeFileSync(filePath, JSON.stringify(memory, null, 2));
+}
+
+function normalizeFact(text: string): string {
+  return text.toLowerCase().replace(/[\s.,;:!?'"()-]+/g, ' ').trim();
+}
+
+/**
+ * Get the facts remembered about a student, oldest first
+ */
+export async function getStudentFacts(userId: string): Promise<StudentFact[]> {
+  return readMemory(userId).facts;
+}
+
+/**
+ * Remember facts about a student, skipping ones that are already known
+ * Returns the facts that were added.
+ */
+export async function addStudentFacts(
+  userId: string,
+  texts: string[],
+  conversationId?: string
+): Promise<StudentFact[]> {
+  const memory = readMemory(userId);
+  const known = new Set(memory.facts.map(fact => normalizeFact(fact.text)));
+  const added: StudentFact[] = [];
+
+  for (const text of texts) {
+    const cleaned = text.replace(/\s+/g, ' ').trim().substring(0, MAX_FACT_LENGTH);
+    const key = normalizeFact(cleaned);
+    if (!key || known.has(key)) continue;
+
+    known.add(key);
+    added.push({
+      id: `fact_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`,
+      text: cleaned,
+      conversationId,
+      createdAt: new Date().toISOString()
+    });
+  }
+
+  if (added.length > 0) {
+    memory.facts = [...memory.facts, ...added].slice(-MAX_FACTS);
+    writeMemory(memory);
+    console.log(`Remembered ${added.length} new facts about ${userId}`);
+  }
+
+  return added;
+}
+
+/**
+ * Forget one fact about a student
+ */
+export async function deleteStudentFact(userId: string, factId: string): Promise<boolean> {
+  const memory = readMemory(userId);
+  const facts = memory.facts.filter(fact => fact.id !== factId);
+  if (facts.length === memory.facts.length) {
+    return false;
+  }
+
+  memory.facts = facts;
+  writeMemory(memory);
+  return true;
+}
+
+/**
+ * Forget everything remembered about a student
+ * Returns the number of facts removed.
+ */
+export async function clearStudentFacts(userId: string): Promise<number> {
+  const filePath = getMemoryPath(userId);
+  if (!filePath || !fs.existsSync(filePath)) {
+    return 0;
+  }
+
+  const count = readMemory(userId).facts.length;
+  fs.unlinkSync(filePath);
+  return count;
+}
+
+/**
+ * The text added to the system prompt for what is remembered, or null when there is nothing
+ */
+export function formatMemoryContext(summary: string | null, facts: StudentFact[]): string | null {
+  const parts = [
+    summary ? `Summary of the earlier part of this conversation:\n${summary}` : null,
+    facts.length > 0 ? `Facts the student has shared:\n${facts.map(fact => `- ${fact.text}`).join('\n')}` : null
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join('\n\n') : null;
+}
+
+/**
+ * What the counselor remembers for the next answer on a branch
+ * @param leafId Last message of the branch; the active branch when omitted, none when null
+ */
+export async function getMemoryContext(conversation: Conversation, leafId?: string | null): Promise<string | null> {
+  if (!env.MEMORY_ENABLED) {
+    return null;
+  }
+
+  const summary = await getConversationSummary(conversation.id, leafId);
+  const facts = conversation.userId ? await getStudentFacts(conversation.userId) : [];
+  return formatMemoryContext(summary, facts);
+}
+
+/**
+ * Fold the older turns of the active branch into the conversation's summary,
+ * once enough of them have built up since the last summary
+ */
+async function summarizeOlderTurns(conversation: Conversation): Promise<void> {
+  const branch = getConversationBranch(conversation);
+  // A summary written for another branch is replaced by one for this branch
+  const summarizedIndex = conversation.summary
+    ? branch.findIndex(m => m.id === conversation.summary!.throughMessageId)
+    : -1;
+  const previousSummary = summarizedIndex >= 0 ? conversation.summary!.content : null;
+  const unsummarized = branch.slice(summarizedIndex + 1);
+
+  if (unsummarized.length <= SUMMARIZE_AFTER_MESSAGES) {
+    return;
+  }
+
+  // The turns left in full start with a student message, like the history sent to the model
+  let keepFrom = unsummarized.length - KEEP_RECENT_MESSAGES;
+  while (keepFrom < unsummarized.length && unsummarized[keepFrom].role !== 'user') {
+    keepFrom++;
+  }
+  const turns = unsummarized.slice(0, keepFrom);
+  if (turns.length === 0) {
+    return;
+  }
+
+  const transcript = turns
+    .map(m => `${m.role === 'user' ? 'Student' : 'Counselor'}: ${truncateToTokens(m.content, MAX_SUMMARIZED_MESSAGE_TOKENS)}`)
+    .join('\n\n');
+  const content = await completeSideRequest(
+    CONVERSATION_SUMMARY_PROMPT,
+    `Current summary:\n${previousSummary || '(none)'}\n\nNew turns:\n${transcript}`,
+    SUMMARY_MAX_TOKENS,
+    { feature: 'memory', userId: conversation.userId }
+  );
+  if (!content) {
+    return;
+  }
+
+  const summary: ConversationSummary = {
+    content,
+    throughMessageId: turns[turns.length - 1].id,
+    updatedAt: new Date().toISOString()
+  };
+  await setConversationSummary(conversation.id, summary);
+  console.log(`Summarized ${turns.length} messages of conversation ${conversation.id}`);
+
+  // Saved with the thread so a resumed conversation starts with it
+  const thread = conversation.userId ? await getThread(conversation.id) : null;
+  if (thread && thread.userId === conversation.userId) {
+    await updateThread(thread.id, { summary });
+  }
+}
+
+/**
+ * Read the facts out of the model's JSON reply, tolerating text around it
+ */
+function parseFacts(reply: string): string[] {
+  const json = reply.match(/\{[\s\S]*\}/);
+  if (!json) {
+    return [];
+  }
+
+  try {
+    const { facts } = JSON.parse(json[0]);
+    return Array.isArray(facts) ? facts.filter((fact): fact is string => typeof fact === 'string') : [];
+  } catch (error) {
+    console.warn('Could not parse the facts returned by the model:', reply.substring(0, 200));
+    return [];
+  }
+}
+
+/**
+ * Remember the lasting facts the student stated in a question
+ */
+async function rememberStudentFacts(conversation: Conversation, question: ConversationMessage): Promise<void> {
+  const userId = conversation.userId!;
+  const known = await getStudentFacts(userId);
+  const reply = await completeSideRequest(
+    STUDENT_FACTS_PROMPT,
+    `Known facts:\n${known.map(fact => `- ${fact.text}`).join('\n') || '(none)'}\n\nLatest message:\n${question.content}`,
+    FACTS_MAX_TOKENS,
+    { feature: 'memory', userId }
+  );
+
+  await addStudentFacts(userId, parseFacts(reply), conversation.id);
+}
+
+/**
+ * Update what is remembered after an exchange has been stored
+ * Runs in the background of the request; failures are logged and never reach the student.
+ * @param question The student's new message; null when an answer was regenerated
+ */
+export async function updateConversationMemory(
+  conversation: Conversation,
+  question: ConversationMessage | null
+): Promise<void> {
+  if (!env.MEMORY_ENABLED) {
+    return;
+  }
+
+  if (conversation.userId && question) {
+    try {
+      await rememberStudentFacts(conversation, question);
+    } catch (error) {
+      console.error('Error remembering facts about the student:', error);
+    }
+  }
+
+  if (!summarizing.has(conversation.id)) {
+    summarizing.add(conversation.id);
+    try {
+      await summarizeOlderTurns(conversation);
+    } catch (error) {
+      console.error('Error summarizing the conversation:', error);
+    } finally {
+      summarizing.delete(conversation.id);
+    }
+  }
+}
@@ -0,0 +1,442 @@
+/**
+ * Prompt Token Budget
+ *
+ * Fits the system prompt, student profile, remembered context, documents,
+ * knowledge base excerpts and conversation history into the model's context window, leaving room for
+ * the answer. Sections that do not fit are truncated or summarized, and every
+ * cut is reported so callers can surface it.
+ */
+
+import { ChatMessage, PromptBudgetReport, PromptSectionUsage } from './types';
+import { SourceReference } from '../langchain/types';
+import { DEFAULT_LANGUAGE, Language, translate, translatePlural } from '@/lib/i18n';
+
+// Context window sizes in tokens for the models the app knows about
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'gpt-4.1': 1047576,
+  'gpt-4.1-mini': 1047576,
+  'gpt-4.1-nano': 1047576,
+  'gpt-4o': 128000,
+  'gpt-4o-mini': 128000,
+  'gpt-4-turbo': 128000,
+  'gpt-4-0125-preview': 128000,
+  'gpt-4': 8192,
+  'gpt-3.5-turbo': 16385
+};
+
+// Used for models that are not listed above
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Upper bounds per section for a 16k context window, so it is not filled with one long document
+const SECTION_TOKEN_CAPS = {
+  profile: 2000,
+  memory: 1000,
+  document: 3000,
+  knowledgeBase: 3000,
+  history: 4000
+};
+
+// Context window the section caps above are tuned for
+const SECTION_CAPS_WINDOW = 16384;
+
+// Caps grow with the context window up to this factor; past it, a longer prompt adds more cost than it helps
+const MAX_SECTION_CAP_SCALE = 8;
+
+// Share of the remaining space each section may claim before unused space is redistributed
+const SECTION_SHARES = {
+  profile: 0.15,
+  memory: 0.1,
+  document: 0.3,
+  knowledgeBase: 0.25,
+  history: 0.2
+};
+
+// Headings and instructions wrapped around each section by createSystemPrompt
+const SECTION_OVERHEAD_TOKENS = 80;
+
+// Per-message framing tokens in the chat format
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Limit for the summary that replaces dropped conversation turns
+const HISTORY_SUMMARY_MAX_TOKENS = 300;
+
+export interface PromptBudgetInput {
+  model: string;
+  // Overrides the known context window, e.g. for locally served models
+  contextWindow?: number;
+  // The system prompt before any student context is added
+  basePrompt: string;
+  userMessage: string;
+  profileContext?: string | null;
+  memoryContext?: string | null;
+  pdfContent?: string | null;
+  knowledgeSources?: SourceReference[] | null;
+  history?: ChatMessage[];
+  // Tokens kept free for the answer
+  maxOutputTokens: number;
+  // Further tokens kept free, e.g. for tool definitions and results
+  reservedTokens?: number;
+  // Language of the notes about what was cut
+  language?: Language;
+}
+
+export interface FittedPrompt {
+  userMessage: string;
+  profileContext: string | null;
+  memoryContext: string | null;
+  pdfContent: string | null;
+  knowledgeSources: SourceReference[];
+  history: ChatMessage[];
+  report: PromptBudgetReport;
+}
+
+/**
+ * Estimate the number of tokens in a piece of text
+ *
+ * Uses roughly four characters per token for English prose, counting each
+ * non-ASCII character as a token of its own since those rarely share one.
+ */
+export function estimateTokens(text: string | null | undefined): number {
+  if (!text) {
+    return 0;
+  }
+
+  let asciiChars = 0;
+  let otherChars = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) < 128) {
+      asciiChars++;
+    } else {
+      otherChars++;
+    }
+  }
+
+  return Math.ceil(asciiChars / 4) + otherChars;
+}
+
+/**
+ * Estimate the number of tokens a list of chat messages takes up
+ */
+export function estimateMessageTokens(messages: ChatMessage[]): number {
+  return messages.reduce((sum, message) => sum + MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content), 0);
+}
+
+/**
+ * Get the context window of a model, falling back to a conservative default
+ */
+export function getContextWindow(model: string): number {
+  if (MODEL_CONTEXT_WINDOWS[model]) {
+    return MODEL_CONTEXT_WINDOWS[model];
+  }
+
+  // Dated snapshots such as gpt-4o-2024-08-06 share the window of their base model
+  const baseModel = Object.keys(MODEL_CONTEXT_WINDOWS)
+    .sort((a, b) => b.length - a.length)
+    .find(name => model.startsWith(`${name}-`));
+
+  return baseModel ? MODEL_CONTEXT_WINDOWS[baseModel] : DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Cut text down to roughly the given number of tokens
+ * Keeps the beginning and the end, which usually carry the most context in transcripts and resumes
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) {
+    return text;
+  }
+  if (maxTokens <= 0) {
+    return '';
+  }
+
+  // Scale by the text's own characters-per-token ratio so non-ASCII text is cut correctly
+  const charsPerToken = text.length / estimateTokens(text);
+  const keepChars = Math.max(0, Math.floor(maxTokens * charsPerToken) - 40);
+  const headChars = Math.ceil(keepChars * 0.75);
+  const tailChars = keepChars - headChars;
+  const omittedTokens = estimateTokens(text.substring(headChars, text.length - tailChars));
+
+  return `${text.substring(0, headChars)}\n\n[... about ${omittedTokens} tokens omitted ...]\n\n${text.substring(text.length - tailChars)}`.trimEnd();
+}
+
+/**
+ * Summarize conversation turns that no longer fit, so the model keeps the thread
+ * The summary lists the student's earlier questions rather than calling the model again
+ */
+function summarizeDroppedHistory(messages: ChatMessage[], maxTokens: number): string {
+  const questions = messages
+    .filter(m => m.role === 'user' && m.content)
+    .map(m => {
+      const content = m.content!.replace(/\s+/g, ' ').trim();
+      return `- ${content.length > 160 ? content.substring(0, 160) + '...' : content}`;
+    });
+
+  const summary = `[Summary of ${messages.length} earlier messages that were left out to save space. The student previously asked about:\n${questions.join('\n')}]`;
+  return truncateToTokens(summary, maxTokens);
+}
+
+/**
+ * Keep the most recent turns that fit, replacing the rest with a short summary
+ */
+function fitHistory(history: ChatMessage[], maxTokens: number): { messages: ChatMessage[]; droppedCount: number } {
+  if (estimateMessageTokens(history) <= maxTokens) {
+    return { messages: history, droppedCount: 0 };
+  }
+
+  const summaryBudget = Math.min(HISTORY_SUMMARY_MAX_TOKENS, Math.floor(maxTokens / 4));
+  let remaining = maxTokens - summaryBudget - MESSAGE_OVERHEAD_TOKENS;
+  let firstKept = history.length;
+
+  while (firstKept > 0) {
+    const cost = estimateMessageTokens([history[firstKept - 1]]);
+    if (cost > remaining) break;
+    remaining -= cost;
+    firstKept--;
+  }
+
+  // Start on a student turn so the kept history does not open with an orphaned answer
+  while (firstKept < history.length && history[firstKept].role !== 'user') {
+    firstKept++;
+  }
+
+  const dropped = history.slice(0, firstKept);
+  const kept = history.slice(firstKept);
+  const summary = summaryBudget > 0 ? summarizeDroppedHistory(dropped, summaryBudget) : '';
+
+  return {
+    messages: summary ? [{ role: 'system', content: summary }, ...kept] : kept,
+    droppedCount: dropped.length
+  };
+}
+
+/**
+ * Keep the highest-scoring excerpts that fit, shortening the last one if needed
+ */
+function fitKnowledgeSources(sources: SourceReference[], maxTokens: number): SourceReference[] {
+  const ranked = [...sources].sort((a, b) => b.score - a.score);
+  const kept: SourceReference[] = [];
+  let remaining = maxTokens;
+
+  for (const source of ranked) {
+    // Label and location line added by createSystemPrompt
+    const overhead = estimateTokens(`[${source.id}] ${source.filename}, page 00:\n""""""`) + 2;
+    const cost = overhead + estimateTokens(source.excerpt);
+
+    if (cost <= remaining) {
+      kept.push(source);
+      remaining -= cost;
+    } else if (remaining - overhead >= 50) {
+      kept.push({ ...source, excerpt: truncateToTokens(source.excerpt, remaining - overhead) });
+      break;
+    } else {
+      break;
+    }
+  }
+
+  // Restore the original order so labels still read S1, S2, ...
+  return sources
+    .map(source => kept.find(k => k.id === source.id))
+    .filter((source): source is SourceReference => source !== undefined);
+}
+
+function knowledgeSourceTokens(sources: SourceReference[]): number {
+  return sources.reduce((sum, source) => sum + estimateTokens(source.excerpt) + 20, 0);
+}
+
+/**
+ * Allocate the space left after the fixed parts of the prompt between the sections
+ *
+ * Each section first gets up to its share; space a section does not need is then
+ * handed to the others in priority order (profile, memory, knowledge base, document, history).
+ */
+function allocate(
+  available: number,
+  needs: Record<keyof typeof SECTION_SHARES, number>,
+  caps: Record<keyof typeof SECTION_SHARES, number>
+): Record<keyof typeof SECTION_SHARES, number> {
+  const order: (keyof typeof SECTION_SHARES)[] = ['profile', 'memory', 'knowledgeBase', 'document', 'history'];
+  const wanted = { ...needs };
+  const granted = { profile: 0, memory: 0, document: 0, knowledgeBase: 0, history: 0 };
+
+  for (const section of order) {
+    wanted[section] = Math.min(wanted[section], caps[section]);
+    granted[section] = Math.min(wanted[section], Math.floor(available * SECTION_SHARES[section]));
+  }
+
+  let leftover = available - order.reduce((sum, section) => sum + granted[section], 0);
+  for (const section of order) {
+    const extra = Math.min(wanted[section] - granted[section], leftover);
+    if (extra > 0) {
+      granted[section] += extra;
+      leftover -= extra;
+    }
+  }
+
+  return granted;
+}
+
+/**
+ * Get the upper bound of each section for a context window
+ * Caps scale with the window, so large models get longer documents and history,
+ * but never drop below the caps for a 16k window.
+ */
+function getSectionCaps(contextWindow: number): Record<keyof typeof SECTION_SHARES, number> {
+  const scale = Math.min(MAX_SECTION_CAP_SCALE, Math.max(1, contextWindow / SECTION_CAPS_WINDOW));
+  const caps = { ...SECTION_TOKEN_CAPS };
+  for (const section of Object.keys(caps) as (keyof typeof SECTION_SHARES)[]) {
+    caps[section] = Math.floor(SECTION_TOKEN_CAPS[section] * scale);
+  }
+  return caps;
+}
+
+/**
+ * Fit the student's context into the model's context window
+ * @returns The sections to send, trimmed where needed, and a report of what was cut
+ */
+export function fitPromptToBudget(input: PromptBudgetInput): FittedPrompt {
+  const contextWindow = input.contextWindow || getContextWindow(input.model);
+  const language = input.language || DEFAULT_LANGUAGE;
+  const reservedTokens = input.maxOutputTokens + (input.reservedTokens || 0);
+  const sections: PromptSectionUsage[] = [];
+  const dropped: string[] = [];
+
+  const baseTokens = estimateTokens(input.basePrompt) + MESSAGE_OVERHEAD_TOKENS;
+  sections.push({ section: 'systemPrompt', requestedTokens: baseTokens, usedTokens: baseTokens, truncated: false });
+
+  // The question itself always goes in, shortened only if it cannot fit on its own
+  let userMessage = input.userMessage;
+  const userTokens = estimateTokens(userMessage) + MESSAGE_OVERHEAD_TOKENS;
+  const maxUserTokens = Math.max(0, contextWindow - reservedTokens - baseTokens);
+  if (userTokens > maxUserTokens) {
+    userMessage = truncateToTokens(userMessage, maxUserTokens - MESSAGE_OVERHEAD_TOKENS);
+    dropped.push(translate(language, 'budget.messageShortened'));
+  }
+  const usedUserTokens = estimateTokens(userMessage) + MESSAGE_OVERHEAD_TOKENS;
+  sections.push({
+    section: 'userMessage',
+    requestedTokens: userTokens,
+    usedTokens: usedUserTokens,
+    truncated: userMessage !== input.userMessage
+  });
+
+  const profileContext = input.profileContext || '';
+  const memoryContext = input.memoryContext || '';
+  const pdfContent = input.pdfContent || '';
+  const knowledgeSources = input.knowledgeSources || [];
+  const history = input.history || [];
+
+  const needs = {
+    profile: profileContext ? estimateTokens(profileContext) + SECTION_OVERHEAD_TOKENS : 0,
+    memory: memoryContext ? estimateTokens(memoryContext) + SECTION_OVERHEAD_TOKENS : 0,
+    document: pdfContent ? estimateTokens(pdfContent) + SECTION_OVERHEAD_TOKENS : 0,
+    knowledgeBase: knowledgeSources.length > 0 ? knowledgeSourceTokens(knowledgeSources) + SECTION_OVERHEAD_TOKENS : 0,
+    history: estimateMessageTokens(history)
+  };
+
+  const available = Math.max(0, contextWindow - reservedTokens - baseTokens - usedUserTokens);
+  const granted = allocate(available, needs, getSectionCaps(contextWindow));
+
+  // Sections too small to be useful are dropped instead of sent as fragments
+  const fitText = (text: string, grant: number) =>
+    grant - SECTION_OVERHEAD_TOKENS >= Math.min(50, estimateTokens(text))
+      ? truncateToTokens(text, grant - SECTION_OVERHEAD_TOKENS)
+      : '';
+
+  const fittedProfile = profileContext ? fitText(profileContext, granted.profile) : '';
+  if (profileContext) {
+    const usedTokens = fittedProfile ? estimateTokens(fittedProfile) + SECTION_OVERHEAD_TOKENS : 0;
+    const truncated = fittedProfile !== profileContext;
+    sections.push({ section: 'profile', requestedTokens: needs.profile, usedTokens, truncated });
+    if (truncated) {
+      dropped.push(translate(language, fittedProfile ? 'budget.profileShortened' : 'budget.profileOmitted'));
+    }
+  }
+
+  const fittedMemory = memoryContext ? fitText(memoryContext, granted.memory) : '';
+  if (memoryContext) {
+    const usedTokens = fittedMemory ? estimateTokens(fittedMemory) + SECTION_OVERHEAD_TOKENS : 0;
+    const truncated = fittedMemory !== memoryContext;
+    sections.push({ section: 'memory', requestedTokens: needs.memory, usedTokens, truncated });
+    if (truncated) {
+      dropped.push(translate(language, fittedMemory ? 'budget.memoryShortened' : 'budget.memoryOmitted'));
+    }
+  }
+
+  const fittedPdf = pdfContent ? fitText(pdfContent, granted.document) : '';
+  if (pdfContent) {
+    const usedTokens = fittedPdf ? estimateTokens(fittedPdf) + SECTION_OVERHEAD_TOKENS : 0;
+    const truncated = fittedPdf !== pdfContent;
+    const note = truncated
+      ? `kept about ${usedTokens} of ${needs.document} tokens`
+      : undefined;
+    sections.push({ section: 'document', requestedTokens: needs.document, usedTokens, truncated, note });
+    if (truncated) {
+      dropped.push(fittedPdf
+        ? translate(language, 'budget.documentShortened', { used: usedTokens, requested: needs.document })
+        : translate(language, 'budget.documentOmitted'));
+    }
+  }
+
+  const fittedSources = knowledgeSources.length > 0
+    ? fitKnowledgeSources(knowledgeSources, granted.knowledgeBase - SECTION_OVERHEAD_TOKENS)
+    : [];
+  if (knowledgeSources.length > 0) {
+    const shortened = fittedSources.some(source => source.excerpt !== knowledgeSources.find(s => s.id === source.id)?.excerpt);
+    const truncated = shortened || fittedSources.length < knowledgeSources.length;
+    const usedTokens = fittedSources.length > 0 ? knowledgeSourceTokens(fittedSources) + SECTION_OVERHEAD_TOKENS : 0;
+    const note = truncated
+      ? `kept ${fittedSources.length} of ${knowledgeSources.length} excerpts`
+      : undefined;
+    sections.push({ section: 'knowledgeBase', requestedTokens: needs.knowledgeBase, usedTokens, truncated, note });
+    if (fittedSources.length < knowledgeSources.length) {
+      dropped.push(translatePlural(language, 'budget.sourcesOmitted', knowledgeSources.length - fittedSources.length, {
+        total: knowledgeSources.length
+      }));
+    } else if (shortened) {
+      dropped.push(translate(language, 'budget.sourceShortened'));
+    }
+  }
+
+  const fittedHistory = history.length > 0
+    ? fitHistory(history, granted.history)
+    : { messages: [], droppedCount: 0 };
+  if (history.length > 0) {
+    const truncated = fittedHistory.droppedCount > 0;
+    const note = truncated
+      ? `summarized ${fittedHistory.droppedCount} of ${history.length} earlier messages`
+      : undefined;
+    sections.push({
+      section: 'history',
+      requestedTokens: needs.history,
+      usedTokens: estimateMessageTokens(fittedHistory.messages),
+      truncated,
+      note
+    });
+    if (truncated) {
+      dropped.push(translatePlural(language, 'budget.historySummarized', fittedHistory.droppedCount));
+    }
+  }
+
+  const promptTokens = sections.reduce((sum, section) => sum + section.usedTokens, 0);
+
+  if (dropped.length > 0) {
+    console.log(`Prompt budget for ${input.model} (${contextWindow} tokens): ${dropped.join('; ')}`);
+  }
+
+  return {
+    userMessage,
+    profileContext: fittedProfile || null,
+    memoryContext: fittedMemory || null,
+    pdfContent: fittedPdf || null,
+    knowledgeSources: fittedSources,
+    history: fittedHistory.messages,
+    report: {
+      model: input.model,
+      contextWindow,
+      reservedTokens,
+      promptTokens,
+      sections,
+      dropped
+    }
+  };
+}
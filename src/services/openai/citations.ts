@@ -0,0 +1,97 @@
+/**
+ * Citations
+ *
+ * Maps the labels the model cites in its answer - [W1] for web results, [S1]
+ * for knowledge base excerpts and [P] for the student profile - to the sources
+ * behind them. Labels that point to a source the model was never given are
+ * removed from the answer and reported.
+ */
+
+import { SourceReference, WebSearchResult } from '../langchain/types';
+import { Citation, CitationSource } from './types';
+
+// The label the model is asked to cite the student profile with
+export const PROFILE_CITATION_ID = 'P';
+
+// One or more labels in a single pair of brackets, e.g. "[S1]" or "[W1, S2]"
+const CITATION_GROUP_PATTERN = /\[((?:[WS]\d{1,3}|P)(?:\s*[,;]\s*(?:[WS]\d{1,3}|P))*)\]/g;
+const LEADING_SPACE_GROUP_PATTERN = new RegExp(`( ?)${CITATION_GROUP_PATTERN.source}`, 'g');
+
+export interface CitationSources {
+  // Numbered in the order they were given to the model: W1, W2, ...
+  webSearchResults?: WebSearchResult[];
+  knowledgeSources?: SourceReference[];
+  // Whether the prompt included the student's profile
+  hasProfile?: boolean;
+}
+
+export interface CitationResult {
+  // The answer with invalid labels removed
+  content: string;
+  // One entry per cited source, in order of first appearance
+  citations: Citation[];
+  // Labels that did not match any source, e.g. ["S7"]
+  invalidCitations: string[];
+}
+
+/**
+ * Label for the web result at a position in the results given to the model
+ */
+export function webCitationId(index: number): string {
+  return `W${index + 1}`;
+}
+
+function findSource(id: string, sources: CitationSources): CitationSource | null {
+  if (id === PROFILE_CITATION_ID) {
+    return sources.hasProfile ? { type: 'profile' } : null;
+  }
+
+  if (id.startsWith('W')) {
+    const result = sources.webSearchResults?.[parseInt(id.substring(1), 10) - 1];
+    return result ? { type: 'web', result } : null;
+  }
+
+  const source = sources.knowledgeSources?.find(s => s.id === id);
+  return source ? { type: 'knowledge_base', source } : null;
+}
+
+/**
+ * Resolve the citation labels in an answer to their sources
+ */
+export function extractCitations(content: string, sources: CitationSources): CitationResult {
+  const invalid = new Set<string>();
+
+  // Drop labels without a source, and the brackets (with the space before them) when nothing is left
+  const cleaned = content.replace(LEADING_SPACE_GROUP_PATTERN, (group, space: string, inner: string) => {
+    const ids = inner.split(/\s*[,;]\s*/);
+    const valid = ids.filter(id => findSource(id, sources));
+    ids.filter(id => !valid.includes(id)).forEach(id => invalid.add(id));
+
+    if (valid.length === ids.length) return group;
+    return valid.length > 0 ? `${space}[${valid.join(', ')}]` : '';
+  });
+
+  const citations = new Map<string, Citation>();
+  for (const match of cleaned.matchAll(CITATION_GROUP_PATTERN)) {
+    const span = { start: match.index!, end: match.index! + match[0].length };
+
+    for (const id of match[1].split(/\s*[,;]\s*/)) {
+      const existing = citations.get(id);
+      if (existing) {
+        existing.spans.push(span);
+      } else {
+        citations.set(id, { id, spans: [span], source: findSource(id, sources)! });
+      }
+    }
+  }
+
+  if (invalid.size > 0) {
+    console.warn(`Removed citations to nonexistent sources: ${Array.from(invalid).join(', ')}`);
+  }
+
+  return {
+    content: cleaned,
+    citations: Array.from(citations.values()),
+    invalidCitations: Array.from(invalid)
+  };
+}
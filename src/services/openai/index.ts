@@ -8,11 +8,15 @@
 export * from './types';
 export * from './service';
 export * from './thinking';
+export * from './budget';
+export * from './personas';
+export * from './citations';
 
 // Re-export the most commonly used functions
 import { getModelResponse } from './service';
 import { generateThinkingSteps } from './thinking';
 import { ModelInfo } from './types';
+import { LLMProviderName } from '../llm/types';
 
 // Standard model information used for UI display
 export const MODEL_INFO: Record<string, ModelInfo> = {
@@ -58,6 +62,45 @@ export const MODEL_INFO: Record<string, ModelInfo> = {
   }
 };
 
+const PROVIDER_DEVELOPERS: Record<LLMProviderName, string> = {
+  openai: 'OpenAI',
+  local: 'Self-hosted',
+  fake: 'Development mock'
+};
+
+/**
+ * Get display information for the model that answered a request
+ * Models without an entry in MODEL_INFO get a generic description
+ */
+export function getModelInfo(modelId: string, provider?: LLMProviderName): ModelInfo {
+  // Canned development answers should not pass for the real model
+  if (provider === 'fake') {
+    return {
+      id: modelId,
+      name: `${MODEL_INFO[modelId]?.name || modelId} (mock)`,
+      description: 'Canned responses used in development when no model is configured',
+      features: ['Offline', 'Deterministic'],
+      developer: PROVIDER_DEVELOPERS.fake,
+      parameters: 'None'
+    };
+  }
+
+  if (MODEL_INFO[modelId]) {
+    return { ...MODEL_INFO[modelId] };
+  }
+
+  return {
+    id: modelId,
+    name: modelId,
+    description: provider === 'local'
+      ? 'A model served by a local OpenAI-compatible runtime'
+      : 'A language model served through the configured provider',
+    features: ['Conversation', 'Advising'],
+    developer: provider ? PROVIDER_DEVELOPERS[provider] : 'Unknown',
+    parameters: 'Unknown'
+  };
+}
+
 export default {
   getModelResponse,
   generateThinkingSteps,
@@ -0,0 +1,169 @@
+/**
+ * Persona Registry
+ *
+ * Named counselor personas, each with a history of prompt versions and the
+ * variables its templates accept. A conversation picks a persona (and can pin
+ * a version); responses are stamped with the version that produced them.
+ */
+
+import { env } from '@/config/env';
+import { Persona, PersonaSelection, PersonaVersion, ResolvedPersona } from './types';
+import {
+  ESSAY_COACH_PROMPT_V1,
+  EXTRACURRICULAR_PLANNER_PROMPT_V1,
+  INTERNATIONAL_ADMISSIONS_PROMPT_V1,
+  PARENT_EXPLAINER_PROMPT_V1
+} from './system-prompt';
+
+// Used when neither the request nor the environment names a persona
+export const FALLBACK_PERSONA_ID = 'international_admissions';
+
+// Longest value accepted for a template variable
+const MAX_VARIABLE_LENGTH = 200;
+
+const personaRegistry: Map<string, Persona> = new Map();
+
+/**
+ * Add a persona, or replace one with the same ID
+ */
+export function registerPersona(persona: Persona): void {
+  if (persona.versions.length === 0) {
+    throw new Error(`Persona "${persona.id}" has no prompt versions`);
+  }
+  personaRegistry.set(persona.id, persona);
+}
+
+/**
+ * Get a persona by ID
+ */
+export function getPersona(personaId: string): Persona | undefined {
+  return personaRegistry.get(personaId);
+}
+
+/**
+ * List every registered persona
+ */
+export function listPersonas(): Persona[] {
+  return Array.from(personaRegistry.values());
+}
+
+/**
+ * Get a specific version of a persona, or its latest version when none is given
+ */
+export function getPersonaVersion(persona: Persona, version?: number): PersonaVersion | undefined {
+  if (version === undefined) {
+    return persona.versions.reduce((latest, v) => (v.version > latest.version ? v : latest));
+  }
+  return persona.versions.find(v => v.version === version);
+}
+
+/**
+ * The persona used when a conversation has not chosen one
+ */
+export function getDefaultPersonaId(): string {
+  return env.DEFAULT_PERSONA && personaRegistry.has(env.DEFAULT_PERSONA)
+    ? env.DEFAULT_PERSONA
+    : FALLBACK_PERSONA_ID;
+}
+
+/**
+ * Fill in {{variable}} placeholders; unknown placeholders are left as they are
+ */
+export function renderPromptTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (match, name: string) => values[name] ?? match);
+}
+
+/**
+ * Resolve a selection to the prompt to send
+ * Variables the persona does not declare are ignored; missing ones use their defaults.
+ * Throws if the persona or version does not exist.
+ */
+export function resolvePersona(selection: PersonaSelection = {}): ResolvedPersona {
+  const personaId = selection.personaId || getDefaultPersonaId();
+  const persona = personaRegistry.get(personaId);
+  if (!persona) {
+    throw new Error(`Unknown persona "${personaId}"`);
+  }
+
+  const personaVersion = getPersonaVersion(persona, selection.version);
+  if (!personaVersion) {
+    throw new Error(`Persona "${personaId}" has no version ${selection.version}`);
+  }
+
+  const values: Record<string, string> = {};
+  for (const variable of persona.variables) {
+    const value = selection.variables?.[variable.name];
+    values[variable.name] = typeof value === 'string' && value.trim()
+      ? value.trim().substring(0, MAX_VARIABLE_LENGTH)
+      : variable.defaultValue;
+  }
+
+  return {
+    personaId,
+    version: personaVersion.version,
+    promptVersion: `${personaId}@${personaVersion.version}`,
+    prompt: renderPromptTemplate(personaVersion.template, values)
+  };
+}
+
+// Built-in personas
+registerPersona({
+  id: 'extracurricular_planner',
+  name: 'Extracurricular Planner',
+  description: 'Plans activities, projects and competitions for high school students',
+  variables: [
+    { name: 'gradeRange', description: 'Grades the student is in or planning for', defaultValue: 'grades 9-12' },
+    { name: 'focusArea', description: 'Fields to focus recommendations on', defaultValue: 'the fields the student is most interested in' }
+  ],
+  versions: [
+    { version: 1, template: EXTRACURRICULAR_PLANNER_PROMPT_V1, createdAt: '2026-10-19' }
+  ]
+});
+
+registerPersona({
+  id: 'international_admissions',
+  name: 'International Admissions Advisor',
+  description: 'Guides students through applying to universities abroad',
+  variables: [
+    { name: 'homeCountry', description: 'Country the student is applying from', defaultValue: 'India' },
+    { name: 'admissionsCycle', description: 'Admissions cycle advice should be current for', defaultValue: '2025' }
+  ],
+  versions: [
+    {
+      version: 1,
+      template: INTERNATIONAL_ADMISSIONS_PROMPT_V1,
+      createdAt: '2026-10-19',
+      notes: 'The original educational consultant prompt'
+    }
+  ]
+});
+
+registerPersona({
+  id: 'essay_coach',
+  name: 'Essay Coach',
+  description: 'Helps students brainstorm and revise application essays without writing them',
+  variables: [
+    {
+      name: 'essayTypes',
+      description: 'Essays the student is working on',
+      defaultValue: 'the Common App personal statement, UCAS personal statements, supplemental essays and SOPs'
+    },
+    { name: 'wordLimit', description: 'Usual word limit of the main essay', defaultValue: '650' }
+  ],
+  versions: [
+    { version: 1, template: ESSAY_COACH_PROMPT_V1, createdAt: '2026-10-19' }
+  ]
+});
+
+registerPersona({
+  id: 'parent_explainer',
+  name: 'Parent Explainer',
+  description: 'Explains the admissions process to parents in plain language',
+  variables: [
+    { name: 'homeCountry', description: 'Country the family lives in', defaultValue: 'India' },
+    { name: 'language', description: 'Language and register to answer in', defaultValue: 'plain, simple English' }
+  ],
+  versions: [
+    { version: 1, template: PARENT_EXPLAINER_PROMPT_V1, createdAt: '2026-10-19' }
+  ]
+});
@@ -1,77 +1,139 @@
 /**
- * Thinking Steps Generator
+ * Thinking Steps
  * 
- * Generates thinking steps for the chatbot to display while waiting for API response.
- * Uses a mapping approach instead of if/else chains for better performance and maintainability.
+ * Collects the progress the chat pipeline reports (retrieval, models tried,
+ * tool calls and their results) so it can be shown while the answer is prepared.
+ * The keyword-based generator below guesses steps from the question instead;
+ * it is only used when no real progress is available. Both are written in
+ * the student's language.
  */
 
-// Map of keywords to thinking steps
-const THINKING_STEP_MAP: Record<string, string> = {
+import { ProgressEvent, ProgressUpdate } from './types';
+import { DEFAULT_LANGUAGE, translate, type Language, type MessageKey } from '@/lib/i18n';
+
+export interface ProgressReporter {
+  // Everything reported so far, oldest first
+  events: ProgressEvent[];
+  report: (update: ProgressUpdate) => void;
+  // Replays the events reported so far, then forwards new ones as they happen.
+  // Returns a function that stops forwarding them.
+  subscribe: (listener: (event: ProgressEvent) => void) => () => void;
+}
+
+/**
+ * Create a reporter that timestamps progress relative to when the request started
+ */
+export function createProgressReporter(startTime = Date.now()): ProgressReporter {
+  const events: ProgressEvent[] = [];
+  let listener: ((event: ProgressEvent) => void) | null = null;
+
+  return {
+    events,
+    report: (update) => {
+      const event: ProgressEvent = { ...update, elapsedMs: Date.now() - startTime };
+      events.push(event);
+      listener?.(event);
+    },
+    subscribe: (newListener) => {
+      events.forEach(newListener);
+      listener = newListener;
+      return () => {
+        if (listener === newListener) {
+          listener = null;
+        }
+      };
+    }
+  };
+}
+
+// Map of keywords to thinking steps; Hindi keywords are matched too
+const THINKING_STEP_MAP: Record<string, MessageKey> = {
   // Sports and athletics
-  'sport': 'Finding sports and athletic activities',
-  'athletic': 'Finding sports and athletic activities',
-  'team': 'Identifying team-based opportunities',
+  'sport': 'thinking.sports',
+  'athletic': 'thinking.sports',
+  'खेल': 'thinking.sports',
+  'team': 'thinking.teams',
+  'टीम': 'thinking.teams',
   
   // Leadership
-  'leadership': 'Identifying leadership opportunities',
-  'president': 'Identifying leadership opportunities',
-  'club': 'Identifying leadership opportunities',
-  'lead': 'Exploring leadership pathways',
+  'leadership': 'thinking.leadership',
+  'president': 'thinking.leadership',
+  'club': 'thinking.leadership',
+  'क्लब': 'thinking.leadership',
+  'नेतृत्व': 'thinking.leadership',
+  'lead': 'thinking.leadershipPathways',
   
   // Community service
-  'volunteer': 'Exploring community service options',
-  'community': 'Exploring community service options',
-  'service': 'Exploring community service options',
-  'help': 'Finding ways to contribute to communities',
+  'volunteer': 'thinking.communityService',
+  'community': 'thinking.communityService',
+  'service': 'thinking.communityService',
+  'सेवा': 'thinking.communityService',
+  'help': 'thinking.contribute',
   
   // Research and academics
-  'research': 'Exploring research opportunities',
-  'science': 'Exploring research opportunities',
-  'lab': 'Exploring research opportunities',
-  'study': 'Finding academic enrichment opportunities',
-  'academic': 'Finding academic enrichment opportunities',
+  'research': 'thinking.research',
+  'science': 'thinking.research',
+  'lab': 'thinking.research',
+  'रिसर्च': 'thinking.research',
+  'विज्ञान': 'thinking.research',
+  'study': 'thinking.academic',
+  'academic': 'thinking.academic',
+  'पढ़ाई': 'thinking.academic',
   
   // Arts and creativity
-  'art': 'Finding artistic and creative activities',
-  'music': 'Finding artistic and creative activities',
-  'creative': 'Finding artistic and creative activities',
-  'perform': 'Exploring performing arts opportunities',
-  'design': 'Finding design-related activities',
+  'art': 'thinking.arts',
+  'music': 'thinking.arts',
+  'creative': 'thinking.arts',
+  'कला': 'thinking.arts',
+  'संगीत': 'thinking.arts',
+  'perform': 'thinking.performingArts',
+  'design': 'thinking.design',
   
   // Career and internships
-  'internship': 'Researching internship opportunities',
-  'job': 'Researching internship opportunities',
-  'work': 'Researching internship opportunities',
-  'career': 'Exploring career preparation activities',
-  'professional': 'Finding professional development opportunities',
+  'internship': 'thinking.internships',
+  'job': 'thinking.internships',
+  'work': 'thinking.internships',
+  'इंटर्नशिप': 'thinking.internships',
+  'career': 'thinking.career',
+  'करियर': 'thinking.career',
+  'professional': 'thinking.professional',
   
   // College-specific
-  'college': 'Analyzing college requirements',
-  'admission': 'Reviewing admission strategies',
-  'application': 'Optimizing application strategy',
-  'essay': 'Finding experiences for compelling essays',
+  'college': 'thinking.collegeRequirements',
+  'कॉलेज': 'thinking.collegeRequirements',
+  'admission': 'thinking.admission',
+  'एडमिशन': 'thinking.admission',
+  'application': 'thinking.application',
+  'essay': 'thinking.essay',
+  'निबंध': 'thinking.essay',
 };
 
 /**
  * Generate thinking steps based on message content
+ * A guess made before the model has done anything; prefer reported progress
  */
-export function generateThinkingSteps(message: string, pdfContent?: string | null, profileContext?: string | null): string[] {
+export function generateThinkingSteps(
+  message: string,
+  pdfContent?: string | null,
+  profileContext?: string | null,
+  language: Language = DEFAULT_LANGUAGE
+): string[] {
   // Convert message to lowercase for case-insensitive matching
   const lowerCaseMessage = message.toLowerCase();
   
   // Start with a default initial step
-  const steps: string[] = [
-    "Processing your question..."
+  const steps: MessageKey[] = [
+    'thinking.processing'
   ];
 
   // Add profile-specific steps if content is provided
   if (profileContext) {
-    steps.push("Considering your student profile data");
+    steps.push('thinking.profile');
   }
 
   // Add PDF-specific step if PDF content is provided
   if (pdfContent) {
-    steps.push("Analyzing your application data");
+    steps.push('thinking.documents');
   }
 
   // Check for keyword matches in the message
@@ -81,7 +143,7 @@ export function generateThinkingSteps(message: string, pdfContent?: string | nul
 
   // If we have keyword matches, add the corresponding step (without duplicates)
   if (matchedKeywords.length > 0) {
-    const uniqueSteps = new Set<string>();
+    const uniqueSteps = new Set<MessageKey>();
     
     matchedKeywords.forEach(keyword => {
       uniqueSteps.add(THINKING_STEP_MAP[keyword]);
@@ -91,11 +153,11 @@ export function generateThinkingSteps(message: string, pdfContent?: string | nul
     steps.push(...uniqueSteps);
   } else {
     // Default step if no keywords match
-    steps.push("Preparing personalized recommendations");
+    steps.push('thinking.default');
   }
 
   // Always end with a final step
-  steps.push("Generating your response");
+  steps.push('thinking.generating');
 
-  return steps;
-} 
\ No newline at end of file
+  return steps.map(step => translate(language, step));
+}
@@ -1,7 +1,11 @@
 /**
  * OpenAI API Type Definitions
  */
-import { WebSearchResult } from '../langchain/types';
+import { SourceReference, WebSearchResult } from '../langchain/types';
+import { LLMErrorKind, LLMProviderName, LLMUsage, ModelAttempt, ModelTarget } from '../llm/types';
+import type { UsageContext } from '../usage';
+import { ToolContext } from '../tools/types';
+import type { Language } from '@/lib/i18n/languages';
 
 // Model information
 export interface ModelInfo {
@@ -16,8 +20,13 @@ export interface ModelInfo {
 // Request types
 export interface ChatMessage {
   role: 'system' | 'user' | 'assistant' | 'tool';
-  content: string;
+  // Null for assistant turns that only contain tool calls
+  content: string | null;
   name?: string;
+  // Tool calls requested by an assistant turn
+  tool_calls?: ToolCall[];
+  // The call a tool message answers
+  tool_call_id?: string;
 }
 
 // Tool definitions - exactly matching OpenAI's API structure
@@ -101,15 +110,174 @@ export interface ApiErrorResponse {
   };
 }
 
+// Prompt budget report
+export type PromptSectionName = 'systemPrompt' | 'userMessage' | 'profile' | 'memory' | 'document' | 'knowledgeBase' | 'history';
+
+export interface PromptSectionUsage {
+  section: PromptSectionName;
+  // Estimated tokens the section needed
+  requestedTokens: number;
+  // Estimated tokens the section uses after fitting
+  usedTokens: number;
+  truncated: boolean;
+  // What was cut, e.g. "2 of 5 excerpts"
+  note?: string;
+}
+
+export interface PromptBudgetReport {
+  model: string;
+  contextWindow: number;
+  // Tokens kept free for the answer and tool round trips
+  reservedTokens: number;
+  // Estimated size of the prompt that was sent
+  promptTokens: number;
+  sections: PromptSectionUsage[];
+  // Human-readable notes about everything that was truncated or dropped
+  dropped: string[];
+}
+
 // Service response
+// What a citation label in an answer points to
+export type CitationSource =
+  | { type: 'web'; result: WebSearchResult }
+  | { type: 'knowledge_base'; source: SourceReference }
+  | { type: 'profile' };
+
+// A source cited in an answer
+export interface Citation {
+  // Label as written in the answer: "W1" for web results, "S1" for knowledge base excerpts, "P" for the profile
+  id: string;
+  // Character ranges of the bracketed markers citing it, end exclusive
+  spans: { start: number; end: number }[];
+  source: CitationSource;
+}
+
+// Pipeline stages reported while an answer is being prepared
+export type ProgressStage =
+  | 'context'      // Conversation history and prompt assembled
+  | 'retrieval'    // Knowledge base searched
+  | 'model'        // A model in the fallback chain was asked
+  | 'fallback'     // A model failed or was skipped and the next one is tried
+  | 'web_search'   // The model issued a web search
+  | 'tool_call'    // The model called another tool
+  | 'tool_result'  // A tool returned its result to the model
+  | 'generating';  // The model produced its answer
+
+// Something that happened in the pipeline, as reported by the code that did it
+export interface ProgressUpdate {
+  stage: ProgressStage;
+  // Short description shown to the student, e.g. 'Searching the web for "..."'
+  label: string;
+  // How long the step took, for steps that finish something
+  durationMs?: number;
+}
+
+// A progress update stamped with when it happened
+export interface ProgressEvent extends ProgressUpdate {
+  // Milliseconds since the request was received
+  elapsedMs: number;
+}
+
+// A value substituted into a persona's prompt template as {{name}}
+export interface PersonaVariable {
+  name: string;
+  description: string;
+  defaultValue: string;
+}
+
+// One immutable revision of a persona's prompt
+export interface PersonaVersion {
+  version: number;
+  template: string;
+  createdAt: string;
+  notes?: string;
+}
+
+// A named counselor persona with its prompt history
+export interface Persona {
+  id: string;
+  name: string;
+  description: string;
+  variables: PersonaVariable[];
+  versions: PersonaVersion[];
+}
+
+// Which persona to answer as; the latest version is used when none is pinned
+export interface PersonaSelection {
+  personaId?: string;
+  version?: number;
+  variables?: Record<string, string>;
+}
+
+// A persona prompt ready to send, with the version that produced it
+export interface ResolvedPersona {
+  personaId: string;
+  version: number;
+  // "personaId@version", stamped on responses so outputs can be traced to their prompt
+  promptVersion: string;
+  prompt: string;
+}
+
 export interface ModelResponse {
   success: boolean;
   content?: string;
   error?: string;
   webSearchAttempted?: boolean;
   webSearchResults?: WebSearchResult[];
+  // Knowledge base chunks the answer was grounded in
+  sources?: SourceReference[];
+  // Sources cited in the answer, resolved from its [W1], [S1] and [P] markers
+  citations?: Citation[];
+  // Markers that pointed to nonexistent sources and were removed from the answer
+  invalidCitations?: string[];
+  // The model and provider that actually produced the answer
   model?: string;
+  provider?: LLMProviderName;
+  // Every target tried, in order, including ones skipped by an open circuit
+  attempts?: ModelAttempt[];
+  errorKind?: LLMErrorKind;
   responseTime?: number;
+  toolCallsMade?: number;
+  // Names of the tools the model called, in order
+  toolsUsed?: string[];
+  // How the prompt was fitted into the context window and what was cut
+  promptBudget?: PromptBudgetReport;
+  // Tokens used to produce the answer, across all tool rounds
+  usage?: LLMUsage;
+  // Persona prompt the answer was generated with, e.g. "essay_coach@1"
+  promptVersion?: string;
+  isTimeout?: boolean;
+}
+
+// Options for a single model request
+export interface ModelResponseOptions {
+  // Receives content deltas as they are generated; enables streaming from the API
+  onDelta?: (content: string) => void;
+  // Earlier turns of the conversation, oldest first
+  history?: ChatMessage[];
+  // Provider to use instead of the configured LLM_PROVIDER
+  provider?: LLMProviderName;
+  // Model to try first, e.g. when regenerating an answer with a different model
+  model?: ModelTarget;
+  // Called each time the fallback chain starts trying a target
+  onModelSelected?: (target: ModelTarget) => void;
+  // Retries of the same endpoint before giving up; lowered by the fallback chain
+  maxRetries?: number;
+  // Feature and student the call is recorded under in the usage ledger
+  usageContext?: UsageContext;
+  // Tools the model may call and what they may access; only web search is offered by default
+  toolContext?: ToolContext;
+  // Knowledge base chunks to ground the answer in, cited by their labels
+  knowledgeSources?: SourceReference[];
+  // Counselor persona to answer as; the default persona when omitted
+  persona?: PersonaSelection;
+  // Summary of older turns and facts remembered about the student, from the memory service
+  memoryContext?: string | null;
+  // Receives pipeline progress as it happens: models tried, tools called, results received
+  onProgress?: (update: ProgressUpdate) => void;
+  // Language to answer and report progress in; English when omitted
+  language?: Language;
 }
+
 // Thinking steps generator
 export type ThinkingStepGenerator = (message: string, pdfContent?: string | null) => string[]; 
\ No newline at end of file
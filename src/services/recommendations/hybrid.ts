@@ -7,6 +7,7 @@
 
 import { StudentProfile } from '@/components/StudentQuestionnaire';
 import { selectTemplates, RecommendationTemplate } from './templates';
+import { DEFAULT_LANGUAGE, type Language } from '@/lib/i18n';
 import { RecommendationResponse, EnhancedRecommendationResponse } from './types';
 import { getModelResponse } from '@/services/openai/service';
 
@@ -605,7 +606,9 @@ async function getCompetitionRecommendations(
     console.log('Fetching competition recommendations with web search');
     
     // Make the API call with web search enabled
-    const response = await getModelResponse(prompt, null, null, true);
+    const response = await getModelResponse(prompt, null, null, true, {
+      usageContext: { feature: 'recommendations', userId: profile.userId }
+    });
     
     if (!response.success) {
       throw new Error(response.error || 'Failed to generate competition recommendations');
@@ -806,11 +809,12 @@ function generateMockActivityRecommendations(
  * Generate hybrid recommendations combining templates with AI personalization
  */
 export async function generateHybridRecommendations(
-  profile: StudentProfile
+  profile: StudentProfile,
+  language: Language = DEFAULT_LANGUAGE
 ): Promise<EnhancedRecommendationResponse> {
   try {
-    // Select the appropriate templates based on the student profile
-    const templates = selectTemplates(profile);
+    // Select the appropriate templates based on the student profile, in their language
+    const templates = selectTemplates(profile, language);
     
     // Generate complete profile analysis with narrative
     const profileAnalysis = await generateProfileAnalysis(profile);
@@ -517,7 +517,9 @@ IMPORTANT: Consider the above projects as potential inspiration. You may incorpo
     `;
     
     // Call the AI service
-    const response = await getModelResponse(prompt, null, null, false);
+    const response = await getModelResponse(prompt, null, null, false, {
+      usageContext: { feature: 'recommendations', userId: profile.userId }
+    });
     
     if (!response.success) {
       throw new Error(response.error || "Failed to generate projects");
@@ -602,7 +604,9 @@ IMPORTANT: Consider the above competitions as potential recommendations. You may
     `;
 
     // Make the API call with web search enabled to get current competition information
-    const response = await getModelResponse(prompt, null, null, true);
+    const response = await getModelResponse(prompt, null, null, true, {
+      usageContext: { feature: 'recommendations', userId: profile.userId }
+    });
     
     let aiCompetitions = [];
     
@@ -875,7 +879,9 @@ async function generateEnhancedProfileAnalysis(
     `;
 
     // Make the API call for a personalized analysis
-    const response = await getModelResponse(prompt, null, null, false);
+    const response = await getModelResponse(prompt, null, null, false, {
+      usageContext: { feature: 'recommendations', userId: profile.userId }
+    });
     
     if (response.success && response.content) {
       return response.content;
@@ -1089,7 +1095,7 @@ function generateSkillRecommendations(
 /**
  * Provide major-specific competition recommendations
  */
-function getMajorSpecificCompetitions(major: string): string[] {
+export function getMajorSpecificCompetitions(major: string): string[] {
   const lowerMajor = (major || "").toLowerCase();
   
   // Computer Science / Engineering competitions
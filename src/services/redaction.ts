@@ -0,0 +1,260 @@
+/**
+ * PII Redaction
+ *
+ * Replaces names, email addresses, phone numbers, national ID numbers and
+ * postal addresses with placeholders such as [NAME_1] before text is sent to a
+ * language model or written to the logs, and puts the original values back
+ * into the model's answer.
+ */
+
+export type PIIKind = 'NAME' | 'EMAIL' | 'PHONE' | 'ID' | 'ADDRESS';
+
+// Longest placeholder that can be emitted, e.g. "[ADDRESS_999]"
+const MAX_PLACEHOLDER_LENGTH = 16;
+
+const PLACEHOLDER_PATTERN = /\[(NAME|EMAIL|PHONE|ID|ADDRESS)_(\d+)\]/g;
+
+const EMAIL_PATTERN = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g;
+
+// US SSNs and Indian PAN cards
+const ID_PATTERNS = [
+  /(?<![\w-])\d{3}-\d{2}-\d{4}(?![\w-])/g,
+  /\b[A-Z]{5}\d{4}[A-Z]\b/g
+];
+
+// Aadhaar numbers: 12 digits that never start with 0 or 1, usually grouped 4-4-4.
+// Three years or test scores in a row look the same when grouped, so a grouped
+// number made only of those is left alone unless a label comes just before it:
+//   "Aadhaar 2345 6789 0123"   -> "Aadhaar [ID_1]"
+//   "234567890123"             -> "[ID_1]"
+//   "Plan for 2025 2026 2027"  -> unchanged
+//   "SAT 1450 1520 1580"       -> unchanged
+//   "Aadhaar no. 2019 1450 2020" -> "Aadhaar no. [ID_1]"
+const AADHAAR_PATTERN = /(?<![\w-])[2-9]\d{3}([ -]?)\d{4}\1\d{4}(?![\w-])/g;
+const ID_LABEL_PATTERN = /\b(?:aadha?ar|uid|id|number|no)\b[^\w\n]{0,5}$/i;
+// How far before a number its label is looked for
+const ID_LABEL_DISTANCE = 25;
+
+// Candidates are checked for a plausible digit count so years and scores are left alone,
+// including runs of them such as "2025 2026 2027"
+const PHONE_PATTERN = /(?<![\w-])(?:\+\d{1,3}[ .-]?)?(?:\(\d{2,5}\)[ .-]?)?\d{2,5}(?:[ .-]?\d{2,5}){1,4}(?![\w-])/g;
+const MIN_PHONE_DIGITS = 10;
+const MAX_PHONE_DIGITS = 13;
+
+const STREET_PATTERN = new RegExp(
+  '\\b\\d{1,5}[A-Za-z]?,?\\s+(?:[A-Z][\\w.\'-]*\\s+){1,4}' +
+  '(?:Street|St|Road|Rd|Avenue|Ave|Lane|Ln|Boulevard|Blvd|Drive|Dr|Court|Ct|Way|Place|Pl|Marg|Nagar|Colony|Layout|Sector)\\b\\.?',
+  'g'
+);
+
+// "Address: ...", "I live at ..." up to the end of the line or sentence
+const LABELLED_ADDRESS_PATTERN = /(\b[Aa]ddress\s*[:=]\s*|"address"\s*:\s*"|\b[Ll]iv(?:e|ing) at\s+(?=\d)|\b[Rr]esid(?:e|ing) at\s+(?=\d))([^\n"]{5,120}?)(?=\n|"|$|\.\s)/g;
+
+// Names are only detected where the text says they are names; every later
+// mention of a detected name is then redacted as well
+const LABELLED_NAME_PATTERNS = [
+  /"(?:name|fullName|studentName|firstName|lastName|parentName|guardianName)"\s*:\s*"([^"]{2,60})"/g,
+  /\b(?:[Mm]y name is|[Nn]ame\s*:|I am called)\s*([A-Z][a-zA-Z'-]+(?:[ \t]+[A-Z][a-zA-Z'-]+){0,3})/g
+];
+
+// Name parts shorter than this are too likely to match ordinary words
+const MIN_NAME_PART_LENGTH = 3;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function countDigits(text: string): number {
+  return text.replace(/\D/g, '').length;
+}
+
+// Whether separated groups of four digits are all years such as 2025 or test
+// scores no higher than the SAT's 1600
+function isYearOrScoreRun(text: string): boolean {
+  const groups = text.split(/[ .-]+/);
+  return groups.length > 1 && groups.every(group => {
+    const value = Number(group);
+    return /^\d{4}$/.test(group) && ((value >= 1900 && value <= 2099) || value <= 1600);
+  });
+}
+
+/**
+ * Redacts the text sent for one request
+ *
+ * The same value always maps to the same placeholder, so a name mentioned in
+ * the profile, the document and the question is one placeholder to the model.
+ */
+export class PIIRedactor {
+  private placeholders: Map<string, string> = new Map();
+  private originals: Map<string, string> = new Map();
+  private counters: Record<PIIKind, number> = { NAME: 0, EMAIL: 0, PHONE: 0, ID: 0, ADDRESS: 0 };
+  private names: Set<string> = new Set();
+  private namePattern: RegExp | null = null;
+
+  constructor(knownNames: string[] = []) {
+    knownNames.forEach(name => this.addName(name));
+  }
+
+  /**
+   * Number of distinct values replaced so far
+   */
+  get size(): number {
+    return this.originals.size;
+  }
+
+  /**
+   * Pick up names labelled in the given texts without redacting them
+   * Call this with every text of a request first so that a name given in the
+   * profile is also caught when the question mentions it
+   */
+  learnNames(...texts: (string | null | undefined)[]): void {
+    for (const text of texts) {
+      if (!text) continue;
+      for (const pattern of LABELLED_NAME_PATTERNS) {
+        for (const match of text.matchAll(pattern)) {
+          this.addName(match[1]);
+        }
+      }
+    }
+  }
+
+  /**
+   * Replace every detected value with its placeholder
+   */
+  redact(text: string): string;
+  redact(text: string | null | undefined): string | null | undefined;
+  redact(text: string | null | undefined): string | null | undefined {
+    if (!text) return text;
+
+    this.learnNames(text);
+
+    let result = text.replace(EMAIL_PATTERN, match => this.placeholderFor('EMAIL', match));
+
+    result = result.replace(AADHAAR_PATTERN, (match: string, _separator: string, offset: number, whole: string) => {
+      const labelled = ID_LABEL_PATTERN.test(whole.substring(Math.max(0, offset - ID_LABEL_DISTANCE), offset));
+      return !labelled && isYearOrScoreRun(match) ? match : this.placeholderFor('ID', match);
+    });
+    for (const pattern of ID_PATTERNS) {
+      result = result.replace(pattern, match => this.placeholderFor('ID', match));
+    }
+
+    result = result.replace(PHONE_PATTERN, match => {
+      const digits = countDigits(match);
+      return digits >= MIN_PHONE_DIGITS && digits <= MAX_PHONE_DIGITS && !isYearOrScoreRun(match)
+        ? this.placeholderFor('PHONE', match)
+        : match;
+    });
+
+    result = result.replace(LABELLED_ADDRESS_PATTERN, (_match, label: string, address: string) =>
+      `${label}${this.placeholderFor('ADDRESS', address.trim())}`
+    );
+    result = result.replace(STREET_PATTERN, match => this.placeholderFor('ADDRESS', match));
+
+    if (this.namePattern) {
+      result = result.replace(this.namePattern, match => this.placeholderFor('NAME', match));
+    }
+
+    return result;
+  }
+
+  /**
+   * Put the original values back in place of placeholders
+   * Placeholders this redactor did not create are left as they are
+   */
+  restore(text: string): string;
+  restore(text: string | null | undefined): string | null | undefined;
+  restore(text: string | null | undefined): string | null | undefined {
+    if (!text) return text;
+    return text.replace(PLACEHOLDER_PATTERN, match => this.originals.get(match) ?? match);
+  }
+
+  /**
+   * Wrap a streaming callback so that placeholders in the streamed answer are
+   * restored, including ones split across chunks
+   * Call flush() once the stream ends to emit anything still held back.
+   */
+  createStreamRestorer(onDelta: (content: string) => void): { push: (content: string) => void; flush: () => void } {
+    let pending = '';
+
+    return {
+      push: (content: string) => {
+        pending += content;
+
+        // Hold back a trailing "[..." that could still become a placeholder
+        const open = pending.lastIndexOf('[');
+        const tail = open >= 0 ? pending.substring(open) : '';
+        const mayBePlaceholder = tail.length > 0
+          && tail.length < MAX_PLACEHOLDER_LENGTH
+          && /^\[[A-Z]*(?:_\d*)?$/.test(tail);
+
+        const ready = mayBePlaceholder ? pending.substring(0, open) : pending;
+        pending = mayBePlaceholder ? tail : '';
+
+        if (ready) {
+          onDelta(this.restore(ready));
+        }
+      },
+      flush: () => {
+        if (pending) {
+          onDelta(this.restore(pending));
+          pending = '';
+        }
+      }
+    };
+  }
+
+  private addName(name: string): void {
+    const trimmed = name.trim().replace(/\s+/g, ' ');
+    if (trimmed.length < MIN_NAME_PART_LENGTH) return;
+
+    const candidates = [trimmed, ...trimmed.split(' ')]
+      .filter(part => part.length >= MIN_NAME_PART_LENGTH && !this.names.has(part));
+    if (candidates.length === 0) return;
+
+    candidates.forEach(part => this.names.add(part));
+
+    // Longest first so a full name wins over its parts
+    const alternatives = Array.from(this.names)
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp);
+    this.namePattern = new RegExp(`(?<![\\w\\[])(?:${alternatives.join('|')})(?![\\w\\]])`, 'g');
+  }
+
+  private placeholderFor(kind: PIIKind, value: string): string {
+    const key = `${kind}:${value.toLowerCase()}`;
+    let placeholder = this.placeholders.get(key);
+
+    if (!placeholder) {
+      placeholder = `[${kind}_${++this.counters[kind]}]`;
+      this.placeholders.set(key, placeholder);
+      this.originals.set(placeholder, value);
+    }
+
+    return placeholder;
+  }
+}
+
+/**
+ * Redact a value for logging
+ * Strings inside objects are redacted one by one so that labels in embedded
+ * JSON are still recognised; long output is shortened.
+ */
+export function redactForLog(value: unknown, maxLength = 1000): string {
+  const redactor = new PIIRedactor();
+  let text: string;
+
+  if (typeof value === 'string') {
+    text = redactor.redact(value);
+  } else {
+    const strings: string[] = [];
+    JSON.stringify(value, (_key, item) => {
+      if (typeof item === 'string') strings.push(item);
+      return item;
+    });
+    redactor.learnNames(...strings);
+
+    text = String(JSON.stringify(value, (_key, item) => typeof item === 'string' ? redactor.redact(item) : item));
+  }
+
+  return text.length > maxLength ? `${text.substring(0, maxLength)}...` : text;
+}
@@ -0,0 +1,81 @@
+/**
+ * Fixture Search Provider
+ *
+ * Offline provider that answers from canned results. Used in development when
+ * no search API key is configured and in tests.
+ */
+
+import { RawSearchResult, SearchOptions, SearchProvider, SearchProviderName } from './types';
+import { redactForLog } from '../redaction';
+
+// A set of canned results returned when a query contains any of the keywords
+export interface SearchFixture {
+  keywords: string[];
+  results: RawSearchResult[];
+}
+
+export const DEFAULT_SEARCH_FIXTURES: SearchFixture[] = [
+  {
+    keywords: ['college', 'university'],
+    results: [
+      {
+        title: "QS World University Rankings 2025: Top Global Universities",
+        url: "https://www.topuniversities.com/university-rankings/world-university-rankings/2025",
+        snippet: "The latest QS World University Rankings 2025 feature over 1,500 universities from around the world. MIT, Stanford, and Oxford lead the rankings."
+      },
+      {
+        title: "The World's Top 100 Universities | US News Best Global Universities",
+        url: "https://www.usnews.com/education/best-global-universities/rankings",
+        snippet: "Find the world's top universities ranked by academic reputation, employer reputation, and research impact. Harvard, MIT, and Stanford are consistently ranked highly."
+      },
+      {
+        title: "Times Higher Education World University Rankings 2025",
+        url: "https://www.timeshighereducation.com/world-university-rankings/2025",
+        snippet: "The Times Higher Education World University Rankings 2025 include over 1,900 universities across 108 countries, making them the largest international university rankings."
+      }
+    ]
+  },
+  {
+    keywords: ['competition', 'scholarship', 'olympiad', 'contest'],
+    results: [
+      {
+        title: "Top Academic Competitions for High School Students 2025",
+        url: "https://www.collegeconfidential.com/academic-competitions",
+        snippet: "Comprehensive guide to prestigious academic competitions including Regeneron Science Talent Search, International Mathematical Olympiad, and National Speech & Debate Tournament."
+      },
+      {
+        title: "Merit Scholarships at Top Universities - Class of 2025",
+        url: "https://www.collegetransitions.com/scholarships/merit-scholarships",
+        snippet: "Guide to finding and applying for merit-based scholarships at prestigious universities for the class of 2025."
+      },
+      {
+        title: "International Science and Engineering Fair",
+        url: "https://www.societyforscience.org/isef/",
+        snippet: "The International Science and Engineering Fair (ISEF) is the world's largest international pre-college science competition."
+      }
+    ]
+  }
+];
+
+export class FixtureSearchProvider implements SearchProvider {
+  readonly name: SearchProviderName = 'fixture';
+  private fixtures: SearchFixture[];
+
+  constructor(fixtures: SearchFixture[] = DEFAULT_SEARCH_FIXTURES) {
+    this.fixtures = fixtures;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async search(query: string, _options: SearchOptions): Promise<RawSearchResult[]> {
+    console.log(`Performing fixture web search for: ${redactForLog(query)}`);
+    const lowerQuery = query.toLowerCase();
+
+    const fixture = this.fixtures.find(f => f.keywords.some(keyword => lowerQuery.includes(keyword)));
+
+    // Queries without a matching fixture get no results, as an unproductive real search would
+    return fixture ? fixture.results : [];
+  }
+}
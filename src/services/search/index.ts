@@ -0,0 +1,136 @@
+/**
+ * Web Search Service
+ *
+ * This is the main entry point for web search. It selects the search provider
+ * from the environment configuration, normalizes and filters results, and
+ * caches them per query.
+ */
+
+import { env } from '@/config/env';
+import { WebSearchResult } from '../langchain/types';
+import { SearchOptions, SearchProvider, SearchProviderName, WebSearchResponse } from './types';
+import { TavilySearchProvider } from './tavily';
+import { FixtureSearchProvider } from './fixture';
+import { normalizeResults } from './normalize';
+import { redactForLog } from '../redaction';
+
+export * from './types';
+export { normalizeResults, getDomain, matchesDomain } from './normalize';
+export { TavilySearchProvider } from './tavily';
+export { FixtureSearchProvider, DEFAULT_SEARCH_FIXTURES } from './fixture';
+
+const DEFAULT_MAX_RESULTS = 5;
+const MAX_CACHE_ENTRIES = 200;
+
+interface CacheEntry {
+  results: WebSearchResult[];
+  expiresAt: number;
+}
+
+// Results per query, shared across requests
+const searchCache: Map<string, CacheEntry> = new Map();
+
+/**
+ * Create a search provider from the environment configuration
+ */
+export function createSearchProvider(name: SearchProviderName): SearchProvider {
+  switch (name) {
+    case 'tavily':
+      return new TavilySearchProvider(env.TAVILY_API_KEY || '');
+    case 'fixture':
+      return new FixtureSearchProvider();
+    default:
+      throw new Error(`Unknown search provider: ${name}`);
+  }
+}
+
+/**
+ * Get the search provider to use
+ * @param name Provider to use instead of the configured SEARCH_PROVIDER
+ * @returns The provider, or the fixture provider if the requested one is not configured
+ */
+export function getSearchProvider(name: SearchProviderName = env.SEARCH_PROVIDER): SearchProvider {
+  const provider = createSearchProvider(name);
+
+  if (!provider.isConfigured()) {
+    console.log(`Search provider "${name}" is not configured - using fixture results`);
+    return new FixtureSearchProvider();
+  }
+
+  return provider;
+}
+
+function getCacheKey(provider: SearchProviderName, query: string, options: Required<SearchOptions>): string {
+  return JSON.stringify([
+    provider,
+    query.trim().toLowerCase().replace(/\s+/g, ' '),
+    options.maxResults,
+    [...options.allowedDomains].sort(),
+    [...options.blockedDomains].sort()
+  ]);
+}
+
+/**
+ * Search the web
+ * @param query The search query
+ * @param options Result limit and domain lists; the lists are combined with the configured ones
+ * @returns Normalized results, or an error if the search failed
+ */
+export async function searchWeb(
+  query: string,
+  options: SearchOptions & { provider?: SearchProvider } = {}
+): Promise<WebSearchResponse> {
+  const provider = options.provider || getSearchProvider();
+  const resolvedOptions: Required<SearchOptions> = {
+    maxResults: options.maxResults || DEFAULT_MAX_RESULTS,
+    allowedDomains: [...env.SEARCH_ALLOWED_DOMAINS, ...(options.allowedDomains || [])],
+    blockedDomains: [...env.SEARCH_BLOCKED_DOMAINS, ...(options.blockedDomains || [])]
+  };
+
+  if (!query || !query.trim()) {
+    return { success: false, results: [], error: 'Search query is empty', provider: provider.name, cached: false };
+  }
+
+  const cacheKey = getCacheKey(provider.name, query, resolvedOptions);
+  const cached = searchCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    console.log(`Using cached ${provider.name} results for: ${redactForLog(query)}`);
+    return { success: true, results: cached.results, provider: provider.name, cached: true };
+  }
+
+  try {
+    const rawResults = await provider.search(query, resolvedOptions);
+    const results = normalizeResults(rawResults, resolvedOptions);
+
+    console.log(`${provider.name} search for "${query}" returned ${rawResults.length} results, ${results.length} after filtering`);
+
+    if (env.SEARCH_CACHE_TTL_MS > 0) {
+      searchCache.delete(cacheKey);
+      searchCache.set(cacheKey, { results, expiresAt: Date.now() + env.SEARCH_CACHE_TTL_MS });
+
+      // Evict the oldest entries once the cache is full
+      while (searchCache.size > MAX_CACHE_ENTRIES) {
+        const oldestKey = searchCache.keys().next().value;
+        searchCache.delete(oldestKey);
+      }
+    }
+
+    return { success: true, results, provider: provider.name, cached: false };
+  } catch (error) {
+    console.error(`Web search with ${provider.name} failed:`, error);
+    return {
+      success: false,
+      results: [],
+      error: error instanceof Error ? error.message : String(error),
+      provider: provider.name,
+      cached: false
+    };
+  }
+}
+
+/**
+ * Remove all cached search results
+ */
+export function clearSearchCache(): void {
+  searchCache.clear();
+}
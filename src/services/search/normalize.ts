@@ -0,0 +1,114 @@
+/**
+ * Web Search Result Normalization
+ *
+ * Turns provider results into clean WebSearchResult objects and applies
+ * domain allow/deny lists.
+ */
+
+import { WebSearchResult } from '../langchain/types';
+import { RawSearchResult } from './types';
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_SNIPPET_LENGTH = 500;
+
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|ref|ref_src)$/i;
+
+/**
+ * Strips markup and collapses whitespace
+ */
+function cleanText(text: string, maxLength: number): string {
+  const cleaned = text
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return cleaned.length > maxLength
+    ? cleaned.substring(0, maxLength - 3).trimEnd() + '...'
+    : cleaned;
+}
+
+/**
+ * Get the domain of a URL without the www. prefix
+ */
+export function getDomain(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a domain is one of the listed domains or a subdomain of one
+ */
+export function matchesDomain(domain: string, domains: string[]): boolean {
+  return domains.some(listed => domain === listed || domain.endsWith(`.${listed}`));
+}
+
+/**
+ * Canonical form of a URL used to spot duplicates
+ */
+function canonicalUrl(url: URL): string {
+  const canonical = new URL(url.toString());
+  canonical.hash = '';
+  Array.from(canonical.searchParams.keys())
+    .filter(key => TRACKING_PARAMS.test(key))
+    .forEach(key => canonical.searchParams.delete(key));
+  canonical.hostname = canonical.hostname.toLowerCase().replace(/^www\./, '');
+  return canonical.toString().replace(/\/$/, '');
+}
+
+/**
+ * Normalize provider results: drop invalid and duplicate URLs, clean text,
+ * and apply the domain allow/deny lists
+ */
+export function normalizeResults(
+  rawResults: RawSearchResult[],
+  options: { allowedDomains?: string[]; blockedDomains?: string[]; maxResults?: number } = {}
+): WebSearchResult[] {
+  const { allowedDomains = [], blockedDomains = [], maxResults } = options;
+  const seen = new Set<string>();
+  const results: WebSearchResult[] = [];
+
+  for (const raw of rawResults) {
+    if (!raw || !raw.url) continue;
+
+    let url: URL;
+    try {
+      url = new URL(raw.url.trim());
+    } catch {
+      console.warn(`Skipping search result with invalid URL: ${raw.url}`);
+      continue;
+    }
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') continue;
+
+    const domain = url.hostname.toLowerCase().replace(/^www\./, '');
+    if (blockedDomains.length > 0 && matchesDomain(domain, blockedDomains)) continue;
+    if (allowedDomains.length > 0 && !matchesDomain(domain, allowedDomains)) continue;
+
+    const key = canonicalUrl(url);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const result: WebSearchResult = {
+      url: url.toString(),
+      title: cleanText(raw.title || '', MAX_TITLE_LENGTH) || domain,
+      snippet: cleanText(raw.snippet || '', MAX_SNIPPET_LENGTH),
+      source: domain
+    };
+    if (raw.publishedDate) {
+      result.publishedDate = raw.publishedDate;
+    }
+    results.push(result);
+
+    if (maxResults && results.length >= maxResults) break;
+  }
+
+  return results;
+}
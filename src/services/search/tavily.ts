@@ -0,0 +1,78 @@
+/**
+ * Tavily Search Provider
+ *
+ * Adapter for the Tavily search API (https://docs.tavily.com).
+ */
+
+import fetch from 'node-fetch';
+import { RawSearchResult, SearchOptions, SearchProvider, SearchProviderName } from './types';
+
+const TAVILY_API_URL = 'https://api.tavily.com/search';
+const SEARCH_TIMEOUT_MS = 15000; // 15 seconds
+
+interface TavilySearchResponse {
+  results?: Array<{
+    title?: string;
+    url?: string;
+    content?: string;
+    published_date?: string;
+  }>;
+}
+
+export class TavilySearchProvider implements SearchProvider {
+  readonly name: SearchProviderName = 'tavily';
+  private apiKey: string;
+
+  constructor(apiKey: string) {
+    this.apiKey = apiKey;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.apiKey) && this.apiKey !== 'your_tavily_api_key_here';
+  }
+
+  async search(query: string, options: SearchOptions): Promise<RawSearchResult[]> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), SEARCH_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(TAVILY_API_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.apiKey}`
+        },
+        body: JSON.stringify({
+          query,
+          search_depth: 'basic',
+          max_results: options.maxResults,
+          // Let Tavily narrow the search too; the lists are applied again after normalization
+          include_domains: options.allowedDomains && options.allowedDomains.length > 0 ? options.allowedDomains : undefined,
+          exclude_domains: options.blockedDomains && options.blockedDomains.length > 0 ? options.blockedDomains : undefined
+        }),
+        signal: controller.signal as any
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => response.statusText);
+        throw new Error(`Tavily search returned status ${response.status}: ${errorText.substring(0, 200)}`);
+      }
+
+      const data = await response.json() as TavilySearchResponse;
+
+      return (data.results || []).map(result => ({
+        url: result.url,
+        title: result.title,
+        snippet: result.content,
+        publishedDate: result.published_date
+      }));
+    } catch (error) {
+      if (error.name === 'AbortError') {
+        throw new Error(`Tavily search timed out after ${SEARCH_TIMEOUT_MS}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Web Search Type Definitions
+ */
+import { WebSearchResult } from '../langchain/types';
+
+// Providers that can be selected with SEARCH_PROVIDER
+export type SearchProviderName = 'tavily' | 'fixture';
+
+// Options for a single search
+export interface SearchOptions {
+  maxResults?: number;
+  // Only keep results from these domains (and their subdomains)
+  allowedDomains?: string[];
+  // Drop results from these domains (and their subdomains)
+  blockedDomains?: string[];
+}
+
+// A result as returned by a provider, before normalization
+export interface RawSearchResult {
+  url?: string;
+  title?: string;
+  snippet?: string;
+  publishedDate?: string;
+}
+
+// A backend that can run web searches
+export interface SearchProvider {
+  readonly name: SearchProviderName;
+  // Whether the provider has what it needs (keys) to serve requests
+  isConfigured(): boolean;
+  // Run a search; throws on failure
+  search(query: string, options: SearchOptions): Promise<RawSearchResult[]>;
+}
+
+// Result of a web search
+export interface WebSearchResponse {
+  success: boolean;
+  results: WebSearchResult[];
+  error?: string;
+  provider: SearchProviderName;
+  // Whether the results were served from the cache
+  cached: boolean;
+}
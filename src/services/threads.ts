@@ -0,0 +1,271 @@
+/**
+ * Conversation Threads
+ *
+ * Saved conversations a student can come back to, with everything the chat
+ * shows for each message. A thread shares its ID with the conversation it
+ * records, and is stored as a JSON file under data/threads so it survives
+ * restarts and is visible to every API route.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { Message } from '@/types/chat';
+import type { PersonaSelection } from '@/services/openai/types';
+import type { Language } from '@/lib/i18n/languages';
+import type { ConversationSummary } from '@/services/conversations';
+import { getBranch, linkUnparentedMessages, trimMessages } from '@/lib/messageTree';
+
+// A message as stored in a thread; the same shape as the chat UI's Message
+export type ThreadMessage = Omit<Message, 'timestamp' | 'isStreaming' | 'stored'> & {
+  timestamp: string;
+};
+
+export interface Thread {
+  id: string;
+  userId: string;
+  title: string;
+  pinned: boolean;
+  archived: boolean;
+  // Counselor persona chosen for the conversation
+  persona?: PersonaSelection;
+  // Language the counselor last answered in
+  language?: Language;
+  createdAt: string;
+  updatedAt: string;
+  // Every message of every branch, oldest first
+  messages: ThreadMessage[];
+  // Last message of the branch the student was viewing
+  activeMessageId: string | null;
+  // Running summary of the older turns, kept so a resumed conversation has it too
+  summary?: ConversationSummary;
+}
+
+// What the sidebar lists for a thread
+export type ThreadSummary = Omit<Thread, 'messages' | 'summary'> & {
+  messageCount: number;
+  // The start of the last message on the active branch
+  preview: string;
+};
+
+export interface ThreadFilter {
+  // Matched against the title and the text of every message
+  query?: string;
+  // Archived threads are left out unless asked for
+  includeArchived?: boolean;
+}
+
+export type ThreadUpdate = Partial<Pick<Thread, 'title' | 'pinned' | 'archived' | 'persona' | 'language' | 'activeMessageId' | 'summary'>>;
+
+export const DEFAULT_THREAD_TITLE = 'New conversation';
+
+const MAX_TITLE_LENGTH = 80;
+const PREVIEW_LENGTH = 120;
+
+// Messages are discarded once a thread grows past this, those off its active
+// and summarized branches first
+const MAX_THREAD_MESSAGES = 200;
+
+// Thread IDs become file names, so only plain IDs are accepted
+const THREAD_ID_PATTERN = /^[\w-]{1,100}$/;
+
+const getThreadsDir = () => path.join(process.cwd(), 'data', 'threads');
+
+function getThreadPath(threadId: string): string | null {
+  return THREAD_ID_PATTERN.test(threadId) ? path.join(getThreadsDir(), `${threadId}.json`) : null;
+}
+
+function writeThread(thread: Thread): void {
+  const dir = getThreadsDir();
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  fs.writeFileSync(getThreadPath(thread.id)!, JSON.stringify(thread, null, 2));
+}
+
+function readThread(filePath: string): Thread | null {
+  try {
+    const thread = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Thread;
+    // Threads saved before messages were stored as a tree are a single branch
+    thread.messages = linkUnparentedMessages(thread.messages);
+    if (thread.activeMessageId === undefined) {
+      thread.activeMessageId = thread.messages[thread.messages.length - 1]?.id ?? null;
+    }
+    return thread;
+  } catch (error) {
+    console.error(`Error reading thread ${filePath}:`, error);
+    return null;
+  }
+}
+
+function cleanTitle(title: string): string {
+  const singleLine = title.replace(/\s+/g, ' ').trim();
+  return singleLine.length > MAX_TITLE_LENGTH
+    ? `${singleLine.substring(0, MAX_TITLE_LENGTH - 3).trimEnd()}...`
+    : singleLine;
+}
+
+/**
+ * A title for a new thread from the student's first message
+ */
+export function titleFromMessage(message: string): string {
+  // Markdown and citation markers make poor titles
+  const title = cleanTitle(message.replace(/[#*_`>]|\[[WSP]\d*\]/g, ''));
+  return title || DEFAULT_THREAD_TITLE;
+}
+
+/**
+ * Start a thread, optionally for an existing conversation ID
+ */
+export async function createThread(options: {
+  userId: string;
+  id?: string;
+  title?: string;
+  persona?: PersonaSelection;
+  language?: Language;
+}): Promise<Thread> {
+  const id = options.id || `thread_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`;
+  if (!getThreadPath(id)) {
+    throw new Error(`Invalid thread ID "${id}"`);
+  }
+
+  const timestamp = new Date().toISOString();
+  const thread: Thread = {
+    id,
+    userId: options.userId,
+    title: options.title ? cleanTitle(options.title) || DEFAULT_THREAD_TITLE : DEFAULT_THREAD_TITLE,
+    pinned: false,
+    archived: false,
+    persona: options.persona,
+    language: options.language,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    messages: [],
+    activeMessageId: null
+  };
+
+  writeThread(thread);
+  console.log(`Thread created: ${thread.id}`);
+  return thread;
+}
+
+/**
+ * Get a thread by ID
+ */
+export async function getThread(threadId: string): Promise<Thread | null> {
+  const filePath = getThreadPath(threadId);
+  if (!filePath || !fs.existsSync(filePath)) {
+    return null;
+  }
+  return readThread(filePath);
+}
+
+function summarize({ messages, summary, ...thread }: Thread): ThreadSummary {
+  const branch = getBranch(messages, thread.activeMessageId);
+  const last = branch[branch.length - 1];
+  return {
+    ...thread,
+    messageCount: messages.length,
+    preview: last ? last.content.replace(/\s+/g, ' ').substring(0, PREVIEW_LENGTH) : ''
+  };
+}
+
+/**
+ * List a student's threads, pinned first and then most recently active first
+ */
+export async function listThreads(userId: string, filter: ThreadFilter = {}): Promise<ThreadSummary[]> {
+  const dir = getThreadsDir();
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const query = filter.query?.trim().toLowerCase();
+
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .map(file => readThread(path.join(dir, file)))
+    .filter((thread): thread is Thread => !!thread && thread.userId === userId)
+    .filter(thread => filter.includeArchived || !thread.archived)
+    .filter(thread => !query
+      || thread.title.toLowerCase().includes(query)
+      || thread.messages.some(m => m.content.toLowerCase().includes(query)))
+    .sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.updatedAt.localeCompare(a.updatedAt))
+    .map(summarize);
+}
+
+/**
+ * Rename, pin, archive, change the persona or language of, or switch the branch shown for a thread
+ */
+export async function updateThread(threadId: string, updates: ThreadUpdate): Promise<Thread | null> {
+  const thread = await getThread(threadId);
+  if (!thread) {
+    return null;
+  }
+
+  if (updates.title !== undefined) {
+    thread.title = cleanTitle(updates.title) || thread.title;
+  }
+  if (updates.pinned !== undefined) thread.pinned = updates.pinned;
+  if (updates.archived !== undefined) thread.archived = updates.archived;
+  if (updates.persona !== undefined) thread.persona = updates.persona;
+  if (updates.language !== undefined) thread.language = updates.language;
+  if (updates.activeMessageId !== undefined) thread.activeMessageId = updates.activeMessageId;
+  if (updates.summary !== undefined) thread.summary = updates.summary;
+  thread.updatedAt = new Date().toISOString();
+
+  writeThread(thread);
+  return thread;
+}
+
+/**
+ * Add messages to a thread and show the branch ending with the last of them
+ */
+export async function appendThreadMessages(threadId: string, messages: ThreadMessage[]): Promise<Thread> {
+  const thread = await getThread(threadId);
+  if (!thread) {
+    throw new Error(`Thread ${threadId} not found`);
+  }
+
+  thread.messages.push(...messages);
+  thread.activeMessageId = messages[messages.length - 1]?.id ?? thread.activeMessageId;
+  thread.messages = trimMessages(thread.messages, MAX_THREAD_MESSAGES, [
+    thread.activeMessageId,
+    thread.summary?.throughMessageId
+  ]);
+  thread.updatedAt = new Date().toISOString();
+
+  writeThread(thread);
+  return thread;
+}
+
+/**
+ * Add details to a stored message, such as follow-up suggestions made after it was saved
+ * @returns The message, or null when the thread or message is not found
+ */
+export async function updateThreadMessage(
+  threadId: string,
+  messageId: string,
+  updates: Partial<Pick<ThreadMessage, 'followUps'>>
+): Promise<ThreadMessage | null> {
+  const thread = await getThread(threadId);
+  const message = thread?.messages.find(m => m.id === messageId);
+  if (!thread || !message) {
+    return null;
+  }
+
+  Object.assign(message, updates);
+  writeThread(thread);
+  return message;
+}
+
+/**
+ * Delete a thread
+ */
+export async function deleteThread(threadId: string): Promise<boolean> {
+  const filePath = getThreadPath(threadId);
+  if (!filePath || !fs.existsSync(filePath)) {
+    return false;
+  }
+  fs.unlinkSync(filePath);
+  console.log(`Thread deleted: ${threadId}`);
+  return true;
+}
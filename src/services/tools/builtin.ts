@@ -0,0 +1,246 @@
+/**
+ * First-Party Counselor Tools
+ *
+ * Web search, knowledge base search, profile lookup, timeline generation and
+ * competition lookup.
+ */
+
+import { StudentProfile } from '@/components/StudentQuestionnaire';
+import { searchWeb } from '../search';
+import { queryVectorStore } from '../langchain/vectorStore';
+import { getProfile } from '../profile';
+import { generateMonthlyTimeline } from '../recommendations/analysis';
+import { getMajorSpecificCompetitions } from '../recommendations/improved';
+import { webCitationId } from '../openai/citations';
+import { CounselorTool, ToolContext } from './types';
+
+const MAX_DOCUMENT_EXCERPT_LENGTH = 1000;
+
+// Fields covered by the competition catalog; an empty string selects the general list
+const COMPETITION_FIELDS = ['computer science', 'business', 'science', 'math', 'art', 'english', 'psychology', ''];
+
+/**
+ * Load the stored profile of the student making the request, if any
+ */
+async function getContextProfile(context: ToolContext) {
+  if (!context.userId) {
+    return null;
+  }
+  return getProfile({ userId: context.userId });
+}
+
+export const webSearchTool: CounselorTool = {
+  name: 'web_search',
+  title: 'Web search',
+  description: 'Search the web for current information such as deadlines, eligibility rules and program details',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'The search query'
+      }
+    },
+    required: ['query']
+  },
+  permissions: ['web_search'],
+  handler: async (args, context) => {
+    const search = await searchWeb(args.query);
+
+    if (!search.success) {
+      throw new Error(`Web search failed: ${search.error}`);
+    }
+
+    // Labels continue across searches so each result in the answer has a unique one
+    return {
+      data: search.results.map((result, index) => ({
+        citation: webCitationId((context.webResultOffset || 0) + index),
+        ...result
+      })),
+      webSearchResults: search.results
+    };
+  }
+};
+
+export const knowledgeBaseTool: CounselorTool = {
+  name: 'search_knowledge_base',
+  title: 'Knowledge base search',
+  description: 'Search documents uploaded to the knowledge base, such as college requirements and activity lists',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'What to look for in the documents'
+      },
+      limit: {
+        type: 'integer',
+        description: 'Maximum number of passages to return (1-10, default 5)'
+      }
+    },
+    required: ['query']
+  },
+  permissions: ['knowledge_base'],
+  handler: async (args, context) => {
+    const limit = Math.min(Math.max(args.limit || 5, 1), 10);
+    const retrieval = await queryVectorStore(args.query, context.collectionName || 'default', undefined, limit);
+
+    if (!retrieval.success) {
+      throw new Error(retrieval.error || 'Knowledge base search failed');
+    }
+
+    const passages = (retrieval.results || []).map(result => ({
+      text: result.text.length > MAX_DOCUMENT_EXCERPT_LENGTH
+        ? result.text.substring(0, MAX_DOCUMENT_EXCERPT_LENGTH) + '...'
+        : result.text,
+      score: Number(result.score.toFixed(3)),
+      source: result.metadata?.filename || result.metadata?.source || 'unknown'
+    }));
+
+    return {
+      data: passages.length > 0
+        ? { passages }
+        : { passages, note: 'No relevant documents were found in the knowledge base' }
+    };
+  }
+};
+
+export const profileTool: CounselorTool = {
+  name: 'get_student_profile',
+  title: 'Profile lookup',
+  description: "Look up the current student's saved questionnaire profile (grade, intended major, activities, test scores)",
+  parameters: {
+    type: 'object',
+    properties: {},
+    required: []
+  },
+  permissions: ['profile'],
+  handler: async (_args, context) => {
+    const profile = await getContextProfile(context);
+
+    if (!profile) {
+      return { data: { found: false, note: 'The student has not saved a profile yet' } };
+    }
+
+    return {
+      data: {
+        found: true,
+        name: profile.name,
+        gradeLevel: profile.gradeLevel,
+        intendedMajor: profile.intendedMajor,
+        currentActivities: profile.currentActivities,
+        interestedActivities: profile.interestedActivities,
+        satScore: profile.satScore,
+        additionalInfo: profile.additionalInfo,
+        updatedAt: profile.updatedAt
+      }
+    };
+  }
+};
+
+export const timelineTool: CounselorTool = {
+  name: 'generate_timeline',
+  title: 'Timeline planner',
+  description: 'Generate a September-to-August month-by-month plan of academic and extracurricular milestones',
+  parameters: {
+    type: 'object',
+    properties: {
+      gradeLevel: {
+        type: 'string',
+        description: "The student's grade, e.g. \"10th grade\"; defaults to the saved profile"
+      },
+      intendedMajor: {
+        type: 'string',
+        description: "The student's intended major; defaults to the saved profile"
+      }
+    },
+    required: []
+  },
+  permissions: ['planning'],
+  handler: async (args, context) => {
+    // The saved profile is only readable when the request grants it
+    const storedProfile = context.permissions.includes('profile')
+      ? await getContextProfile(context)
+      : null;
+
+    const gradeLevel = args.gradeLevel || storedProfile?.gradeLevel;
+    const intendedMajor = args.intendedMajor || storedProfile?.intendedMajor || '';
+
+    if (!gradeLevel) {
+      throw new Error('The student\'s grade level is needed to build a timeline');
+    }
+
+    const profile = {
+      ...storedProfile,
+      gradeLevel,
+      intendedMajor
+    } as StudentProfile;
+
+    return {
+      data: {
+        gradeLevel,
+        intendedMajor,
+        timeline: generateMonthlyTimeline(profile)
+      }
+    };
+  }
+};
+
+export const competitionTool: CounselorTool = {
+  name: 'find_competitions',
+  title: 'Competition finder',
+  description: 'Look up well-known academic competitions for high school students by field or keyword',
+  parameters: {
+    type: 'object',
+    properties: {
+      field: {
+        type: 'string',
+        description: 'Field of study, e.g. "computer science", "biology", "business"'
+      },
+      keyword: {
+        type: 'string',
+        description: 'Word to match in competition names or descriptions, e.g. "olympiad"'
+      }
+    },
+    required: []
+  },
+  permissions: ['planning'],
+  handler: async (args) => {
+    const entries = args.keyword && !args.field
+      ? COMPETITION_FIELDS.flatMap(field => getMajorSpecificCompetitions(field))
+      : getMajorSpecificCompetitions(args.field || '');
+
+    const seen = new Set<string>();
+    const keyword = (args.keyword || '').toLowerCase();
+
+    const competitions = entries
+      .map(entry => {
+        // Entries are formatted as "[Name](url) - description"
+        const match = entry.match(/^\[([^\]]+)\]\(([^)]+)\)\s*-\s*(.*)$/);
+        return match
+          ? { name: match[1], url: match[2], description: match[3] }
+          : { name: entry, url: '', description: '' };
+      })
+      .filter(competition => {
+        if (seen.has(competition.name)) return false;
+        seen.add(competition.name);
+        return !keyword ||
+          competition.name.toLowerCase().includes(keyword) ||
+          competition.description.toLowerCase().includes(keyword);
+      });
+
+    return {
+      data: competitions.length > 0
+        ? { competitions }
+        : { competitions, note: 'No matching competitions in the catalog' }
+    };
+  }
+};
+
+export const BUILTIN_TOOLS: CounselorTool[] = [
+  webSearchTool,
+  knowledgeBaseTool,
+  profileTool,
+  timelineTool,
+  competitionTool
+];
@@ -0,0 +1,23 @@
+/**
+ * Counselor Tools Service
+ *
+ * This is the main entry point for the tools the counselor model can call.
+ * Importing it registers the first-party tools.
+ */
+
+import { registerTool } from './registry';
+import { BUILTIN_TOOLS } from './builtin';
+
+export * from './types';
+export * from './registry';
+export * from './loop';
+export {
+  BUILTIN_TOOLS,
+  webSearchTool,
+  knowledgeBaseTool,
+  profileTool,
+  timelineTool,
+  competitionTool
+} from './builtin';
+
+BUILTIN_TOOLS.forEach(registerTool);
@@ -0,0 +1,172 @@
+/**
+ * Multi-Step Tool Loop
+ *
+ * Lets the model call tools, read their results and call more tools until it
+ * produces an answer or runs out of iterations.
+ */
+
+import { ChatMessage, ProgressUpdate } from '../openai/types';
+import { WebSearchResult } from '../langchain/types';
+import { LLMCompletionRequest, LLMCompletionResult, LLMProvider, LLMUsage } from '../llm/types';
+import { estimateMessageTokens, estimateTokens } from '../openai/budget';
+import { addUsage } from '../usage';
+import { executeToolCall, getAvailableTools, getTool, toFunctionTools } from './registry';
+import { ToolCallOutcome, ToolContext } from './types';
+import { DEFAULT_LANGUAGE, Language, translate, translatePlural } from '@/lib/i18n';
+
+// Upper bound on model round trips that request tools, so a model cannot loop forever
+export const MAX_TOOL_ITERATIONS = 5;
+
+export interface ToolLoopOptions {
+  provider: LLMProvider;
+  // The first request; tools are filled in from the registry
+  request: Omit<LLMCompletionRequest, 'tools' | 'toolChoice'>;
+  context: ToolContext;
+  maxIterations?: number;
+  // Told about each tool call and its result as they happen
+  onProgress?: (update: ProgressUpdate) => void;
+  // Language of the progress labels
+  language?: Language;
+  // Told the tokens used so far after each completion request, so they are
+  // known even when a later request fails
+  onUsage?: (usage: LLMUsage, usageEstimated: boolean) => void;
+}
+
+export interface ToolLoopResult {
+  completion: LLMCompletionResult;
+  // Number of tool calls run across all iterations
+  toolCallsMade: number;
+  // Names of the tools that were called, in order
+  toolsUsed: string[];
+  webSearchResults: WebSearchResult[];
+  // Number of completion requests sent
+  iterations: number;
+  // Tokens used across all completion requests
+  usage: LLMUsage;
+  // True when the provider did not report usage for some requests and it was estimated
+  usageEstimated: boolean;
+}
+
+/**
+ * Describe a tool call before it runs
+ */
+function describeToolCall(name: string, rawArguments: string, language: Language): ProgressUpdate {
+  if (name === 'web_search') {
+    try {
+      const { query } = JSON.parse(rawArguments || '{}');
+      if (typeof query === 'string' && query) {
+        return { stage: 'web_search', label: translate(language, 'progress.searchingFor', { query }) };
+      }
+    } catch {
+      // Invalid arguments are reported by the tool call itself
+    }
+    return { stage: 'web_search', label: translate(language, 'progress.searching') };
+  }
+  return { stage: 'tool_call', label: translate(language, 'progress.runningTool', { tool: toolTitle(name).toLowerCase() }) };
+}
+
+function toolTitle(name: string): string {
+  return getTool(name)?.title || name;
+}
+
+/**
+ * Describe what a tool call returned
+ */
+function describeToolOutcome(outcome: ToolCallOutcome, durationMs: number, language: Language): ProgressUpdate {
+  let label: string;
+  if (!outcome.success) {
+    label = translate(language, 'progress.toolFailed', { tool: toolTitle(outcome.name) });
+  } else if (outcome.webSearchResults) {
+    label = translatePlural(language, 'progress.webResults', outcome.webSearchResults.length);
+  } else {
+    label = translate(language, 'progress.toolReturned', { tool: toolTitle(outcome.name) });
+  }
+  return { stage: 'tool_result', label, durationMs };
+}
+
+/**
+ * Run a completion, executing tool calls until the model answers
+ * Throws whatever the provider throws
+ */
+export async function runToolLoop({
+  provider,
+  request,
+  context,
+  maxIterations = MAX_TOOL_ITERATIONS,
+  onProgress,
+  language = DEFAULT_LANGUAGE,
+  onUsage
+}: ToolLoopOptions): Promise<ToolLoopResult> {
+  const tools = toFunctionTools(getAvailableTools(context));
+  const messages: ChatMessage[] = [...request.messages];
+  const toolsUsed: string[] = [];
+  const webSearchResults: WebSearchResult[] = [];
+  let toolCallsMade = 0;
+  let iterations = 0;
+  let usage: LLMUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  let usageEstimated = false;
+
+  if (tools.length > 0) {
+    console.log(`Offering tools: ${tools.map(t => t.function.name).join(', ')}`);
+  }
+
+  while (true) {
+    // Once the budget is spent, withhold the tools so the model has to answer
+    const allowTools = tools.length > 0 && iterations < maxIterations;
+    iterations++;
+
+    const completion = await provider.complete({
+      ...request,
+      messages,
+      tools: allowTools ? tools : undefined,
+      toolChoice: allowTools ? 'auto' : undefined
+    });
+    
+    if (completion.usage) {
+      usage = addUsage(usage, completion.usage)!;
+    } else {
+      // Some local runtimes do not report usage, so count it ourselves
+      const promptTokens = estimateMessageTokens(messages);
+      const completionTokens = estimateTokens(completion.content) +
+        estimateTokens(completion.toolCalls ? JSON.stringify(completion.toolCalls) : '');
+      usage = addUsage(usage, { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens })!;
+      usageEstimated = true;
+    }
+    onUsage?.(usage, usageEstimated);
+
+    if (!allowTools || !completion.toolCalls || completion.toolCalls.length === 0) {
+      if (completion.toolCalls && completion.toolCalls.length > 0) {
+        console.warn(`Ignoring ${completion.toolCalls.length} tool calls after reaching the limit of ${maxIterations} tool iterations`);
+      }
+      return { completion, toolCallsMade, toolsUsed, webSearchResults, iterations, usage, usageEstimated };
+    }
+
+    console.log(`Tool calls requested (iteration ${iterations}/${maxIterations}): ${completion.toolCalls.map(c => c.function.name).join(', ')}`);
+
+    messages.push({
+      role: 'assistant',
+      content: completion.content || null,
+      tool_calls: completion.toolCalls
+    });
+
+    for (const toolCall of completion.toolCalls) {
+      onProgress?.(describeToolCall(toolCall.function?.name || 'unknown', toolCall.function?.arguments, language));
+      const toolStart = Date.now();
+      const outcome = await executeToolCall(toolCall, { ...context, webResultOffset: webSearchResults.length });
+      onProgress?.(describeToolOutcome(outcome, Date.now() - toolStart, language));
+
+      toolCallsMade++;
+      toolsUsed.push(outcome.name);
+      if (outcome.webSearchResults) {
+        webSearchResults.push(...outcome.webSearchResults);
+      }
+
+      messages.push({
+        role: 'tool',
+        content: outcome.content,
+        name: outcome.name,
+        tool_call_id: outcome.toolCallId
+      });
+    }
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Counselor Tool Registry
+ *
+ * Keeps the tools the model may call, turns them into function definitions for
+ * the provider, and runs tool calls with argument and permission checks.
+ */
+
+import { FunctionTool, ToolCall } from '../openai/types';
+import { CounselorTool, ToolCallOutcome, ToolContext } from './types';
+
+const toolRegistry: Map<string, CounselorTool> = new Map();
+
+// Tool output is trimmed to this many characters before it goes back to the model
+const MAX_TOOL_RESULT_LENGTH = 8000;
+
+/**
+ * Register a tool, replacing any tool with the same name
+ */
+export function registerTool(tool: CounselorTool): void {
+  if (!/^[a-zA-Z0-9_-]{1,64}$/.test(tool.name)) {
+    throw new Error(`Invalid tool name: ${tool.name}`);
+  }
+  toolRegistry.set(tool.name, tool);
+}
+
+/**
+ * Remove a tool from the registry
+ */
+export function unregisterTool(name: string): boolean {
+  return toolRegistry.delete(name);
+}
+
+/**
+ * Get a registered tool by name
+ */
+export function getTool(name: string): CounselorTool | undefined {
+  return toolRegistry.get(name);
+}
+
+/**
+ * List all registered tools
+ */
+export function listTools(): CounselorTool[] {
+  return Array.from(toolRegistry.values());
+}
+
+/**
+ * Whether the context grants every permission the tool needs
+ */
+function isPermitted(tool: CounselorTool, context: ToolContext): boolean {
+  return tool.permissions.every(permission => context.permissions.includes(permission));
+}
+
+/**
+ * Tools that may be offered to the model for a request
+ */
+export function getAvailableTools(context: ToolContext): CounselorTool[] {
+  return listTools().filter(tool => isPermitted(tool, context));
+}
+
+/**
+ * Convert tools into the function definitions sent to the provider
+ */
+export function toFunctionTools(tools: CounselorTool[]): FunctionTool[] {
+  return tools.map(tool => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters
+    }
+  }));
+}
+
+/**
+ * Check parsed arguments against the tool's JSON schema
+ * Only required properties and primitive types are checked
+ * @returns An error message, or null when the arguments are valid
+ */
+function validateArguments(tool: CounselorTool, args: Record<string, any>): string | null {
+  for (const name of tool.parameters.required || []) {
+    if (args[name] === undefined || args[name] === null || args[name] === '') {
+      return `Missing required argument "${name}"`;
+    }
+  }
+
+  for (const [name, value] of Object.entries(args)) {
+    const schema = tool.parameters.properties[name];
+    if (!schema) {
+      return `Unknown argument "${name}"`;
+    }
+
+    const expected = schema.type;
+    const actual = Array.isArray(value) ? 'array' : typeof value;
+    const matches =
+      !expected ||
+      expected === actual ||
+      (expected === 'integer' && Number.isInteger(value));
+
+    if (!matches) {
+      return `Argument "${name}" must be of type ${expected}`;
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+      return `Argument "${name}" must be one of: ${schema.enum.join(', ')}`;
+    }
+  }
+
+  return null;
+}
+
+function failure(toolCall: ToolCall, error: string): ToolCallOutcome {
+  console.warn(`Tool call ${toolCall.function?.name} failed: ${error}`);
+  return {
+    toolCallId: toolCall.id,
+    name: toolCall.function?.name || 'unknown',
+    content: JSON.stringify({ error }),
+    success: false
+  };
+}
+
+/**
+ * Run a single tool call requested by the model
+ * Failures are reported back to the model as an error payload rather than thrown
+ */
+export async function executeToolCall(toolCall: ToolCall, context: ToolContext): Promise<ToolCallOutcome> {
+  if (toolCall.type !== 'function' || !toolCall.function) {
+    return failure(toolCall, `Unsupported tool call type "${toolCall.type}"`);
+  }
+
+  const tool = toolRegistry.get(toolCall.function.name);
+  if (!tool) {
+    return failure(toolCall, `Unknown tool "${toolCall.function.name}"`);
+  }
+
+  // The model only sees permitted tools, but it can still name others
+  if (!isPermitted(tool, context)) {
+    return failure(toolCall, `Tool "${tool.name}" is not available for this request`);
+  }
+
+  let args: Record<string, any>;
+  try {
+    args = JSON.parse(toolCall.function.arguments || '{}');
+  } catch {
+    return failure(toolCall, 'Arguments are not valid JSON');
+  }
+
+  if (!args || typeof args !== 'object' || Array.isArray(args)) {
+    return failure(toolCall, 'Arguments must be a JSON object');
+  }
+
+  const validationError = validateArguments(tool, args);
+  if (validationError) {
+    return failure(toolCall, validationError);
+  }
+
+  try {
+    console.log(`Running tool ${tool.name} with arguments:`, args);
+    const result = await tool.handler(args, context);
+
+    let content = JSON.stringify(result.data ?? null);
+    if (context.redact) {
+      content = context.redact(content);
+    }
+    if (content.length > MAX_TOOL_RESULT_LENGTH) {
+      content = content.substring(0, MAX_TOOL_RESULT_LENGTH) + '... [truncated]';
+    }
+
+    return {
+      toolCallId: toolCall.id,
+      name: tool.name,
+      content,
+      success: true,
+      webSearchResults: result.webSearchResults
+    };
+  } catch (error) {
+    return failure(toolCall, error instanceof Error ? error.message : String(error));
+  }
+}
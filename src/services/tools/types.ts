@@ -0,0 +1,53 @@
+/**
+ * Counselor Tool Type Definitions
+ */
+import { FunctionParameters } from '../openai/types';
+import { WebSearchResult } from '../langchain/types';
+
+// Capabilities a tool needs; a tool is only offered when the request grants all of them
+export type ToolPermission =
+  | 'web_search'      // Reach the public internet
+  | 'knowledge_base'  // Read uploaded documents
+  | 'profile'         // Read the current student's stored profile
+  | 'planning';       // Run the built-in planning helpers
+
+// What a tool call is allowed to see and do
+export interface ToolContext {
+  permissions: ToolPermission[];
+  // The student the request is made for; tools never accept this from the model
+  userId?: string;
+  // Vector store collection searched by the knowledge base tool
+  collectionName?: string;
+  // Applied to results before they are handed back to the model, e.g. to redact PII
+  redact?: (text: string) => string;
+  // Web results already given to the model in this request, so new ones continue the W1, W2, ... labels
+  webResultOffset?: number;
+}
+
+// Output of a tool handler
+export interface ToolResult {
+  // Data handed back to the model; serialized to JSON
+  data: unknown;
+  // Web search results to surface in the UI alongside the answer
+  webSearchResults?: WebSearchResult[];
+}
+
+// A tool the counselor model can call
+export interface CounselorTool {
+  name: string;
+  // Shown to the student while the tool runs, e.g. "Knowledge base search"
+  title?: string;
+  description: string;
+  parameters: FunctionParameters;
+  permissions: ToolPermission[];
+  handler: (args: Record<string, any>, context: ToolContext) => Promise<ToolResult>;
+}
+
+// The result of running one tool call, ready to send back to the model
+export interface ToolCallOutcome {
+  toolCallId: string;
+  name: string;
+  content: string;
+  success: boolean;
+  webSearchResults?: WebSearchResult[];
+}
@@ -0,0 +1,269 @@
+/**
+ * Usage Ledger
+ *
+ * Records the tokens and estimated cost of every language model call, tagged
+ * with the feature and student it was made for, and aggregates them for the
+ * usage API and the Settings panel.
+ */
+
+import { LLMProviderName, LLMUsage } from '@/services/llm/types';
+
+// Features that make language model calls
+export type UsageFeature =
+  | 'chat'
+  | 'recommendations'
+  | 'kb_answer'
+  | 'project_details'
+  | 'competition_details'
+  | 'memory'
+  | 'followups';
+
+export const USAGE_FEATURES: UsageFeature[] = [
+  'chat',
+  'recommendations',
+  'kb_answer',
+  'project_details',
+  'competition_details',
+  'memory',
+  'followups'
+];
+
+// Who a call was made for; passed down to the code that calls the model
+export interface UsageContext {
+  feature: UsageFeature;
+  userId?: string;
+}
+
+// A single recorded model call
+export interface UsageEntry {
+  id: string;
+  timestamp: string;
+  feature: UsageFeature;
+  userId?: string;
+  provider: LLMProviderName;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // Estimated cost in US dollars
+  estimatedCost: number;
+  // True when the provider did not report token counts and they were estimated
+  tokensEstimated: boolean;
+}
+
+export type UsageInput = Omit<UsageEntry, 'id' | 'timestamp' | 'totalTokens' | 'estimatedCost'> & {
+  timestamp?: string;
+};
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCost: number;
+}
+
+export interface UsageSummary {
+  totals: UsageTotals;
+  byFeature: (UsageTotals & { feature: UsageFeature })[];
+  // Calls without a student are grouped under "anonymous"
+  byUser: (UsageTotals & { userId: string })[];
+  // Days are UTC dates, e.g. "2025-05-01"
+  byDay: (UsageTotals & { day: string })[];
+  byModel: (UsageTotals & { model: string })[];
+}
+
+export interface UsageFilter {
+  userId?: string;
+  feature?: UsageFeature;
+  // ISO dates or timestamps, inclusive
+  from?: string;
+  to?: string;
+}
+
+// Prices in US dollars per million tokens, from OpenAI's published pricing
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gpt-4.1': { input: 2.0, output: 8.0 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10.0 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4-turbo': { input: 10.0, output: 30.0 },
+  'gpt-4-0125-preview': { input: 10.0, output: 30.0 },
+  'gpt-4': { input: 30.0, output: 60.0 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 }
+};
+
+// Oldest entries are discarded once the ledger grows past this
+const MAX_LEDGER_ENTRIES = 10000;
+
+// This will be replaced with an actual database implementation
+// For now we'll use a mock implementation. Next.js can load this module once
+// per API route, so the ledger lives on globalThis for the usage API to see
+// the calls recorded by every other route.
+const usageStore = globalThis as typeof globalThis & { __usageLedger?: UsageEntry[] };
+const usageLedger: UsageEntry[] = usageStore.__usageLedger || (usageStore.__usageLedger = []);
+
+/**
+ * Find the model whose pricing applies to a model name
+ * Dated snapshots such as gpt-4o-2024-08-06 are priced as their base model.
+ */
+export function findPricedModel(model: string): string | undefined {
+  return MODEL_PRICING[model]
+    ? model
+    : Object.keys(MODEL_PRICING)
+        .sort((a, b) => b.length - a.length)
+        .find(name => model.startsWith(`${name}-`));
+}
+
+/**
+ * Estimate the cost of a call in US dollars
+ * Local and mock models are free; unknown OpenAI models are priced as their base model
+ */
+export function estimateCost(
+  provider: LLMProviderName,
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number {
+  if (provider !== 'openai') {
+    return 0;
+  }
+
+  const baseModel = findPricedModel(model);
+  if (!baseModel) {
+    console.warn(`No pricing known for model ${model}; recording its cost as 0`);
+    return 0;
+  }
+
+  const pricing = MODEL_PRICING[baseModel];
+  return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Add provider-reported usage from several completions together
+ */
+export function addUsage(a: LLMUsage | undefined, b: LLMUsage | undefined): LLMUsage | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens
+  };
+}
+
+/**
+ * Record a model call in the ledger
+ *
+ * In the browser (recommendations and detail views call the model client-side)
+ * the entry is sent to the usage API so that every call ends up in one ledger.
+ */
+export async function recordUsage(input: UsageInput): Promise<UsageEntry | null> {
+  if (typeof window !== 'undefined') {
+    try {
+      await fetch('/api/usage', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input)
+      });
+    } catch (error) {
+      console.warn('Failed to report usage:', error);
+    }
+    return null;
+  }
+
+  const entry: UsageEntry = {
+    ...input,
+    id: `usage_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+    timestamp: input.timestamp || new Date().toISOString(),
+    totalTokens: input.promptTokens + input.completionTokens,
+    estimatedCost: estimateCost(input.provider, input.model, input.promptTokens, input.completionTokens)
+  };
+
+  usageLedger.push(entry);
+  if (usageLedger.length > MAX_LEDGER_ENTRIES) {
+    usageLedger.splice(0, usageLedger.length - MAX_LEDGER_ENTRIES);
+  }
+
+  console.log(`Usage recorded: ${entry.feature} ${entry.provider}:${entry.model} ${entry.totalTokens} tokens ($${entry.estimatedCost.toFixed(6)})`);
+  return entry;
+}
+
+function matchesFilter(entry: UsageEntry, filter: UsageFilter): boolean {
+  if (filter.userId && entry.userId !== filter.userId) return false;
+  if (filter.feature && entry.feature !== filter.feature) return false;
+  // Bare dates compare against the entry's date so "to" includes the whole day
+  if (filter.from && entry.timestamp.substring(0, filter.from.length) < filter.from) return false;
+  if (filter.to && entry.timestamp.substring(0, filter.to.length) > filter.to) return false;
+  return true;
+}
+
+/**
+ * List recorded calls, newest first
+ */
+export async function listUsage(filter: UsageFilter = {}, limit = 100): Promise<UsageEntry[]> {
+  return usageLedger
+    .filter(entry => matchesFilter(entry, filter))
+    .slice(-limit)
+    .reverse();
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, estimatedCost: 0 };
+}
+
+function addToTotals(totals: UsageTotals, entry: UsageEntry): void {
+  totals.calls++;
+  totals.promptTokens += entry.promptTokens;
+  totals.completionTokens += entry.completionTokens;
+  totals.totalTokens += entry.totalTokens;
+  totals.estimatedCost += entry.estimatedCost;
+}
+
+function groupTotals(entries: UsageEntry[], keyOf: (entry: UsageEntry) => string): Map<string, UsageTotals> {
+  const groups = new Map<string, UsageTotals>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    if (!groups.has(key)) {
+      groups.set(key, emptyTotals());
+    }
+    addToTotals(groups.get(key)!, entry);
+  }
+  return groups;
+}
+
+/**
+ * Aggregate spend per feature, per student, per day and per model
+ */
+export async function getUsageSummary(filter: UsageFilter = {}): Promise<UsageSummary> {
+  const entries = usageLedger.filter(entry => matchesFilter(entry, filter));
+
+  const totals = emptyTotals();
+  entries.forEach(entry => addToTotals(totals, entry));
+
+  const byCost = <T extends UsageTotals>(a: T, b: T) => b.estimatedCost - a.estimatedCost || b.totalTokens - a.totalTokens;
+
+  return {
+    totals,
+    byFeature: Array.from(groupTotals(entries, e => e.feature))
+      .map(([feature, t]) => ({ feature: feature as UsageFeature, ...t }))
+      .sort(byCost),
+    byUser: Array.from(groupTotals(entries, e => e.userId || 'anonymous'))
+      .map(([userId, t]) => ({ userId, ...t }))
+      .sort(byCost),
+    byDay: Array.from(groupTotals(entries, e => e.timestamp.substring(0, 10)))
+      .map(([day, t]) => ({ day, ...t }))
+      .sort((a, b) => b.day.localeCompare(a.day)),
+    byModel: Array.from(groupTotals(entries, e => `${e.provider}:${e.model}`))
+      .map(([model, t]) => ({ model, ...t }))
+      .sort(byCost)
+  };
+}
+
+/**
+ * Remove all recorded usage
+ */
+export async function clearUsage(): Promise<void> {
+  usageLedger.length = 0;
+}
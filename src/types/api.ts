@@ -2,34 +2,103 @@
  * API Types for Chat Routes
  */
 
-import { ModelInfo } from '@/services/openai/types';
+import { Citation, ModelInfo, ProgressEvent, PromptBudgetReport } from '@/services/openai/types';
+import { ModelAttempt } from '@/services/llm/types';
+import { SourceReference } from '@/services/langchain/types';
+import type { Language } from '@/lib/i18n/languages';
 
 // Request types
 export interface ChatRequest {
+  // May start with a slash command that runs on the server, e.g. "/search <question>"; see src/lib/commands.ts
   message: string;
   pdfContent?: string | null;
   profileContext?: string | null;
   isProfileQuery?: boolean;
   isWebSearch?: boolean;
+  // Opt in to a Server-Sent Events response instead of a single JSON body
+  stream?: boolean;
+  // Continue an existing conversation; a new one is started when omitted
+  conversationId?: string | null;
+  // The student making the request; lets the counselor look up their saved profile
+  userId?: string;
+  // Ground the answer in excerpts retrieved from a knowledge base collection
+  useKnowledgeBase?: boolean;
+  collectionName?: string;
+  topK?: number;
+  // Counselor persona for this and later turns of the conversation; see /api/personas
+  persona?: string;
+  // Pin a persona prompt version; the latest version when omitted
+  personaVersion?: number;
+  // Values for the persona's template variables
+  personaVariables?: Record<string, string>;
+  // Stored message the new turn follows, e.g. the one before an edited question;
+  // the end of the conversation's active branch when omitted, the start when null
+  parentId?: string | null;
+  // Answer the user turn `parentId` again instead of adding a new turn
+  regenerate?: boolean;
+  // "provider:model" to try first, ahead of the configured chain; see /api/models
+  model?: string;
+  // Language code to answer in, e.g. "hi"; detected from the message when omitted or "auto"
+  language?: Language | 'auto';
 }
 
 // Response types
 export interface ChatResponse {
   message: string;
+  conversationId?: string;
   model?: ModelInfo;
+  // Steps guessed from the question's keywords; a fallback for when progress is missing
   thinking?: string[];
+  // What the pipeline actually did, with timings
+  progress?: ProgressEvent[];
   error?: string;
+  webSearchAttempted?: boolean;
   webSearchResults?: {
     url: string;
     title: string;
     snippet: string;
   }[];
+  // Knowledge base excerpts the answer may cite as [S1], [S2], ...
+  sources?: SourceReference[];
+  // Sources cited in the answer, resolved from its [W1], [S1] and [P] markers
+  citations?: Citation[];
+  // Markers that pointed to nonexistent sources and were removed from the answer
+  invalidCitations?: string[];
+  // How the prompt was fitted into the model's context window and what was left out
+  promptBudget?: PromptBudgetReport;
+  // Models tried before one answered, when the fallback chain was used
+  attempts?: ModelAttempt[];
+  // Persona prompt the answer was generated with, e.g. "essay_coach@1"
+  promptVersion?: string;
+  // IDs the question and answer were stored under; no question ID when regenerating
+  userMessageId?: string;
+  messageId?: string;
+  // Two to four questions the student could ask next
+  followUps?: string[];
+  // Language the answer, its progress labels and follow-ups are written in
+  language?: Language;
 }
 
+// Streaming response events, sent as SSE `data:` payloads when `stream` is set
+export type ChatStreamEvent =
+  | { type: 'conversation'; conversationId: string }
+  | { type: 'progress'; event: ProgressEvent }
+  | { type: 'delta'; content: string }
+  | { type: 'webSearchResults'; results: NonNullable<ChatResponse['webSearchResults']> }
+  | { type: 'sources'; sources: SourceReference[] }
+  // Sent after the answer; `content` replaces the streamed text when invalid markers were removed
+  | { type: 'citations'; citations: Citation[]; invalidCitations?: string[]; content?: string }
+  | { type: 'promptBudget'; report: PromptBudgetReport }
+  | { type: 'model'; model: ModelInfo }
+  // Sent after `done`, as suggesting them takes another model call
+  | { type: 'followUps'; followUps: string[] }
+  | { type: 'done'; promptVersion?: string; language?: Language; userMessageId?: string; messageId?: string }
+  | { type: 'error'; error: string; isTimeout?: boolean };
+
 // API error response
 export interface ApiErrorResponse {
   error: string;
   details?: string;
   environment?: string;
   deployed?: boolean;
-} 
\ No newline at end of file
+} 
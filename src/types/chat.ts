@@ -14,6 +14,23 @@ export interface Message {
   content: string;
   modelInfo?: ModelInfo;
   timestamp?: Date;
+  // The message this one follows in the conversation tree; null for the first message
+  parentId?: string | null;
+  // True once the server has stored the message, so later turns can follow or branch from it
+  stored?: boolean;
+  // True while the assistant's answer is still being streamed in
+  isStreaming?: boolean;
+  webSearchResults?: ChatResponse['webSearchResults'];
+  sources?: ChatResponse['sources'];
+  citations?: ChatResponse['citations'];
+  invalidCitations?: ChatResponse['invalidCitations'];
+  promptBudget?: ChatResponse['promptBudget'];
+  // Persona prompt the answer was generated with
+  promptVersion?: ChatResponse['promptVersion'];
+  // Questions offered as chips under the answer
+  followUps?: ChatResponse['followUps'];
+  // Language the answer is written in
+  language?: ChatResponse['language'];
 }
 
 /**